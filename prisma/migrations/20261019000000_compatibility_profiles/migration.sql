@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "compatibility_profiles" (
+    "id" TEXT NOT NULL,
+    "use_case" VARCHAR(100) NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" TEXT,
+    "source_category_id" TEXT NOT NULL,
+    "target_category_id" TEXT NOT NULL,
+    "field_weights" JSONB NOT NULL DEFAULT '{}',
+    "constraints" JSONB NOT NULL DEFAULT '[]',
+    "full_threshold" DOUBLE PRECISION NOT NULL DEFAULT 0.8,
+    "partial_threshold" DOUBLE PRECISION NOT NULL DEFAULT 0.3,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "compatibility_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "compatibility_profiles_use_case_source_category_id_target_category_id_key" ON "compatibility_profiles"("use_case", "source_category_id", "target_category_id");
+
+-- CreateIndex
+CREATE INDEX "compatibility_profiles_source_category_id_idx" ON "compatibility_profiles"("source_category_id");
+
+-- CreateIndex
+CREATE INDEX "compatibility_profiles_target_category_id_idx" ON "compatibility_profiles"("target_category_id");
+
+-- AddForeignKey
+ALTER TABLE "compatibility_profiles" ADD CONSTRAINT "compatibility_profiles_source_category_id_fkey" FOREIGN KEY ("source_category_id") REFERENCES "device_categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "compatibility_profiles" ADD CONSTRAINT "compatibility_profiles_target_category_id_fkey" FOREIGN KEY ("target_category_id") REFERENCES "device_categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "schema_migrations" ADD COLUMN "rollback_data" JSONB;
+ALTER TABLE "schema_migrations" ADD COLUMN "rolled_back_at" TIMESTAMP(3);
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "schema_backfill_jobs" (
+    "id" TEXT NOT NULL,
+    "migration_id" TEXT NOT NULL,
+    "category_id" TEXT NOT NULL,
+    "from_version" VARCHAR(20) NOT NULL,
+    "to_version" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "batch_size" INTEGER NOT NULL DEFAULT 200,
+    "cursor" TEXT,
+    "total_count" INTEGER NOT NULL DEFAULT 0,
+    "processed_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "invalid_count" INTEGER NOT NULL DEFAULT 0,
+    "failures" JSONB NOT NULL DEFAULT '[]',
+    "last_error" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "schema_backfill_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schema_backfill_jobs_migration_id_key" ON "schema_backfill_jobs"("migration_id");
+
+-- CreateIndex
+CREATE INDEX "schema_backfill_jobs_category_id_idx" ON "schema_backfill_jobs"("category_id");
+
+-- CreateIndex
+CREATE INDEX "schema_backfill_jobs_status_idx" ON "schema_backfill_jobs"("status");
+
+-- AddForeignKey
+ALTER TABLE "schema_backfill_jobs" ADD CONSTRAINT "schema_backfill_jobs_migration_id_fkey" FOREIGN KEY ("migration_id") REFERENCES "schema_migrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "unit_system" VARCHAR(10) NOT NULL DEFAULT 'metric';
@@ -0,0 +1,31 @@
+-- Trigram matching of misspelled queries
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Appends the letter and digit runs of model numbers and their form without
+-- separators, so "OLED55C3" also yields "OLED 55 C 3" and "WH-1000XM5" yields "WH1000XM5"
+CREATE OR REPLACE FUNCTION expand_model_numbers(value TEXT) RETURNS TEXT AS $$
+  SELECT concat_ws(' ',
+    value,
+    regexp_replace(value, '([[:alpha:]](?=[[:digit:]])|[[:digit:]](?=[[:alpha:]]))', '\1 ', 'g'),
+    regexp_replace(value, '([[:alnum:]])[-./]+(?=[[:alnum:]])', '\1', 'g'))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- AlterTable
+ALTER TABLE "devices" ADD COLUMN "search_vector" tsvector,
+ADD COLUMN "search_text" TEXT;
+
+-- Backfill the core columns with the default search configuration; searchable
+-- specification fields are added when a device's specification is next written
+UPDATE "devices" SET
+  "search_vector" =
+    setweight(to_tsvector('simple', expand_model_numbers(coalesce("name", ''))), 'A') ||
+    setweight(to_tsvector('simple', expand_model_numbers(coalesce("model", ''))), 'B') ||
+    setweight(to_tsvector('simple', expand_model_numbers(coalesce("brand", ''))), 'C') ||
+    setweight(to_tsvector('english', expand_model_numbers(coalesce("description", ''))), 'D'),
+  "search_text" = concat_ws(' ', "name", "brand");
+
+-- CreateIndex
+CREATE INDEX "devices_search_vector_idx" ON "devices" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "devices_search_text_trgm_idx" ON "devices" USING GIN ("search_text" gin_trgm_ops);
@@ -0,0 +1,10 @@
+-- Prefix matching of search suggestions (lower(column) LIKE 'prefix%')
+
+-- CreateIndex
+CREATE INDEX "devices_brand_prefix_idx" ON "devices" (lower("brand") text_pattern_ops);
+
+-- CreateIndex
+CREATE INDEX "device_categories_name_prefix_idx" ON "device_categories" (lower("name") text_pattern_ops);
+
+-- CreateIndex
+CREATE INDEX "search_tracking_query_prefix_idx" ON "search_tracking" (lower("query") text_pattern_ops);
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "saved_searches" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "search_params" TEXT NOT NULL,
+    "category_id" TEXT,
+    "alerts_enabled" BOOLEAN NOT NULL DEFAULT false,
+    "last_run_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "saved_search_matches" (
+    "id" TEXT NOT NULL,
+    "saved_search_id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "matched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "seen_at" TIMESTAMP(3),
+
+    CONSTRAINT "saved_search_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_searches_user_id_idx" ON "saved_searches"("user_id");
+
+-- CreateIndex
+CREATE INDEX "saved_searches_alerts_enabled_last_run_at_idx" ON "saved_searches"("alerts_enabled", "last_run_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "saved_search_matches_saved_search_id_device_id_key" ON "saved_search_matches"("saved_search_id", "device_id");
+
+-- CreateIndex
+CREATE INDEX "saved_search_matches_device_id_idx" ON "saved_search_matches"("device_id");
+
+-- AddForeignKey
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "device_categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_saved_search_id_fkey" FOREIGN KEY ("saved_search_id") REFERENCES "saved_searches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "devices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
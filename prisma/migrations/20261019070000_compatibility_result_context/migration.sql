@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "compatibility_results" ADD COLUMN "context_key" VARCHAR(200) NOT NULL DEFAULT '';
+
+-- Existing results keep the use case and connection type they were computed for
+UPDATE "compatibility_results" SET
+  "context_key" = concat(coalesce("context" ->> 'useCase', ''), '|', coalesce("context" ->> 'connectionType', ''))
+WHERE "context" ->> 'useCase' IS NOT NULL OR "context" ->> 'connectionType' IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "compatibility_results_source_device_id_target_device_id_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "compatibility_results_pair_context_key" ON "compatibility_results"("source_device_id", "target_device_id", "context_key");
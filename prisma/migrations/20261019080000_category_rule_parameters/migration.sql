@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "category_compatibility_rules" ADD COLUMN "parameters" JSONB;
@@ -0,0 +1,122 @@
+-- Number fields are stored in metric units; imperial units are display units only.
+-- Converts imperial field definitions (in, ft, lb, oz) and the values stored under them.
+-- Definitions keep the unit in "constraints" or, in older rows, at the top level of the field.
+
+-- CreateFunction
+CREATE FUNCTION pg_temp.metric_unit(unit TEXT, OUT symbol TEXT, OUT factor NUMERIC) AS $$
+  SELECT u.symbol, u.factor
+  FROM (VALUES
+    ('in', 'cm', 2.54), ('inch', 'cm', 2.54), ('inches', 'cm', 2.54), ('"', 'cm', 2.54),
+    ('ft', 'm', 0.3048), ('foot', 'm', 0.3048), ('feet', 'm', 0.3048), ('''', 'm', 0.3048),
+    ('lb', 'kg', 0.45359237), ('lbs', 'kg', 0.45359237), ('pound', 'kg', 0.45359237), ('pounds', 'kg', 0.45359237),
+    ('oz', 'g', 28.349523125), ('ounce', 'g', 28.349523125), ('ounces', 'g', 28.349523125)
+  ) AS u(name, symbol, factor)
+  WHERE u.name = lower(trim(unit));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- CreateFunction
+CREATE FUNCTION pg_temp.metric_number(value JSONB, factor NUMERIC) RETURNS JSONB AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'number' THEN to_jsonb(trim_scale(round(value::text::numeric * factor, 12))) ELSE value END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- CreateFunction
+CREATE FUNCTION pg_temp.metric_field(field JSONB) RETURNS JSONB AS $$
+DECLARE
+  converted JSONB := field;
+  target RECORD;
+  path TEXT[];
+  key TEXT;
+  property RECORD;
+BEGIN
+  IF field->>'type' = 'number' THEN
+    path := CASE WHEN field->'constraints' ? 'unit' THEN ARRAY['constraints'] ELSE ARRAY[]::TEXT[] END;
+    SELECT * INTO target FROM pg_temp.metric_unit(field #>> (path || 'unit'));
+    IF target.symbol IS NOT NULL THEN
+      converted := jsonb_set(converted, path || 'unit', to_jsonb(target.symbol));
+      FOREACH key IN ARRAY ARRAY['min', 'max'] LOOP
+        IF converted #> (path || key) IS NOT NULL THEN
+          converted := jsonb_set(converted, path || key, pg_temp.metric_number(converted #> (path || key), target.factor));
+        END IF;
+      END LOOP;
+      IF converted ? 'defaultValue' THEN
+        converted := jsonb_set(converted, '{defaultValue}', pg_temp.metric_number(converted->'defaultValue', target.factor));
+      END IF;
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(field->'items') = 'object' THEN
+    converted := jsonb_set(converted, '{items}', pg_temp.metric_field(field->'items'));
+  END IF;
+  IF jsonb_typeof(field->'properties') = 'object' THEN
+    FOR property IN SELECT * FROM jsonb_each(field->'properties') LOOP
+      converted := jsonb_set(converted, ARRAY['properties', property.key], pg_temp.metric_field(property.value));
+    END LOOP;
+  END IF;
+
+  RETURN converted;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- CreateFunction
+CREATE FUNCTION pg_temp.metric_fields(fields JSONB) RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(f.key, pg_temp.metric_field(f.value)), fields)
+  FROM jsonb_each(CASE WHEN jsonb_typeof(fields) = 'object' THEN fields ELSE '{}' END) AS f;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- CreateFunction
+CREATE FUNCTION pg_temp.metric_value(field JSONB, value JSONB) RETURNS JSONB AS $$
+DECLARE
+  target RECORD;
+  property RECORD;
+  converted JSONB := value;
+BEGIN
+  IF field->>'type' = 'number' THEN
+    SELECT * INTO target FROM pg_temp.metric_unit(COALESCE(field->'constraints'->>'unit', field->>'unit'));
+    RETURN CASE WHEN target.symbol IS NULL THEN value ELSE pg_temp.metric_number(value, target.factor) END;
+  END IF;
+
+  IF jsonb_typeof(field->'items') = 'object' AND jsonb_typeof(value) = 'array' THEN
+    SELECT jsonb_agg(pg_temp.metric_value(field->'items', item.value) ORDER BY item.ordinality)
+      INTO converted
+      FROM jsonb_array_elements(value) WITH ORDINALITY AS item;
+    RETURN COALESCE(converted, value);
+  END IF;
+
+  IF jsonb_typeof(field->'properties') = 'object' AND jsonb_typeof(value) = 'object' THEN
+    FOR property IN SELECT * FROM jsonb_each(field->'properties') LOOP
+      IF value ? property.key THEN
+        converted := jsonb_set(converted, ARRAY[property.key], pg_temp.metric_value(property.value, value->property.key));
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN converted;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ConvertData: values first, while their schema versions still name the imperial units
+UPDATE "device_specifications" AS ds
+SET "specifications" = (
+  SELECT jsonb_object_agg(
+    v.key,
+    CASE WHEN s."fields" ? v.key THEN pg_temp.metric_value(s."fields"->v.key, v.value) ELSE v.value END
+  )
+  FROM jsonb_each(ds."specifications") AS v
+)
+FROM "device_category_schemas" AS s
+WHERE s."category_id" = ds."category_id"
+  AND s."version" = ds."schema_version"
+  AND jsonb_typeof(ds."specifications") = 'object'
+  AND ds."specifications" <> '{}'
+  AND s."fields" IS DISTINCT FROM pg_temp.metric_fields(s."fields");
+
+-- ConvertData
+UPDATE "device_category_schemas"
+SET "fields" = pg_temp.metric_fields("fields")
+WHERE "fields" IS DISTINCT FROM pg_temp.metric_fields("fields");
+
+-- ConvertData
+UPDATE "device_categories"
+SET "attributes" = jsonb_set("attributes", '{schema,fields}', pg_temp.metric_fields("attributes"->'schema'->'fields'))
+WHERE jsonb_typeof("attributes"->'schema'->'fields') = 'object'
+  AND "attributes"->'schema'->'fields' IS DISTINCT FROM pg_temp.metric_fields("attributes"->'schema'->'fields');
@@ -229,10 +229,10 @@ async function main() {
           type: 'number',
           label: 'Screen Size',
           description: 'Diagonal screen size',
-          unit: 'inches',
+          unit: 'cm',
           required: true,
-          min: 10,
-          max: 100
+          min: 25,
+          max: 254
         },
         nativeResolution: {
           type: 'string',
@@ -307,7 +307,7 @@ async function main() {
       schemaVersion: '1.0',
       specifications: {
         panelType: 'OLED',
-        screenSize: 55,
+        screenSize: 139.7,
         nativeResolution: '3840x2160',
         refreshRate: 120,
         responseTime: 1,
@@ -3,15 +3,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { MigrationManager } from '@/lib/schema/migration-manager';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { NotFoundError, ValidationError } from '@/lib/database';
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
+const migrationManager = new MigrationManager();
 
 /**
  * POST /api/admin/migrations/[id]/apply - Apply a migration
+ * Runs the migration's operations, records what they change so the
+ * migration can be rolled back later, and starts the backfill job that
+ * rewrites existing specifications to the new version.
  */
 export async function POST(
   request: NextRequest,
@@ -19,67 +21,37 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    // First, get the migration details
-    const { data: migration, error: fetchError } = await supabase
-      .from('schema_migrations')
-      .select(`
-        *,
-        device_categories!inner(name)
-      `)
-      .eq('id', id)
-      .single();
 
-    if (fetchError) {
-      if (fetchError.code === 'PGRST116') {
-        return NextResponse.json(
-          { success: false, error: 'Migration not found' },
-          { status: 404 }
-        );
-      }
-      throw fetchError;
-    }
-
-    // Check if migration is already applied
-    if (migration.applied_at) {
-      return NextResponse.json(
-        { success: false, error: 'Migration has already been applied' },
-        { status: 400 }
-      );
-    }
-
-    // Apply the migration by updating the applied_at timestamp
-    // In a real implementation, you would also execute the actual migration operations
-    const { data: updatedMigration, error: updateError } = await supabase
-      .from('schema_migrations')
-      .update({
-        applied_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select(`
-        *,
-        device_categories!inner(name)
-      `)
-      .single();
+    await schemaRegistry.initialize();
 
-    if (updateError) {
-      throw updateError;
-    }
-
-    // TODO: In a real implementation, execute the migration operations here
-    // This would involve:
-    // 1. Parsing the operations JSON
-    // 2. Executing schema changes (add/remove fields, update validation rules, etc.)
-    // 3. Migrating existing device data to new schema
-    // 4. Updating device category schema version
+    const result = await migrationManager.applyMigration(id);
 
     return NextResponse.json({
       success: true,
-      data: updatedMigration,
-      message: 'Migration applied successfully'
+      data: result.migration,
+      affectedDevices: result.affectedDevices,
+      generatedIndexes: result.generatedIndexes,
+      backfillJob: result.backfillJob,
+      message: `Migration applied; backfilling ${result.affectedDevices} device specifications`
     });
 
   } catch (error) {
     console.error('Error applying migration:', error);
+
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, error: 'Migration not found' },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { 
         success: false, 
@@ -89,4 +61,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
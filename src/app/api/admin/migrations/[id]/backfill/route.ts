@@ -0,0 +1,95 @@
+/**
+ * API endpoints for migration backfill jobs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { schemaBackfill } from '@/lib/schema/backfill';
+import { schemaRegistry } from '@/lib/schema/registry';
+
+/**
+ * GET /api/admin/migrations/[id]/backfill - Get backfill progress for a migration
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const job = await schemaBackfill.getJobForMigration(id);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'No backfill job found for this migration' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    console.error('Error fetching backfill job:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch backfill job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/migrations/[id]/backfill - Resume a stopped or failed backfill
+ * The job continues from its last committed batch in the background.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const job = await schemaBackfill.getJobForMigration(id);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'No backfill job found for this migration' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      return NextResponse.json(
+        { success: false, error: `Backfill job is already ${job.status}` },
+        { status: 400 }
+      );
+    }
+
+    // The job validates against the migration's target schema
+    await schemaRegistry.initialize();
+
+    schemaBackfill.runJob(job.id).catch(error =>
+      console.error(`Failed to resume backfill job ${job.id}:`, error)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+      message: 'Backfill resumed'
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error resuming backfill job:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to resume backfill job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -23,7 +23,8 @@ export async function GET(request: NextRequest) {
       .from('schema_migrations')
       .select(`
         *,
-        device_categories!inner(name)
+        device_categories!inner(name),
+        schema_backfill_jobs(status, total_count, processed_count, failed_count, invalid_count, last_error, completed_at)
       `)
       .limit(200); // Limit to 200 most recent migrations
 
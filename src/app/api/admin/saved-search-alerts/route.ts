@@ -0,0 +1,44 @@
+/**
+ * API endpoint for running saved search alerts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { savedSearchManager } from '@/lib/saved-searches';
+
+/**
+ * POST /api/admin/saved-search-alerts - Run the saved searches with alerts that are due
+ * Meant to be called by a scheduler. Optional body: { intervalMinutes } - the
+ * minimum time between two runs of a search (default 60).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const intervalMinutes = Number(body.intervalMinutes ?? 60);
+
+    if (!Number.isFinite(intervalMinutes) || intervalMinutes < 0) {
+      return NextResponse.json(
+        { success: false, error: 'intervalMinutes must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await savedSearchManager.runDueAlerts(intervalMinutes * 60 * 1000);
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      message: `Ran ${summary.searched} saved searches; ${summary.newMatches} new matches`
+    });
+
+  } catch (error) {
+    console.error('Error running saved search alerts:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run saved search alerts',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
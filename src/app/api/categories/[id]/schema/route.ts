@@ -4,12 +4,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { SchemaVersionManager } from '@/lib/schema/versioning';
+import { CategorySchema } from '@/lib/schema/types';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { ComputedFieldError } from '@/lib/schema/computed-fields';
+import { FieldUnitError, validateFieldUnits } from '@/lib/schema/units';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+const versionManager = new SchemaVersionManager();
+
 interface RouteParams {
   params: Promise<{
     id: string;
@@ -26,6 +33,31 @@ function toCamelCase(obj: Record<string, unknown>): Record<string, unknown> {
   return result;
 }
 
+// Stored schema rows in the shape the version manager diffs and merges
+function toCategorySchema(row: Record<string, unknown>): CategorySchema {
+  const schema = toCamelCase(row) as unknown as CategorySchema;
+  return {
+    ...schema,
+    fields: schema.fields || {},
+    requiredFields: schema.requiredFields || [],
+    inheritedFields: schema.inheritedFields || []
+  };
+}
+
+function toSchemaRow(schema: CategorySchema): Record<string, unknown> {
+  return {
+    name: schema.name,
+    description: schema.description || null,
+    fields: schema.fields,
+    required_fields: schema.requiredFields,
+    inherited_fields: schema.inheritedFields || [],
+    computed_fields: schema.computedFields || null,
+    validation_rules: schema.validationRules || null,
+    compatibility_rules: schema.compatibilityRules || null,
+    parent_id: schema.parentId || null
+  };
+}
+
 /**
  * GET /api/categories/[id]/schema - Get the latest schema for a category
  */
@@ -182,6 +214,11 @@ export async function POST(request: NextRequest, context: RouteParams) {
       deprecated: false
     };
 
+    await schemaRegistry.initialize();
+    const categorySchema = toCategorySchema({ ...schemaData, id: params.id });
+    schemaRegistry.validateComputedFields(categorySchema);
+    validateFieldUnits(categorySchema.fields, schemaRegistry.getSchema(params.id)?.fields);
+
     // Create new schema
     const { data: newSchema, error } = await supabase
       .from('device_category_schemas')
@@ -200,6 +237,20 @@ export async function POST(request: NextRequest, context: RouteParams) {
     }, { status: 201 });
 
   } catch (error) {
+    if (error instanceof ComputedFieldError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid computed fields', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof FieldUnitError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid field units', details: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error('Error creating category schema:', error);
     return NextResponse.json(
       {
@@ -213,7 +264,11 @@ export async function POST(request: NextRequest, context: RouteParams) {
 }
 
 /**
- * PUT /api/categories/[id]/schema - Update an existing schema
+ * PUT /api/categories/[id]/schema - Save changes to a schema as a new version
+ * Send the version the edit started from as baseVersion. If someone saved a
+ * newer version since, the changes are merged onto it, or rejected with 409
+ * and the conflicting paths. Requests that only change the deprecation flag
+ * update the schema in place.
  */
 export async function PUT(request: NextRequest, context: RouteParams) {
   try {
@@ -222,6 +277,7 @@ export async function PUT(request: NextRequest, context: RouteParams) {
 
     const {
       schemaId,
+      baseVersion,
       name,
       description,
       fields,
@@ -231,56 +287,149 @@ export async function PUT(request: NextRequest, context: RouteParams) {
       validationRules,
       compatibilityRules,
       deprecated,
-      deprecationMessage
+      deprecationMessage,
+      createdBy
     } = body;
 
-    if (!schemaId) {
+    if (!schemaId && !baseVersion) {
       return NextResponse.json(
-        { success: false, error: 'Schema ID is required' },
+        { success: false, error: 'Schema ID or base version is required' },
         { status: 400 }
       );
     }
 
-    // Build update object
-    const updateData: Record<string, unknown> = {};
-    if (name !== undefined) updateData.name = name;
-    if (description !== undefined) updateData.description = description;
-    if (fields !== undefined) updateData.fields = fields;
-    if (requiredFields !== undefined) updateData.required_fields = requiredFields;
-    if (inheritedFields !== undefined) updateData.inherited_fields = inheritedFields;
-    if (computedFields !== undefined) updateData.computed_fields = computedFields;
-    if (validationRules !== undefined) updateData.validation_rules = validationRules;
-    if (compatibilityRules !== undefined) updateData.compatibility_rules = compatibilityRules;
-    if (deprecated !== undefined) updateData.deprecated = deprecated;
-    if (deprecationMessage !== undefined) updateData.deprecation_message = deprecationMessage;
-
-    // Update schema
-    const { data: updatedSchema, error } = await supabase
-      .from('device_category_schemas')
-      .update(updateData)
-      .eq('id', schemaId)
-      .eq('category_id', params.id)
-      .select()
-      .single();
+    const contentUpdates: Partial<CategorySchema> = {};
+    if (name !== undefined) contentUpdates.name = name;
+    if (description !== undefined) contentUpdates.description = description;
+    if (fields !== undefined) contentUpdates.fields = fields;
+    if (requiredFields !== undefined) contentUpdates.requiredFields = requiredFields;
+    if (inheritedFields !== undefined) contentUpdates.inheritedFields = inheritedFields;
+    if (computedFields !== undefined) contentUpdates.computedFields = computedFields;
+    if (validationRules !== undefined) contentUpdates.validationRules = validationRules;
+    if (compatibilityRules !== undefined) contentUpdates.compatibilityRules = compatibilityRules;
+
+    if (Object.keys(contentUpdates).length === 0) {
+      if (!schemaId) {
+        return NextResponse.json(
+          { success: false, error: 'Schema ID is required' },
+          { status: 400 }
+        );
+      }
+      return updateDeprecation(params.id, schemaId, { deprecated, deprecationMessage });
+    }
 
-    if (error) {
-      throw error;
+    // Load the version the edit started from and the latest saved version
+    const baseQuery = supabase
+      .from('device_category_schemas')
+      .select('*')
+      .eq('category_id', params.id);
+    const { data: baseRow, error: baseError } = await (baseVersion
+      ? baseQuery.eq('version', baseVersion)
+      : baseQuery.eq('id', schemaId)
+    ).maybeSingle();
+
+    if (baseError) {
+      throw baseError;
     }
 
-    if (!updatedSchema) {
+    if (!baseRow) {
       return NextResponse.json(
         { success: false, error: 'Schema not found' },
         { status: 404 }
       );
     }
 
+    const { data: latestRows, error: latestError } = await supabase
+      .from('device_category_schemas')
+      .select('*')
+      .eq('category_id', params.id)
+      .eq('deprecated', false)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (latestError) {
+      throw latestError;
+    }
+
+    const baseSchema = toCategorySchema(baseRow);
+    const currentSchema = latestRows?.[0] ? toCategorySchema(latestRows[0]) : baseSchema;
+    let proposedSchema: CategorySchema = { ...baseSchema, ...contentUpdates };
+    let merged = false;
+
+    if (currentSchema.version !== baseSchema.version) {
+      const result = versionManager.mergeSchemas(baseSchema, currentSchema, proposedSchema);
+      if (result.conflicts.length > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Schema was changed to version ${currentSchema.version} by another edit`,
+            details: result.conflicts,
+            data: { currentVersion: currentSchema.version, merged: result.merged }
+          },
+          { status: 409 }
+        );
+      }
+
+      proposedSchema = result.merged;
+      merged = true;
+    }
+
+    const operations = versionManager.generateMigrationOperations(currentSchema, proposedSchema);
+    const bump = versionManager.getVersionBump(currentSchema, proposedSchema, operations);
+    const newVersion = versionManager.incrementVersion(currentSchema.version, bump);
+
+    await schemaRegistry.initialize();
+    schemaRegistry.validateComputedFields({ ...proposedSchema, id: params.id });
+    validateFieldUnits(proposedSchema.fields, currentSchema.fields);
+
+    const { data: newSchema, error } = await supabase
+      .from('device_category_schemas')
+      .insert({
+        ...toSchemaRow(proposedSchema),
+        category_id: params.id,
+        version: newVersion,
+        created_by: createdBy || baseRow.created_by,
+        deprecated: false
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Another save took the same version number first
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: 'Schema was changed by another edit, please save again' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
     return NextResponse.json({
       success: true,
-      data: updatedSchema,
-      message: 'Schema updated successfully'
+      data: newSchema,
+      merged,
+      operations,
+      message: merged
+        ? `Changes merged with version ${currentSchema.version} and saved as ${newVersion}`
+        : `Schema saved as version ${newVersion}`
     });
 
   } catch (error) {
+    if (error instanceof ComputedFieldError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid computed fields', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof FieldUnitError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid field units', details: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error('Error updating category schema:', error);
     return NextResponse.json(
       {
@@ -292,3 +441,38 @@ export async function PUT(request: NextRequest, context: RouteParams) {
     );
   }
 }
+
+async function updateDeprecation(
+  categoryId: string,
+  schemaId: string,
+  { deprecated, deprecationMessage }: { deprecated?: boolean; deprecationMessage?: string }
+) {
+  const updateData: Record<string, unknown> = {};
+  if (deprecated !== undefined) updateData.deprecated = deprecated;
+  if (deprecationMessage !== undefined) updateData.deprecation_message = deprecationMessage;
+
+  const { data: updatedSchema, error } = await supabase
+    .from('device_category_schemas')
+    .update(updateData)
+    .eq('id', schemaId)
+    .eq('category_id', categoryId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!updatedSchema) {
+    return NextResponse.json(
+      { success: false, error: 'Schema not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: updatedSchema,
+    message: 'Schema updated successfully'
+  });
+}
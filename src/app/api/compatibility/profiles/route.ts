@@ -0,0 +1,388 @@
+/**
+ * API endpoints for use-case compatibility profile management
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { compatibilityCache } from '@/lib/schema/compatibility-cache';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { SchemaValidator } from '@/lib/schema/validator';
+import {
+  useCaseProfiles,
+  ProfileConstraint,
+  DEFAULT_FULL_THRESHOLD,
+  DEFAULT_PARTIAL_THRESHOLD
+} from '@/lib/schema/use-case-profiles';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+interface CompatibilityProfile {
+  id?: string;
+  useCase: string;
+  name: string;
+  description?: string;
+  sourceCategoryId: string;
+  targetCategoryId: string;
+  fieldWeights: Record<string, number>;
+  constraints: ProfileConstraint[];
+  fullThreshold?: number;
+  partialThreshold?: number;
+}
+
+interface ProfileRow {
+  id: string;
+  use_case: string;
+  name: string;
+  description: string | null;
+  source_category_id: string;
+  target_category_id: string;
+  field_weights: Record<string, number> | null;
+  constraints: ProfileConstraint[] | null;
+  full_threshold: number;
+  partial_threshold: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * GET /api/compatibility/profiles - List profiles, optionally for one category pair.
+ * Built-in profiles are listed unless the selected pair overrides them.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sourceCategory = searchParams.get('sourceCategory');
+    const targetCategory = searchParams.get('targetCategory');
+
+    let query = supabase
+      .from('compatibility_profiles')
+      .select('*');
+
+    if (sourceCategory) {
+      query = query.eq('source_category_id', sourceCategory);
+    }
+
+    if (targetCategory) {
+      query = query.eq('target_category_id', targetCategory);
+    }
+
+    const { data, error } = await query.order('use_case', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const profiles = (data || []).map(row => ({ ...formatProfile(row), builtIn: false }));
+    const overridden = new Set(sourceCategory && targetCategory ? profiles.map(profile => profile.useCase) : []);
+    const builtIn = useCaseProfiles.getBuiltInProfiles().filter(profile => !overridden.has(profile.useCase));
+
+    return NextResponse.json({
+      success: true,
+      data: [...profiles, ...builtIn]
+    });
+
+  } catch (error) {
+    console.error('Error fetching compatibility profiles:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch compatibility profiles',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/compatibility/profiles - Create a profile for a category pair
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: CompatibilityProfile = await request.json();
+
+    const errors = await validateProfile(body);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid compatibility profile', details: errors },
+        { status: 400 }
+      );
+    }
+
+    // Check if categories exist
+    const { data: sourceCategory } = await supabase
+      .from('device_categories')
+      .select('id')
+      .eq('id', body.sourceCategoryId)
+      .single();
+
+    const { data: targetCategory } = await supabase
+      .from('device_categories')
+      .select('id')
+      .eq('id', body.targetCategoryId)
+      .single();
+
+    if (!sourceCategory || !targetCategory) {
+      return NextResponse.json(
+        { success: false, error: 'One or both categories do not exist' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('compatibility_profiles')
+      .insert(toRow(body))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating compatibility profile:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.code === '23505'
+            ? `A ${body.useCase} profile already exists for this category pair`
+            : 'Failed to create compatibility profile',
+          details: error.message
+        },
+        { status: error.code === '23505' ? 409 : 500 }
+      );
+    }
+
+    await invalidateProfileCategories(data.source_category_id, data.target_category_id);
+
+    return NextResponse.json({
+      success: true,
+      data: formatProfile(data)
+    });
+
+  } catch (error) {
+    console.error('Error creating compatibility profile:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create compatibility profile',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/compatibility/profiles - Update an existing profile
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body: CompatibilityProfile = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json(
+        { success: false, error: 'Profile ID is required for updates' },
+        { status: 400 }
+      );
+    }
+
+    const errors = await validateProfile(body);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid compatibility profile', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing } = await supabase
+      .from('compatibility_profiles')
+      .select('source_category_id, target_category_id')
+      .eq('id', body.id)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Compatibility profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('compatibility_profiles')
+      .update(toRow(body))
+      .eq('id', body.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating compatibility profile:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to update compatibility profile',
+          details: error.message
+        },
+        { status: 500 }
+      );
+    }
+
+    // The profile may have moved to another category pair
+    await invalidateProfileCategories(existing.source_category_id, existing.target_category_id);
+    await invalidateProfileCategories(data.source_category_id, data.target_category_id);
+
+    return NextResponse.json({
+      success: true,
+      data: formatProfile(data)
+    });
+
+  } catch (error) {
+    console.error('Error updating compatibility profile:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update compatibility profile',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/compatibility/profiles?id=... - Delete a profile. Checks for the
+ * pair fall back to the built-in profile of the same name, if any.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Profile ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('compatibility_profiles')
+      .delete()
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error?.code === 'PGRST116' || (!error && !data)) {
+      return NextResponse.json(
+        { success: false, error: 'Compatibility profile not found' },
+        { status: 404 }
+      );
+    }
+
+    if (error) {
+      throw error;
+    }
+
+    await invalidateProfileCategories(data.source_category_id, data.target_category_id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Compatibility profile deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting compatibility profile:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete compatibility profile',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function toRow(profile: CompatibilityProfile) {
+  return {
+    use_case: profile.useCase,
+    name: profile.name,
+    description: profile.description,
+    source_category_id: profile.sourceCategoryId,
+    target_category_id: profile.targetCategoryId,
+    field_weights: profile.fieldWeights || {},
+    constraints: profile.constraints || [],
+    full_threshold: profile.fullThreshold ?? DEFAULT_FULL_THRESHOLD,
+    partial_threshold: profile.partialThreshold ?? DEFAULT_PARTIAL_THRESHOLD,
+    updated_at: new Date().toISOString()
+  };
+}
+
+function formatProfile(row: ProfileRow) {
+  return {
+    id: row.id,
+    useCase: row.use_case,
+    name: row.name,
+    description: row.description,
+    sourceCategoryId: row.source_category_id,
+    targetCategoryId: row.target_category_id,
+    fieldWeights: row.field_weights || {},
+    constraints: row.constraints || [],
+    fullThreshold: row.full_threshold,
+    partialThreshold: row.partial_threshold,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Drop cached compatibility results for the categories a profile touches
+ */
+async function invalidateProfileCategories(sourceCategoryId: string, targetCategoryId: string): Promise<void> {
+  for (const categoryId of new Set([sourceCategoryId, targetCategoryId])) {
+    await compatibilityCache.invalidateCategory(categoryId).catch(error =>
+      console.warn(`Failed to invalidate compatibility cache for category ${categoryId}:`, error)
+    );
+  }
+}
+
+/**
+ * Check the profile shape and, when both category schemas are registered,
+ * type-check constraint conditions against their field definitions
+ */
+async function validateProfile(profile: CompatibilityProfile): Promise<string[]> {
+  if (!profile.sourceCategoryId || !profile.targetCategoryId) {
+    return ['sourceCategoryId and targetCategoryId are required'];
+  }
+
+  const errors = useCaseProfiles.validateProfile({ ...profile, builtIn: false });
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  try {
+    await schemaRegistry.initialize();
+  } catch (error) {
+    console.warn('Schema registry unavailable, skipping profile constraint type-check:', error);
+    return [];
+  }
+
+  const sourceSchema = schemaRegistry.getSchema(profile.sourceCategoryId);
+  const targetSchema = schemaRegistry.getSchema(profile.targetCategoryId);
+  if (!sourceSchema || !targetSchema) {
+    return [];
+  }
+
+  const validator = new SchemaValidator();
+  for (const field of Object.keys(profile.fieldWeights || {})) {
+    if (!(field in sourceSchema.fields)) {
+      errors.push(`Weighted field ${field} is not defined for the source category`);
+    }
+  }
+
+  return [
+    ...errors,
+    ...(profile.constraints || []).flatMap(constraint =>
+      validator.validateCompatibilityRuleCondition({ ...constraint, name: constraint.id }, sourceSchema, targetSchema)
+    )
+  ];
+}
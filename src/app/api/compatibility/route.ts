@@ -4,15 +4,26 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { compatibilityEngine } from '@/lib/schema/compatibility';
-import { handlePrismaError } from '@/lib/database';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { handlePrismaError, NotFoundError, ValidationError } from '@/lib/database';
 
 /**
  * POST /api/compatibility - Check compatibility between two devices
+ * Pass `fresh: true` in the body (or `?fresh=true`) to bypass the result cache.
+ * Pass `suggestAdapters: true` (or `?suggestAdapters=true`) to get cable/adapter
+ * chains for pairs whose connectors are incompatible.
+ * Pass `trace: true` (or `?trace=true`) to recompute the result with a step-by-step
+ * explanation of every rule, field comparison and score change in `data.trace`.
+ * `context.useCase` selects a use-case profile (see /api/compatibility/profiles).
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { sourceDeviceId, targetDeviceId, context } = body;
+    const { searchParams } = new URL(request.url);
+    const fresh = body.fresh === true || searchParams.get('fresh') === 'true';
+    const suggestAdapters = body.suggestAdapters === true || searchParams.get('suggestAdapters') === 'true';
+    const trace = body.trace === true || searchParams.get('trace') === 'true';
 
     if (!sourceDeviceId || !targetDeviceId) {
       return NextResponse.json(
@@ -21,10 +32,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await schemaRegistry.initialize();
+
     const compatibilityResult = await compatibilityEngine.checkCompatibility(
       sourceDeviceId,
       targetDeviceId,
-      context
+      context,
+      { fresh, suggestAdapters, trace }
     );
 
     return NextResponse.json({
@@ -34,8 +48,15 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Error checking compatibility:', error);
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
     
-    if (error instanceof Error && error.message.includes('not found')) {
+    if (error instanceof NotFoundError || (error instanceof Error && error.message.includes('not found'))) {
       return NextResponse.json(
         { success: false, error: error.message },
         { status: 404 }
@@ -55,12 +76,17 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/compatibility - Get cached compatibility results
+ * Pass `useCase` (and `connectionType`) to read the result computed for that context.
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const sourceDeviceId = searchParams.get('sourceDeviceId');
     const targetDeviceId = searchParams.get('targetDeviceId');
+    const context = {
+      useCase: searchParams.get('useCase') || undefined,
+      connectionType: searchParams.get('connectionType') || undefined
+    };
 
     if (!sourceDeviceId || !targetDeviceId) {
       return NextResponse.json(
@@ -69,16 +95,50 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // This would query the compatibility_results table for cached results
-    // For now, return a placeholder response
+    await schemaRegistry.initialize();
+
+    // ?fresh=true recomputes the result instead of reading the cache
+    if (searchParams.get('fresh') === 'true') {
+      const compatibilityResult = await compatibilityEngine.checkCompatibility(
+        sourceDeviceId,
+        targetDeviceId,
+        context,
+        { fresh: true }
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: compatibilityResult,
+        cached: false
+      });
+    }
+
+    const cachedResult = await compatibilityEngine.getCachedCompatibility(sourceDeviceId, targetDeviceId, context);
+
+    if (!cachedResult) {
+      return NextResponse.json({
+        success: true,
+        data: null,
+        message: 'No cached compatibility result found'
+      });
+    }
+
     return NextResponse.json({
       success: true,
-      data: null,
-      message: 'No cached compatibility result found'
+      data: cachedResult,
+      cached: true
     });
 
   } catch (error) {
     console.error('Error fetching compatibility results:', error);
+
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
     handlePrismaError(error);
   }
 }
\ No newline at end of file
@@ -4,6 +4,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { compatibilityCache } from '@/lib/schema/compatibility-cache';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { SchemaValidator } from '@/lib/schema/validator';
+import { parseExpression } from '@/lib/schema/expression';
+import { DEVICE_COLUMN_FIELDS } from '@/lib/schema/compatibility';
+import { CategorySchema } from '@/lib/schema/types';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -23,6 +29,7 @@ interface CompatibilityRule {
   message: string;
   limitations: string[];
   recommendations: string[];
+  parameters?: Record<string, unknown>; // Processor settings, e.g. orientations and clearanceCm of dimension rules
 }
 
 /**
@@ -79,6 +86,7 @@ export async function GET(request: NextRequest) {
       message: rule.message,
       limitations: rule.limitations || [],
       recommendations: rule.recommendations || [],
+      parameters: rule.parameters || {},
       sourceCategory: rule.source_category,
       targetCategory: rule.target_category,
       createdAt: rule.created_at
@@ -138,6 +146,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isValidParameters(body.parameters)) {
+      return NextResponse.json(
+        { success: false, error: 'parameters must be an object' },
+        { status: 400 }
+      );
+    }
+
+    const invalidCondition = await validateRuleCondition(body);
+    if (invalidCondition) {
+      return invalidCondition;
+    }
+
     // Check if categories exist
     const { data: sourceCategory } = await supabase
       .from('device_categories')
@@ -172,7 +192,8 @@ export async function POST(request: NextRequest) {
         compatibility_type: body.compatibilityType,
         message: body.message,
         limitations: body.limitations || [],
-        recommendations: body.recommendations || []
+        recommendations: body.recommendations || [],
+        parameters: body.parameters ?? null
       })
       .select()
       .single();
@@ -189,6 +210,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await invalidateRuleCategories(data.source_category_id, data.target_category_id);
+
     return NextResponse.json({
       success: true,
       data: {
@@ -204,6 +227,7 @@ export async function POST(request: NextRequest) {
         message: data.message,
         limitations: data.limitations || [],
         recommendations: data.recommendations || [],
+        parameters: data.parameters || {},
         createdAt: data.created_at
       }
     });
@@ -250,6 +274,18 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    if (!isValidParameters(body.parameters)) {
+      return NextResponse.json(
+        { success: false, error: 'parameters must be an object' },
+        { status: 400 }
+      );
+    }
+
+    const invalidCondition = await validateRuleCondition(body);
+    if (invalidCondition) {
+      return invalidCondition;
+    }
+
     // Update the rule
     const { data, error } = await supabase
       .from('category_compatibility_rules')
@@ -264,7 +300,8 @@ export async function PUT(request: NextRequest) {
         compatibility_type: body.compatibilityType,
         message: body.message,
         limitations: body.limitations || [],
-        recommendations: body.recommendations || []
+        recommendations: body.recommendations || [],
+        parameters: body.parameters ?? null
       })
       .eq('id', body.id)
       .select()
@@ -289,6 +326,8 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    await invalidateRuleCategories(data.source_category_id, data.target_category_id);
+
     return NextResponse.json({
       success: true,
       data: {
@@ -304,6 +343,7 @@ export async function PUT(request: NextRequest) {
         message: data.message,
         limitations: data.limitations || [],
         recommendations: data.recommendations || [],
+        parameters: data.parameters || {},
         createdAt: data.created_at
       }
     });
@@ -319,4 +359,77 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Drop cached compatibility results for the categories a rule touches
+ */
+async function invalidateRuleCategories(sourceCategoryId: string, targetCategoryId: string): Promise<void> {
+  for (const categoryId of new Set([sourceCategoryId, targetCategoryId])) {
+    await compatibilityCache.invalidateCategory(categoryId).catch(error =>
+      console.warn(`Failed to invalidate compatibility cache for category ${categoryId}:`, error)
+    );
+  }
+}
+
+function isValidParameters(parameters: unknown): boolean {
+  return parameters === undefined || parameters === null ||
+    (typeof parameters === 'object' && !Array.isArray(parameters));
+}
+
+/**
+ * Parse the rule condition and type-check it against the field definitions
+ * of both categories, including the core device columns every device
+ * exposes. Returns the error response when the condition is invalid or
+ * cannot be checked.
+ */
+async function validateRuleCondition(rule: CompatibilityRule): Promise<NextResponse | null> {
+  try {
+    parseExpression(rule.condition);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid rule condition', details: [error instanceof Error ? error.message : String(error)] },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await schemaRegistry.initialize();
+  } catch (error) {
+    console.error('Schema registry unavailable for rule condition type-check:', error);
+    return NextResponse.json(
+      { success: false, error: 'Schema registry unavailable; the rule condition cannot be checked' },
+      { status: 503 }
+    );
+  }
+
+  const missing = [rule.sourceCategoryId, rule.targetCategoryId]
+    .filter(categoryId => !schemaRegistry.getSchema(categoryId));
+  if (missing.length > 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid rule condition',
+        details: [...new Set(missing)].map(categoryId =>
+          `No schema is registered for category '${categoryId}' to check the condition against`)
+      },
+      { status: 400 }
+    );
+  }
+
+  const withDeviceColumns = (schema: CategorySchema): CategorySchema =>
+    ({ ...schema, fields: { ...DEVICE_COLUMN_FIELDS, ...schema.fields } });
+  const errors = new SchemaValidator().validateCompatibilityRuleCondition(
+    rule,
+    withDeviceColumns(schemaRegistry.getSchema(rule.sourceCategoryId)!),
+    withDeviceColumns(schemaRegistry.getSchema(rule.targetCategoryId)!)
+  );
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid rule condition', details: errors },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,97 @@
+/**
+ * API endpoint for reverse compatibility search ("what works with this device")
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reverseCompatibilitySearch } from '@/lib/schema/reverse-compatibility';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { NotFoundError } from '@/lib/database';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * GET /api/devices/[id]/compatible - List devices in a category that work with this device
+ * Query: `categoryId` (required), `minCompatibility` (`partial` | `full`), `limit`, `offset`,
+ * `fresh=true` to bypass the compatibility result cache.
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const params = await context.params;
+    const { searchParams } = new URL(request.url);
+    const categoryId = searchParams.get('categoryId');
+    const minCompatibility = searchParams.get('minCompatibility') || 'partial';
+    const limit = Number(searchParams.get('limit') || 20);
+    const offset = Number(searchParams.get('offset') || 0);
+
+    if (!categoryId) {
+      return NextResponse.json(
+        { success: false, error: 'categoryId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (minCompatibility !== 'partial' && minCompatibility !== 'full') {
+      return NextResponse.json(
+        { success: false, error: 'minCompatibility must be "partial" or "full"' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { success: false, error: 'limit must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { success: false, error: 'offset must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    await schemaRegistry.initialize();
+
+    const result = await reverseCompatibilitySearch.findCompatibleDevices(params.id, {
+      targetCategoryId: categoryId,
+      minCompatibility,
+      limit: Math.min(limit, 100),
+      offset,
+      fresh: searchParams.get('fresh') === 'true'
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.devices,
+      pagination: result.pagination,
+      prefilter: {
+        candidatesChecked: result.candidatesChecked,
+        rules: result.prefilteredRules
+      }
+    });
+
+  } catch (error) {
+    console.error('Error searching compatible devices:', error);
+
+    if (error instanceof NotFoundError || (error instanceof Error && error.message.includes('not found'))) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to search compatible devices',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { fullTextSearch } from '@/lib/schema/full-text-search';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -148,6 +149,10 @@ export async function PUT(
       );
     }
 
+    await fullTextSearch.refreshDevice(id, categoryId).catch(error =>
+      console.warn(`Failed to refresh search document for device ${id}:`, error)
+    );
+
     return NextResponse.json({
       success: true,
       data: updatedDevice
@@ -4,6 +4,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { compatibilityCache } from '@/lib/schema/compatibility-cache';
+import { fullTextSearch } from '@/lib/schema/full-text-search';
+import { schemaRegistry } from '@/lib/schema/registry';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -85,6 +88,24 @@ export async function PUT(request: NextRequest, context: RouteParams) {
       );
     }
 
+    await schemaRegistry.initialize();
+
+    // Store unit-tagged values such as "27 in" in each field's canonical unit
+    const normalized = schemaRegistry.normalizeUnits(categoryId, specifications, schemaVersion);
+    if (normalized.errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid units',
+          details: normalized.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Derive computed fields from the submitted values
+    const computed = schemaRegistry.computeValues(categoryId, normalized.values, schemaVersion);
+
     // Check if specification exists
     const { data: existing } = await supabase
       .from('device_specifications')
@@ -101,7 +122,8 @@ export async function PUT(request: NextRequest, context: RouteParams) {
         .update({
           category_id: categoryId,
           schema_version: schemaVersion,
-          specifications,
+          specifications: normalized.values,
+          computed_values: computed.values,
           confidence_scores: confidenceScores || null,
           sources: sources || null,
           updated_at: new Date().toISOString()
@@ -124,7 +146,8 @@ export async function PUT(request: NextRequest, context: RouteParams) {
           device_id: params.id,
           category_id: categoryId,
           schema_version: schemaVersion,
-          specifications,
+          specifications: normalized.values,
+          computed_values: computed.values,
           confidence_scores: confidenceScores || null,
           sources: sources || null
         })
@@ -139,9 +162,20 @@ export async function PUT(request: NextRequest, context: RouteParams) {
       specification = data;
     }
 
+    // Cached compatibility results for this device are now stale
+    await compatibilityCache.invalidateDevice(params.id).catch(error =>
+      console.warn(`Failed to invalidate compatibility cache for device ${params.id}:`, error)
+    );
+
+    // Searchable specification fields are part of the device's search document
+    await fullTextSearch.refreshDevice(params.id, categoryId).catch(error =>
+      console.warn(`Failed to refresh search document for device ${params.id}:`, error)
+    );
+
     return NextResponse.json({
       success: true,
-      data: specification
+      data: specification,
+      ...(computed.errors.length > 0 ? { warnings: computed.errors } : {})
     });
 
   } catch (error) {
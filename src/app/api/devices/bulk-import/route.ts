@@ -4,6 +4,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { normalizeQuantity } from '@/lib/schema/units';
+import { fullTextSearch } from '@/lib/schema/full-text-search';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -13,10 +16,20 @@ const supabase = createClient(
 interface ImportMapping {
   sourceColumn: string;
   targetField: string;
-  transformation?: 'none' | 'lowercase' | 'uppercase' | 'trim' | 'number' | 'boolean' | 'array' | 'json';
+  transformation?: 'none' | 'lowercase' | 'uppercase' | 'trim' | 'number' | 'boolean' | 'array' | 'json' | 'unit';
+  unit?: string; // Unit of untagged values for the 'unit' transformation
   defaultValue?: any;
 }
 
+// Canonical units of the device dimension columns
+const DEVICE_COLUMN_UNITS: Record<string, string> = {
+  width_cm: 'cm',
+  height_cm: 'cm',
+  depth_cm: 'cm',
+  weight_kg: 'kg',
+  power_watts: 'W'
+};
+
 interface ImportError {
   row: number;
   column: string;
@@ -75,6 +88,10 @@ export async function POST(request: NextRequest) {
       .limit(1)
       .single();
 
+    // Computed fields and field units come from the registered schema
+    await schemaRegistry.initialize();
+    const registeredSchema = schema ? schemaRegistry.getResolvedSchema(categoryId, schema.version) : null;
+
     // Parse file content
     const fileContent = await file.text();
     let rows: any[][] = [];
@@ -132,6 +149,7 @@ export async function POST(request: NextRequest) {
         };
 
         const specifications: any = {};
+        const unitErrors: ImportError[] = [];
         let hasRequiredFields = false;
 
         for (const mapping of mappings) {
@@ -142,7 +160,25 @@ export async function POST(request: NextRequest) {
 
           // Apply transformations
           if (value !== null && value !== undefined && value !== '') {
-            value = applyTransformation(value, mapping.transformation || 'none');
+            if (mapping.transformation === 'unit') {
+              // Convert "27 in" or "2.5 kg" to the unit the target is stored in
+              const targetUnit = DEVICE_COLUMN_UNITS[mapping.targetField] ||
+                registeredSchema?.fields[mapping.targetField]?.constraints?.unit;
+              try {
+                value = normalizeQuantity(value, targetUnit, mapping.unit);
+              } catch (error) {
+                unitErrors.push({
+                  row: rowIndex + 1,
+                  column: mapping.sourceColumn,
+                  field: mapping.targetField,
+                  message: error instanceof Error ? error.message : 'Unknown error',
+                  severity: 'error'
+                });
+                continue;
+              }
+            } else {
+              value = applyTransformation(value, mapping.transformation || 'none');
+            }
           }
 
           // Map to device fields or specifications
@@ -161,6 +197,12 @@ export async function POST(request: NextRequest) {
           }
         }
 
+        if (unitErrors.length > 0) {
+          result.errors.push(...unitErrors);
+          result.failed++;
+          continue;
+        }
+
         // Validate required fields
         if (!deviceData.name || !deviceData.brand) {
           result.errors.push({
@@ -202,6 +244,7 @@ export async function POST(request: NextRequest) {
               category_id: categoryId,
               schema_version: schema.version,
               specifications,
+              computed_values: schemaRegistry.computeValues(categoryId, specifications, schema.version).values,
               confidence_scores: Object.keys(specifications).reduce((acc, key) => {
                 acc[key] = 0.8; // Default confidence for bulk import
                 return acc;
@@ -214,6 +257,10 @@ export async function POST(request: NextRequest) {
           }
         }
 
+        await fullTextSearch.refreshDevice(device.id, categoryId).catch(error =>
+          console.warn(`Failed to build search document for device ${device.id}:`, error)
+        );
+
         result.imported++;
 
       } catch (error) {
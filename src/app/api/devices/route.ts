@@ -4,6 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { fullTextSearch } from '@/lib/schema/full-text-search';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -188,6 +189,10 @@ export async function POST(request: NextRequest) {
       throw error;
     }
 
+    await fullTextSearch.refreshDevice(newDevice.id, categoryId).catch(error =>
+      console.warn(`Failed to build search document for device ${newDevice.id}:`, error)
+    );
+
     // Invalidate caches since new device was created
     const { invalidateAnalyticsCache, cache } = await import('@/lib/cache');
     invalidateAnalyticsCache();
@@ -0,0 +1,117 @@
+/**
+ * API endpoint for a saved search of the authenticated user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest, withErrorHandling } from '@/lib/middleware';
+import { NotFoundError, ValidationError } from '@/lib/database';
+import { savedSearchManager } from '@/lib/saved-searches';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/saved-searches/[id] - Get a saved search with the devices newly matching it
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  return withErrorHandling(withAuth(async (req: AuthenticatedRequest) => {
+    try {
+      const [savedSearch, newMatches] = await Promise.all([
+        savedSearchManager.get(req.user!.id, id),
+        savedSearchManager.getNewMatches(req.user!.id, id)
+      ]);
+
+      return NextResponse.json({
+        success: true,
+        data: { ...savedSearch, newMatches }
+      });
+
+    } catch (error) {
+      return errorResponse(error, 'Failed to fetch saved search');
+    }
+  }))(request);
+}
+
+/**
+ * PUT /api/saved-searches/[id] - Update a saved search
+ * Body: { name?, query?, filters?, alertsEnabled?, markSeen? }; `markSeen`
+ * dismisses the new matches.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  return withErrorHandling(withAuth(async (req: AuthenticatedRequest) => {
+    try {
+      const { name, query, filters, alertsEnabled, markSeen } = await req.json();
+
+      if (markSeen) {
+        await savedSearchManager.markMatchesSeen(req.user!.id, id);
+      }
+
+      const savedSearch = await savedSearchManager.update(req.user!.id, id, {
+        name,
+        query,
+        filters,
+        alertsEnabled
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: savedSearch
+      });
+
+    } catch (error) {
+      return errorResponse(error, 'Failed to update saved search');
+    }
+  }))(request);
+}
+
+/**
+ * DELETE /api/saved-searches/[id] - Delete a saved search
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  return withErrorHandling(withAuth(async (req: AuthenticatedRequest) => {
+    try {
+      await savedSearchManager.delete(req.user!.id, id);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Search deleted successfully'
+      });
+
+    } catch (error) {
+      return errorResponse(error, 'Failed to delete saved search');
+    }
+  }))(request);
+}
+
+function errorResponse(error: unknown, message: string): NextResponse {
+  if (error instanceof NotFoundError) {
+    return NextResponse.json(
+      { success: false, error: 'Saved search not found' },
+      { status: 404 }
+    );
+  }
+
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 400 }
+    );
+  }
+
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
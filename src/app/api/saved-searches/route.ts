@@ -1,35 +1,22 @@
 /**
- * API endpoint for saved searches
+ * API endpoint for saved searches of the authenticated user
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
+import { NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest, withErrorHandling } from '@/lib/middleware';
+import { ValidationError } from '@/lib/database';
+import { savedSearchManager } from '@/lib/saved-searches';
 
 /**
- * GET /api/saved-searches - Get user's saved searches
+ * GET /api/saved-searches - Get the user's saved searches with their new match counts
  */
-export async function GET(request: NextRequest) {
+async function listHandler(req: AuthenticatedRequest): Promise<NextResponse> {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
+    const savedSearches = await savedSearchManager.list(req.user!.id);
 
-    if (!userId) {
-      return NextResponse.json(
-        { success: false, error: 'userId is required' },
-        { status: 400 }
-      );
-    }
-
-    // For now, return empty array since we don't have a saved_searches table yet
-    // This would be implemented when user authentication is fully set up
     return NextResponse.json({
       success: true,
-      data: []
+      data: savedSearches
     });
 
   } catch (error) {
@@ -47,80 +34,44 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/saved-searches - Save a search
+ * Body: { name, query, filters, alertsEnabled } with the search page's
+ * SearchFilters
  */
-export async function POST(request: NextRequest) {
+async function createHandler(req: AuthenticatedRequest): Promise<NextResponse> {
   try {
-    const body = await request.json();
-    const { userId, name, query, filters } = body;
+    const { name, query, filters, alertsEnabled } = await req.json();
 
-    if (!userId || !name) {
-      return NextResponse.json(
-        { success: false, error: 'userId and name are required' },
-        { status: 400 }
-      );
-    }
+    const savedSearch = await savedSearchManager.create(req.user!.id, {
+      name,
+      query,
+      filters,
+      alertsEnabled
+    });
 
-    // For now, return success without saving to database
-    // This would be implemented when user authentication is fully set up
-    // and a saved_searches table is created
-    
     return NextResponse.json({
       success: true,
-      data: {
-        id: Date.now().toString(),
-        userId,
-        name,
-        query,
-        filters,
-        createdAt: new Date().toISOString()
-      }
+      data: savedSearch
     }, { status: 201 });
 
   } catch (error) {
-    console.error('Error saving search:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to save search',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
-  }
-}
-
-/**
- * DELETE /api/saved-searches/[id] - Delete a saved search
- */
-export async function DELETE(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const id = searchParams.get('id');
-
-    if (!id) {
+    if (error instanceof ValidationError) {
       return NextResponse.json(
-        { success: false, error: 'id is required' },
+        { success: false, error: error.message },
         { status: 400 }
       );
     }
 
-    // For now, return success without deleting from database
-    // This would be implemented when user authentication is fully set up
-    
-    return NextResponse.json({
-      success: true,
-      message: 'Search deleted successfully'
-    });
-
-  } catch (error) {
-    console.error('Error deleting saved search:', error);
+    console.error('Error saving search:', error);
     return NextResponse.json(
       {
         success: false,
-        error: 'Failed to delete saved search',
+        error: 'Failed to save search',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     );
   }
 }
+
+export const GET = withErrorHandling(withAuth(listHandler));
+export const POST = withErrorHandling(withAuth(createHandler));
@@ -0,0 +1,53 @@
+/**
+ * API endpoint for the effective schema of a category
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { schemaRegistry } from '@/lib/schema/registry';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * GET /api/schemas/[id]/resolved - Get the schema with everything it inherits
+ * from its ancestors, where each field was defined and overridden, the local
+ * overrides and any override that widens an inherited field
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await schemaRegistry.initialize();
+    const resolvedParams = await params;
+
+    const resolved = schemaRegistry.getResolvedSchema(resolvedParams.id);
+    if (!resolved) {
+      return NextResponse.json(
+        { success: false, error: 'Schema not found' },
+        { status: 404 }
+      );
+    }
+
+    const ancestors = resolved.ancestors.map(categoryId => ({
+      id: categoryId,
+      name: schemaRegistry.getSchema(categoryId)?.name ?? categoryId
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: { ...resolved, ancestors }
+    });
+
+  } catch (error) {
+    console.error('Error resolving schema:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Failed to resolve schema',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
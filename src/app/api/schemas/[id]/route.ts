@@ -3,7 +3,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { schemaRegistry } from '@/lib/schema/registry';
+import { schemaRegistry, SchemaMergeConflictError } from '@/lib/schema/registry';
+import { compatibilityCache } from '@/lib/schema/compatibility-cache';
+import { SchemaInheritanceError } from '@/lib/schema/inheritance';
+import { ComputedFieldError } from '@/lib/schema/computed-fields';
+import { FieldUnitError } from '@/lib/schema/units';
 import { handlePrismaError } from '@/lib/database';
 
 interface RouteParams {
@@ -52,6 +56,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 /**
  * PUT /api/schemas/[id] - Update a schema (creates new version)
+ * Send the version the edit started from as baseVersion; edits made against
+ * an older version are merged, or rejected with 409 and the conflicts.
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
@@ -59,20 +65,59 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const resolvedParams = await params;
     
     const body = await request.json();
-    const { updates, migrationOperations = [] } = body;
+    const { updates, migrationOperations = [], baseVersion } = body;
 
     const updatedSchema = await schemaRegistry.updateSchema(
       resolvedParams.id,
       updates,
-      migrationOperations
+      migrationOperations,
+      { baseVersion }
     );
 
+    // Descendants inherit the change
+    for (const categoryId of [resolvedParams.id, ...schemaRegistry.getDescendants(resolvedParams.id)]) {
+      await invalidateCompatibilityCache(categoryId);
+    }
+
     return NextResponse.json({
       success: true,
       data: updatedSchema
     });
 
   } catch (error) {
+    if (error instanceof SchemaMergeConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Schema was changed by another edit',
+          details: error.conflicts,
+          data: { currentVersion: error.currentVersion, merged: error.merged }
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof SchemaInheritanceError) {
+      return NextResponse.json(
+        { success: false, error: 'Update conflicts with inheriting categories', details: error.conflicts },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof ComputedFieldError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid computed fields', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof FieldUnitError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid field units', details: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error('Error updating schema:', error);
     handlePrismaError(error);
   }
@@ -94,6 +139,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       deprecationMessage: deprecationMessage || 'Schema has been deprecated'
     });
 
+    await invalidateCompatibilityCache(resolvedParams.id);
+
     return NextResponse.json({
       success: true,
       data: updatedSchema,
@@ -104,4 +151,13 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     console.error('Error deprecating schema:', error);
     handlePrismaError(error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Drop cached compatibility results for devices in a category whose schema changed
+ */
+async function invalidateCompatibilityCache(categoryId: string): Promise<void> {
+  await compatibilityCache.invalidateCategory(categoryId).catch(error =>
+    console.warn(`Failed to invalidate compatibility cache for category ${categoryId}:`, error)
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * API endpoint for listing historical schema versions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { schemaRegistry } from '@/lib/schema/registry';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * GET /api/schemas/[id]/versions - List the versions of a schema, newest first
+ * Each version reports whether it is rebuilt from a stored schema, a snapshot
+ * or by replaying migrations. Fetch one with GET /api/schemas/[id]?version=...
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await schemaRegistry.initialize();
+    const resolvedParams = await params;
+
+    if (!schemaRegistry.getSchema(resolvedParams.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Schema not found' },
+        { status: 404 }
+      );
+    }
+
+    const versions = schemaRegistry.listSchemaVersions(resolvedParams.id);
+
+    return NextResponse.json({
+      success: true,
+      data: versions,
+      count: versions.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching schema versions:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Failed to fetch schema versions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API endpoint for search autocomplete suggestions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchSuggestions } from '@/lib/db-utils';
+import { cache, createCacheKey } from '@/lib/cache';
+
+const SUGGESTION_CACHE_TTL = 60; // seconds
+
+/**
+ * GET /api/search/suggest - Ranked suggestions for a partially typed query:
+ * devices, brands, categories and popular past queries
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const limit = Math.min(parseInt(searchParams.get('limit') || '8') || 8, 20);
+
+    if (!query) {
+      return NextResponse.json({ success: true, data: [], cached: false });
+    }
+
+    // Keystrokes of different users share cached suggestions
+    const cacheKey = createCacheKey('search-suggest', { q: query.toLowerCase(), limit });
+    const cachedData = cache.get(cacheKey);
+    if (cachedData) {
+      return NextResponse.json({ success: true, data: cachedData, cached: true });
+    }
+
+    const suggestions = await getSearchSuggestions(query, limit);
+    cache.set(cacheKey, suggestions, SUGGESTION_CACHE_TTL);
+
+    return NextResponse.json({ success: true, data: suggestions, cached: false });
+
+  } catch (error) {
+    console.error('Error fetching search suggestions:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch search suggestions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
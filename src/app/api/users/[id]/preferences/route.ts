@@ -0,0 +1,101 @@
+/**
+ * API endpoints for user display preferences
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const UNIT_SYSTEMS = ['metric', 'imperial'];
+
+/**
+ * GET /api/users/[id]/preferences - Get the user's display preferences
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const params = await context.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { unitSystem: true }
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { unitSystem: user.unitSystem }
+    });
+
+  } catch (error) {
+    console.error('Error fetching user preferences:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch user preferences',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/users/[id]/preferences - Update the user's display preferences.
+ * `unitSystem` selects metric or imperial units for displayed measurements;
+ * stored values are not affected.
+ */
+export async function PUT(request: NextRequest, context: RouteParams) {
+  try {
+    const params = await context.params;
+    const body = await request.json();
+    const { unitSystem } = body;
+
+    if (!UNIT_SYSTEMS.includes(unitSystem)) {
+      return NextResponse.json(
+        { success: false, error: `unitSystem must be one of: ${UNIT_SYSTEMS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: params.id },
+      data: { unitSystem },
+      select: { unitSystem: true }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { unitSystem: user.unitSystem }
+    });
+
+  } catch (error) {
+    // Prisma reports a missing record to update as P2025
+    if ((error as { code?: string })?.code === 'P2025') {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error updating user preferences:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update user preferences',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * API endpoint for whole-setup compatibility analysis of a user's device library
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { setupAnalyzer } from '@/lib/schema/setup-analysis';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { NotFoundError } from '@/lib/database';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/users/[id]/setup-analysis - Check every relevant device pair in the
+ * user's library and the setup-wide power, port and bandwidth budgets.
+ * Pass `deviceIds` to analyze part of the library and `fresh: true` to bypass
+ * the compatibility result cache.
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    const params = await context.params;
+    const { id: userId } = params;
+    const body = await request.json().catch(() => ({}));
+    const { deviceIds } = body;
+
+    if (deviceIds !== undefined && (!Array.isArray(deviceIds) || deviceIds.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'deviceIds must be an array of device IDs' },
+        { status: 400 }
+      );
+    }
+
+    await schemaRegistry.initialize();
+
+    const analysis = await setupAnalyzer.analyzeSetup(userId, {
+      deviceIds,
+      fresh: body.fresh === true
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: analysis
+    });
+
+  } catch (error) {
+    console.error('Error analyzing user setup:', error);
+
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to analyze setup',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
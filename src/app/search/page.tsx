@@ -4,7 +4,8 @@ export const dynamic = 'force-dynamic';
 
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { Search, Filter, X, Save, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { Search, Filter, X, Save, Loader2, ChevronDown, ChevronUp, Cpu, Tag, FolderOpen, History } from 'lucide-react';
+import { highlightMatches } from '@/lib/search-utils';
 
 interface Device {
   id: string;
@@ -33,16 +34,40 @@ interface Facets {
   categories: Array<{ id: string; name: string; count: number }>;
   brands: Array<{ name: string; count: number }>;
   verified: { true: number; false: number };
+  // Counts of each facet leave out its own filter
   specifications: Record<string, {
     type: 'enum' | 'range' | 'boolean';
     label: string;
     options?: string[];
+    counts?: Record<string, number>;
     min?: number;
     max?: number;
+    buckets?: Array<{ min: number; max: number; count: number }>;
     unit?: string;
   }>;
 }
 
+interface Suggestion {
+  type: 'device' | 'brand' | 'category' | 'query';
+  text: string;
+  id?: string;
+  count?: number;
+}
+
+const SUGGESTION_ICONS = {
+  device: Cpu,
+  brand: Tag,
+  category: FolderOpen,
+  query: History
+};
+
+const SUGGESTION_LABELS = {
+  device: 'Device',
+  brand: 'Brand',
+  category: 'Category',
+  query: 'Popular search'
+};
+
 export default function SearchPage() {
   const router = useRouter();
 
@@ -75,6 +100,11 @@ export default function SearchPage() {
   const [weightMin, setWeightMin] = useState('');
   const [weightMax, setWeightMax] = useState('');
 
+  // Autocomplete
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
   // Build search URL
   const buildSearchUrl = useCallback(() => {
     const params = new URLSearchParams();
@@ -162,6 +192,60 @@ export default function SearchPage() {
     return () => clearTimeout(timeoutId);
   }, [updateUrl]);
 
+  // Fetch suggestions while typing
+  useEffect(() => {
+    if (!query.trim()) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search/suggest?q=${encodeURIComponent(query)}`, {
+          signal: controller.signal
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          setSuggestions(result.data);
+          setActiveSuggestion(-1);
+        }
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Failed to fetch suggestions:', error);
+        }
+      }
+    }, 150); // 150ms debounce
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Apply a suggestion: open a device, filter by brand or category, or search a past query
+  const selectSuggestion = (suggestion: Suggestion) => {
+    setShowSuggestions(false);
+    setOffset(0);
+
+    switch (suggestion.type) {
+      case 'device':
+        router.push(`/devices/${suggestion.id}`);
+        break;
+      case 'brand':
+        setSelectedBrand(suggestion.text);
+        setQuery('');
+        break;
+      case 'category':
+        setSelectedCategory(suggestion.id || '');
+        setQuery('');
+        break;
+      default:
+        setQuery(suggestion.text);
+    }
+  };
+
   // Initialize state from client-side URL search params (avoid useSearchParams prerender/runtime issues)
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -242,17 +326,90 @@ export default function SearchPage() {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
               <input
                 type="text"
+                role="combobox"
+                aria-expanded={showSuggestions && suggestions.length > 0}
+                aria-controls="search-suggestions"
+                aria-activedescendant={activeSuggestion >= 0 ? `search-suggestion-${activeSuggestion}` : undefined}
                 placeholder="Search devices by name, brand, or model..."
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setShowSuggestions(true);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
                 onKeyDown={(e) => {
+                  if (showSuggestions && suggestions.length > 0) {
+                    if (e.key === 'ArrowDown') {
+                      e.preventDefault();
+                      setActiveSuggestion((activeSuggestion + 1) % suggestions.length);
+                      return;
+                    }
+                    if (e.key === 'ArrowUp') {
+                      e.preventDefault();
+                      setActiveSuggestion(activeSuggestion <= 0 ? suggestions.length - 1 : activeSuggestion - 1);
+                      return;
+                    }
+                    if (e.key === 'Escape') {
+                      setShowSuggestions(false);
+                      return;
+                    }
+                    if (e.key === 'Enter' && activeSuggestion >= 0) {
+                      e.preventDefault();
+                      selectSuggestion(suggestions[activeSuggestion]);
+                      return;
+                    }
+                  }
                   if (e.key === 'Enter') {
+                    setShowSuggestions(false);
                     setOffset(0);
                     performSearch();
                   }
                 }}
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
+
+              {/* Suggestions */}
+              {showSuggestions && suggestions.length > 0 && (
+                <ul
+                  id="search-suggestions"
+                  role="listbox"
+                  className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden"
+                >
+                  {suggestions.map((suggestion, index) => {
+                    const Icon = SUGGESTION_ICONS[suggestion.type];
+                    return (
+                      <li
+                        key={`${suggestion.type}-${suggestion.id || suggestion.text}`}
+                        id={`search-suggestion-${index}`}
+                        role="option"
+                        aria-selected={index === activeSuggestion}
+                        // Select before the input loses focus and closes the list
+                        onMouseDown={(e) => {
+                          e.preventDefault();
+                          selectSuggestion(suggestion);
+                        }}
+                        onMouseEnter={() => setActiveSuggestion(index)}
+                        className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${
+                          index === activeSuggestion ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <Icon className="w-4 h-4 text-gray-400" />
+                        <span className="flex-1 text-gray-900">
+                          {highlightMatches(suggestion.text, query).map((part, i) =>
+                            part.match ? (
+                              <mark key={i} className="bg-transparent font-semibold text-blue-700">{part.text}</mark>
+                            ) : (
+                              <span key={i}>{part.text}</span>
+                            )
+                          )}
+                        </span>
+                        <span className="text-xs text-gray-400">{SUGGESTION_LABELS[suggestion.type]}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
             </div>
             <button
               onClick={() => {
@@ -353,7 +510,9 @@ export default function SearchPage() {
                       }}
                       className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
-                    <span className="text-sm text-gray-700">Verified devices only</span>
+                    <span className="text-sm text-gray-700">
+                      Verified devices only{facets && ` (${facets.verified.true})`}
+                    </span>
                   </label>
                 </div>
 
@@ -481,10 +640,24 @@ export default function SearchPage() {
                             >
                               <option value="">Any</option>
                               {spec.options.map((opt) => (
-                                <option key={opt} value={opt}>{opt}</option>
+                                <option key={opt} value={opt}>
+                                  {opt}{spec.counts && ` (${spec.counts[opt] ?? 0})`}
+                                </option>
                               ))}
                             </select>
                           )}
+                          {spec.type === 'range' && spec.buckets && spec.buckets.length > 1 && (
+                            <div className="flex items-end gap-px h-8 mb-1" aria-hidden="true">
+                              {spec.buckets.map((bucket, i) => (
+                                <div
+                                  key={i}
+                                  title={`${bucket.min.toFixed(1)}–${bucket.max.toFixed(1)}: ${bucket.count}`}
+                                  className="flex-1 bg-blue-200 rounded-t"
+                                  style={{ height: `${(bucket.count / Math.max(...spec.buckets!.map(b => b.count), 1)) * 100}%` }}
+                                />
+                              ))}
+                            </div>
+                          )}
                           {spec.type === 'range' && (
                             <div className="grid grid-cols-2 gap-2">
                               <input
@@ -536,7 +709,9 @@ export default function SearchPage() {
                                 }}
                                 className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                               />
-                              <span className="text-sm text-gray-700">Yes</span>
+                              <span className="text-sm text-gray-700">
+                                Yes{spec.counts && ` (${spec.counts.true ?? 0})`}
+                              </span>
                             </label>
                           )}
                         </div>
@@ -4,9 +4,10 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Plus, Search, Filter, Grid, List, Star, Trash2, Edit, Eye } from 'lucide-react';
 import { CategorySpecificDisplay } from './admin/CategorySpecificDisplay';
+import { UnitSystem } from '@/lib/schema/units';
 
 interface Device {
   id: string;
@@ -58,12 +59,30 @@ export function UserDeviceLibrary({
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [sortBy, setSortBy] = useState<'name' | 'brand' | 'category' | 'added'>('added');
   const [expandedDevice, setExpandedDevice] = useState<string | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | undefined>(undefined);
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/users/${userId}/preferences`);
+      const data = await response.json();
+
+      if (data.success) {
+        setUnitSystem(data.data.unitSystem);
+      }
+    } catch (error) {
+      console.error('Failed to fetch user preferences:', error);
+    }
+  }, [userId]);
 
   useEffect(() => {
     fetchUserDevices();
     fetchCategories();
   }, [userId]);
 
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
   const fetchUserDevices = async () => {
     setLoading(true);
     try {
@@ -80,6 +99,19 @@ export function UserDeviceLibrary({
     }
   };
 
+  const updateUnitSystem = async (system: UnitSystem) => {
+    setUnitSystem(system);
+    try {
+      await fetch(`/api/users/${userId}/preferences`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ unitSystem: system })
+      });
+    } catch (error) {
+      console.error('Failed to update user preferences:', error);
+    }
+  };
+
   const fetchCategories = async () => {
     try {
       const response = await fetch('/api/categories');
@@ -248,6 +280,7 @@ export function UserDeviceLibrary({
             <CategorySpecificDisplay
               deviceId={device.id}
               categoryId={device.category.id}
+              unitSystem={unitSystem}
             />
             
             {/* Additional Device Info */}
@@ -361,6 +394,7 @@ export function UserDeviceLibrary({
             <CategorySpecificDisplay
               deviceId={device.id}
               categoryId={device.category.id}
+              unitSystem={unitSystem}
             />
           </div>
         )}
@@ -427,6 +461,16 @@ export function UserDeviceLibrary({
               <option value="brand">Brand</option>
               <option value="category">Category</option>
             </select>
+
+            {/* Units */}
+            <select
+              value={unitSystem || 'metric'}
+              onChange={(e) => updateUnitSystem(e.target.value as UnitSystem)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="metric">Metric Units</option>
+              <option value="imperial">Imperial Units</option>
+            </select>
           </div>
 
           {/* View Mode */}
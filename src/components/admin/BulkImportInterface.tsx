@@ -36,7 +36,8 @@ interface CategorySchema {
 interface ImportMapping {
   sourceColumn: string;
   targetField: string;
-  transformation?: 'none' | 'lowercase' | 'uppercase' | 'trim' | 'number' | 'boolean' | 'array' | 'json';
+  transformation?: 'none' | 'lowercase' | 'uppercase' | 'trim' | 'number' | 'boolean' | 'array' | 'json' | 'unit';
+  unit?: string;
   defaultValue?: any;
 }
 
@@ -588,7 +589,17 @@ export function BulkImportInterface({ categoryId, onImportComplete }: BulkImport
                       <option value="boolean">Convert to Boolean</option>
                       <option value="array">Split to Array</option>
                       <option value="json">Parse JSON</option>
+                      <option value="unit">Convert Units</option>
                     </select>
+                    {mapping.transformation === 'unit' && (
+                      <input
+                        type="text"
+                        value={mapping.unit || ''}
+                        onChange={(e) => updateMapping(index, 'unit', e.target.value || undefined)}
+                        className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Unit of untagged values, e.g., in"
+                      />
+                    )}
                   </div>
                   
                   <div className="flex items-end">
@@ -20,6 +20,13 @@ import {
 import Link from 'next/link';
 import { SchemaEditor, SchemaField } from './SchemaEditor';
 import { SchemaFormPreview } from './SchemaFormPreview';
+import { EffectiveSchemaPanel } from './EffectiveSchemaPanel';
+import {
+  SchemaConflictResolver,
+  SchemaConflict,
+  MergedSchema,
+  resolveSchemaConflicts
+} from './SchemaConflictResolver';
 
 interface CategorySchemaManagementProps {
   categoryId: string;
@@ -89,6 +96,11 @@ export function CategorySchemaManagement({ categoryId }: CategorySchemaManagemen
   const [showImpactAnalysis, setShowImpactAnalysis] = useState(false);
   const [impactData, setImpactData] = useState<ImpactData | null>(null);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [mergeConflict, setMergeConflict] = useState<{
+    currentVersion: string;
+    merged: MergedSchema;
+    conflicts: SchemaConflict[];
+  } | null>(null);
   const [successMessage, setSuccessMessage] = useState<string>('');
   const [initialLoad, setInitialLoad] = useState(true);
 
@@ -296,6 +308,7 @@ export function CategorySchemaManagement({ categoryId }: CategorySchemaManagemen
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             schemaId: currentSchema.id,
+            baseVersion: currentSchema.version,
             ...payload
           })
         });
@@ -311,11 +324,15 @@ export function CategorySchemaManagement({ categoryId }: CategorySchemaManagemen
       const data = await response.json();
 
       if (response.ok) {
-        setSuccessMessage(currentSchema ? 'Schema updated successfully' : 'Schema created successfully');
+        setSuccessMessage(data.message || (currentSchema ? 'Schema updated successfully' : 'Schema created successfully'));
         setShowImpactAnalysis(false);
         setTimeout(() => {
           router.push(`/admin/categories/${categoryId}`);
         }, 1500);
+      } else if (response.status === 409 && Array.isArray(data.details) && data.data?.merged) {
+        // Someone saved a newer version; let the user settle what could not be merged
+        setMergeConflict({ currentVersion: data.data.currentVersion, merged: data.data.merged, conflicts: data.details });
+        setValidationErrors([data.error]);
       } else {
         setValidationErrors([data.error || 'Failed to save schema']);
       }
@@ -327,6 +344,25 @@ export function CategorySchemaManagement({ categoryId }: CategorySchemaManagemen
     }
   };
 
+  const handleResolveConflicts = (choices: Record<string, 'current' | 'proposed'>) => {
+    if (!mergeConflict) return;
+
+    const resolved = resolveSchemaConflicts(mergeConflict.merged, mergeConflict.conflicts, choices);
+    setFields(Object.entries(resolved.fields).map(([name, field]) => ({
+      ...(field as unknown as SchemaField),
+      name
+    })));
+    setRequiredFields(resolved.requiredFields);
+    setSchemaName(resolved.name);
+    setSchemaDescription(resolved.description || '');
+
+    // The resolved edit is based on the version that was saved in the meantime
+    setSchemaVersion(mergeConflict.currentVersion);
+    setCurrentSchema(prev => prev && { ...prev, version: mergeConflict.currentVersion });
+    setMergeConflict(null);
+    setValidationErrors([]);
+  };
+
   const handleExport = async () => {
     try {
       const response = await fetch(`/api/categories/${categoryId}/schema/export`);
@@ -684,9 +720,15 @@ export function CategorySchemaManagement({ categoryId }: CategorySchemaManagemen
                 type="text"
                 value={schemaVersion}
                 onChange={(e) => setSchemaVersion(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                readOnly={!!currentSchema}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent read-only:bg-gray-50"
                 placeholder="e.g., 1.0, 2.0"
               />
+              {currentSchema && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Saving creates the next major, minor or patch version depending on the changes
+                </p>
+              )}
             </div>
 
             <div>
@@ -714,6 +756,16 @@ export function CategorySchemaManagement({ categoryId }: CategorySchemaManagemen
         </div>
       )}
 
+      {/* Merge Conflicts */}
+      {mergeConflict && (
+        <SchemaConflictResolver
+          currentVersion={mergeConflict.currentVersion}
+          conflicts={mergeConflict.conflicts}
+          onResolve={handleResolveConflicts}
+          onCancel={() => setMergeConflict(null)}
+        />
+      )}
+
       {/* Schema Editor and Preview */}
       {!showTemplateSelector && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -738,6 +790,11 @@ export function CategorySchemaManagement({ categoryId }: CategorySchemaManagemen
         </div>
       )}
 
+      {/* Effective schema with inherited fields */}
+      {!showTemplateSelector && currentSchema && (
+        <EffectiveSchemaPanel categoryId={categoryId} />
+      )}
+
       {/* Actions */}
       {!showTemplateSelector && (
         <div className="flex items-center justify-end space-x-3 bg-white rounded-lg border border-gray-200 p-6">
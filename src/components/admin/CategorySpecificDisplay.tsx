@@ -6,10 +6,13 @@
 
 import { useState, useEffect } from 'react';
 import { AlertCircle, Loader2 } from 'lucide-react';
+import { formatQuantity, UnitSystem } from '@/lib/schema/units';
 
 interface CategorySpecificDisplayProps {
   deviceId: string;
   categoryId: string;
+  // Measurements are shown in the stored unit when unset
+  unitSystem?: UnitSystem;
 }
 
 interface FieldDefinition {
@@ -30,7 +33,7 @@ interface DeviceSpecification {
   };
 }
 
-export function CategorySpecificDisplay({ deviceId, categoryId }: CategorySpecificDisplayProps) {
+export function CategorySpecificDisplay({ deviceId, categoryId, unitSystem }: CategorySpecificDisplayProps) {
   const [specification, setSpecification] = useState<DeviceSpecification | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -91,6 +94,9 @@ export function CategorySpecificDisplay({ deviceId, categoryId }: CategorySpecif
         return String(value);
       
       case 'number':
+        if (unitSystem && fieldDef.unit && typeof value === 'number') {
+          return formatQuantity(value, fieldDef.unit, unitSystem);
+        }
         return fieldDef.unit ? `${value} ${fieldDef.unit}` : String(value);
       
       default:
@@ -7,6 +7,7 @@
 import { useState, useEffect } from 'react';
 import { DynamicFormField } from './DynamicFormField';
 import { AlertCircle, Loader2 } from 'lucide-react';
+import { isFieldRequired, isFieldVisible } from '@/lib/schema/field-conditions';
 
 interface CategorySpecificFieldsProps {
   categoryId: string;
@@ -27,6 +28,10 @@ interface FieldDefinition {
   options?: string[];
   placeholder?: string;
   default?: any;
+  visibleWhen?: string;
+  requiredWhen?: string;
+  items?: FieldDefinition;
+  properties?: Record<string, FieldDefinition>;
 }
 
 interface CategorySchema {
@@ -147,6 +152,13 @@ export function CategorySpecificFields({
     );
   }
 
+  // Fields whose condition on other fields does not hold are hidden as values change
+  const units = Object.fromEntries(
+    Object.entries(schema.fields).map(([fieldName, fieldDef]) => [fieldName, fieldDef.unit])
+  );
+  const visibleFields = Object.entries(schema.fields)
+    .filter(([, fieldDef]) => isFieldVisible(fieldDef, specifications, { units }));
+
   // Render dynamic fields
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-6">
@@ -160,14 +172,18 @@ export function CategorySpecificFields({
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {Object.entries(schema.fields).map(([fieldName, fieldDef]) => (
-          <div key={fieldName} className={fieldDef.type === 'object' ? 'md:col-span-2' : ''}>
+        {visibleFields.map(([fieldName, fieldDef]) => (
+          <div key={fieldName} className={fieldDef.type === 'object' || fieldDef.items ? 'md:col-span-2' : ''}>
             <DynamicFormField
               fieldName={fieldName}
-              fieldDef={fieldDef as FieldDefinition}
+              fieldDef={{
+                ...fieldDef,
+                required: isFieldRequired(fieldDef, specifications, !!fieldDef.required, { units })
+              }}
               value={specifications[fieldName]}
               onChange={handleFieldChange}
               error={errors[fieldName]}
+              errors={errors}
             />
           </div>
         ))}
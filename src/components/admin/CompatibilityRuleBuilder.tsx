@@ -197,13 +197,13 @@ export function CompatibilityRuleBuilder({
       if (sourceFieldDef.type === 'number' && targetFieldDef.type === 'number') {
         template = `source >= target * 0.8`; // 80% compatibility threshold
       } else if (sourceFieldDef.type === 'string' && targetFieldDef.type === 'string') {
-        template = `source.toLowerCase() === target.toLowerCase()`;
+        template = `lower(source) == lower(target)`;
       } else if (sourceFieldDef.type === 'enum' && targetFieldDef.type === 'enum') {
-        template = `source === target`;
+        template = `source == target`;
       } else if (sourceFieldDef.type === 'array' && targetFieldDef.type === 'array') {
-        template = `source.some(item => target.includes(item))`;
+        template = `overlaps(source, target)`;
       } else {
-        template = `source === target`;
+        template = `source == target`;
       }
     } else {
       // Fallback: infer type from field name for basic device fields
@@ -213,9 +213,9 @@ export function CompatibilityRuleBuilder({
       if (numberFields.includes(rule.sourceField) && numberFields.includes(rule.targetField)) {
         template = `source >= target * 0.8`;
       } else if (stringFields.includes(rule.sourceField) && stringFields.includes(rule.targetField)) {
-        template = `source.toLowerCase() === target.toLowerCase()`;
+        template = `lower(source) == lower(target)`;
       } else {
-        template = `source === target`;
+        template = `source == target`;
       }
     }
 
@@ -275,7 +275,11 @@ export function CompatibilityRuleBuilder({
         onSave?.(data.data);
       } else {
         const error = await response.json();
-        setErrors({ general: error.error || 'Failed to save rule' });
+        if (Array.isArray(error.details)) {
+          setErrors({ condition: error.details.join('; ') });
+        } else {
+          setErrors({ general: error.error || 'Failed to save rule' });
+        }
       }
     } catch (error) {
       console.error('Failed to save rule:', error);
@@ -492,7 +496,7 @@ export function CompatibilityRuleBuilder({
         <h3 className="text-lg font-medium text-gray-900 mb-4">Compatibility Condition</h3>
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            JavaScript Condition *
+            Rule Condition *
           </label>
           <textarea
             value={rule.condition}
@@ -505,7 +509,7 @@ export function CompatibilityRuleBuilder({
           />
           {errors.condition && <p className="mt-1 text-sm text-red-600">{errors.condition}</p>}
           <p className="mt-2 text-xs text-gray-500">
-            Use &apos;source&apos; and &apos;target&apos; to reference field values. Example: source &gt;= target * 0.8
+            Use &apos;source&apos; and &apos;target&apos; to reference field values. Supports and, or, not, in, contains, units (e.g. 27in) and helpers like min, max and abs. Example: source &gt;= target * 0.8
           </p>
         </div>
 
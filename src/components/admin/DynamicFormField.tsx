@@ -4,7 +4,10 @@
 
 'use client';
 
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import { isFieldRequired, isFieldVisible } from '@/lib/schema/field-conditions';
+import { childPath } from '@/lib/schema/field-paths';
+import { normalizeQuantity } from '@/lib/schema/units';
 
 interface FieldDefinition {
   type: 'string' | 'number' | 'boolean' | 'enum' | 'array' | 'object' | 'date' | 'url' | 'email';
@@ -18,6 +21,10 @@ interface FieldDefinition {
   options?: string[];
   placeholder?: string;
   default?: unknown;
+  visibleWhen?: string;
+  requiredWhen?: string;
+  items?: FieldDefinition;
+  properties?: Record<string, FieldDefinition>;
 }
 
 interface DynamicFormFieldProps {
@@ -26,6 +33,11 @@ interface DynamicFormFieldProps {
   value: unknown;
   onChange: (fieldName: string, value: unknown) => void;
   error?: string;
+  // Values of the other fields, to evaluate visibleWhen/requiredWhen
+  values?: Record<string, unknown>;
+  units?: Record<string, string | undefined>;
+  // Errors of nested values, keyed by JSON pointer
+  errors?: Record<string, string>;
 }
 
 export function DynamicFormField({ 
@@ -33,9 +45,17 @@ export function DynamicFormField({
   fieldDef, 
   value, 
   onChange,
-  error 
+  error,
+  values,
+  units,
+  errors
 }: DynamicFormFieldProps) {
-  
+  if (values && !isFieldVisible(fieldDef, values, { units })) {
+    return null;
+  }
+
+  const required = values ? isFieldRequired(fieldDef, values, !!fieldDef.required, { units }) : fieldDef.required;
+
   const renderField = () => {
     const baseClasses = `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
       error ? 'border-red-300' : 'border-gray-300'
@@ -53,11 +73,44 @@ export function DynamicFormField({
             className={baseClasses}
             placeholder={fieldDef.placeholder || fieldDef.label}
             pattern={fieldDef.pattern}
-            required={fieldDef.required}
+            required={required}
           />
         );
 
       case 'number':
+        if (fieldDef.unit) {
+          // Accepts input with a unit, e.g. "27 in", converted to the field unit on blur
+          return (
+            <div className="relative">
+              <input
+                type="text"
+                inputMode="decimal"
+                key={String(value ?? '')}
+                defaultValue={value === null || value === undefined ? '' : String(value)}
+                onBlur={(e) => {
+                  const input = e.target.value.trim();
+                  if (!input) {
+                    onChange(fieldName, null);
+                    return;
+                  }
+                  try {
+                    onChange(fieldName, normalizeQuantity(input, fieldDef.unit));
+                  } catch {
+                    // Kept as entered so validation reports it
+                    onChange(fieldName, input);
+                  }
+                }}
+                className={baseClasses}
+                placeholder={fieldDef.placeholder || `0 ${fieldDef.unit}`}
+                required={required}
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
+                {fieldDef.unit}
+              </span>
+            </div>
+          );
+        }
+
         return (
           <div className="relative">
             <input
@@ -69,13 +122,8 @@ export function DynamicFormField({
               min={fieldDef.min}
               max={fieldDef.max}
               step="any"
-              required={fieldDef.required}
+              required={required}
             />
-            {fieldDef.unit && (
-              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">
-                {fieldDef.unit}
-              </span>
-            )}
           </div>
         );
 
@@ -100,7 +148,7 @@ export function DynamicFormField({
             value={String(value || '')}
             onChange={(e) => onChange(fieldName, e.target.value)}
             className={baseClasses}
-            required={fieldDef.required}
+            required={required}
           >
             <option value="">Select {fieldDef.label}</option>
             {fieldDef.options?.map((option) => (
@@ -118,11 +166,50 @@ export function DynamicFormField({
             value={String(value || '')}
             onChange={(e) => onChange(fieldName, e.target.value)}
             className={baseClasses}
-            required={fieldDef.required}
+            required={required}
           />
         );
 
       case 'array':
+        if (fieldDef.items) {
+          // One nested editor per item
+          const items = Array.isArray(value) ? value : [];
+          const itemDef = { ...fieldDef.items, label: fieldDef.items.label || fieldDef.label };
+          return (
+            <div className="space-y-3">
+              {items.map((item, index) => (
+                <div key={index} className="flex items-start space-x-2 border border-gray-200 rounded-lg p-3">
+                  <div className="flex-1">
+                    <DynamicFormField
+                      fieldName={childPath(fieldName, index)}
+                      fieldDef={{ ...itemDef, label: `${itemDef.label} ${index + 1}`, required: true }}
+                      value={item}
+                      onChange={(_, itemValue) => onChange(fieldName, items.map((current, i) => i === index ? itemValue : current))}
+                      error={errors?.[childPath(fieldName, index)]}
+                      errors={errors}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onChange(fieldName, items.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => onChange(fieldName, [...items, itemDef.default ?? (itemDef.type === 'object' ? {} : null)])}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add {itemDef.label}</span>
+              </button>
+            </div>
+          );
+        }
+
         // Simple array input - comma-separated values
         return (
           <div>
@@ -138,7 +225,7 @@ export function DynamicFormField({
               }}
               className={baseClasses}
               placeholder="Enter values separated by commas"
-              required={fieldDef.required}
+              required={required}
             />
             <p className="mt-1 text-xs text-gray-500">
               Enter multiple values separated by commas
@@ -147,6 +234,32 @@ export function DynamicFormField({
         );
 
       case 'object':
+        if (fieldDef.properties) {
+          // One nested editor per property
+          const objectValue = typeof value === 'object' && value !== null && !Array.isArray(value)
+            ? value as Record<string, unknown>
+            : {};
+          return (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border border-gray-200 rounded-lg p-4">
+              {Object.entries(fieldDef.properties).map(([propertyName, propertyDef]) => (
+                <div
+                  key={propertyName}
+                  className={propertyDef.type === 'object' || propertyDef.items ? 'md:col-span-2' : ''}
+                >
+                  <DynamicFormField
+                    fieldName={childPath(fieldName, propertyName)}
+                    fieldDef={propertyDef}
+                    value={objectValue[propertyName]}
+                    onChange={(_, propertyValue) => onChange(fieldName, { ...objectValue, [propertyName]: propertyValue })}
+                    error={errors?.[childPath(fieldName, propertyName)]}
+                    errors={errors}
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        }
+
         // Simple JSON object input
         return (
           <div>
@@ -164,7 +277,7 @@ export function DynamicFormField({
               className={baseClasses}
               rows={4}
               placeholder='{"key": "value"}'
-              required={fieldDef.required}
+              required={required}
             />
             <p className="mt-1 text-xs text-gray-500">
               Enter valid JSON object
@@ -189,7 +302,7 @@ export function DynamicFormField({
     <div>
       <label className="block text-sm font-medium text-gray-700 mb-2">
         {fieldDef.label}
-        {fieldDef.required && <span className="text-red-500 ml-1">*</span>}
+        {required && <span className="text-red-500 ml-1">*</span>}
         {fieldDef.unit && <span className="text-gray-500 ml-1">({fieldDef.unit})</span>}
       </label>
       
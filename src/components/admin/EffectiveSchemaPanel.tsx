@@ -0,0 +1,139 @@
+/**
+ * Effective Schema Panel - Resolved schema of a category with what it
+ * inherits from its ancestors next to its local overrides
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertTriangle, GitBranch } from 'lucide-react';
+
+interface ResolvedField {
+  type: string;
+  constraints?: Record<string, unknown>;
+  metadata: { label: string };
+}
+
+interface ResolvedSchema {
+  version: string;
+  ancestors: Array<{ id: string; name: string }>;
+  fields: Record<string, ResolvedField>;
+  localFields: Record<string, ResolvedField>;
+  requiredFields: string[];
+  fieldSources: Record<string, { definedIn: string; overriddenIn: string[] }>;
+  inheritanceConflicts: Array<{ categoryId: string; field: string; message: string }>;
+}
+
+interface EffectiveSchemaPanelProps {
+  categoryId: string;
+}
+
+function formatConstraints(constraints?: Record<string, unknown>): string {
+  const entries = Object.entries(constraints || {}).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) return '—';
+
+  return entries
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+    .join('; ');
+}
+
+export function EffectiveSchemaPanel({ categoryId }: EffectiveSchemaPanelProps) {
+  const [schema, setSchema] = useState<ResolvedSchema | null>(null);
+
+  useEffect(() => {
+    const fetchResolved = async () => {
+      try {
+        const response = await fetch(`/api/schemas/${categoryId}/resolved`);
+        const data = await response.json();
+        setSchema(data.success ? data.data : null);
+      } catch (error) {
+        console.error('Failed to fetch effective schema:', error);
+      }
+    };
+
+    fetchResolved();
+  }, [categoryId]);
+
+  if (!schema) return null;
+
+  const categoryName = (id: string) =>
+    id === categoryId ? 'this category' : schema.ancestors.find(ancestor => ancestor.id === id)?.name || id;
+
+  const describeSource = (fieldName: string) => {
+    const source = schema.fieldSources[fieldName];
+    if (source.definedIn === categoryId) return 'Local';
+
+    const inherited = `Inherited from ${categoryName(source.definedIn)}`;
+    if (source.overriddenIn.length === 0) return inherited;
+
+    return `${inherited}, narrowed in ${source.overriddenIn.map(categoryName).join(', ')}`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <GitBranch className="w-5 h-5 text-gray-500" />
+          <h2 className="text-lg font-semibold text-gray-900">Effective Schema</h2>
+        </div>
+        <span className="text-sm text-gray-500">
+          {schema.ancestors.length > 0
+            ? `Inherits from ${schema.ancestors.map(ancestor => ancestor.name).join(' → ')}`
+            : 'No parent category'}
+        </span>
+      </div>
+
+      {schema.inheritanceConflicts.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-600" />
+            <h3 className="text-sm font-medium text-yellow-800">Overrides that widen inherited fields</h3>
+          </div>
+          <ul className="list-disc list-inside space-y-1 text-sm text-yellow-700">
+            {schema.inheritanceConflicts.map((conflict, index) => (
+              <li key={index}>{conflict.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Field</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Type</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Effective Constraints</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Local Override</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Source</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {Object.entries(schema.fields).map(([fieldName, field]) => {
+              const local = schema.localFields[fieldName];
+              const inherited = schema.fieldSources[fieldName].definedIn !== categoryId;
+
+              return (
+                <tr key={fieldName}>
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-gray-900">{field.metadata.label}</div>
+                    <div className="text-xs text-gray-500">
+                      {fieldName}
+                      {schema.requiredFields.includes(fieldName) && ' · required'}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">{field.type}</td>
+                  <td className="px-4 py-2 text-gray-700">{formatConstraints(field.constraints)}</td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {local && inherited ? formatConstraints(local.constraints) : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-gray-500">{describeSource(fieldName)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -33,6 +33,17 @@ interface Migration {
   device_categories: {
     name: string;
   };
+  schema_backfill_jobs: BackfillProgress | null;
+}
+
+interface BackfillProgress {
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  total_count: number;
+  processed_count: number;
+  failed_count: number;
+  invalid_count: number;
+  last_error: string | null;
+  completed_at: string | null;
 }
 
 export function MigrationManagement() {
@@ -52,6 +63,17 @@ export function MigrationManagement() {
     fetchMigrations();
   }, []);
 
+  // Poll while backfill jobs are in progress
+  const backfillRunning = migrations.some(migration =>
+    migration.applied_at && ['pending', 'running'].includes(migration.schema_backfill_jobs?.status ?? '')
+  );
+  useEffect(() => {
+    if (!backfillRunning) return;
+
+    const interval = setInterval(fetchMigrations, 3000);
+    return () => clearInterval(interval);
+  }, [backfillRunning]);
+
   const fetchMigrations = async () => {
     try {
       const response = await fetch('/api/admin/migrations');
@@ -148,7 +170,10 @@ export function MigrationManagement() {
         setSelectedMigration(null);
       } else {
         console.error('Failed to rollback migration:', result.error);
-        alert('Failed to rollback migration: ' + result.error);
+        const conflicts = Array.isArray(result.details)
+          ? '\n\n' + result.details.map((conflict: { message: string }) => conflict.message).join('\n')
+          : '';
+        alert('Failed to rollback migration: ' + result.error + conflicts);
       }
     } catch (error) {
       console.error('Failed to rollback migration:', error);
@@ -158,6 +183,28 @@ export function MigrationManagement() {
     }
   };
 
+  const handleResumeBackfill = async (migration: Migration) => {
+    setActionLoading('backfill');
+    try {
+      const response = await fetch(`/api/admin/migrations/${migration.id}/backfill`, {
+        method: 'POST'
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        await fetchMigrations(); // Refresh the list
+      } else {
+        console.error('Failed to resume backfill:', result.error);
+        alert('Failed to resume backfill: ' + result.error);
+      }
+    } catch (error) {
+      console.error('Failed to resume backfill:', error);
+      alert('Failed to resume backfill');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleDeleteMigration = (migration: Migration) => {
     setSelectedMigration(migration);
     setShowDeleteDialog(true);
@@ -274,6 +321,9 @@ export function MigrationManagement() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Backfill
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Created
                 </th>
@@ -302,6 +352,13 @@ export function MigrationManagement() {
                   <td className="px-6 py-4">
                     <StatusBadge applied={!!migration.applied_at} />
                   </td>
+                  <td className="px-6 py-4">
+                    {migration.applied_at && migration.schema_backfill_jobs ? (
+                      <BackfillStatus job={migration.schema_backfill_jobs} />
+                    ) : (
+                      <span className="text-sm text-gray-500">-</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 text-sm text-gray-500">
                     {new Date(migration.created_at).toLocaleDateString()}
                   </td>
@@ -349,18 +406,34 @@ export function MigrationManagement() {
                           </button>
                         </>
                       ) : (
-                        <button
-                          onClick={() => handleRollbackMigration(migration)}
-                          disabled={actionLoading === 'rollback'}
-                          className="p-1 text-gray-400 hover:text-orange-600 disabled:opacity-50"
-                          title="Rollback Migration"
-                        >
-                          {actionLoading === 'rollback' ? (
-                            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-orange-600"></div>
-                          ) : (
-                            <RotateCcw className="w-4 h-4" />
+                        <>
+                          {migration.schema_backfill_jobs?.status === 'failed' && (
+                            <button
+                              onClick={() => handleResumeBackfill(migration)}
+                              disabled={actionLoading === 'backfill'}
+                              className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-50"
+                              title="Resume Backfill"
+                            >
+                              {actionLoading === 'backfill' ? (
+                                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                              ) : (
+                                <Play className="w-4 h-4" />
+                              )}
+                            </button>
                           )}
-                        </button>
+                          <button
+                            onClick={() => handleRollbackMigration(migration)}
+                            disabled={actionLoading === 'rollback'}
+                            className="p-1 text-gray-400 hover:text-orange-600 disabled:opacity-50"
+                            title="Rollback Migration"
+                          >
+                            {actionLoading === 'rollback' ? (
+                              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-orange-600"></div>
+                            ) : (
+                              <RotateCcw className="w-4 h-4" />
+                            )}
+                          </button>
+                        </>
                       )}
                     </div>
                   </td>
@@ -392,7 +465,7 @@ export function MigrationManagement() {
       <ConfirmationDialog
         isOpen={showApplyDialog}
         title="Apply Migration"
-        message={`Are you sure you want to apply the migration from ${selectedMigration?.from_version} to ${selectedMigration?.to_version} for ${selectedMigration?.device_categories.name}? This will modify the database schema.`}
+        message={`Are you sure you want to apply the migration from ${selectedMigration?.from_version} to ${selectedMigration?.to_version} for ${selectedMigration?.device_categories.name}? This will modify the database schema and migrate existing device specifications in the background.`}
         confirmText="Apply Migration"
         cancelText="Cancel"
         variant="warning"
@@ -407,7 +480,7 @@ export function MigrationManagement() {
       <ConfirmationDialog
         isOpen={showRollbackDialog}
         title="Rollback Migration"
-        message={`Are you sure you want to rollback the migration from ${selectedMigration?.from_version} to ${selectedMigration?.to_version} for ${selectedMigration?.device_categories.name}? This will create a reverse migration.`}
+        message={`Are you sure you want to rollback the migration from ${selectedMigration?.from_version} to ${selectedMigration?.to_version} for ${selectedMigration?.device_categories.name}? This will undo its changes to device data and restore schema version ${selectedMigration?.from_version}.`}
         confirmText="Rollback Migration"
         cancelText="Cancel"
         variant="warning"
@@ -502,6 +575,35 @@ export function MigrationManagement() {
   );
 }
 
+interface BackfillStatusProps {
+  job: BackfillProgress;
+}
+
+function BackfillStatus({ job }: BackfillStatusProps) {
+  const percent = job.total_count > 0
+    ? Math.min(100, Math.round((job.processed_count / job.total_count) * 100))
+    : 100;
+  const barColor = job.status === 'failed' ? 'bg-red-500' : job.status === 'completed' ? 'bg-green-500' : 'bg-blue-500';
+
+  return (
+    <div className="w-40" title={job.last_error || undefined}>
+      <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+        <span className="capitalize">{job.status}</span>
+        <span>{job.processed_count}/{job.total_count}</span>
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+      </div>
+      {(job.failed_count > 0 || job.invalid_count > 0) && (
+        <div className="flex items-center mt-1 text-xs text-red-600">
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {job.failed_count} failed, {job.invalid_count} invalid
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface StatusBadgeProps {
   applied: boolean;
 }
@@ -0,0 +1,145 @@
+/**
+ * Schema Conflict Resolver - Pick a side for each change that another admin
+ * saved while this schema was being edited
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { GitMerge } from 'lucide-react';
+
+export interface SchemaConflict {
+  path: string;
+  base?: unknown;
+  current?: unknown;
+  proposed?: unknown;
+  message: string;
+}
+
+export interface MergedSchema {
+  name: string;
+  description?: string | null;
+  fields: Record<string, Record<string, unknown>>;
+  requiredFields: string[];
+  [key: string]: unknown;
+}
+
+interface SchemaConflictResolverProps {
+  currentVersion: string;
+  conflicts: SchemaConflict[];
+  onResolve: (choices: Record<string, 'current' | 'proposed'>) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Apply the chosen side of each conflict to the server's merge, which keeps
+ * the saved value wherever both edits disagree
+ */
+export function resolveSchemaConflicts(
+  merged: MergedSchema,
+  conflicts: SchemaConflict[],
+  choices: Record<string, 'current' | 'proposed'>
+): MergedSchema {
+  const resolved: MergedSchema = JSON.parse(JSON.stringify(merged));
+
+  for (const conflict of conflicts) {
+    if (choices[conflict.path] !== 'proposed') continue;
+
+    const keys = conflict.path.split('.');
+    let target = resolved as Record<string, unknown>;
+    for (const key of keys.slice(0, -1)) {
+      if (typeof target[key] !== 'object' || target[key] === null) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+
+    const last = keys[keys.length - 1];
+    if (conflict.proposed === undefined) {
+      delete target[last];
+    } else {
+      target[last] = conflict.proposed;
+    }
+  }
+
+  resolved.requiredFields = resolved.requiredFields.filter(field => field in resolved.fields);
+  return resolved;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(not set)' : JSON.stringify(value, null, 2);
+}
+
+export function SchemaConflictResolver({
+  currentVersion,
+  conflicts,
+  onResolve,
+  onCancel
+}: SchemaConflictResolverProps) {
+  const [choices, setChoices] = useState<Record<string, 'current' | 'proposed'>>({});
+
+  const renderChoice = (conflict: SchemaConflict, side: 'current' | 'proposed') => (
+    <label
+      className={`block border rounded-lg p-3 cursor-pointer ${
+        choices[conflict.path] === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+      }`}
+    >
+      <div className="flex items-center space-x-2 mb-2">
+        <input
+          type="radio"
+          name={conflict.path}
+          checked={choices[conflict.path] === side}
+          onChange={() => setChoices({ ...choices, [conflict.path]: side })}
+        />
+        <span className="text-sm font-medium text-gray-700">
+          {side === 'current' ? `Keep v${currentVersion}` : 'Use my change'}
+        </span>
+      </div>
+      <pre className="text-xs text-gray-600 whitespace-pre-wrap break-all">
+        {formatValue(conflict[side])}
+      </pre>
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-yellow-300 p-6">
+      <div className="flex items-center space-x-2 mb-2">
+        <GitMerge className="w-5 h-5 text-yellow-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Resolve Conflicting Changes</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Version {currentVersion} was saved while you were editing. Your other changes were merged
+        automatically; choose which value to keep for each of the following.
+      </p>
+
+      <div className="space-y-4">
+        {conflicts.map(conflict => (
+          <div key={conflict.path}>
+            <div className="text-sm font-medium text-gray-900">{conflict.path}</div>
+            <div className="text-xs text-gray-500 mb-2">{conflict.message}</div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {renderChoice(conflict, 'current')}
+              {renderChoice(conflict, 'proposed')}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onResolve(choices)}
+          disabled={conflicts.some(conflict => !choices[conflict.path])}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply to Editor
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,8 @@ export interface SchemaField {
   pattern?: string;
   options?: string[];
   defaultValue?: string | number | boolean | null;
+  visibleWhen?: string;
+  requiredWhen?: string;
 }
 
 interface SchemaEditorProps {
@@ -255,6 +257,34 @@ export function SchemaEditor({
                   />
                 </div>
 
+                {/* Conditions */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Visible When
+                    </label>
+                    <input
+                      type="text"
+                      value={field.visibleWhen || ''}
+                      onChange={(e) => updateField(index, { visibleWhen: e.target.value || undefined })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                      placeholder='e.g., hdrSupport == true'
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Required When
+                    </label>
+                    <input
+                      type="text"
+                      value={field.requiredWhen || ''}
+                      onChange={(e) => updateField(index, { requiredWhen: e.target.value || undefined })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                      placeholder='e.g., powerType == "Battery"'
+                    />
+                  </div>
+                </div>
+
                 {/* Type-specific fields */}
                 {field.type === 'number' && (
                   <div className="grid grid-cols-3 gap-4">
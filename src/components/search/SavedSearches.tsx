@@ -1,72 +1,96 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { Save, Trash2, Search, Clock } from 'lucide-react';
+import { Save, Trash2, Search, Clock, Bell, BellOff } from 'lucide-react';
+import { SearchFilters } from '@/lib/search-utils';
 
 interface SavedSearch {
   id: string;
   name: string;
   query: string;
-  filters: any;
-  savedAt: string;
+  filters: SearchFilters;
+  searchParams: string;
+  category: { id: string; name: string } | null;
+  alertsEnabled: boolean;
+  newMatchCount: number;
+  updatedAt: string;
 }
 
-export default function SavedSearches() {
+interface SavedSearchesProps {
+  accessToken: string; // From /api/auth/login
+}
+
+/**
+ * "3 new monitors match your 'OLED 120Hz' search"
+ */
+function alertMessage(search: SavedSearch): string {
+  const devices = search.category?.name.toLowerCase() || (search.newMatchCount === 1 ? 'device' : 'devices');
+  return `${search.newMatchCount} new ${devices} match${search.newMatchCount === 1 ? 'es' : ''} your '${search.name}' search`;
+}
+
+export default function SavedSearches({ accessToken }: SavedSearchesProps) {
   const router = useRouter();
   const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    loadSavedSearches();
-  }, []);
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`
+      }
+    });
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || result.message || 'Request failed');
+    }
+    return result;
+  }, [accessToken]);
 
-  const loadSavedSearches = () => {
+  const loadSavedSearches = useCallback(async () => {
     try {
-      const searches = JSON.parse(localStorage.getItem('savedSearches') || '[]');
-      setSavedSearches(searches);
+      const result = await request('/api/saved-searches');
+      setSavedSearches(result.data);
     } catch (error) {
       console.error('Failed to load saved searches:', error);
     } finally {
       setLoading(false);
     }
+  }, [request]);
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  const updateSearch = async (id: string, changes: Record<string, unknown>) => {
+    try {
+      const result = await request(`/api/saved-searches/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(changes)
+      });
+      setSavedSearches(searches => searches.map(s => s.id === id ? result.data : s));
+    } catch (error) {
+      console.error('Failed to update saved search:', error);
+    }
   };
 
-  const deleteSearch = (id: string) => {
-    const searches = savedSearches.filter(s => s.id !== id);
-    localStorage.setItem('savedSearches', JSON.stringify(searches));
-    setSavedSearches(searches);
+  const deleteSearch = async (id: string) => {
+    try {
+      await request(`/api/saved-searches/${id}`, { method: 'DELETE' });
+      setSavedSearches(searches => searches.filter(s => s.id !== id));
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+    }
   };
 
   const loadSearch = (search: SavedSearch) => {
-    const params = new URLSearchParams();
-    
-    if (search.query) params.set('q', search.query);
-    if (search.filters.categoryId) params.set('categoryId', search.filters.categoryId);
-    if (search.filters.brand) params.set('brand', search.filters.brand);
-    if (search.filters.verified) params.set('verified', 'true');
-    
-    if (search.filters.dimensions) {
-      const { widthMin, widthMax, heightMin, heightMax, depthMin, depthMax } = search.filters.dimensions;
-      if (widthMin) params.set('widthMin', widthMin);
-      if (widthMax) params.set('widthMax', widthMax);
-      if (heightMin) params.set('heightMin', heightMin);
-      if (heightMax) params.set('heightMax', heightMax);
-      if (depthMin) params.set('depthMin', depthMin);
-      if (depthMax) params.set('depthMax', depthMax);
-    }
-    
-    if (search.filters.power) {
-      if (search.filters.power.min) params.set('powerMin', search.filters.power.min);
-      if (search.filters.power.max) params.set('powerMax', search.filters.power.max);
-    }
-    
-    if (search.filters.weight) {
-      if (search.filters.weight.min) params.set('weightMin', search.filters.weight.min);
-      if (search.filters.weight.max) params.set('weightMax', search.filters.weight.max);
+    // Opening the search shows its new matches
+    if (search.newMatchCount > 0) {
+      updateSearch(search.id, { markSeen: true });
     }
-    
-    router.push(`/search?${params.toString()}`);
+    router.push(`/search?${search.searchParams}`);
   };
 
   if (loading) {
@@ -98,7 +122,7 @@ export default function SavedSearches() {
         <Save className="w-5 h-5" />
         Saved Searches
       </h2>
-      
+
       <div className="space-y-3">
         {savedSearches.map((search) => (
           <div
@@ -113,12 +137,26 @@ export default function SavedSearches() {
               {search.query && (
                 <p className="text-sm text-gray-600 ml-6">Query: {search.query}</p>
               )}
+              {search.newMatchCount > 0 && (
+                <p className="text-sm font-medium text-blue-600 ml-6 mt-1">{alertMessage(search)}</p>
+              )}
               <div className="flex items-center gap-2 text-xs text-gray-400 ml-6 mt-1">
                 <Clock className="w-3 h-3" />
-                {new Date(search.savedAt).toLocaleDateString()}
+                {new Date(search.updatedAt).toLocaleDateString()}
               </div>
             </div>
-            
+
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                updateSearch(search.id, { alertsEnabled: !search.alertsEnabled });
+              }}
+              title={search.alertsEnabled ? 'Turn off new match alerts' : 'Alert me about new matches'}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              {search.alertsEnabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+            </button>
+
             <button
               onClick={(e) => {
                 e.stopPropagation();
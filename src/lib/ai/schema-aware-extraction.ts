@@ -7,6 +7,7 @@ import type {
   ExtractionResponse, 
   FieldExtractionResult 
 } from '@/types/documentation';
+import { normalizeQuantity } from '@/lib/schema/units';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -103,9 +104,10 @@ EXTRACTION RULES:
 2. Return values in the exact type specified (string, number, boolean, etc.)
 3. For enum fields, use only the provided options
 4. For number fields, respect min/max constraints
-5. If a field is not found in the document, mark it as missing
-6. Provide a confidence score (0.0-1.0) for each extracted field
-7. Include source context (the text snippet where you found the value)
+5. For number fields with a unit, return either a number in that unit or a string with the unit used in the document (e.g. "27 in", "2.5 kg")
+6. If a field is not found in the document, mark it as missing
+7. Provide a confidence score (0.0-1.0) for each extracted field
+8. Include source context (the text snippet where you found the value)
 
 DOCUMENT CONTENT:
 ${documentContent}
@@ -214,7 +216,7 @@ export async function processExtractionResponse(
 
   // Process each field in the schema
   for (const [fieldName, field] of Object.entries(schema.fields)) {
-    const value = aiResponse.extractedFields?.[fieldName];
+    let value = aiResponse.extractedFields?.[fieldName];
     const confidence = aiResponse.fieldConfidence?.[fieldName] ?? 0;
 
     if (value === undefined || value === null) {
@@ -222,6 +224,16 @@ export async function processExtractionResponse(
       continue;
     }
 
+    // Convert unit-tagged numbers such as "27 in" to the field's unit
+    if (field.type === 'number' && typeof value === 'string') {
+      try {
+        value = normalizeQuantity(value, field.unit);
+      } catch (error) {
+        validationErrors[fieldName] = error instanceof Error ? error.message : 'Invalid quantity';
+        continue;
+      }
+    }
+
     // Validate the extracted value
     const validationError = validateFieldValue(fieldName, value, field);
     if (validationError) {
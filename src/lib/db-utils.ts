@@ -1,5 +1,7 @@
 import { Prisma } from '@prisma/client';
 import { prisma, handlePrismaError, withRetry } from './database';
+import { DeviceStandardInfo, loadStandardRules, matchStandards } from './schema/standard-matching';
+import { fullTextSearch } from './schema/full-text-search';
 
 // Device search utilities
 export const searchDevices = async (params: {
@@ -161,62 +163,43 @@ export const checkDeviceCompatibility = async (device1Id: string, device2Id: str
       throw new Error('One or both devices not found');
     }
 
-    // Find common standards
-    const device1Standards = device1.deviceStandards.map(ds => ds.standard);
-    const device2Standards = device2.deviceStandards.map(ds => ds.standard);
-
-    const compatibilityResults = [];
-
-    for (const std1 of device1Standards) {
-      for (const std2 of device2Standards) {
-        // Check for direct compatibility (same standard)
-        if (std1.id === std2.id) {
-          compatibilityResults.push({
-            standard1: std1,
-            standard2: std2,
-            compatibility: 'full' as const,
-            description: `Both devices support ${std1.name}`,
-          });
-          continue;
-        }
+    // Same matching as the connector rule processor, so both paths agree
+    const toStandardInfo = (ds: (typeof device1.deviceStandards)[number]): DeviceStandardInfo => ({
+      standardId: ds.standardId,
+      name: ds.standard.name,
+      category: ds.standard.category,
+      version: ds.standard.version,
+      portCount: ds.portCount,
+      verified: ds.verified,
+    });
 
-        // Check for compatibility rules
-        const rule = await prisma.compatibilityRule.findFirst({
-          where: {
-            OR: [
-              { standardAId: std1.id, standardBId: std2.id },
-              { standardAId: std2.id, standardBId: std1.id },
-            ],
-          },
-          include: {
-            standardA: true,
-            standardB: true,
-          },
-        });
-
-        if (rule) {
-          compatibilityResults.push({
-            standard1: std1,
-            standard2: std2,
-            compatibility: rule.compatibilityType as 'full' | 'partial' | 'none',
-            description: rule.description || '',
-            limitations: rule.limitations,
-          });
-        }
-      }
-    }
+    const device1Standards: DeviceStandardInfo[] = device1.deviceStandards.map(toStandardInfo);
+    const device2Standards: DeviceStandardInfo[] = device2.deviceStandards.map(toStandardInfo);
+    const rules = await loadStandardRules(
+      device1Standards.map(s => s.standardId),
+      device2Standards.map(s => s.standardId)
+    );
+    const match = matchStandards(device1Standards, device2Standards, rules);
+
+    const standardsById = new Map(
+      [...device1.deviceStandards, ...device2.deviceStandards].map(ds => [ds.standardId, ds.standard])
+    );
+
+    const compatibilityResults = match.matches.map(m => ({
+      standard1: standardsById.get(m.sourceStandard.id)!,
+      standard2: standardsById.get(m.targetStandard.id)!,
+      compatibility: m.compatibility,
+      description: m.description,
+      limitations: m.limitations,
+    }));
 
     return {
       device1,
       device2,
       compatibilityResults,
-      overallCompatibility: compatibilityResults.length > 0 
-        ? compatibilityResults.some(r => r.compatibility === 'full') 
-          ? 'full' 
-          : compatibilityResults.some(r => r.compatibility === 'partial') 
-            ? 'partial' 
-            : 'none'
-        : 'none',
+      matchedStandards: match.matches,
+      portShortfall: match.portShortfall,
+      overallCompatibility: match.compatible,
     };
   } catch (error) {
     handlePrismaError(error);
@@ -321,64 +304,127 @@ export const getDatabaseStats = async () => {
 // Bulk operations
 export const bulkCreateDevices = async (devices: Prisma.DeviceCreateManyInput[]) => {
   try {
-    return await withRetry(() =>
+    const result = await withRetry(() =>
       prisma.device.createMany({
         data: devices,
         skipDuplicates: true,
       })
     );
+
+    // createMany returns no ids; the new devices are the ones without a search document
+    const categoryIds = [...new Set(devices.map(device => device.categoryId))];
+    for (const categoryId of categoryIds) {
+      await fullTextSearch.refreshCategory(categoryId, { missingOnly: true });
+    }
+
+    return result;
   } catch (error) {
     handlePrismaError(error);
   }
 };
 
 // Search suggestions
-export const getSearchSuggestions = async (query: string, limit: number = 10) => {
+export interface SearchSuggestion {
+  type: 'device' | 'brand' | 'category' | 'query';
+  text: string;
+  id?: string; // Device or category id
+  count?: number; // Devices of a brand or category, or searches of a past query
+  score: number;
+}
+
+type SuggestionCandidate = Omit<SearchSuggestion, 'score'>;
+
+const SUGGESTION_TYPE_WEIGHTS: Record<SearchSuggestion['type'], number> = {
+  query: 1,
+  category: 0.9,
+  brand: 0.9,
+  device: 0.8,
+};
+
+// Past queries older than this are not suggested
+const POPULAR_QUERY_DAYS = 90;
+
+// Rank suggestions of all types together: text that starts with the query
+// beats text with a word starting with it, and popular entries get a bonus.
+// Suggestions repeating the text of a better one are dropped.
+export const rankSuggestions = (
+  query: string,
+  candidates: SuggestionCandidate[],
+  limit: number
+): SearchSuggestion[] => {
+  const prefix = query.trim().toLowerCase();
+  const seen = new Set<string>();
+
+  return candidates
+    .map(candidate => {
+      const text = candidate.text.toLowerCase();
+      const match = text.startsWith(prefix) ? 1
+        : text.split(/[\s\-/]+/).some(word => word.startsWith(prefix)) ? 0.8
+        : 0.6;
+      const popularity = Math.log10(1 + (candidate.count || 0)) / 10;
+      return { ...candidate, score: SUGGESTION_TYPE_WEIGHTS[candidate.type] * match + popularity };
+    })
+    .sort((a, b) => b.score - a.score || a.text.localeCompare(b.text))
+    .filter(suggestion => {
+      const key = suggestion.text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+};
+
+// Suggestions for a partially typed query. Brands, categories and past
+// queries match by prefix on lower-cased text_pattern_ops indexes; devices
+// match every word of their search document, the last one by prefix.
+export const getSearchSuggestions = async (query: string, limit: number = 10): Promise<SearchSuggestion[]> => {
+  const trimmed = query.trim();
+  const tsQuery = fullTextSearch.prefixQuery(trimmed);
+  if (!tsQuery) return [];
+
+  const prefix = `${trimmed.toLowerCase().replace(/[\\%_]/g, '\\$&')}%`;
+
   try {
-    const [devices, brands, categories] = await Promise.all([
-      // Device name suggestions
-      prisma.device.findMany({
-        where: {
-          name: {
-            contains: query,
-            mode: 'insensitive',
-          },
-        },
-        select: { name: true },
-        take: limit,
-        distinct: ['name'],
-      }),
-      // Brand suggestions
-      prisma.device.findMany({
-        where: {
-          brand: {
-            contains: query,
-            mode: 'insensitive',
-          },
-        },
-        select: { brand: true },
-        take: limit,
-        distinct: ['brand'],
-      }),
-      // Category suggestions
-      prisma.deviceCategory.findMany({
-        where: {
-          name: {
-            contains: query,
-            mode: 'insensitive',
-          },
-        },
-        select: { name: true },
-        take: limit,
-      }),
+    const [devices, brands, categories, queries] = await Promise.all([
+      prisma.$queryRaw`
+        SELECT d.id, d.name AS text
+        FROM devices d
+        WHERE d.search_vector @@ to_tsquery('simple', ${tsQuery})
+        ORDER BY lower(d.name) LIKE ${prefix} DESC, ts_rank(d.search_vector, to_tsquery('simple', ${tsQuery})) DESC, d.name
+        LIMIT ${limit}` as Promise<Array<{ id: string; text: string }>>,
+      prisma.$queryRaw`
+        SELECT d.brand AS text, COUNT(*)::int AS count
+        FROM devices d
+        WHERE lower(d.brand) LIKE ${prefix}
+        GROUP BY d.brand
+        ORDER BY count DESC
+        LIMIT ${limit}` as Promise<Array<{ text: string; count: number }>>,
+      prisma.$queryRaw`
+        SELECT c.id, c.name AS text, COUNT(d.id)::int AS count
+        FROM device_categories c
+        LEFT JOIN devices d ON d.category_id = c.id
+        WHERE lower(c.name) LIKE ${prefix}
+        GROUP BY c.id, c.name
+        ORDER BY count DESC
+        LIMIT ${limit}` as Promise<Array<{ id: string; text: string; count: number }>>,
+      prisma.$queryRaw`
+        SELECT lower(trim(s.query)) AS text, COUNT(*)::int AS count
+        FROM search_tracking s
+        WHERE lower(s.query) LIKE ${prefix}
+          AND s.results_count > 0
+          AND s.created_at > now() - make_interval(days => ${POPULAR_QUERY_DAYS})
+        GROUP BY 1
+        ORDER BY count DESC
+        LIMIT ${limit}` as Promise<Array<{ text: string; count: number }>>,
     ]);
 
-    return {
-      devices: devices.map(d => d.name),
-      brands: brands.map(b => b.brand),
-      categories: categories.map(c => c.name),
-    };
+    return rankSuggestions(trimmed, [
+      ...devices.map(device => ({ type: 'device' as const, text: device.text, id: device.id })),
+      ...brands.map(brand => ({ type: 'brand' as const, text: brand.text, count: brand.count })),
+      ...categories.map(category => ({ type: 'category' as const, text: category.text, id: category.id, count: category.count })),
+      ...queries.map(past => ({ type: 'query' as const, text: past.text, count: past.count })),
+    ], limit);
   } catch (error) {
-    handlePrismaError(error);
+    return handlePrismaError(error);
   }
-};
\ No newline at end of file
+};
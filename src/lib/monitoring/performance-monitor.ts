@@ -237,9 +237,10 @@ export class PerformanceMonitor {
   }
 
   /**
-   * Find missing indexes that could improve performance
+   * Find commonly used fields without an index. The index planner indexes
+   * these unless their schema opts out.
    */
-  private async findMissingIndexes(categoryId: string): Promise<string[]> {
+  async findMissingIndexes(categoryId: string): Promise<string[]> {
     // Get existing dynamic indexes
     const existingIndexes = await prisma.dynamicIndex.findMany({
       where: { categoryId },
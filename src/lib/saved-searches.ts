@@ -0,0 +1,339 @@
+/**
+ * Saved Searches - Searches users keep, and the alert runs that record the
+ * devices newly matching them
+ *
+ * A saved search stores the URL parameters of the search page, so it always
+ * matches what the page shows for it. The first alert run of a search records
+ * its current matches as already seen; every later run records the devices
+ * matching it for the first time as new, until the user has seen them.
+ */
+
+import { prisma, NotFoundError, ValidationError } from './database';
+import { buildSearchParams, parseSearchParams, SearchFilters } from './search-utils';
+import { deviceSearch, SearchFilterError } from './schema/device-search';
+import { renderSql, sql, SqlFragment } from './schema/sql';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  searchParams: string;
+  category: { id: string; name: string } | null;
+  alertsEnabled: boolean;
+  lastRunAt: Date | null;
+  newMatchCount: number; // Matches the user has not seen yet
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SavedSearchInput {
+  name?: string;
+  query?: string;
+  filters?: SearchFilters;
+  alertsEnabled?: boolean;
+}
+
+export interface SavedSearchMatch {
+  deviceId: string;
+  name: string;
+  brand: string;
+  model: string | null;
+  matchedAt: Date;
+}
+
+export interface AlertRunSummary {
+  searched: number;
+  newMatches: number;
+  failed: Array<{ savedSearchId: string; error: string }>;
+}
+
+interface SavedSearchRecord {
+  id: string;
+  userId: string;
+  name: string;
+  searchParams: string;
+  categoryId: string | null;
+  alertsEnabled: boolean;
+  lastRunAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  category: { id: string; name: string } | null;
+  _count: { matches: number };
+}
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Search URL parameters of a saved search: those of the search page without
+ * its pagination
+ */
+export function serializeSearch(query: string, filters: SearchFilters): string {
+  const params = buildSearchParams(query, filters);
+  params.delete('limit');
+  params.delete('offset');
+  return params.toString();
+}
+
+export class SavedSearchManager {
+  private readonly defaultAlertInterval = 60 * 60 * 1000; // 1 hour
+  private readonly alertRunBatchSize = 100;
+  private readonly include = {
+    category: { select: { id: true, name: true } },
+    _count: { select: { matches: { where: { seenAt: null } } } }
+  };
+
+  /**
+   * Saved searches of a user, most recently updated first
+   */
+  async list(userId: string): Promise<SavedSearch[]> {
+    const records = await prisma.savedSearch.findMany({
+      where: { userId },
+      include: this.include,
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    return records.map((record: SavedSearchRecord) => this.fromRecord(record));
+  }
+
+  /**
+   * Get a saved search of a user
+   */
+  async get(userId: string, id: string): Promise<SavedSearch> {
+    return this.fromRecord(await this.findRecord(userId, id));
+  }
+
+  /**
+   * Save a search. Throws ValidationError for a missing name or filters the
+   * search page would reject.
+   */
+  async create(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    const name = this.validateName(input.name);
+    const filters = input.filters || {};
+    const searchParams = serializeSearch(input.query || '', filters);
+    await this.matchQuery(searchParams);
+
+    const record = await prisma.savedSearch.create({
+      data: {
+        userId,
+        name,
+        searchParams,
+        categoryId: filters.categoryId || null,
+        alertsEnabled: input.alertsEnabled ?? false
+      },
+      include: this.include
+    });
+
+    return this.fromRecord(record);
+  }
+
+  /**
+   * Update a saved search. Changing its query or filters discards the
+   * recorded matches, so the next alert run starts a new baseline.
+   */
+  async update(userId: string, id: string, input: SavedSearchInput): Promise<SavedSearch> {
+    const current = this.fromRecord(await this.findRecord(userId, id));
+    const data: Record<string, unknown> = {};
+
+    if (input.name !== undefined) data.name = this.validateName(input.name);
+    if (input.alertsEnabled !== undefined) data.alertsEnabled = input.alertsEnabled;
+
+    if (input.query !== undefined || input.filters !== undefined) {
+      const filters = input.filters ?? current.filters;
+      const searchParams = serializeSearch(input.query ?? current.query, filters);
+
+      if (searchParams !== current.searchParams) {
+        await this.matchQuery(searchParams);
+        data.searchParams = searchParams;
+        data.categoryId = filters.categoryId || null;
+        data.lastRunAt = null;
+      }
+    }
+
+    const update = prisma.savedSearch.update({ where: { id }, data, include: this.include });
+    if (!data.searchParams) {
+      return this.fromRecord(await update);
+    }
+
+    const [, record] = await prisma.$transaction([
+      prisma.savedSearchMatch.deleteMany({ where: { savedSearchId: id } }),
+      update
+    ]);
+
+    return this.fromRecord(record);
+  }
+
+  /**
+   * Delete a saved search with its recorded matches
+   */
+  async delete(userId: string, id: string): Promise<void> {
+    await this.findRecord(userId, id);
+    await prisma.savedSearch.delete({ where: { id } });
+  }
+
+  /**
+   * Devices recorded as new matches of a saved search, newest first
+   */
+  async getNewMatches(userId: string, id: string, limit: number = 50): Promise<SavedSearchMatch[]> {
+    await this.findRecord(userId, id);
+
+    const matches = await prisma.savedSearchMatch.findMany({
+      where: { savedSearchId: id, seenAt: null },
+      include: { device: { select: { name: true, brand: true, model: true } } },
+      orderBy: { matchedAt: 'desc' },
+      take: limit
+    });
+
+    return matches.map((match: { deviceId: string; matchedAt: Date; device: { name: string; brand: string; model: string | null } }) => ({
+      deviceId: match.deviceId,
+      name: match.device.name,
+      brand: match.device.brand,
+      model: match.device.model,
+      matchedAt: match.matchedAt
+    }));
+  }
+
+  /**
+   * Mark the new matches of a saved search as seen. Returns how many there were.
+   */
+  async markMatchesSeen(userId: string, id: string): Promise<number> {
+    await this.findRecord(userId, id);
+
+    const { count } = await prisma.savedSearchMatch.updateMany({
+      where: { savedSearchId: id, seenAt: null },
+      data: { seenAt: new Date() }
+    });
+
+    return count;
+  }
+
+  /**
+   * Run a saved search and record the devices matching it for the first
+   * time. Returns the number of new matches; the first run of a search only
+   * records its baseline and returns 0.
+   */
+  async runAlert(id: string): Promise<number> {
+    const record = await prisma.savedSearch.findUnique({ where: { id } });
+    if (!record) {
+      throw new NotFoundError('Saved search', id);
+    }
+
+    const matches = await this.matchQuery(record.searchParams);
+    const runAt = new Date();
+    const seenAt = record.lastRunAt ? null : runAt;
+
+    const { text, params } = renderSql(sql`INSERT INTO saved_search_matches (id, saved_search_id, device_id, matched_at, seen_at)
+      SELECT gen_random_uuid()::text, ${record.id}, matches.id, ${runAt}, ${seenAt}::timestamp(3)
+      FROM (${matches}) matches
+      ON CONFLICT (saved_search_id, device_id) DO NOTHING`);
+    const inserted = await prisma.$executeRawUnsafe(text, ...params);
+
+    await prisma.savedSearch.update({
+      where: { id },
+      data: { lastRunAt: runAt }
+    });
+
+    return record.lastRunAt ? inserted : 0;
+  }
+
+  /**
+   * Run the saved searches with alerts whose last run is at least
+   * `interval` milliseconds ago, least recently run first. Failures of
+   * single searches are reported rather than thrown.
+   */
+  async runDueAlerts(interval: number = this.defaultAlertInterval): Promise<AlertRunSummary> {
+    const due = await prisma.savedSearch.findMany({
+      where: {
+        alertsEnabled: true,
+        OR: [{ lastRunAt: null }, { lastRunAt: { lte: new Date(Date.now() - interval) } }]
+      },
+      select: { id: true },
+      orderBy: { lastRunAt: { sort: 'asc', nulls: 'first' } },
+      take: this.alertRunBatchSize
+    });
+
+    const summary: AlertRunSummary = { searched: 0, newMatches: 0, failed: [] };
+    for (const { id } of due as Array<{ id: string }>) {
+      try {
+        summary.newMatches += await this.runAlert(id);
+        summary.searched++;
+      } catch (error) {
+        summary.failed.push({
+          savedSearchId: id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async findRecord(userId: string, id: string): Promise<SavedSearchRecord> {
+    const record = await prisma.savedSearch.findFirst({
+      where: { id, userId },
+      include: this.include
+    });
+
+    if (!record) {
+      throw new NotFoundError('Saved search', id);
+    }
+
+    return record;
+  }
+
+  /**
+   * Query of the devices matching saved search parameters, resolved like the
+   * search endpoint resolves them
+   */
+  private async matchQuery(searchParams: string): Promise<SqlFragment> {
+    const params = new URLSearchParams(searchParams);
+    const { filters, invalid } = await deviceSearch.parseFilters(params);
+    if (invalid.length > 0) {
+      throw new ValidationError(`Invalid filters: ${invalid.join('; ')}`, 'filters');
+    }
+
+    try {
+      return await deviceSearch.matchQuery(params.get('q') || '', filters);
+    } catch (error) {
+      if (error instanceof SearchFilterError) {
+        throw new ValidationError(`Invalid filters: ${error.message}`, 'filters');
+      }
+      throw error;
+    }
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new ValidationError('Saved search name is required', 'name');
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      throw new ValidationError(`Saved search name must be at most ${MAX_NAME_LENGTH} characters`, 'name');
+    }
+    return name.trim();
+  }
+
+  private fromRecord(record: SavedSearchRecord): SavedSearch {
+    const { query, filters } = parseSearchParams(new URLSearchParams(record.searchParams));
+
+    return {
+      id: record.id,
+      name: record.name,
+      query,
+      filters,
+      searchParams: record.searchParams,
+      category: record.category,
+      alertsEnabled: record.alertsEnabled,
+      lastRunAt: record.lastRunAt,
+      newMatchCount: record._count.matches,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+}
+
+// Export singleton instance
+export const savedSearchManager = new SavedSearchManager();
@@ -0,0 +1,299 @@
+/**
+ * Adapter Path Finder - Suggests cable and adapter chains that bridge two devices
+ * whose connectors are not directly compatible
+ *
+ * Standards are the nodes of the search. A bridge device (a catalog device in a
+ * cable/adapter category) connects any two of its own standards, and the
+ * standards-based CompatibilityRule table links standards to each other.
+ */
+
+import { prisma } from '../database';
+import { schemaRegistry } from './registry';
+import {
+  CompatibilityLevel,
+  DeviceStandardInfo,
+  StandardRuleInfo,
+  loadDeviceStandards,
+  loadStandardRules
+} from './standard-matching';
+
+export interface AdapterChainHop {
+  deviceId: string;
+  name: string;
+  brand: string;
+  verified: boolean;
+  inputStandard: string;
+  outputStandard: string;
+}
+
+export interface AdapterChain {
+  compatible: Exclude<CompatibilityLevel, 'none'>;
+  hops: number;
+  verified: boolean;
+  sourceStandard: string;
+  targetStandard: string;
+  devices: AdapterChainHop[];
+  limitations: string[];
+  description: string; // e.g. "USB-C DP Alt Mode → USB-C-to-HDMI adapter → HDMI 2.0 cable"
+}
+
+export interface AdapterPathOptions {
+  maxHops?: number;
+  limit?: number;
+}
+
+interface BridgeDevice {
+  id: string;
+  name: string;
+  brand: string;
+  verified: boolean;
+  standards: DeviceStandardInfo[];
+}
+
+// Search state: the chain so far, ending in `standardId` on the last bridge device
+interface PathState {
+  sourceStandard: string;
+  standardId: string;
+  compatible: Exclude<CompatibilityLevel, 'none'>;
+  verified: boolean;
+  hops: AdapterChainHop[];
+  limitations: string[];
+  visited: Set<string>;
+}
+
+export class AdapterPathFinder {
+  private readonly DEFAULT_MAX_HOPS = 3;
+  private readonly DEFAULT_LIMIT = 5;
+  private readonly MAX_BRIDGE_CANDIDATES = 500;
+  private readonly BRIDGE_CATEGORY_TERMS = ['cable', 'adapter', 'connector', 'dongle', 'converter'];
+
+  /**
+   * Find the shortest chains of bridge devices connecting the source to the target.
+   * Chains are ranked by compatibility type, number of hops and verified status.
+   */
+  async findChains(
+    sourceDeviceId: string,
+    targetDeviceId: string,
+    options: AdapterPathOptions = {}
+  ): Promise<AdapterChain[]> {
+    const maxHops = Math.max(1, options.maxHops ?? this.DEFAULT_MAX_HOPS);
+    const limit = Math.max(1, options.limit ?? this.DEFAULT_LIMIT);
+
+    const endpoints = await loadDeviceStandards([sourceDeviceId, targetDeviceId]);
+    const sourceStandards = endpoints.get(sourceDeviceId) || [];
+    const targetStandards = endpoints.get(targetDeviceId) || [];
+
+    if (sourceStandards.length === 0 || targetStandards.length === 0) {
+      return [];
+    }
+
+    const bridges = (await this.loadBridgeDevices())
+      .filter(bridge => bridge.id !== sourceDeviceId && bridge.id !== targetDeviceId);
+    if (bridges.length === 0) {
+      return [];
+    }
+
+    const allStandardIds = [...new Set(
+      [...sourceStandards, ...targetStandards, ...bridges.flatMap(b => b.standards)].map(s => s.standardId)
+    )];
+    const rules = await loadStandardRules(allStandardIds, allStandardIds);
+
+    return this.search(sourceStandards, targetStandards, bridges, rules, maxHops, limit)
+      .sort((a, b) => this.compareChains(a, b))
+      .slice(0, limit);
+  }
+
+  /**
+   * Breadth-first search over bridge devices. Chains are collected level by level;
+   * once a fully compatible chain is found no longer chain can outrank it, so the
+   * search stops there.
+   */
+  private search(
+    sourceStandards: DeviceStandardInfo[],
+    targetStandards: DeviceStandardInfo[],
+    bridges: BridgeDevice[],
+    rules: StandardRuleInfo[],
+    maxHops: number,
+    limit: number
+  ): AdapterChain[] {
+    const link = this.createLinker(rules);
+    const chains: AdapterChain[] = [];
+    const seen = new Set<string>();
+    const reached = new Map<string, number>(); // "standard|compatibility" -> partial chains ending there
+
+    let frontier: PathState[] = sourceStandards.map(standard => ({
+      sourceStandard: standard.name,
+      standardId: standard.standardId,
+      compatible: 'full',
+      verified: standard.verified,
+      hops: [],
+      limitations: [],
+      visited: new Set<string>()
+    }));
+
+    for (let depth = 1; depth <= maxHops && frontier.length > 0; depth++) {
+      const next: PathState[] = [];
+
+      for (const state of frontier) {
+        for (const bridge of bridges) {
+          if (state.visited.has(bridge.id)) continue;
+
+          for (const input of bridge.standards) {
+            const inbound = link(state.standardId, input.standardId);
+            if (!inbound) continue;
+
+            for (const output of bridge.standards) {
+              const extended: PathState = {
+                sourceStandard: state.sourceStandard,
+                standardId: output.standardId,
+                compatible: this.weakest(state.compatible, inbound.compatible),
+                verified: state.verified && bridge.verified && input.verified && output.verified,
+                hops: [...state.hops, {
+                  deviceId: bridge.id,
+                  name: bridge.name,
+                  brand: bridge.brand,
+                  verified: bridge.verified,
+                  inputStandard: input.name,
+                  outputStandard: output.name
+                }],
+                limitations: [...state.limitations, ...inbound.limitations],
+                visited: new Set([...state.visited, bridge.id])
+              };
+
+              for (const targetStandard of targetStandards) {
+                const outbound = link(output.standardId, targetStandard.standardId);
+                if (!outbound) continue;
+
+                const chain = this.toChain(extended, outbound, targetStandard);
+                const key = `${chain.sourceStandard}|${chain.devices.map(d => d.deviceId).join('>')}|${chain.targetStandard}`;
+                if (!seen.has(key)) {
+                  seen.add(key);
+                  chains.push(chain);
+                }
+              }
+
+              // Keep only a few partial chains per standard so the search stays bounded
+              const reachedKey = `${extended.standardId}|${extended.compatible}`;
+              const count = reached.get(reachedKey) || 0;
+              if (count < limit) {
+                reached.set(reachedKey, count + 1);
+                next.push(extended);
+              }
+            }
+          }
+        }
+      }
+
+      if (chains.some(chain => chain.compatible === 'full')) break;
+      frontier = next;
+    }
+
+    return chains;
+  }
+
+  /**
+   * Load catalog devices in cable/adapter categories together with their standards.
+   * Bridge categories are recognised by name or by a schema created from the
+   * cable-connector template (which defines connectorA and connectorB).
+   */
+  private async loadBridgeDevices(): Promise<BridgeDevice[]> {
+    const templateCategoryIds = schemaRegistry.getAllSchemas()
+      .filter(schema => schema.fields?.connectorA && schema.fields?.connectorB)
+      .map(schema => schema.id);
+
+    const devices = await prisma.device.findMany({
+      where: {
+        deviceStandards: { some: {} },
+        OR: [
+          { categoryId: { in: templateCategoryIds } },
+          ...this.BRIDGE_CATEGORY_TERMS.map(term => ({
+            category: { name: { contains: term, mode: 'insensitive' as const } }
+          }))
+        ]
+      },
+      include: {
+        deviceStandards: { include: { standard: true } }
+      },
+      orderBy: [{ verified: 'desc' }, { confidenceScore: 'desc' }],
+      take: this.MAX_BRIDGE_CANDIDATES
+    });
+
+    return devices.map(device => ({
+      id: device.id,
+      name: device.name,
+      brand: device.brand,
+      verified: device.verified,
+      standards: device.deviceStandards.map(ds => ({
+        standardId: ds.standardId,
+        name: ds.standard.name,
+        category: ds.standard.category,
+        version: ds.standard.version,
+        portCount: ds.portCount,
+        verified: ds.verified
+      }))
+    }));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private createLinker(rules: StandardRuleInfo[]) {
+    const ruleIndex = new Map<string, StandardRuleInfo>();
+    for (const rule of rules) {
+      ruleIndex.set(`${rule.standardAId}|${rule.standardBId}`, rule);
+      ruleIndex.set(`${rule.standardBId}|${rule.standardAId}`, rule);
+    }
+
+    return (fromStandardId: string, toStandardId: string): {
+      compatible: Exclude<CompatibilityLevel, 'none'>;
+      limitations: string[];
+    } | null => {
+      if (fromStandardId === toStandardId) {
+        return { compatible: 'full', limitations: [] };
+      }
+
+      const rule = ruleIndex.get(`${fromStandardId}|${toStandardId}`);
+      if (!rule || (rule.compatibilityType !== 'full' && rule.compatibilityType !== 'partial')) {
+        return null;
+      }
+
+      return { compatible: rule.compatibilityType, limitations: rule.limitations || [] };
+    };
+  }
+
+  private toChain(
+    state: PathState,
+    outbound: { compatible: Exclude<CompatibilityLevel, 'none'>; limitations: string[] },
+    targetStandard: DeviceStandardInfo
+  ): AdapterChain {
+    return {
+      compatible: this.weakest(state.compatible, outbound.compatible),
+      hops: state.hops.length,
+      verified: state.verified && targetStandard.verified,
+      sourceStandard: state.sourceStandard,
+      targetStandard: targetStandard.name,
+      devices: state.hops,
+      limitations: [...new Set([...state.limitations, ...outbound.limitations])],
+      description: [state.sourceStandard, ...state.hops.map(hop => hop.name)].join(' → ')
+    };
+  }
+
+  private weakest(
+    a: Exclude<CompatibilityLevel, 'none'>,
+    b: Exclude<CompatibilityLevel, 'none'>
+  ): Exclude<CompatibilityLevel, 'none'> {
+    return a === 'partial' || b === 'partial' ? 'partial' : 'full';
+  }
+
+  private compareChains(a: AdapterChain, b: AdapterChain): number {
+    const rank = (chain: AdapterChain) => (chain.compatible === 'full' ? 0 : 1);
+    return rank(a) - rank(b) ||
+      a.hops - b.hops ||
+      Number(b.verified) - Number(a.verified) ||
+      a.description.localeCompare(b.description);
+  }
+}
+
+// Export singleton instance
+export const adapterPathFinder = new AdapterPathFinder();
@@ -0,0 +1,358 @@
+/**
+ * Schema Backfill - Rewrites stored device specifications to the target
+ * version of an applied migration in resumable batches
+ */
+
+import { prisma, NotFoundError, ValidationError } from '../database';
+import {
+  DeviceSpecification,
+  MigrationOperation,
+  SchemaBackfillFailure,
+  SchemaBackfillJob,
+  SchemaBackfillStatus,
+  SchemaMigration
+} from './types';
+import { SchemaVersionManager } from './versioning';
+import { SchemaValidator } from './validator';
+import { schemaRegistry } from './registry';
+import { fullTextSearch } from './full-text-search';
+
+interface BackfillJobRecord {
+  id: string;
+  migrationId: string;
+  categoryId: string;
+  fromVersion: string;
+  toVersion: string;
+  status: string;
+  batchSize: number;
+  cursor: string | null;
+  totalCount: number;
+  processedCount: number;
+  failedCount: number;
+  invalidCount: number;
+  failures: unknown;
+  lastError: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SpecificationRecord {
+  id: string;
+  deviceId: string;
+  categoryId: string;
+  schemaVersion: string;
+  specifications: unknown;
+  computedValues: unknown;
+  confidenceScores: unknown;
+  sources: unknown;
+  verificationStatus: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class SchemaBackfillManager {
+  private readonly defaultBatchSize = 200;
+  private readonly maxRecordedFailures = 50;
+  private versionManager = new SchemaVersionManager();
+  private validator = new SchemaValidator();
+  private runningJobs: Set<string> = new Set();
+
+  /**
+   * Create the backfill job for an applied migration. Re-applying a migration
+   * after a rollback resets its existing job.
+   */
+  async createJob(
+    migration: Pick<SchemaMigration, 'id' | 'categoryId' | 'fromVersion' | 'toVersion'>,
+    batchSize: number = this.defaultBatchSize
+  ): Promise<SchemaBackfillJob> {
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new ValidationError('Backfill batch size must be a positive integer', 'batchSize');
+    }
+
+    const totalCount = await prisma.deviceSpecification.count({
+      where: { categoryId: migration.categoryId, schemaVersion: migration.fromVersion }
+    });
+
+    const job = {
+      categoryId: migration.categoryId,
+      fromVersion: migration.fromVersion,
+      toVersion: migration.toVersion,
+      status: 'pending',
+      batchSize,
+      cursor: null,
+      totalCount,
+      processedCount: 0,
+      failedCount: 0,
+      invalidCount: 0,
+      failures: [],
+      lastError: null,
+      startedAt: null,
+      completedAt: null
+    };
+
+    const record = await prisma.schemaBackfillJob.upsert({
+      where: { migrationId: migration.id },
+      create: { migrationId: migration.id, ...job },
+      update: job
+    });
+
+    return this.fromRecord(record);
+  }
+
+  /**
+   * Get the backfill job of a migration, if one was started
+   */
+  async getJobForMigration(migrationId: string): Promise<SchemaBackfillJob | null> {
+    const record = await prisma.schemaBackfillJob.findUnique({
+      where: { migrationId }
+    });
+
+    return record ? this.fromRecord(record) : null;
+  }
+
+  /**
+   * Run a job from its last committed batch until every specification at the
+   * migration's source version is processed, or until maxBatches batches ran.
+   * Each batch commits its rewrites together with the job's cursor, so a job
+   * that stopped part-way resumes where it left off. Failures are recorded on
+   * the job rather than thrown.
+   */
+  async runJob(jobId: string, options: { maxBatches?: number } = {}): Promise<SchemaBackfillJob> {
+    if (this.runningJobs.has(jobId)) {
+      throw new ValidationError('Backfill job is already running');
+    }
+
+    const record = await prisma.schemaBackfillJob.findUnique({
+      where: { id: jobId },
+      include: { migration: true }
+    });
+
+    if (!record) {
+      throw new NotFoundError('Backfill job', jobId);
+    }
+
+    if (record.status === 'completed' || record.status === 'cancelled') {
+      return this.fromRecord(record);
+    }
+
+    if (!record.migration.appliedAt) {
+      throw new ValidationError('Migration has not been applied yet');
+    }
+
+    const migration: SchemaMigration = {
+      id: record.migration.id,
+      categoryId: record.migration.categoryId,
+      fromVersion: record.migration.fromVersion,
+      toVersion: record.migration.toVersion,
+      operations: record.migration.operations as MigrationOperation[],
+      createdAt: record.migration.createdAt,
+      appliedAt: record.migration.appliedAt
+    };
+
+    this.runningJobs.add(jobId);
+    try {
+      let job = await this.updateJob(jobId, {
+        status: 'running',
+        startedAt: record.startedAt ?? new Date(),
+        lastError: null
+      });
+
+      const schema = schemaRegistry.getSchema(migration.categoryId, migration.toVersion);
+      if (!schema) {
+        return this.updateJob(jobId, {
+          status: 'failed',
+          lastError: `Schema ${migration.categoryId} version ${migration.toVersion} is not registered`
+        });
+      }
+
+      for (let batches = 0; options.maxBatches === undefined || batches < options.maxBatches; batches++) {
+        const processed = await this.processBatch(job, migration, schema);
+        if (processed === null) {
+          return this.getJob(jobId);
+        }
+
+        if (processed === 0) {
+          return this.updateJob(jobId, { status: 'completed', completedAt: new Date() });
+        }
+
+        job = await this.getJob(jobId);
+      }
+
+      return job;
+
+    } catch (error) {
+      console.error(`Backfill job ${jobId} failed:`, error);
+      return this.updateJob(jobId, {
+        status: 'failed',
+        lastError: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      this.runningJobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Stop a job before its next batch, e.g. when its migration is rolled back
+   */
+  async cancelJob(migrationId: string, db = prisma): Promise<void> {
+    await db.schemaBackfillJob.updateMany({
+      where: { migrationId, status: { in: ['pending', 'running', 'failed'] } },
+      data: { status: 'cancelled' }
+    });
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  /**
+   * Rewrite the next batch and advance the job in one transaction. Returns the
+   * number of specifications processed, or null if the job was cancelled.
+   */
+  private async processBatch(
+    job: SchemaBackfillJob,
+    migration: SchemaMigration,
+    schema: NonNullable<ReturnType<typeof schemaRegistry.getSchema>>
+  ): Promise<number | null> {
+    return prisma.$transaction(async (tx: typeof prisma) => {
+      // A rollback cancels the job; stop before touching any rows
+      const current = await tx.schemaBackfillJob.findUnique({
+        where: { id: job.id },
+        select: { status: true }
+      });
+      if (current?.status !== 'running') {
+        return null;
+      }
+
+      const batch: SpecificationRecord[] = await tx.deviceSpecification.findMany({
+        where: {
+          categoryId: migration.categoryId,
+          schemaVersion: migration.fromVersion,
+          ...(job.cursor ? { id: { gt: job.cursor } } : {})
+        },
+        orderBy: { id: 'asc' },
+        take: job.batchSize
+      });
+
+      if (batch.length === 0) {
+        return 0;
+      }
+
+      const failures: SchemaBackfillFailure[] = [];
+      const rewritten: string[] = [];
+      let invalid = 0;
+
+      for (const record of batch) {
+        let migrated: DeviceSpecification;
+        let validation: ReturnType<SchemaValidator['validateSpecification']>;
+        try {
+          migrated = this.versionManager.migrateSpecification(this.toSpecification(record), migration);
+          migrated.computedValues = schemaRegistry.computeValues(
+            migration.categoryId,
+            migrated.specifications,
+            migration.toVersion
+          ).values;
+          validation = this.validator.validateSpecification(migrated, schema);
+        } catch (error) {
+          failures.push({
+            deviceId: record.deviceId,
+            message: error instanceof Error ? error.message : 'Unknown error'
+          });
+          continue;
+        }
+
+        if (!validation.isValid) {
+          invalid++;
+        }
+
+        await tx.deviceSpecification.update({
+          where: { id: record.id },
+          data: {
+            schemaVersion: migrated.schemaVersion,
+            specifications: migrated.specifications,
+            computedValues: migrated.computedValues ?? undefined,
+            confidenceScores: migrated.confidenceScores ?? undefined,
+            sources: migrated.sources ?? undefined,
+            verificationStatus: migrated.verificationStatus ?? undefined,
+            validationErrors: JSON.parse(JSON.stringify(validation.fieldErrors))
+          }
+        });
+        rewritten.push(record.deviceId);
+      }
+
+      await fullTextSearch.refreshDevices(rewritten, migration.categoryId, tx);
+
+      await tx.schemaBackfillJob.update({
+        where: { id: job.id },
+        data: {
+          cursor: batch[batch.length - 1].id,
+          processedCount: { increment: batch.length },
+          failedCount: { increment: failures.length },
+          invalidCount: { increment: invalid },
+          failures: [...job.failures, ...failures].slice(-this.maxRecordedFailures)
+        }
+      });
+
+      return batch.length;
+    });
+  }
+
+  private async getJob(jobId: string): Promise<SchemaBackfillJob> {
+    const record = await prisma.schemaBackfillJob.findUnique({ where: { id: jobId } });
+    if (!record) {
+      throw new NotFoundError('Backfill job', jobId);
+    }
+    return this.fromRecord(record);
+  }
+
+  private async updateJob(
+    jobId: string,
+    data: Partial<Pick<BackfillJobRecord, 'status' | 'lastError' | 'startedAt' | 'completedAt'>>
+  ): Promise<SchemaBackfillJob> {
+    const record = await prisma.schemaBackfillJob.update({ where: { id: jobId }, data });
+    return this.fromRecord(record);
+  }
+
+  private toSpecification(record: SpecificationRecord): DeviceSpecification {
+    return {
+      deviceId: record.deviceId,
+      categoryId: record.categoryId,
+      schemaVersion: record.schemaVersion,
+      specifications: (record.specifications as Record<string, unknown>) || {},
+      computedValues: (record.computedValues as Record<string, unknown>) || undefined,
+      confidenceScores: (record.confidenceScores as Record<string, number>) || undefined,
+      sources: (record.sources as Record<string, string>) || undefined,
+      verificationStatus: (record.verificationStatus as DeviceSpecification['verificationStatus']) || undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+
+  private fromRecord(record: BackfillJobRecord): SchemaBackfillJob {
+    return {
+      id: record.id,
+      migrationId: record.migrationId,
+      categoryId: record.categoryId,
+      fromVersion: record.fromVersion,
+      toVersion: record.toVersion,
+      status: record.status as SchemaBackfillStatus,
+      batchSize: record.batchSize,
+      cursor: record.cursor ?? undefined,
+      totalCount: record.totalCount,
+      processedCount: record.processedCount,
+      failedCount: record.failedCount,
+      invalidCount: record.invalidCount,
+      failures: (record.failures as SchemaBackfillFailure[]) || [],
+      lastError: record.lastError ?? undefined,
+      startedAt: record.startedAt ?? undefined,
+      completedAt: record.completedAt ?? undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+}
+
+// Export singleton instance
+export const schemaBackfill = new SchemaBackfillManager();
@@ -0,0 +1,226 @@
+/**
+ * Compatibility Result Cache - Persists computed compatibility results in the
+ * compatibility_results table and serves them back while they are still valid
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from '../database';
+import { CategorySchema, DeviceSpecification } from './types';
+import type { CompatibilityResult, CompatibilityContext } from './compatibility';
+
+type CacheContext = Pick<Partial<CompatibilityContext>, 'connectionType' | 'useCase'>;
+
+interface StoredCacheContext extends CacheContext {
+  fingerprint: string;
+  matchedStandards?: CompatibilityResult['matchedStandards'];
+}
+
+export class CompatibilityResultCache {
+  private readonly DEFAULT_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+  /**
+   * Build a fingerprint of everything a compatibility result depends on.
+   * A cached result is only served while its fingerprint still matches, so
+   * changes to either specification, either category schema, any category
+   * compatibility rule touching the two categories, either device's standards
+   * or the standards compatibility rules invalidate it.
+   */
+  async computeFingerprint(
+    sourceSpec: DeviceSpecification,
+    targetSpec: DeviceSpecification,
+    sourceSchema: CategorySchema,
+    targetSchema: CategorySchema
+  ): Promise<string> {
+    const categoryIds = [...new Set([sourceSpec.categoryId, targetSpec.categoryId])];
+
+    const ruleStats = await prisma.categoryCompatibilityRule.aggregate({
+      where: {
+        OR: [
+          { sourceCategoryId: { in: categoryIds } },
+          { targetCategoryId: { in: categoryIds } }
+        ]
+      },
+      _count: { _all: true },
+      _max: { updatedAt: true }
+    });
+
+    const [deviceStandards, standardRuleStats] = await Promise.all([
+      prisma.deviceStandard.findMany({
+        where: { deviceId: { in: [sourceSpec.deviceId, targetSpec.deviceId] } },
+        select: { deviceId: true, standardId: true, portCount: true, verified: true },
+        orderBy: [{ deviceId: 'asc' }, { standardId: 'asc' }]
+      }),
+      prisma.compatibilityRule.aggregate({
+        _count: { _all: true },
+        _max: { createdAt: true }
+      })
+    ]);
+
+    const parts = {
+      source: [sourceSpec.deviceId, new Date(sourceSpec.updatedAt).toISOString(), sourceSpec.schemaVersion],
+      target: [targetSpec.deviceId, new Date(targetSpec.updatedAt).toISOString(), targetSpec.schemaVersion],
+      sourceSchema: this.getSchemaSignature(sourceSchema),
+      targetSchema: this.getSchemaSignature(targetSchema),
+      rules: [ruleStats._count._all, ruleStats._max.updatedAt?.toISOString() ?? null],
+      standards: deviceStandards.map(ds => [ds.deviceId, ds.standardId, ds.portCount, ds.verified]),
+      standardRules: [standardRuleStats._count._all, standardRuleStats._max.createdAt?.toISOString() ?? null]
+    };
+
+    return createHash('sha1').update(JSON.stringify(parts)).digest('hex');
+  }
+
+  /**
+   * Get a cached result if it exists, has not expired and still matches the fingerprint
+   */
+  async get(
+    sourceDeviceId: string,
+    targetDeviceId: string,
+    fingerprint: string,
+    context: CacheContext = {}
+  ): Promise<CompatibilityResult | null> {
+    try {
+      const record = await prisma.compatibilityResult.findUnique({
+        where: {
+          sourceDeviceId_targetDeviceId_contextKey: { sourceDeviceId, targetDeviceId, contextKey: this.getContextKey(context) }
+        }
+      });
+
+      if (!record) return null;
+
+      const stored = (record.context || {}) as unknown as StoredCacheContext;
+      const expired = record.expiresAt !== null && record.expiresAt.getTime() <= Date.now();
+      const stale = stored.fingerprint !== fingerprint;
+
+      if (expired || stale) {
+        await prisma.compatibilityResult.delete({ where: { id: record.id } });
+        return null;
+      }
+
+      return {
+        compatible: record.compatibilityType as CompatibilityResult['compatible'],
+        confidence: Number(record.confidence),
+        details: record.details,
+        limitations: record.limitations,
+        recommendations: record.recommendations,
+        matchedRules: record.matchedRules,
+        fieldCompatibility: (record.fieldCompatibility || {}) as CompatibilityResult['fieldCompatibility'],
+        ...(stored.matchedStandards ? { matchedStandards: stored.matchedStandards } : {})
+      };
+    } catch (error) {
+      console.warn(`Failed to read cached compatibility result for ${sourceDeviceId} -> ${targetDeviceId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a computed result, replacing any previous result for the device pair
+   * in the same context
+   */
+  async set(
+    sourceDeviceId: string,
+    targetDeviceId: string,
+    result: CompatibilityResult,
+    fingerprint: string,
+    context: CacheContext = {},
+    ttlMs: number = this.DEFAULT_TTL
+  ): Promise<void> {
+    const storedContext: StoredCacheContext = {
+      connectionType: context.connectionType,
+      useCase: context.useCase,
+      fingerprint,
+      matchedStandards: result.matchedStandards
+    };
+
+    const data = {
+      compatibilityType: result.compatible,
+      confidence: Math.round(result.confidence * 100) / 100,
+      details: result.details,
+      limitations: result.limitations,
+      recommendations: result.recommendations,
+      matchedRules: result.matchedRules,
+      fieldCompatibility: JSON.parse(JSON.stringify(result.fieldCompatibility)),
+      context: JSON.parse(JSON.stringify(storedContext)),
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + ttlMs)
+    };
+
+    const contextKey = this.getContextKey(context);
+
+    try {
+      await prisma.compatibilityResult.upsert({
+        where: {
+          sourceDeviceId_targetDeviceId_contextKey: { sourceDeviceId, targetDeviceId, contextKey }
+        },
+        create: { sourceDeviceId, targetDeviceId, contextKey, ...data },
+        update: data
+      });
+    } catch (error) {
+      // Caching is best-effort; a failed write must not fail the compatibility check
+      console.warn(`Failed to cache compatibility result for ${sourceDeviceId} -> ${targetDeviceId}:`, error);
+    }
+  }
+
+  /**
+   * Remove cached results involving a device (e.g. after its specification changed)
+   */
+  async invalidateDevice(deviceId: string): Promise<number> {
+    const { count } = await prisma.compatibilityResult.deleteMany({
+      where: {
+        OR: [{ sourceDeviceId: deviceId }, { targetDeviceId: deviceId }]
+      }
+    });
+    return count;
+  }
+
+  /**
+   * Remove cached results involving any device in a category
+   * (e.g. after its schema or one of its compatibility rules changed)
+   */
+  async invalidateCategory(categoryId: string): Promise<number> {
+    const { count } = await prisma.compatibilityResult.deleteMany({
+      where: {
+        OR: [
+          { sourceDevice: { categoryId } },
+          { targetDevice: { categoryId } }
+        ]
+      }
+    });
+    return count;
+  }
+
+  /**
+   * Remove all expired results
+   */
+  async purgeExpired(): Promise<number> {
+    const { count } = await prisma.compatibilityResult.deleteMany({
+      where: { expiresAt: { lte: new Date() } }
+    });
+    return count;
+  }
+
+  /**
+   * Key of the context a result was computed for, empty without one. Results
+   * of a pair for different use cases or connection types are kept apart.
+   */
+  getContextKey(context: CacheContext = {}): string {
+    if (!context.useCase && !context.connectionType) return '';
+    return `${context.useCase ?? ''}|${context.connectionType ?? ''}`;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private getSchemaSignature(schema: CategorySchema): string {
+    return createHash('sha1')
+      .update(JSON.stringify({
+        version: schema.version,
+        fields: schema.fields,
+        compatibilityRules: schema.compatibilityRules || []
+      }))
+      .digest('hex');
+  }
+}
+
+// Export singleton instance
+export const compatibilityCache = new CompatibilityResultCache();
@@ -7,9 +7,24 @@ import {
   CategorySchema, 
   DeviceSpecification, 
   CompatibilityRuleDefinition,
-  FieldDefinition 
+  FieldDefinition,
+  FieldMetadata,
+  ValidationError
 } from './types';
 import { schemaRegistry } from './registry';
+import { prisma, NotFoundError } from '../database';
+import { compatibilityCache } from './compatibility-cache';
+import { compileExpression, fieldTypeInfo, fieldUnits, ExpressionTraceEntry } from './expression';
+import { convertUnit, resolveUnit } from './units';
+import { matchDeviceStandards, StandardMatch } from './standard-matching';
+import { adapterPathFinder, AdapterChain, AdapterPathOptions } from './adapter-paths';
+import {
+  useCaseProfiles,
+  UseCaseProfile,
+  ProfileConstraint,
+  DEFAULT_FULL_THRESHOLD,
+  DEFAULT_PARTIAL_THRESHOLD
+} from './use-case-profiles';
 
 export interface CompatibilityResult {
   compatible: 'full' | 'partial' | 'none';
@@ -19,6 +34,51 @@ export interface CompatibilityResult {
   recommendations: string[];
   matchedRules: string[];
   fieldCompatibility: Record<string, FieldCompatibilityResult>;
+  matchedStandards?: StandardMatch[];
+  adapterChains?: AdapterChain[];
+  trace?: CompatibilityTrace;
+}
+
+type CompatibilityLevel = 'full' | 'partial' | 'none';
+
+// Explanation of how a result was reached, returned when checking with `trace`
+export interface CompatibilityTrace {
+  profile?: string; // Use case whose profile shaped the result
+  steps: CompatibilityTraceStep[];
+  weightedScore: {
+    total: number;
+    totalWeight: number;
+    average: number;
+    fullThreshold: number;
+    partialThreshold: number;
+  } | null;
+  verdict: {
+    compatible: CompatibilityLevel;
+    setBy: number | null; // Index of the step that last changed the verdict
+    reason: string;
+  };
+}
+
+export interface CompatibilityTraceStep {
+  kind: 'rule' | 'field' | 'score';
+  id: string; // Rule id, field name or 'weighted-score'
+  processor?: string;
+  expression?: string;
+  inputs: Record<string, unknown>;
+  intermediate?: ExpressionTraceEntry[]; // Sub-expression values for expression rules
+  values?: Record<string, unknown>; // Processor or comparison outputs
+  outcome: CompatibilityLevel | 'error';
+  message?: string;
+  score?: { value: number; weight: number; weighted: number }; // Field contribution to the weighted score
+  verdict?: { before: CompatibilityLevel; after: CompatibilityLevel };
+}
+
+// Extra detail a rule processor can attach when the context asks for a trace
+export interface RuleTraceDetails {
+  expression?: string;
+  intermediate?: ExpressionTraceEntry[];
+  values?: Record<string, unknown>;
+  error?: string;
 }
 
 export interface FieldCompatibilityResult {
@@ -36,8 +96,25 @@ export interface CompatibilityContext {
   targetSchema: CategorySchema;
   connectionType?: string;
   useCase?: string;
+  profile?: UseCaseProfile; // Resolved from useCase when the check runs
+  portUsage?: Record<string, number>; // Target ports already in use, keyed by standard id
+  trace?: boolean; // Collect a step-by-step explanation in result.trace
 }
 
+// Core device columns exposed as base fields of every specification; stored
+// specification values of the same name win
+export const DEVICE_COLUMN_FIELDS: Record<string, FieldDefinition> = {
+  name: { type: 'string', metadata: { label: 'Device Name' } },
+  brand: { type: 'string', metadata: { label: 'Brand' } },
+  model: { type: 'string', metadata: { label: 'Model' } },
+  widthCm: { type: 'number', constraints: { unit: 'cm' }, metadata: { label: 'Width' } },
+  heightCm: { type: 'number', constraints: { unit: 'cm' }, metadata: { label: 'Height' } },
+  depthCm: { type: 'number', constraints: { unit: 'cm' }, metadata: { label: 'Depth' } },
+  weightKg: { type: 'number', constraints: { unit: 'kg' }, metadata: { label: 'Weight' } },
+  powerWatts: { type: 'number', constraints: { unit: 'W' }, metadata: { label: 'Power' } },
+  powerType: { type: 'string', metadata: { label: 'Power Type' } }
+};
+
 export class CompatibilityEngine {
   private ruleProcessors: Map<string, CompatibilityRuleProcessor> = new Map();
 
@@ -46,22 +123,69 @@ export class CompatibilityEngine {
   }
 
   /**
-   * Check compatibility between two devices
+   * Check compatibility between two devices.
+   * Results are served from the compatibility_results cache unless `fresh` is set,
+   * and every computed result is written back to the cache. With `suggestAdapters`,
+   * incompatible pairs get cable/adapter chains that would connect them. With
+   * `trace`, the result is always recomputed and explains every rule and field step.
    */
   async checkCompatibility(
     sourceDeviceId: string,
     targetDeviceId: string,
-    context?: Partial<CompatibilityContext>
+    context?: Partial<CompatibilityContext>,
+    options: { fresh?: boolean; suggestAdapters?: boolean; trace?: boolean } = {}
   ): Promise<CompatibilityResult> {
-    // Load device specifications and schemas
-    const sourceSpec = await this.loadDeviceSpecification(sourceDeviceId);
-    const targetSpec = await this.loadDeviceSpecification(targetDeviceId);
-    
-    const sourceSchema = schemaRegistry.getSchema(sourceSpec.categoryId, sourceSpec.schemaVersion);
-    const targetSchema = schemaRegistry.getSchema(targetSpec.categoryId, targetSpec.schemaVersion);
+    const result = await this.computeCompatibility(
+      sourceDeviceId,
+      targetDeviceId,
+      options.trace ? { ...context, trace: true } : context,
+      options
+    );
+
+    if (options.suggestAdapters && result.compatible === 'none') {
+      return { ...result, adapterChains: await this.suggestAdapterChains(sourceDeviceId, targetDeviceId) };
+    }
 
-    if (!sourceSchema || !targetSchema) {
-      throw new Error('Schema not found for one or both devices');
+    return result;
+  }
+
+  /**
+   * Suggest cable/adapter chains for a pair whose connectors are not directly compatible.
+   * Returns an empty list when the devices already share a usable standard.
+   */
+  async suggestAdapterChains(
+    sourceDeviceId: string,
+    targetDeviceId: string,
+    options?: AdapterPathOptions
+  ): Promise<AdapterChain[]> {
+    const direct = await matchDeviceStandards(sourceDeviceId, targetDeviceId);
+    if (!direct.hasStandards || direct.compatible !== 'none') {
+      return [];
+    }
+
+    return adapterPathFinder.findChains(sourceDeviceId, targetDeviceId, options);
+  }
+
+  /**
+   * Compute (or read from cache) the compatibility result for a device pair
+   */
+  private async computeCompatibility(
+    sourceDeviceId: string,
+    targetDeviceId: string,
+    context: Partial<CompatibilityContext> | undefined,
+    options: { fresh?: boolean }
+  ): Promise<CompatibilityResult> {
+    const { sourceSpec, targetSpec, sourceSchema, targetSchema } =
+      await this.loadDevicePair(sourceDeviceId, targetDeviceId);
+
+    const fingerprint = await compatibilityCache.computeFingerprint(sourceSpec, targetSpec, sourceSchema, targetSchema);
+
+    // Results that depend on ports taken by other devices are specific to one setup
+    const cacheable = !context?.portUsage;
+
+    if (!options.fresh && !context?.trace && cacheable) {
+      const cached = await compatibilityCache.get(sourceDeviceId, targetDeviceId, fingerprint, context);
+      if (cached) return cached;
     }
 
     const compatibilityContext: CompatibilityContext = {
@@ -72,7 +196,58 @@ export class CompatibilityEngine {
       ...context
     };
 
-    return this.evaluateCompatibility(compatibilityContext);
+    if (context?.useCase && !context.profile) {
+      compatibilityContext.profile = await useCaseProfiles.resolveProfile(
+        context.useCase,
+        sourceSpec.categoryId,
+        targetSpec.categoryId
+      );
+    }
+
+    const result = await this.evaluateCompatibility(compatibilityContext);
+    if (cacheable) {
+      await compatibilityCache.set(sourceDeviceId, targetDeviceId, result, fingerprint, context);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a cached compatibility result without computing a new one
+   */
+  async getCachedCompatibility(
+    sourceDeviceId: string,
+    targetDeviceId: string,
+    context?: Partial<CompatibilityContext>
+  ): Promise<CompatibilityResult | null> {
+    const { sourceSpec, targetSpec, sourceSchema, targetSchema } =
+      await this.loadDevicePair(sourceDeviceId, targetDeviceId);
+
+    const fingerprint = await compatibilityCache.computeFingerprint(sourceSpec, targetSpec, sourceSchema, targetSchema);
+
+    return compatibilityCache.get(sourceDeviceId, targetDeviceId, fingerprint, context);
+  }
+
+  /**
+   * Load specifications and schemas for a source/target device pair
+   */
+  private async loadDevicePair(sourceDeviceId: string, targetDeviceId: string): Promise<{
+    sourceSpec: DeviceSpecification;
+    targetSpec: DeviceSpecification;
+    sourceSchema: CategorySchema;
+    targetSchema: CategorySchema;
+  }> {
+    const sourceSpec = await this.loadDeviceSpecification(sourceDeviceId);
+    const targetSpec = await this.loadDeviceSpecification(targetDeviceId);
+
+    const sourceSchema = schemaRegistry.getSchema(sourceSpec.categoryId, sourceSpec.schemaVersion);
+    const targetSchema = schemaRegistry.getSchema(targetSpec.categoryId, targetSpec.schemaVersion);
+
+    if (!sourceSchema || !targetSchema) {
+      throw new Error('Schema not found for one or both devices');
+    }
+
+    return { sourceSpec, targetSpec, sourceSchema, targetSchema };
   }
 
   /**
@@ -88,14 +263,32 @@ export class CompatibilityEngine {
       matchedRules: [],
       fieldCompatibility: {}
     };
+    const steps: CompatibilityTraceStep[] | null = context.trace ? [] : null;
+
+    // Get all applicable compatibility rules, plus the required constraints of the use-case profile
+    const rules: Array<{ rule: CompatibilityRuleDefinition; severity?: ProfileConstraint['severity'] }> = [
+      ...(await this.getApplicableRules(context)).map(rule => ({ rule })),
+      ...(context.profile
+        ? useCaseProfiles.getConstraintRules(context.profile, context.sourceSchema, context.targetSchema)
+        : [])
+    ];
+    const fullThreshold = context.profile?.fullThreshold ?? DEFAULT_FULL_THRESHOLD;
+    const partialThreshold = context.profile?.partialThreshold ?? DEFAULT_PARTIAL_THRESHOLD;
 
-    // Get all applicable compatibility rules
-    const rules = this.getApplicableRules(context);
+    // A failed partial-severity constraint caps the result even when the field score is high
+    let ceiling: 'full' | 'partial' = 'full';
 
     // Evaluate each rule
-    for (const rule of rules) {
-      const ruleResult = await this.evaluateRule(rule, context);
-      
+    for (const { rule, severity } of rules) {
+      let error: string | undefined;
+      let ruleResult = await this.evaluateRule(rule, context, message => { error = message; });
+      const before = result.compatible;
+
+      if (ruleResult && severity === 'partial' && ruleResult.compatible === 'none') {
+        ruleResult = { ...ruleResult, compatible: 'partial' };
+        ceiling = 'partial';
+      }
+
       if (ruleResult) {
         result.matchedRules.push(rule.id);
         
@@ -110,58 +303,209 @@ export class CompatibilityEngine {
         result.limitations.push(...ruleResult.limitations);
         result.recommendations.push(...ruleResult.recommendations);
 
+        if (ruleResult.matchedStandards) {
+          result.matchedStandards = [...(result.matchedStandards || []), ...ruleResult.matchedStandards];
+        }
+
         // Update confidence (take minimum)
         result.confidence = Math.min(result.confidence, ruleResult.confidence);
       }
+
+      steps?.push(this.traceRuleStep(rule, context, ruleResult, error, before, result.compatible));
     }
 
     // Evaluate field-level compatibility
     result.fieldCompatibility = await this.evaluateFieldCompatibility(context);
 
     // Calculate overall compatibility from field results
-    const fieldResults = Object.values(result.fieldCompatibility);
+    const fieldResults = Object.entries(result.fieldCompatibility);
+    let weightedScore: CompatibilityTrace['weightedScore'] = null;
     if (fieldResults.length > 0) {
-      const weightedScore = fieldResults.reduce((sum, field) => {
+      let runningScore = 0;
+      for (const [fieldName, field] of fieldResults) {
         const score = field.compatible === 'full' ? 1 : field.compatible === 'partial' ? 0.5 : 0;
-        return sum + (score * field.weight);
-      }, 0);
-      
-      const totalWeight = fieldResults.reduce((sum, field) => sum + field.weight, 0);
-      const averageScore = totalWeight > 0 ? weightedScore / totalWeight : 0;
+        runningScore += score * field.weight;
+
+        steps?.push({
+          kind: 'field',
+          id: fieldName,
+          inputs: { source: field.sourceValue, target: field.targetValue },
+          outcome: field.compatible,
+          message: field.message,
+          score: { value: score, weight: field.weight, weighted: score * field.weight },
+          values: { runningScore }
+        });
+      }
+
+      const totalWeight = fieldResults.reduce((sum, [, field]) => sum + field.weight, 0);
+      const averageScore = totalWeight > 0 ? runningScore / totalWeight : 0;
+      const before = result.compatible;
 
-      if (averageScore >= 0.8) {
-        result.compatible = result.compatible === 'none' ? 'none' : 'full';
-      } else if (averageScore >= 0.3) {
+      if (averageScore >= fullThreshold) {
+        result.compatible = result.compatible === 'none' ? 'none' : ceiling;
+      } else if (averageScore >= partialThreshold) {
         result.compatible = result.compatible === 'none' ? 'none' : 'partial';
       } else {
         result.compatible = 'none';
       }
+
+      weightedScore = {
+        total: runningScore,
+        totalWeight,
+        average: averageScore,
+        fullThreshold,
+        partialThreshold
+      };
+      steps?.push({
+        kind: 'score',
+        id: 'weighted-score',
+        inputs: { fields: fieldResults.length },
+        values: { ...weightedScore },
+        outcome: result.compatible,
+        message: `Weighted field score ${averageScore.toFixed(2)} ` +
+          (averageScore >= fullThreshold ? `>= ${fullThreshold}`
+            : averageScore >= partialThreshold ? `>= ${partialThreshold}`
+            : `< ${partialThreshold}`) +
+          (averageScore >= fullThreshold && ceiling === 'partial' ? ' (capped at partial by use-case constraints)' : ''),
+        verdict: { before, after: result.compatible }
+      });
     }
 
     // Generate summary details
     result.details = this.generateCompatibilityDetails(result, context);
 
+    if (steps) {
+      result.trace = {
+        ...(context.profile ? { profile: context.profile.useCase } : {}),
+        steps,
+        weightedScore,
+        verdict: this.explainVerdict(steps, result.compatible)
+      };
+    }
+
     return result;
   }
 
+  /**
+   * Build the trace step for one rule evaluation
+   */
+  private traceRuleStep(
+    rule: CompatibilityRuleDefinition,
+    context: CompatibilityContext,
+    ruleResult: Awaited<ReturnType<CompatibilityEngine['evaluateRule']>>,
+    error: string | undefined,
+    before: CompatibilityLevel,
+    after: CompatibilityLevel
+  ): CompatibilityTraceStep {
+    const processor = this.getRuleProcessorName(rule);
+    const details = ruleResult?.trace;
+
+    return {
+      kind: 'rule',
+      id: rule.id,
+      processor,
+      expression: details?.expression ?? (processor === 'default' ? rule.condition : undefined),
+      inputs: {
+        [`source.${rule.sourceField}`]: context.sourceDevice.specifications[rule.sourceField],
+        [`target.${rule.targetField}`]: context.targetDevice.specifications[rule.targetField]
+      },
+      ...(details?.intermediate ? { intermediate: details.intermediate } : {}),
+      values: {
+        ...details?.values,
+        ...(ruleResult ? {
+          confidence: ruleResult.confidence,
+          limitations: ruleResult.limitations,
+          recommendations: ruleResult.recommendations
+        } : {})
+      },
+      outcome: ruleResult && !error ? ruleResult.compatible : 'error',
+      message: error ?? details?.error ?? rule.message,
+      verdict: { before, after }
+    };
+  }
+
+  /**
+   * Find the step that settled the final verdict
+   */
+  private explainVerdict(steps: CompatibilityTraceStep[], compatible: CompatibilityLevel): CompatibilityTrace['verdict'] {
+    for (let i = steps.length - 1; i >= 0; i--) {
+      const verdict = steps[i].verdict;
+      if (verdict && verdict.before !== verdict.after) {
+        const step = steps[i];
+        const reason = step.kind === 'score'
+          ? `${step.message} set the verdict to ${compatible}`
+          : `Rule ${step.id} (${step.processor}) rated the pair ${step.outcome}`;
+        return { compatible, setBy: i, reason };
+      }
+    }
+
+    const scoreStep = steps.findIndex(step => step.kind === 'score');
+    if (scoreStep >= 0) {
+      return { compatible, setBy: scoreStep, reason: `${steps[scoreStep].message} kept the verdict at ${compatible}` };
+    }
+
+    return { compatible, setBy: null, reason: `No rule or field comparison lowered the verdict from ${compatible}` };
+  }
+
   /**
    * Get applicable compatibility rules for the given context
    */
-  private getApplicableRules(context: CompatibilityContext): CompatibilityRuleDefinition[] {
+  private async getApplicableRules(context: CompatibilityContext): Promise<CompatibilityRuleDefinition[]> {
+    const rules = await this.getCategoryPairRules(context.sourceSchema, context.targetSchema);
+
+    // Filter rules based on context
+    return rules.filter(rule => this.isRuleApplicable(rule, context));
+  }
+
+  /**
+   * Get every compatibility rule for a category pair: rules embedded in either
+   * schema plus the admin-managed category rules from source to target
+   */
+  async getCategoryPairRules(
+    sourceSchema: CategorySchema,
+    targetSchema: CategorySchema
+  ): Promise<CompatibilityRuleDefinition[]> {
     const rules: CompatibilityRuleDefinition[] = [];
 
     // Get rules from source schema
-    if (context.sourceSchema.compatibilityRules) {
-      rules.push(...context.sourceSchema.compatibilityRules);
+    if (sourceSchema.compatibilityRules) {
+      rules.push(...sourceSchema.compatibilityRules);
     }
 
     // Get rules from target schema
-    if (context.targetSchema.compatibilityRules) {
-      rules.push(...context.targetSchema.compatibilityRules);
+    if (targetSchema.compatibilityRules) {
+      rules.push(...targetSchema.compatibilityRules);
     }
 
-    // Filter rules based on context
-    return rules.filter(rule => this.isRuleApplicable(rule, context));
+    const categoryRules = await prisma.categoryCompatibilityRule.findMany({
+      where: { sourceCategoryId: sourceSchema.id, targetCategoryId: targetSchema.id },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const rule of categoryRules) {
+      rules.push({
+        id: rule.id,
+        name: rule.name,
+        description: rule.description || '',
+        sourceField: rule.sourceField,
+        targetField: rule.targetField,
+        condition: rule.condition,
+        compatibilityType: rule.compatibilityType as CompatibilityRuleDefinition['compatibilityType'],
+        message: rule.message,
+        limitations: rule.limitations,
+        ...(rule.parameters ? { parameters: rule.parameters as Record<string, unknown> } : {})
+      });
+    }
+
+    return rules;
+  }
+
+  /**
+   * Name of the processor that evaluates a rule ('default' unless a processor
+   * is registered under the rule's name)
+   */
+  getRuleProcessorName(rule: CompatibilityRuleDefinition): string {
+    return this.ruleProcessors.has(rule.name) ? rule.name : 'default';
   }
 
   /**
@@ -180,12 +524,15 @@ export class CompatibilityEngine {
    */
   private async evaluateRule(
     rule: CompatibilityRuleDefinition, 
-    context: CompatibilityContext
+    context: CompatibilityContext,
+    onError?: (message: string) => void
   ): Promise<{
     compatible: 'full' | 'partial' | 'none';
     confidence: number;
     limitations: string[];
     recommendations: string[];
+    matchedStandards?: StandardMatch[];
+    trace?: RuleTraceDetails;
   } | null> {
     try {
       const processor = this.ruleProcessors.get(rule.name) || this.ruleProcessors.get('default');
@@ -197,6 +544,7 @@ export class CompatibilityEngine {
       return await processor.process(rule, context);
     } catch (error) {
       console.error(`Error evaluating rule ${rule.id}:`, error);
+      onError?.(error instanceof Error ? error.message : 'Unknown error');
       return null;
     }
   }
@@ -226,6 +574,11 @@ export class CompatibilityEngine {
           sourceFieldDef,
           targetFieldDef
         );
+
+        const profileWeight = context.profile?.fieldWeights[fieldName];
+        if (profileWeight !== undefined) {
+          results[fieldName].weight = profileWeight;
+        }
       }
     }
 
@@ -483,11 +836,92 @@ export class CompatibilityEngine {
   }
 
   /**
-   * Load device specification (placeholder - would load from database)
+   * Get a device's specification as the engine sees it (base fields and schema defaults applied)
    */
-  private async loadDeviceSpecification(_deviceId: string): Promise<DeviceSpecification> {
-    // This would load from database in real implementation
-    throw new Error('Device specification loading not implemented');
+  async getDeviceSpecification(deviceId: string): Promise<DeviceSpecification> {
+    return this.loadDeviceSpecification(deviceId);
+  }
+
+  /**
+   * Load device specification from the database, merging core device columns
+   * as base fields and filling missing fields from schema defaults
+   */
+  private async loadDeviceSpecification(deviceId: string): Promise<DeviceSpecification> {
+    const record = await prisma.deviceSpecification.findUnique({
+      where: { deviceId },
+      include: { device: true }
+    });
+
+    if (!record) {
+      throw new NotFoundError('Device specification', deviceId);
+    }
+
+    // Core device columns act as base fields; stored specification values win.
+    // Computed values are exposed as fields so rules can read them.
+    const specifications: Record<string, unknown> = {
+      ...this.getBaseDeviceFields(record.device),
+      ...(record.specifications as Record<string, unknown>),
+      ...(record.computedValues as Record<string, unknown>)
+    };
+
+    const schema = schemaRegistry.getSchema(record.categoryId, record.schemaVersion);
+    if (schema) {
+      for (const [fieldName, fieldDef] of Object.entries(schema.fields)) {
+        if (specifications[fieldName] === undefined && fieldDef.defaultValue !== undefined) {
+          specifications[fieldName] = fieldDef.defaultValue;
+        }
+      }
+    }
+
+    return {
+      deviceId: record.deviceId,
+      categoryId: record.categoryId,
+      schemaVersion: record.schemaVersion,
+      specifications,
+      computedValues: (record.computedValues as Record<string, unknown> | null) || undefined,
+      validationErrors: (record.validationErrors as ValidationError[] | null) || undefined,
+      confidenceScores: (record.confidenceScores as Record<string, number>) || undefined,
+      sources: (record.sources as Record<string, string>) || undefined,
+      verificationStatus: (record.verificationStatus as Record<string, 'pending' | 'verified' | 'rejected'>) || undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+
+  /**
+   * Extract base specification fields from the core device columns
+   */
+  private getBaseDeviceFields(device: {
+    name: string;
+    brand: string;
+    model: string | null;
+    widthCm: unknown;
+    heightCm: unknown;
+    depthCm: unknown;
+    weightKg: unknown;
+    powerWatts: number | null;
+    powerType: string | null;
+  }): Record<string, unknown> {
+    const baseFields: Record<string, unknown> = {
+      name: device.name,
+      brand: device.brand,
+      model: device.model,
+      widthCm: device.widthCm,
+      heightCm: device.heightCm,
+      depthCm: device.depthCm,
+      weightKg: device.weightKg,
+      powerWatts: device.powerWatts,
+      powerType: device.powerType
+    };
+
+    const result: Record<string, unknown> = {};
+    for (const [fieldName, value] of Object.entries(baseFields)) {
+      if (value === null || value === undefined) continue;
+      // Prisma returns Decimal columns as Decimal objects
+      result[fieldName] = typeof value === 'object' ? Number(value) : value;
+    }
+
+    return result;
   }
 
   /**
@@ -504,6 +938,22 @@ export class CompatibilityEngine {
   }
 }
 
+type DimensionAxis = 'width' | 'height' | 'depth';
+
+interface DimensionGap {
+  axis: DimensionAxis;
+  required: number;
+  available: number;
+}
+
+interface DimensionPlacement {
+  orientation: DimensionAxis[];
+  rotated: boolean;
+  description: string;
+  fitShortfall: DimensionGap[];
+  clearanceShortfall: DimensionGap[];
+}
+
 /**
  * Base interface for rule processors
  */
@@ -513,6 +963,8 @@ export interface CompatibilityRuleProcessor {
     confidence: number;
     limitations: string[];
     recommendations: string[];
+    matchedStandards?: StandardMatch[];
+    trace?: RuleTraceDetails;
   }>;
 }
 
@@ -525,11 +977,11 @@ class DefaultRuleProcessor implements CompatibilityRuleProcessor {
     confidence: number;
     limitations: string[];
     recommendations: string[];
+    trace?: RuleTraceDetails;
   }> {
     const sourceValue = context.sourceDevice.specifications[rule.sourceField];
     const targetValue = context.targetDevice.specifications[rule.targetField];
 
-    // Simple expression evaluation
     const expressionContext = {
       source: sourceValue,
       target: targetValue,
@@ -538,13 +990,15 @@ class DefaultRuleProcessor implements CompatibilityRuleProcessor {
     };
 
     try {
-      const result = this.evaluateExpression(rule.condition, expressionContext);
+      const { value, trace } = this.evaluateExpression(rule, expressionContext, context);
+      const result = Boolean(value);
       
       return {
         compatible: result ? rule.compatibilityType : 'none',
         confidence: 0.8,
         limitations: result ? [] : rule.limitations || [],
-        recommendations: []
+        recommendations: [],
+        ...(trace ? { trace } : {})
       };
     } catch (error) {
       console.error(`Error evaluating rule condition: ${rule.condition}`, error);
@@ -552,25 +1006,43 @@ class DefaultRuleProcessor implements CompatibilityRuleProcessor {
         compatible: 'none',
         confidence: 0.0,
         limitations: ['Rule evaluation failed'],
-        recommendations: []
+        recommendations: [],
+        ...(context.trace ? {
+          trace: {
+            expression: rule.condition,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }
+        } : {})
       };
     }
   }
 
-  private evaluateExpression(expression: string, context: Record<string, any>): boolean {
-    // Simple expression evaluator - in production, use a proper library
-    let evaluableExpression = expression;
-    
-    for (const [key, value] of Object.entries(context)) {
-      const regex = new RegExp(`\\b${key}\\b`, 'g');
-      evaluableExpression = evaluableExpression.replace(regex, JSON.stringify(value));
-    }
+  private evaluateExpression(
+    rule: CompatibilityRuleDefinition,
+    scope: Record<string, unknown>,
+    context: CompatibilityContext
+  ): { value: unknown; trace?: RuleTraceDetails } {
+    const sourceFields = { ...DEVICE_COLUMN_FIELDS, ...context.sourceSchema.fields };
+    const targetFields = { ...DEVICE_COLUMN_FIELDS, ...context.targetSchema.fields };
+
+    // Tell the evaluator which numbers carry units so `27in` style literals compare correctly
+    const units = {
+      ...fieldUnits(sourceFields, 'sourceDevice'),
+      ...fieldUnits(targetFields, 'targetDevice'),
+      source: fieldTypeInfo(sourceFields[rule.sourceField]).unit,
+      target: fieldTypeInfo(targetFields[rule.targetField]).unit
+    };
 
-    try {
-      return new Function(`return ${evaluableExpression}`)();
-    } catch (error) {
-      throw new Error(`Failed to evaluate expression: ${expression}`);
+    const compiled = compileExpression(rule.condition);
+    if (!context.trace) {
+      return { value: compiled.evaluate(scope, { units }) };
     }
+
+    const { value, steps } = compiled.trace(scope, { units });
+    return {
+      value,
+      trace: { expression: rule.condition, intermediate: steps, values: { result: value } }
+    };
   }
 }
 
@@ -625,40 +1097,333 @@ class PowerCompatibilityProcessor implements CompatibilityRuleProcessor {
 
 /**
  * Specialized processor for dimension compatibility
+ *
+ * Checks whether the source device physically fits into the target (a TV stand,
+ * rack, backpack or case). Source dimensions come from `widthCm`/`heightCm`/`depthCm`
+ * (or the prefixed set named by `sourceField`); target dimensions come from the set
+ * named by `targetField`, e.g. `interiorWidthCm` or `clearanceHeightCm`.
+ *
+ * Rule parameters:
+ * - `orientations`: 'any' (default, every rotation), 'upright' (height stays vertical) or 'fixed'.
+ *   Without it, the `orientations` metadata of the target's dimension fields applies.
+ * - `clearanceCm`: margin required on each axis, or per axis as `{ width, height, depth }`
  */
 class DimensionCompatibilityProcessor implements CompatibilityRuleProcessor {
-  async process(_rule: CompatibilityRuleDefinition, _context: CompatibilityContext): Promise<{
+  private readonly AXES: DimensionAxis[] = ['width', 'height', 'depth'];
+
+  async process(rule: CompatibilityRuleDefinition, context: CompatibilityContext): Promise<{
     compatible: 'full' | 'partial' | 'none';
     confidence: number;
     limitations: string[];
     recommendations: string[];
   }> {
-    // Implementation for dimension compatibility checking
+    const source = this.readDimensions(
+      context.sourceDevice.specifications,
+      context.sourceSchema,
+      this.getFieldNames(rule.sourceField)
+    );
+    const targetFields = this.getFieldNames(rule.targetField);
+    const target = this.readDimensions(
+      context.targetDevice.specifications,
+      context.targetSchema,
+      targetFields
+    );
+
+    if (this.AXES.some(axis => source[axis] === undefined)) {
+      return {
+        compatible: 'partial',
+        confidence: 0.3,
+        limitations: ['Cannot verify fit: source device dimensions are incomplete'],
+        recommendations: ['Add width, height and depth to the device specifications']
+      };
+    }
+
+    if (this.AXES.every(axis => target[axis] === undefined)) {
+      return {
+        compatible: 'partial',
+        confidence: 0.3,
+        limitations: ['Cannot verify fit: target has no interior or clearance dimensions'],
+        recommendations: []
+      };
+    }
+
+    const clearance = this.getClearance(rule.parameters?.clearanceCm);
+    const orientations = this.getOrientationMode(rule.parameters?.orientations)
+      ?? this.getSchemaOrientations(context.targetSchema, targetFields);
+    const placements = this.getOrientations(orientations).map(orientation =>
+      this.place(source as Record<DimensionAxis, number>, target, orientation, clearance)
+    );
+
+    // Fits with the required clearance in at least one orientation
+    const roomy = placements.find(placement => placement.clearanceShortfall.length === 0);
+    if (roomy) {
+      return {
+        compatible: 'full',
+        confidence: 0.95,
+        limitations: [],
+        recommendations: roomy.rotated ? [`Fits when rotated ${roomy.description}`] : []
+      };
+    }
+
+    // Fits physically, but without the full clearance margin on some axis
+    const tight = placements
+      .filter(placement => placement.fitShortfall.length === 0)
+      .sort((a, b) => a.clearanceShortfall.length - b.clearanceShortfall.length)[0];
+    if (tight) {
+      return {
+        compatible: 'partial',
+        confidence: 0.85,
+        limitations: tight.clearanceShortfall.map(gap =>
+          `Too tight on ${gap.axis}: ${this.format(gap.available)} cm available, ` +
+          `${this.format(gap.required)} cm needed including ${this.format(clearance[gap.axis])} cm clearance`
+        ),
+        recommendations: [
+          ...(tight.rotated ? [`Rotate the device ${tight.description}`] : []),
+          'Leave space around the device for ventilation and cabling'
+        ]
+      };
+    }
+
+    // Does not fit in any orientation; report the orientation that comes closest
+    const closest = placements.sort((a, b) => this.totalShortfall(a) - this.totalShortfall(b))[0];
     return {
-      compatible: 'full',
-      confidence: 0.8,
-      limitations: [],
-      recommendations: []
+      compatible: 'none',
+      confidence: 0.9,
+      limitations: closest.fitShortfall.map(gap =>
+        `Does not fit on ${gap.axis}: device needs ${this.format(gap.required)} cm, ${this.format(gap.available)} cm available`
+      ),
+      recommendations: ['Choose a larger enclosure or stand']
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private place(
+    source: Record<DimensionAxis, number>,
+    target: Partial<Record<DimensionAxis, number>>,
+    orientation: DimensionAxis[],
+    clearance: Record<DimensionAxis, number>
+  ): DimensionPlacement {
+    const fitShortfall: DimensionGap[] = [];
+    const clearanceShortfall: DimensionGap[] = [];
+
+    this.AXES.forEach((axis, index) => {
+      const available = target[axis];
+      if (available === undefined) return;
+
+      const size = source[orientation[index]];
+      if (size > available) {
+        fitShortfall.push({ axis, required: size, available });
+      }
+      if (size + clearance[axis] > available) {
+        clearanceShortfall.push({ axis, required: size + clearance[axis], available });
+      }
+    });
+
+    const moved = this.AXES.filter((axis, index) => orientation[index] !== axis);
+    const rotated = moved.length > 0;
+    const description = 'with its ' + moved
+      .map(axis => `${orientation[this.AXES.indexOf(axis)]} along the ${axis}`)
+      .join(' and its ');
+
+    return { orientation, rotated, description, fitShortfall, clearanceShortfall };
+  }
+
+  private totalShortfall(placement: DimensionPlacement): number {
+    return placement.fitShortfall.reduce((sum, gap) => sum + gap.required - gap.available, 0);
+  }
+
+  /**
+   * Orientations as permutations of the source axes, in target axis order
+   */
+  private getOrientations(mode: FieldMetadata['orientations']): DimensionAxis[][] {
+    if (mode === 'fixed') {
+      return [['width', 'height', 'depth']];
+    }
+    if (mode === 'upright') {
+      return [['width', 'height', 'depth'], ['depth', 'height', 'width']];
+    }
+    return [
+      ['width', 'height', 'depth'],
+      ['depth', 'height', 'width'],
+      ['width', 'depth', 'height'],
+      ['height', 'width', 'depth'],
+      ['height', 'depth', 'width'],
+      ['depth', 'width', 'height']
+    ];
+  }
+
+  private getOrientationMode(value: unknown): FieldMetadata['orientations'] {
+    return value === 'any' || value === 'upright' || value === 'fixed' ? value : undefined;
+  }
+
+  /**
+   * The most restrictive orientations declared on the target's dimension fields
+   */
+  private getSchemaOrientations(
+    schema: CategorySchema,
+    fieldNames: Record<DimensionAxis, string> | null
+  ): FieldMetadata['orientations'] {
+    if (!fieldNames) return undefined;
+
+    const declared = this.AXES.map(axis => schema.fields?.[fieldNames[axis]]?.metadata?.orientations);
+    return (['fixed', 'upright', 'any'] as const).find(mode => declared.includes(mode));
+  }
+
+  private getClearance(value: unknown): Record<DimensionAxis, number> {
+    if (typeof value === 'number') {
+      return { width: value, height: value, depth: value };
+    }
+
+    const perAxis = (value && typeof value === 'object' ? value : {}) as Partial<Record<DimensionAxis, unknown>>;
+    return {
+      width: Number(perAxis.width) || 0,
+      height: Number(perAxis.height) || 0,
+      depth: Number(perAxis.depth) || 0
     };
   }
+
+  /**
+   * Map a dimension field such as `interiorWidthCm` to its width/height/depth siblings
+   */
+  private getFieldNames(field: string): Record<DimensionAxis, string> | null {
+    const match = field.match(/^(.*?)(width|height|depth)(.*)$/i);
+    if (!match) return null;
+
+    const [, prefix, axisName, suffix] = match;
+    const capitalize = axisName[0] === axisName[0].toUpperCase();
+    const name = (axis: DimensionAxis) =>
+      `${prefix}${capitalize ? axis[0].toUpperCase() + axis.slice(1) : axis}${suffix}`;
+
+    return { width: name('width'), height: name('height'), depth: name('depth') };
+  }
+
+  /**
+   * Read dimensions in centimetres, converting fields that declare another length unit
+   */
+  private readDimensions(
+    specifications: Record<string, unknown>,
+    schema: CategorySchema,
+    fieldNames: Record<DimensionAxis, string> | null
+  ): Partial<Record<DimensionAxis, number>> {
+    const dimensions: Partial<Record<DimensionAxis, number>> = {};
+    if (!fieldNames) return dimensions;
+
+    for (const axis of this.AXES) {
+      const value = Number(specifications[fieldNames[axis]]);
+      if (specifications[fieldNames[axis]] === null || specifications[fieldNames[axis]] === undefined || isNaN(value)) {
+        continue;
+      }
+
+      const unit = resolveUnit(schema.fields?.[fieldNames[axis]]?.constraints?.unit);
+      dimensions[axis] = unit?.dimension === 'length' ? convertUnit(value, unit.symbol, 'cm') : value;
+    }
+
+    return dimensions;
+  }
+
+  private format(value: number): string {
+    return (Math.round(value * 10) / 10).toString();
+  }
 }
 
 /**
  * Specialized processor for connector compatibility
+ *
+ * Pairs the devices through their DeviceStandard rows and the standards-based
+ * CompatibilityRule table (in both directions), honouring port counts. The number
+ * of links needed comes from `parameters.connections` (default 1); ports already
+ * taken on the target can be passed in `context.portUsage`. Devices without any
+ * recorded standards fall back to comparing the rule's spec fields.
  */
 class ConnectorCompatibilityProcessor implements CompatibilityRuleProcessor {
-  async process(_rule: CompatibilityRuleDefinition, _context: CompatibilityContext): Promise<{
+  async process(rule: CompatibilityRuleDefinition, context: CompatibilityContext): Promise<{
     compatible: 'full' | 'partial' | 'none';
     confidence: number;
     limitations: string[];
     recommendations: string[];
+    matchedStandards?: StandardMatch[];
   }> {
-    // Implementation for connector compatibility checking
+    const match = await matchDeviceStandards(context.sourceDevice.deviceId, context.targetDevice.deviceId, {
+      connections: Number(rule.parameters?.connections) || 1,
+      portUsage: context.portUsage
+    });
+
+    if (!match.hasStandards) {
+      return this.compareSpecificationValues(rule, context);
+    }
+
+    const matchedStandards = match.matches.filter(m => m.compatibility !== 'none');
+    const limitations = [...new Set(matchedStandards.filter(m => m.connections > 0).flatMap(m => m.limitations))];
+    const recommendations: string[] = [];
+
+    if (match.portShortfall) {
+      const { required, available, standards } = match.portShortfall;
+      limitations.push(
+        `Needs ${required} connection${required === 1 ? '' : 's'} but only ${available} free ${standards.join('/')} port${available === 1 ? ' is' : 's are'} available`
+      );
+      recommendations.push('Use a hub or switch to add more ports');
+    }
+
+    if (match.compatible === 'none') {
+      return {
+        compatible: 'none',
+        confidence: 0.9,
+        limitations: ['No compatible connection standards between these devices'],
+        recommendations: ['Look for an adapter or cable that bridges the two devices'],
+        matchedStandards: match.matches
+      };
+    }
+
+    const used = matchedStandards.filter(m => m.connections > 0);
     return {
-      compatible: 'full',
-      confidence: 0.9,
-      limitations: [],
-      recommendations: []
+      compatible: match.compatible,
+      confidence: used.length > 0 && used.every(m => m.verified) ? 0.95 : 0.85,
+      limitations,
+      recommendations,
+      matchedStandards
+    };
+  }
+
+  /**
+   * Fallback for devices without standards: compare connector values from the specifications
+   */
+  private compareSpecificationValues(rule: CompatibilityRuleDefinition, context: CompatibilityContext): {
+    compatible: 'full' | 'partial' | 'none';
+    confidence: number;
+    limitations: string[];
+    recommendations: string[];
+  } {
+    const normalize = (value: unknown): string[] => {
+      const items: unknown[] = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+      return items
+        .filter(item => typeof item === 'string' || typeof item === 'number')
+        .map(item => String(item).trim().toLowerCase());
+    };
+
+    const sourceConnectors = normalize(context.sourceDevice.specifications[rule.sourceField]);
+    const targetConnectors = normalize(context.targetDevice.specifications[rule.targetField]);
+
+    if (sourceConnectors.length === 0 || targetConnectors.length === 0) {
+      return {
+        compatible: 'partial',
+        confidence: 0.3,
+        limitations: ['Cannot verify connectors: no standards or connector values recorded'],
+        recommendations: []
+      };
+    }
+
+    if (sourceConnectors.some(connector => targetConnectors.includes(connector))) {
+      return { compatible: 'full', confidence: 0.7, limitations: [], recommendations: [] };
+    }
+
+    return {
+      compatible: 'none',
+      confidence: 0.6,
+      limitations: [rule.message ? `No matching connector: ${rule.message}` : 'No matching connector'],
+      recommendations: ['Look for an adapter or cable that bridges the two devices']
     };
   }
 }
@@ -0,0 +1,195 @@
+/**
+ * Computed Fields - Derives computed specification values from registered
+ * compute functions
+ *
+ * A computed field is defined either in `schema.computedFields` or by a field
+ * marked `computed` with a `computeFunction`. Definitions call a registered
+ * function with rule expressions as arguments, e.g.
+ * `calculatePixelDensity(resolution, screenSize)` or
+ * `calculatePowerDensity(powerWatts, volume)`. A bare function name calls it
+ * with the inputs the function was registered with. Computed fields may read
+ * other computed fields; they are evaluated in dependency order and cycles are
+ * rejected when the schema is saved.
+ */
+
+import { CategorySchema, ValidationError } from './types';
+import { collectIdentifiers, evaluateExpressionNode, ExpressionNode, fieldUnits, parseExpression } from './expression';
+
+export interface ComputeFunctionEntry {
+  fn(...args: unknown[]): unknown;
+  inputs?: string[]; // Arguments used when a definition names the function without a call
+}
+
+type ComputeFunctionLookup = (name: string) => ComputeFunctionEntry | undefined;
+
+export interface ComputedFieldStep {
+  field: string;
+  functionName: string;
+  args: ExpressionNode[];
+  dependencies: string[]; // Identifiers read by the arguments
+}
+
+export interface ComputedValuesResult {
+  values: Record<string, unknown>;
+  errors: ValidationError[];
+}
+
+export class ComputedFieldError extends Error {
+  public readonly field?: string;
+
+  constructor(message: string, field?: string) {
+    super(message);
+    this.name = 'ComputedFieldError';
+    this.field = field;
+  }
+}
+
+const CALL_PATTERN = /^\s*([A-Za-z_$][\w$]*)\s*(?:\(([\s\S]*)\))?\s*$/;
+
+export class ComputedFieldPipeline {
+  private plans = new WeakMap<CategorySchema, ComputedFieldStep[]>();
+
+  /**
+   * Computed field definitions of a schema. `computedFields` entries take
+   * precedence over `computeFunction` on the field itself.
+   */
+  getDefinitions(schema: CategorySchema): Record<string, string> {
+    const definitions: Record<string, string> = {};
+
+    for (const [fieldName, field] of Object.entries(schema.fields)) {
+      if (field.computed && field.computeFunction) {
+        definitions[fieldName] = field.computeFunction;
+      }
+    }
+
+    return { ...definitions, ...schema.computedFields };
+  }
+
+  /**
+   * Order the computed fields so every field comes after the computed fields
+   * it reads. Throws on malformed definitions, unknown functions and cycles.
+   */
+  plan(schema: CategorySchema, getFunction: ComputeFunctionLookup): ComputedFieldStep[] {
+    const cached = this.plans.get(schema);
+    if (cached) return cached;
+
+    const steps = new Map<string, ComputedFieldStep>();
+    for (const [fieldName, definition] of Object.entries(this.getDefinitions(schema))) {
+      steps.set(fieldName, this.parseDefinition(fieldName, definition, getFunction));
+    }
+
+    const ordered: ComputedFieldStep[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (fieldName: string, path: string[]): void => {
+      if (state.get(fieldName) === 'done') return;
+      if (state.get(fieldName) === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(fieldName)), fieldName];
+        throw new ComputedFieldError(`Computed fields form a cycle: ${cycle.join(' -> ')}`, fieldName);
+      }
+
+      state.set(fieldName, 'visiting');
+      const step = steps.get(fieldName)!;
+      for (const dependency of step.dependencies) {
+        if (steps.has(dependency)) visit(dependency, [...path, fieldName]);
+      }
+      state.set(fieldName, 'done');
+      ordered.push(step);
+    };
+
+    for (const fieldName of steps.keys()) {
+      visit(fieldName, []);
+    }
+
+    this.plans.set(schema, ordered);
+    return ordered;
+  }
+
+  /**
+   * Compute every computed field of a specification. Fields whose inputs are
+   * missing are left out; functions that fail are reported as errors.
+   */
+  compute(
+    schema: CategorySchema,
+    specifications: Record<string, unknown>,
+    getFunction: ComputeFunctionLookup
+  ): ComputedValuesResult {
+    const values: Record<string, unknown> = {};
+    const errors: ValidationError[] = [];
+    const scope: Record<string, unknown> = { ...specifications };
+    const units = fieldUnits(schema.fields);
+
+    for (const step of this.plan(schema, getFunction)) {
+      if (step.dependencies.some(dependency => scope[dependency] === undefined || scope[dependency] === null)) {
+        delete scope[step.field];
+        continue;
+      }
+
+      try {
+        const args = step.args.map(arg => evaluateExpressionNode(arg, scope, { units }).value);
+        const value = getFunction(step.functionName)!.fn(...args);
+
+        if (typeof value === 'number' && !Number.isFinite(value)) {
+          throw new Error('result is not a finite number');
+        }
+
+        if (value === undefined || value === null) {
+          delete scope[step.field];
+          continue;
+        }
+
+        values[step.field] = value;
+        scope[step.field] = value;
+      } catch (error) {
+        delete scope[step.field];
+        errors.push({
+          field: step.field,
+          message: `${step.functionName} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          severity: 'warning',
+          code: 'COMPUTE_FAILED'
+        });
+      }
+    }
+
+    return { values, errors };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private parseDefinition(
+    fieldName: string,
+    definition: string,
+    getFunction: ComputeFunctionLookup
+  ): ComputedFieldStep {
+    const match = typeof definition === 'string' ? definition.match(CALL_PATTERN) : null;
+    if (!match) {
+      throw new ComputedFieldError(`Computed field ${fieldName} has an invalid definition: ${definition}`, fieldName);
+    }
+
+    const [, functionName, argumentList] = match;
+    const entry = getFunction(functionName);
+    if (!entry) {
+      throw new ComputedFieldError(`Computed field ${fieldName} uses unknown function ${functionName}`, fieldName);
+    }
+
+    let args: ExpressionNode[];
+    try {
+      // Parsed as an array literal so arguments can be any rule expression
+      const source = argumentList !== undefined ? argumentList : (entry.inputs || []).join(', ');
+      const list = parseExpression(`[${source}]`);
+      args = list.type === 'array' ? list.elements : [];
+    } catch (error) {
+      throw new ComputedFieldError(
+        `Computed field ${fieldName} has invalid arguments: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        fieldName
+      );
+    }
+
+    return { field: fieldName, functionName, args, dependencies: [...new Set(args.flatMap(collectIdentifiers))] };
+  }
+}
+
+// Export singleton instance
+export const computedFieldPipeline = new ComputedFieldPipeline();
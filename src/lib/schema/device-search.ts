@@ -0,0 +1,402 @@
+/**
+ * Device Search - Filtered and paginated device queries
+ *
+ * All filters, including category-specific specification filters, are
+ * translated into one SQL query over devices (`d`) and device_specifications,
+ * so pagination and totals are computed by the database. Text queries match
+ * the full-text search documents of devices. Specification filters use the
+ * same expressions as the indexes the index planner builds, and restrict
+ * device_specifications to the category with the literal partial condition
+ * of those indexes, so Postgres can answer them from the indexes.
+ */
+
+import { prisma } from '../database';
+import { schemaRegistry } from './registry';
+import { computedFieldPipeline } from './computed-fields';
+import { indexPlanner } from './index-planner';
+import { fullTextSearch } from './full-text-search';
+import { getFieldAtPath, parseJsonPointer } from './field-paths';
+import { normalizeQuantity } from './units';
+import { CategorySchema, FieldDefinition } from './types';
+import { joinSql, quoteLiteral, rawSql, renderSql, sql, SqlFragment } from './sql';
+
+export interface DeviceSearchFilters {
+  categoryId?: string;
+  verified?: boolean;
+  brand?: string;
+  // Field name or JSON pointer -> exact value, or {min, max, contains}
+  specifications?: Record<string, unknown>;
+  dimensions?: {
+    widthMin?: number;
+    widthMax?: number;
+    heightMin?: number;
+    heightMax?: number;
+    depthMin?: number;
+    depthMax?: number;
+  };
+  power?: {
+    min?: number;
+    max?: number;
+  };
+  weight?: {
+    min?: number;
+    max?: number;
+  };
+}
+
+export type DeviceSearchSort = 'relevance' | 'newest';
+
+export interface DeviceSearchPage {
+  deviceIds: string[]; // In result order
+  total: number;
+}
+
+export class SearchFilterError extends Error {
+  public readonly filter: string;
+
+  constructor(filter: string, message: string) {
+    super(`${filter}: ${message}`);
+    this.name = 'SearchFilterError';
+    this.filter = filter;
+  }
+}
+
+export class DeviceSearch {
+  /**
+   * Filters of a search URL (see `buildSearchParams` in search-utils).
+   * Measurements may carry a unit, e.g. `widthMin=24in`, and are converted
+   * to the canonical units of their columns; specification range bounds
+   * like `{"screenSize": {"min": "27 in"}}` to the unit of their field.
+   * Returns the filters that cannot be converted as invalid.
+   */
+  async parseFilters(searchParams: URLSearchParams): Promise<{ filters: DeviceSearchFilters; invalid: string[] }> {
+    const filters: DeviceSearchFilters = {};
+    const invalid: string[] = [];
+
+    const categoryId = searchParams.get('categoryId');
+    const brand = searchParams.get('brand');
+    const verified = searchParams.get('verified');
+    if (categoryId) filters.categoryId = categoryId;
+    if (brand) filters.brand = brand;
+    if (verified !== null) filters.verified = verified === 'true';
+
+    const measurement = (name: string, unit: string): number | undefined => {
+      const value = searchParams.get(name);
+      if (!value) return undefined;
+
+      try {
+        return normalizeQuantity(value, unit);
+      } catch (error) {
+        invalid.push(`${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return undefined;
+      }
+    };
+
+    const dimensions = {
+      widthMin: measurement('widthMin', 'cm'),
+      widthMax: measurement('widthMax', 'cm'),
+      heightMin: measurement('heightMin', 'cm'),
+      heightMax: measurement('heightMax', 'cm'),
+      depthMin: measurement('depthMin', 'cm'),
+      depthMax: measurement('depthMax', 'cm'),
+    };
+    if (Object.values(dimensions).some(value => value !== undefined)) {
+      filters.dimensions = dimensions;
+    }
+
+    const power = { min: measurement('powerMin', 'W'), max: measurement('powerMax', 'W') };
+    if (power.min !== undefined || power.max !== undefined) {
+      filters.power = power;
+    }
+
+    const weight = { min: measurement('weightMin', 'kg'), max: measurement('weightMax', 'kg') };
+    if (weight.min !== undefined || weight.max !== undefined) {
+      filters.weight = weight;
+    }
+
+    const specifications = searchParams.get('specs');
+    if (specifications) {
+      try {
+        filters.specifications = JSON.parse(specifications);
+      } catch (error) {
+        console.error('Failed to parse specification filters:', error);
+      }
+    }
+
+    if (filters.specifications) {
+      invalid.push(...await this.normalizeRangeBounds(filters.specifications, filters.categoryId));
+    }
+
+    return { filters, invalid };
+  }
+
+  /**
+   * One page of the devices matching a text query and filters, with the
+   * total number of matches. Sorting by relevance needs a text query; other
+   * searches list the newest devices first.
+   */
+  async search(
+    query: string,
+    filters: DeviceSearchFilters,
+    page: { limit: number; offset: number; sort?: DeviceSearchSort }
+  ): Promise<DeviceSearchPage> {
+    const schema = await this.resolveSchema(filters);
+
+    const source = this.sourceClause(query, filters, schema);
+    const rank = page.sort === 'relevance'
+      ? fullTextSearch.rankExpression(query, fullTextSearch.getConfiguration(schema))
+      : null;
+    const orderBy = rank
+      ? sql`ORDER BY ${rank} DESC, d.created_at DESC, d.id`
+      : sql`ORDER BY d.created_at DESC, d.id`;
+
+    const pageQuery = renderSql(sql`SELECT d.id ${source}
+      ${orderBy}
+      LIMIT ${page.limit} OFFSET ${page.offset}`);
+    const countQuery = renderSql(sql`SELECT COUNT(*)::int AS total ${source}`);
+
+    const [rows, counts] = await Promise.all([
+      prisma.$queryRawUnsafe(pageQuery.text, ...pageQuery.params) as Promise<Array<{ id: string }>>,
+      prisma.$queryRawUnsafe(countQuery.text, ...countQuery.params) as Promise<Array<{ total: number }>>
+    ]);
+
+    return {
+      deviceIds: rows.map(row => row.id),
+      total: Number(counts[0]?.total ?? 0)
+    };
+  }
+
+  /**
+   * `SELECT d.id` query of all devices matching a text query and filters,
+   * for use as a subquery
+   */
+  async matchQuery(query: string, filters: DeviceSearchFilters): Promise<SqlFragment> {
+    const schema = await this.resolveSchema(filters);
+    return sql`SELECT d.id ${this.sourceClause(query, filters, schema)}`;
+  }
+
+  /**
+   * FROM and WHERE clauses of a search, for selecting or aggregating its
+   * matches. `withSpecifications` joins the category's device_specifications
+   * (as `ds`) even without specification filters.
+   */
+  sourceClause(
+    query: string,
+    filters: DeviceSearchFilters,
+    schema: CategorySchema | null,
+    withSpecifications: boolean = false
+  ): SqlFragment {
+    const conditions = this.buildConditions(query, filters, schema);
+    const joined = withSpecifications || this.hasSpecificationFilters(filters);
+
+    if (withSpecifications && !this.hasSpecificationFilters(filters) && filters.categoryId) {
+      conditions.push(rawSql(`ds.${indexPlanner.partialCondition(filters.categoryId)}`));
+    }
+
+    const from = joined
+      ? sql`FROM devices d JOIN device_specifications ds ON ds.device_id = d.id`
+      : sql`FROM devices d`;
+    return conditions.length > 0 ? sql`${from} WHERE ${joinSql(conditions, ' AND ')}` : from;
+  }
+
+  /**
+   * SQL conditions of a search. Specification filters are resolved against
+   * the category schema when there is one; without it they are compared as
+   * untyped JSONB values. Throws SearchFilterError for malformed filters.
+   */
+  buildConditions(query: string, filters: DeviceSearchFilters, schema: CategorySchema | null): SqlFragment[] {
+    const conditions: SqlFragment[] = [];
+
+    const textMatch = fullTextSearch.matchCondition(query, fullTextSearch.getConfiguration(schema));
+    if (textMatch) conditions.push(textMatch);
+    if (filters.categoryId) conditions.push(sql`d.category_id = ${filters.categoryId}`);
+    if (filters.brand) conditions.push(sql`d.brand = ${filters.brand}`);
+    if (filters.verified !== undefined) conditions.push(sql`d.verified = ${filters.verified}`);
+
+    // Measurement filters are in the canonical units of their columns
+    const ranges: Array<[string, number | undefined, number | undefined]> = [
+      ['d.width_cm', filters.dimensions?.widthMin, filters.dimensions?.widthMax],
+      ['d.height_cm', filters.dimensions?.heightMin, filters.dimensions?.heightMax],
+      ['d.depth_cm', filters.dimensions?.depthMin, filters.dimensions?.depthMax],
+      ['d.power_watts', filters.power?.min, filters.power?.max],
+      ['d.weight_kg', filters.weight?.min, filters.weight?.max]
+    ];
+    for (const [column, min, max] of ranges) {
+      if (min !== undefined) conditions.push(sql`${rawSql(column)} >= ${min}`);
+      if (max !== undefined) conditions.push(sql`${rawSql(column)} <= ${max}`);
+    }
+
+    if (this.hasSpecificationFilters(filters)) {
+      // Implies the partial condition of the category's expression indexes
+      if (filters.categoryId) {
+        conditions.push(rawSql(`ds.${indexPlanner.partialCondition(filters.categoryId)}`));
+      }
+
+      for (const [key, filter] of Object.entries(filters.specifications!)) {
+        conditions.push(...this.specificationPredicates(key, filter, schema));
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Whether a search filters on specification values
+   */
+  hasSpecificationFilters(filters: DeviceSearchFilters): boolean {
+    return !!filters.specifications && Object.keys(filters.specifications).length > 0;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async resolveSchema(filters: DeviceSearchFilters): Promise<CategorySchema | null> {
+    await schemaRegistry.initialize();
+    return filters.categoryId ? schemaRegistry.getResolvedSchema(filters.categoryId) : null;
+  }
+
+  /**
+   * Predicates of one specification filter. Exact values are compared by
+   * field type: numerically for numbers, by containment for arrays, enums and
+   * objects, and as text otherwise. `min`/`max` compare numerically and
+   * `contains` matches arrays holding the value.
+   */
+  private specificationPredicates(key: string, filter: unknown, schema: CategorySchema | null): SqlFragment[] {
+    if (key.startsWith('/')) return [this.nestedPredicate(key, filter, schema)];
+
+    const field = schema?.fields[key];
+    const computed = this.isComputed(key, schema);
+    const value = rawSql(`(${computed ? 'computed_values' : 'specifications'} -> ${quoteLiteral(key)})`);
+
+    if (!this.isRangeFilter(filter)) {
+      return [this.exactPredicate(key, filter, field, computed)];
+    }
+
+    const predicates: SqlFragment[] = [];
+    const numeric = rawSql(indexPlanner.fieldExpression(key, 'number', computed));
+    const { min, max } = this.rangeBounds(key, filter);
+    if (min !== undefined) predicates.push(sql`${numeric} >= ${min}::numeric`);
+    if (max !== undefined) predicates.push(sql`${numeric} <= ${max}::numeric`);
+    if ('contains' in filter) {
+      predicates.push(sql`${value} @> ${JSON.stringify([filter.contains])}::jsonb`);
+    }
+    return predicates;
+  }
+
+  private exactPredicate(key: string, value: unknown, field: FieldDefinition | undefined, computed: boolean): SqlFragment {
+    const json = JSON.stringify(value);
+
+    if (field && value !== null && value !== undefined) {
+      const expression = rawSql(indexPlanner.fieldExpression(key, field.type, computed));
+
+      switch (field.type) {
+        case 'number':
+          if (typeof value === 'number') return sql`${expression} = ${value}::numeric`;
+          break;
+        case 'array':
+        case 'enum':
+        case 'object':
+          return sql`${expression} @> ${json}::jsonb`;
+        default:
+          if (typeof value !== 'object') return sql`${expression} = ${String(value)}`;
+      }
+    }
+
+    return sql`(${rawSql(computed ? 'computed_values' : 'specifications')} -> ${rawSql(quoteLiteral(key))}) = ${json}::jsonb`;
+  }
+
+  /**
+   * Filters on JSON pointers match when any value at the path does; a single
+   * value has to satisfy all bounds of the filter
+   */
+  private nestedPredicate(pointer: string, filter: unknown, schema: CategorySchema | null): SqlFragment {
+    let segments: string[];
+    try {
+      segments = parseJsonPointer(pointer);
+    } catch (error) {
+      throw new SearchFilterError(pointer, error instanceof Error ? error.message : 'Invalid JSON pointer');
+    }
+
+    // Lax mode applies member accessors and filters to every array item
+    const path = '$' + segments
+      .map(segment => /^\d+$/.test(segment) ? `[${segment}]` : `.${JSON.stringify(segment)}`)
+      .join('');
+    const conditions: string[] = [];
+    const vars: Record<string, unknown> = {};
+
+    if (this.isRangeFilter(filter)) {
+      const { min, max } = this.rangeBounds(pointer, filter);
+      if (min !== undefined) { conditions.push('@ >= $min'); vars.min = min; }
+      if (max !== undefined) { conditions.push('@ <= $max'); vars.max = max; }
+      if ('contains' in filter) { conditions.push('@ == $contains'); vars.contains = filter.contains; }
+    } else {
+      conditions.push('@ == $value');
+      vars.value = filter ?? null;
+    }
+
+    const column = rawSql(this.isComputed(segments[0], schema) ? 'computed_values' : 'specifications');
+    const jsonPath = conditions.length > 0 ? `${path} ? (${conditions.join(' && ')})` : path;
+    return sql`jsonb_path_exists(${column}, ${jsonPath}::jsonpath, ${JSON.stringify(vars)}::jsonb)`;
+  }
+
+  private isRangeFilter(filter: unknown): filter is Record<string, unknown> {
+    return typeof filter === 'object' && filter !== null && !Array.isArray(filter);
+  }
+
+  private rangeBounds(key: string, filter: Record<string, unknown>): { min?: number; max?: number } {
+    const bounds: { min?: number; max?: number } = {};
+
+    for (const bound of ['min', 'max'] as const) {
+      if (filter[bound] === undefined) continue;
+      if (typeof filter[bound] !== 'number' || !Number.isFinite(filter[bound])) {
+        throw new SearchFilterError(`${key}.${bound}`, 'Range bounds must be numbers');
+      }
+      bounds[bound] = filter[bound] as number;
+    }
+
+    return bounds;
+  }
+
+  /**
+   * Convert range bounds given with a unit to the canonical unit of their
+   * field. Returns the bounds that cannot be converted.
+   */
+  private async normalizeRangeBounds(
+    specifications: Record<string, unknown>,
+    categoryId?: string
+  ): Promise<string[]> {
+    const invalid: string[] = [];
+    const ranges = Object.entries(specifications).flatMap(([key, value]) => {
+      if (!this.isRangeFilter(value)) return [];
+      return typeof value.min === 'string' || typeof value.max === 'string' ? [[key, value] as const] : [];
+    });
+    if (ranges.length === 0) return invalid;
+
+    await schemaRegistry.initialize();
+    const fields = (categoryId && schemaRegistry.getResolvedSchema(categoryId)?.fields) || {};
+
+    for (const [key, range] of ranges) {
+      const field = key.startsWith('/') ? getFieldAtPath(fields, parseJsonPointer(key)) : fields[key];
+
+      for (const bound of ['min', 'max'] as const) {
+        if (typeof range[bound] !== 'string') continue;
+
+        try {
+          range[bound] = normalizeQuantity(range[bound], field?.constraints?.unit);
+        } catch (error) {
+          invalid.push(`${key}.${bound}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    return invalid;
+  }
+
+  private isComputed(fieldName: string, schema: CategorySchema | null): boolean {
+    return !!schema && fieldName in computedFieldPipeline.getDefinitions(schema);
+  }
+}
+
+// Export singleton instance
+export const deviceSearch = new DeviceSearch();
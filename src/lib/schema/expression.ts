@@ -0,0 +1,1344 @@
+/**
+ * Rule Expression Language - Sandboxed expressions for validation and compatibility rules
+ *
+ * Conditions are parsed once into an AST, can be type-checked against a schema's
+ * field definitions, and are evaluated by walking the AST. Evaluation only sees the
+ * values passed in as scope plus a whitelist of helper functions; there is no access
+ * to globals, prototypes or arbitrary method calls.
+ *
+ * Supported syntax:
+ * - Literals: numbers, unit-tagged numbers (`27in`, `2.5kg`, `65W`, `120Hz`), strings,
+ *   `true`, `false`, `null` and arrays (`["HDMI", "DisplayPort"]`)
+ * - Field access: `source`, `target`, `sourceDevice.powerWatts`, `values.length`
+ * - Arithmetic: `+ - * / %`
+ * - Comparison: `== != < <= > >=` (`===`/`!==` are accepted as aliases)
+ * - Boolean logic: `and or not` (`&& || !` are accepted as aliases)
+ * - Membership: `value in list`, `list contains value`
+ * - Conditionals: `test ? a : b`
+ * - Helpers: min, max, abs, round, floor, ceil, lower, upper, len, contains,
+ *   overlaps, resolution, convert
+ */
+
+import { FieldDefinition, FieldType } from './types';
+import { resolveUnit, UnitDefinition } from './units';
+
+export class ExpressionError extends Error {
+  public readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+// AST
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | 'in' | 'contains';
+
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'quantity'; value: number; unit: string }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: string }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'unary'; operator: 'not' | '-'; argument: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'logical'; operator: 'and' | 'or'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; callee: string; args: ExpressionNode[] };
+
+// Types used by the static checker
+export type ExpressionType = 'number' | 'string' | 'boolean' | 'array' | 'object' | 'null' | 'any';
+
+export interface TypeInfo {
+  type: ExpressionType;
+  unit?: string;
+  properties?: Record<string, TypeInfo>;
+}
+
+export type TypeEnvironment = Record<string, TypeInfo>;
+
+export interface TypeCheckResult {
+  type: TypeInfo;
+  errors: string[];
+}
+
+export interface EvaluationOptions {
+  // Units of numeric scope values, keyed by access path (e.g. "source", "sourceDevice.screenSize")
+  units?: Record<string, string | undefined>;
+}
+
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  identifiers: string[];
+  evaluate(scope: Record<string, unknown>, options?: EvaluationOptions): unknown;
+  trace(scope: Record<string, unknown>, options?: EvaluationOptions): ExpressionTrace;
+}
+
+// One evaluated sub-expression, in evaluation order (operands before their operator)
+export interface ExpressionTraceEntry {
+  expression: string;
+  value: unknown;
+  unit?: string;
+}
+
+export interface ExpressionTrace {
+  value: unknown;
+  steps: ExpressionTraceEntry[];
+}
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING_DEPTH = 64;
+const MAX_CACHED_EXPRESSIONS = 1000;
+
+const compiledCache = new Map<string, CompiledExpression>();
+
+/**
+ * Parse an expression into a reusable compiled form. Results are cached by source.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const cached = compiledCache.get(source);
+  if (cached) return cached;
+
+  const ast = parseExpression(source);
+  const compiled: CompiledExpression = {
+    source,
+    ast,
+    identifiers: collectIdentifiers(ast),
+    evaluate: (scope, options = {}) => unwrap(new Evaluator(scope, options.units || {}).evaluate(ast)),
+    trace: (scope, options = {}) => {
+      const steps: ExpressionTraceEntry[] = [];
+      const evaluator = new Evaluator(scope, options.units || {}, (node, value) => {
+        steps.push({
+          expression: formatExpression(node),
+          value: unwrap(value),
+          ...(value instanceof Quantity ? { unit: value.unit.symbol } : {})
+        });
+      });
+      return { value: unwrap(evaluator.evaluate(ast)), steps };
+    }
+  };
+
+  if (compiledCache.size >= MAX_CACHED_EXPRESSIONS) {
+    compiledCache.delete(compiledCache.keys().next().value as string);
+  }
+  compiledCache.set(source, compiled);
+
+  return compiled;
+}
+
+/**
+ * Parse and evaluate an expression in one step
+ */
+export function evaluateExpression(
+  source: string,
+  scope: Record<string, unknown>,
+  options?: EvaluationOptions
+): unknown {
+  return compileExpression(source).evaluate(scope, options);
+}
+
+/**
+ * Evaluate an already-parsed (sub-)expression. Numeric results keep their unit,
+ * so callers folding constant parts of a rule know what scale they are on.
+ */
+export function evaluateExpressionNode(
+  node: ExpressionNode,
+  scope: Record<string, unknown>,
+  options: EvaluationOptions = {}
+): { value: unknown; unit?: string } {
+  const result = new Evaluator(scope, options.units || {}).evaluate(node);
+  if (result instanceof Quantity) {
+    return { value: result.inOwnUnit(), unit: result.unit.symbol };
+  }
+  return { value: unwrap(result) };
+}
+
+/**
+ * Parse an expression into an AST without caching
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ExpressionError('Expression is empty');
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Statically check an expression against the types of the identifiers it may use
+ */
+export function typeCheckExpression(
+  expression: string | CompiledExpression,
+  environment: TypeEnvironment
+): TypeCheckResult {
+  let ast: ExpressionNode;
+  try {
+    ast = typeof expression === 'string' ? compileExpression(expression).ast : expression.ast;
+  } catch (error) {
+    return { type: ANY, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const errors: string[] = [];
+  const type = checkNode(ast, environment, errors);
+  return { type, errors: [...new Set(errors)] };
+}
+
+/**
+ * Build a type environment from schema field definitions
+ */
+export function fieldsToTypeEnvironment(fields: Record<string, FieldDefinition> = {}): TypeEnvironment {
+  const environment: TypeEnvironment = {};
+  for (const [fieldName, fieldDef] of Object.entries(fields)) {
+    environment[fieldName] = fieldTypeInfo(fieldDef);
+  }
+  return environment;
+}
+
+/**
+ * Get the expression type of a single field definition
+ */
+export function fieldTypeInfo(fieldDef: FieldDefinition | undefined): TypeInfo {
+  if (!fieldDef) return ANY;
+
+  const typeMap: Record<FieldType, ExpressionType> = {
+    string: 'string',
+    number: 'number',
+    boolean: 'boolean',
+    enum: 'string',
+    array: 'array',
+    object: 'object',
+    date: 'string',
+    url: 'string',
+    email: 'string'
+  };
+
+  const type = typeMap[fieldDef.type] || 'any';
+  const unit = type === 'number' ? resolveUnit(fieldDef.constraints?.unit)?.symbol : undefined;
+
+  return unit ? { type, unit } : { type };
+}
+
+/**
+ * Build the type environment a compatibility rule condition is evaluated in.
+ * When the target category is unknown its fields are left untyped. Computed
+ * fields of each side are known by name; their values are untyped.
+ */
+export function compatibilityRuleEnvironment(
+  sourceFields: Record<string, FieldDefinition>,
+  targetFields: Record<string, FieldDefinition> | undefined,
+  sourceField: string,
+  targetField: string,
+  computedFields: { source?: string[]; target?: string[] } = {}
+): TypeEnvironment {
+  const deviceType = (fields: Record<string, FieldDefinition>, computed: string[] = []): TypeInfo => {
+    const properties = fieldsToTypeEnvironment(fields);
+    for (const fieldName of computed) {
+      properties[fieldName] ??= ANY;
+    }
+    return { type: 'object', properties };
+  };
+
+  return {
+    source: fieldTypeInfo(sourceFields[sourceField]),
+    target: targetFields ? fieldTypeInfo(targetFields[targetField]) : ANY,
+    sourceDevice: deviceType(sourceFields, computedFields.source),
+    targetDevice: targetFields ? deviceType(targetFields, computedFields.target) : ANY
+  };
+}
+
+/**
+ * Collect units of numeric fields, keyed the way EvaluationOptions.units expects
+ */
+export function fieldUnits(fields: Record<string, FieldDefinition> = {}, prefix?: string): Record<string, string> {
+  const units: Record<string, string> = {};
+  for (const [fieldName, fieldDef] of Object.entries(fields)) {
+    const unit = fieldDef.type === 'number' ? resolveUnit(fieldDef.constraints?.unit) : null;
+    if (unit) {
+      units[prefix ? `${prefix}.${fieldName}` : fieldName] = unit.symbol;
+    }
+  }
+  return units;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+interface Token {
+  kind: 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+  value: string;
+  number?: number;
+  unit?: string;
+  position: number;
+}
+
+const SYMBOL_OPERATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||',
+  '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', ',', '.', '?', ':'
+];
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  '===': '==',
+  '!==': '!=',
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not'
+};
+
+const KEYWORD_OPERATORS = new Set(['and', 'or', 'not', 'in', 'contains']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // Numbers, optionally followed directly by a unit (27in, 2.5kg, 120Hz)
+    if (/[0-9]/.test(char)) {
+      const start = index;
+      while (index < source.length && /[0-9]/.test(source[index])) index++;
+      if (source[index] === '.' && /[0-9]/.test(source[index + 1] || '')) {
+        index++;
+        while (index < source.length && /[0-9]/.test(source[index])) index++;
+      }
+      const numberText = source.slice(start, index);
+
+      const unitStart = index;
+      while (index < source.length && /[A-Za-z]/.test(source[index])) index++;
+      const unitText = source.slice(unitStart, index);
+
+      let unit: string | undefined;
+      if (unitText) {
+        const definition = resolveUnit(unitText);
+        if (!definition) {
+          throw new ExpressionError(`Unknown unit '${unitText}'`, unitStart);
+        }
+        unit = definition.symbol;
+      }
+
+      tokens.push({ kind: 'number', value: numberText + unitText, number: Number(numberText), unit, position: start });
+      continue;
+    }
+
+    // Strings
+    if (char === '"' || char === "'") {
+      const start = index;
+      const quote = char;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== quote) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) {
+        throw new ExpressionError('Unterminated string literal', start);
+      }
+      index++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    // Identifiers and keyword operators
+    if (/[A-Za-z_$]/.test(char)) {
+      const start = index;
+      while (index < source.length && /[A-Za-z0-9_$]/.test(source[index])) index++;
+      const word = source.slice(start, index);
+      tokens.push({ kind: KEYWORD_OPERATORS.has(word) ? 'operator' : 'identifier', value: word, position: start });
+      continue;
+    }
+
+    // Symbol operators
+    const operator = SYMBOL_OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: OPERATOR_ALIASES[operator] || operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if (char === '=') {
+      throw new ExpressionError("Assignment is not allowed; use '==' for comparison", index);
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, index);
+  }
+
+  tokens.push({ kind: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+// Method-call syntax kept for conditions written before the expression language
+const METHOD_ALIASES: Record<string, string> = {
+  includes: 'contains',
+  toLowerCase: 'lower',
+  toUpperCase: 'upper'
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.kind !== 'eof') {
+      throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    this.enter();
+    const test = this.parseOr();
+    let node = test;
+
+    if (this.matchOperator('?')) {
+      const consequent = this.parseConditional();
+      this.expectOperator(':');
+      const alternate = this.parseConditional();
+      node = { type: 'conditional', test, consequent, alternate };
+    }
+
+    this.depth--;
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('or')) {
+      left = { type: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    while (this.matchOperator('and')) {
+      left = { type: 'logical', operator: 'and', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    let left = this.parseRelational();
+    let operator: string | null;
+    while ((operator = this.matchAnyOperator(['==', '!=']))) {
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right: this.parseRelational() };
+    }
+    return left;
+  }
+
+  private parseRelational(): ExpressionNode {
+    let left = this.parseAdditive();
+    let operator: string | null;
+    while ((operator = this.matchAnyOperator(['<', '<=', '>', '>=', 'in', 'contains']))) {
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let operator: string | null;
+    while ((operator = this.matchAnyOperator(['+', '-']))) {
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let operator: string | null;
+    while ((operator = this.matchAnyOperator(['*', '/', '%']))) {
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const operator = this.matchAnyOperator(['not', '-', '+']);
+    if (operator) {
+      this.enter();
+      const argument = this.parseUnary();
+      this.depth--;
+      return operator === '+' ? argument : { type: 'unary', operator: operator as 'not' | '-', argument };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (this.matchOperator('.')) {
+      const token = this.next();
+      if (token.kind !== 'identifier' && !(token.kind === 'operator' && KEYWORD_OPERATORS.has(token.value))) {
+        throw new ExpressionError('Expected property name after "."', token.position);
+      }
+
+      if (this.peekOperator('(')) {
+        const functionName = lookup(METHOD_ALIASES, token.value);
+        if (!functionName) {
+          throw new ExpressionError(`Unknown method '${token.value}'`, token.position);
+        }
+        node = { type: 'call', callee: functionName, args: [node, ...this.parseArguments()] };
+      } else {
+        node = { type: 'member', object: node, property: token.value };
+      }
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return token.unit
+          ? { type: 'quantity', value: token.number!, unit: token.unit }
+          : { type: 'literal', value: token.number! };
+
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier': {
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null' || token.value === 'undefined') return { type: 'literal', value: null };
+        if (token.value === 'this') {
+          throw new ExpressionError("'this' is not available in expressions", token.position);
+        }
+
+        if (this.peekOperator('(')) {
+          if (!lookup(FUNCTIONS, token.value)) {
+            throw new ExpressionError(`Unknown function '${token.value}'`, token.position);
+          }
+          return { type: 'call', callee: token.value, args: this.parseArguments() };
+        }
+
+        return { type: 'identifier', name: token.value };
+      }
+
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expectOperator(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const elements: ExpressionNode[] = [];
+          if (!this.matchOperator(']')) {
+            do {
+              elements.push(this.parseConditional());
+            } while (this.matchOperator(','));
+            this.expectOperator(']');
+          }
+          return { type: 'array', elements };
+        }
+        break;
+    }
+
+    throw new ExpressionError(
+      token.kind === 'eof' ? 'Unexpected end of expression' : `Unexpected '${token.value}'`,
+      token.position
+    );
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    this.expectOperator('(');
+    const args: ExpressionNode[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.matchOperator(','));
+      this.expectOperator(')');
+    }
+    return args;
+  }
+
+  private enter(): void {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply');
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'eof') this.index++;
+    return token;
+  }
+
+  private peekOperator(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'operator' && token.value === value;
+  }
+
+  private matchOperator(value: string): boolean {
+    if (this.peekOperator(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchAnyOperator(values: string[]): string | null {
+    const token = this.peek();
+    if (token.kind === 'operator' && values.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.next();
+    if (token.kind !== 'operator' || token.value !== value) {
+      throw new ExpressionError(
+        token.kind === 'eof' ? `Expected '${value}' before end of expression` : `Expected '${value}' but found '${token.value}'`,
+        token.position
+      );
+    }
+  }
+}
+
+// Own-property lookup so names like 'constructor' never resolve through the prototype
+function lookup<T>(table: Record<string, T>, name: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+}
+
+export function collectIdentifiers(ast: ExpressionNode): string[] {
+  const identifiers = new Set<string>();
+
+  const visit = (node: ExpressionNode): void => {
+    switch (node.type) {
+      case 'identifier':
+        identifiers.add(node.name);
+        break;
+      case 'member':
+        visit(node.object);
+        break;
+      case 'array':
+        node.elements.forEach(visit);
+        break;
+      case 'unary':
+        visit(node.argument);
+        break;
+      case 'binary':
+      case 'logical':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case 'call':
+        node.args.forEach(visit);
+        break;
+    }
+  };
+
+  visit(ast);
+  return [...identifiers];
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  or: 1, and: 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4, in: 4, contains: 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6
+};
+
+/**
+ * Print an AST back as expression source, adding parentheses only where needed
+ */
+export function formatExpression(node: ExpressionNode): string {
+  const wrap = (child: ExpressionNode, parentPrecedence: number, isRight = false): string => {
+    const text = formatExpression(child);
+    const precedence = child.type === 'binary' || child.type === 'logical'
+      ? BINARY_PRECEDENCE[child.operator]
+      : child.type === 'conditional' ? 0 : Infinity;
+    return precedence < parentPrecedence || (isRight && precedence === parentPrecedence) ? `(${text})` : text;
+  };
+
+  switch (node.type) {
+    case 'literal':
+      return typeof node.value === 'string' ? JSON.stringify(node.value) : String(node.value);
+    case 'quantity':
+      return `${node.value}${node.unit}`;
+    case 'identifier':
+      return node.name;
+    case 'member':
+      return `${wrap(node.object, Infinity)}.${node.property}`;
+    case 'array':
+      return `[${node.elements.map(formatExpression).join(', ')}]`;
+    case 'unary':
+      return node.operator === 'not'
+        ? `not ${wrap(node.argument, Infinity)}`
+        : `-${wrap(node.argument, Infinity)}`;
+    case 'binary':
+    case 'logical': {
+      const precedence = BINARY_PRECEDENCE[node.operator];
+      return `${wrap(node.left, precedence)} ${node.operator} ${wrap(node.right, precedence, true)}`;
+    }
+    case 'conditional':
+      return `${wrap(node.test, 1)} ? ${formatExpression(node.consequent)} : ${formatExpression(node.alternate)}`;
+    case 'call':
+      return `${node.callee}(${node.args.map(formatExpression).join(', ')})`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+/**
+ * A number tagged with a unit. The value is stored in the dimension's base unit;
+ * `unit` is the unit the value was written in and is used for display and for
+ * interpreting bare numbers it is combined with.
+ */
+class Quantity {
+  constructor(public readonly value: number, public readonly unit: UnitDefinition) {}
+
+  static from(value: number, unit: UnitDefinition): Quantity {
+    return new Quantity(value * unit.factor, unit);
+  }
+
+  inOwnUnit(): number {
+    return this.value / this.unit.factor;
+  }
+}
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+class Evaluator {
+  constructor(
+    private scope: Record<string, unknown>,
+    private units: Record<string, string | undefined>,
+    private record?: (node: ExpressionNode, value: unknown) => void
+  ) {}
+
+  evaluate(node: ExpressionNode): unknown {
+    const value = this.evaluateWithPath(node).value;
+    if (this.record && node.type !== 'literal' && node.type !== 'quantity') {
+      this.record(node, value);
+    }
+    return value;
+  }
+
+  private evaluateWithPath(node: ExpressionNode): { value: unknown; path?: string } {
+    switch (node.type) {
+      case 'identifier':
+        return { value: this.attachUnit(ownProperty(this.scope, node.name), node.name), path: node.name };
+
+      case 'member': {
+        const { value: object, path: objectPath } = this.evaluateWithPath(node.object);
+        const path = objectPath ? `${objectPath}.${node.property}` : undefined;
+        return { value: this.attachUnit(getMember(object, node.property), path), path };
+      }
+
+      default:
+        return { value: this.evaluateNode(node) };
+    }
+  }
+
+  private evaluateNode(node: ExpressionNode): unknown {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'quantity':
+        return Quantity.from(node.value, resolveUnit(node.unit)!);
+
+      case 'array':
+        return node.elements.map(element => this.evaluate(element));
+
+      case 'unary': {
+        const argument = this.evaluate(node.argument);
+        if (node.operator === 'not') return !isTruthy(argument);
+        if (argument === null) return null;
+        if (argument instanceof Quantity) return new Quantity(-argument.value, argument.unit);
+        if (typeof argument === 'number') return -argument;
+        throw new ExpressionError(`Cannot negate ${describeValue(argument)}`);
+      }
+
+      case 'logical': {
+        const left = isTruthy(this.evaluate(node.left));
+        if (node.operator === 'and') return left && isTruthy(this.evaluate(node.right));
+        return left || isTruthy(this.evaluate(node.right));
+      }
+
+      case 'conditional':
+        return isTruthy(this.evaluate(node.test))
+          ? this.evaluate(node.consequent)
+          : this.evaluate(node.alternate);
+
+      case 'binary':
+        return applyBinary(node.operator, this.evaluate(node.left), this.evaluate(node.right));
+
+      case 'call': {
+        const fn = lookup(FUNCTIONS, node.callee);
+        if (!fn) throw new ExpressionError(`Unknown function '${node.callee}'`);
+        const args = node.args.map(arg => this.evaluate(arg));
+        if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+          throw new ExpressionError(`${node.callee}() expects ${describeArity(fn)}, got ${args.length}`);
+        }
+        return fn.evaluate(args);
+      }
+
+      default:
+        return this.evaluateWithPath(node).value;
+    }
+  }
+
+  private attachUnit(value: unknown, path: string | undefined): unknown {
+    if (typeof value !== 'number' || !path) return value;
+    const unit = resolveUnit(this.units[path]);
+    return unit ? Quantity.from(value, unit) : value;
+  }
+}
+
+function ownProperty(object: Record<string, unknown>, property: string): unknown {
+  if (BLOCKED_PROPERTIES.has(property) || !Object.prototype.hasOwnProperty.call(object, property)) {
+    return null;
+  }
+  const value = object[property];
+  return value === undefined ? null : value;
+}
+
+function getMember(object: unknown, property: string): unknown {
+  if (object === null || object === undefined) return null;
+
+  if (property === 'length' && (typeof object === 'string' || Array.isArray(object))) {
+    return object.length;
+  }
+
+  if (typeof object === 'object' && !Array.isArray(object) && !(object instanceof Quantity)) {
+    return ownProperty(object as Record<string, unknown>, property);
+  }
+
+  return null;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (value instanceof Quantity) return value.value !== 0;
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  return !!value;
+}
+
+function unwrap(value: unknown): unknown {
+  if (value instanceof Quantity) return value.inOwnUnit();
+  if (Array.isArray(value)) return value.map(unwrap);
+  return value;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (value instanceof Quantity) return `a ${value.unit.dimension} value`;
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
+
+/**
+ * Bring two numeric operands onto a common scale. Bare numbers combined with a
+ * quantity are read in that quantity's unit.
+ */
+function toCommonNumbers(left: unknown, right: unknown, operator: string): [number, number, UnitDefinition | null] | null {
+  const isNumeric = (value: unknown) => typeof value === 'number' || value instanceof Quantity;
+  if (!isNumeric(left) || !isNumeric(right)) return null;
+
+  if (left instanceof Quantity && right instanceof Quantity) {
+    if (left.unit.dimension !== right.unit.dimension) {
+      throw new ExpressionError(
+        `Cannot apply '${operator}' to ${left.unit.dimension} (${left.unit.symbol}) and ${right.unit.dimension} (${right.unit.symbol})`
+      );
+    }
+    return [left.value, right.value, left.unit];
+  }
+  if (left instanceof Quantity) return [left.value, (right as number) * left.unit.factor, left.unit];
+  if (right instanceof Quantity) return [(left as number) * right.unit.factor, right.value, right.unit];
+  return [left as number, right as number, null];
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  const numbers = toCommonNumbers(left, right, '==');
+  if (numbers) {
+    const [a, b] = numbers;
+    return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, i) => valuesEqual(item, right[i]));
+  }
+
+  if (left !== null && right !== null && typeof left === 'object' && typeof right === 'object') {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+
+  return left === right;
+}
+
+function containsValue(container: unknown, item: unknown): boolean {
+  if (container === null || container === undefined) return false;
+  if (Array.isArray(container)) return container.some(element => valuesEqual(element, item));
+  if (typeof container === 'string') return typeof item === 'string' && container.includes(item);
+  if (typeof container === 'object' && !(container instanceof Quantity)) {
+    return typeof item === 'string' && ownProperty(container as Record<string, unknown>, item) !== null;
+  }
+  throw new ExpressionError(`Cannot check membership in ${describeValue(container)}`);
+}
+
+function applyBinary(operator: BinaryOperator, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case '==':
+      return valuesEqual(left, right);
+    case '!=':
+      return !valuesEqual(left, right);
+    case 'in':
+      return containsValue(right, left);
+    case 'contains':
+      return containsValue(left, right);
+  }
+
+  if (left === null || right === null) {
+    // Missing values never satisfy an ordering and propagate through arithmetic
+    return ['<', '<=', '>', '>='].includes(operator) ? false : null;
+  }
+
+  if (['<', '<=', '>', '>='].includes(operator)) {
+    let a: number | string;
+    let b: number | string;
+    const numbers = toCommonNumbers(left, right, operator);
+    if (numbers) {
+      [a, b] = numbers;
+    } else if (typeof left === 'string' && typeof right === 'string') {
+      [a, b] = [left, right];
+    } else {
+      throw new ExpressionError(`Cannot compare ${describeValue(left)} with ${describeValue(right)}`);
+    }
+
+    switch (operator) {
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      default: return a >= b;
+    }
+  }
+
+  if (operator === '+' && typeof left === 'string' && typeof right === 'string') {
+    return left + right;
+  }
+
+  if (operator === '*' || operator === '/' || operator === '%') {
+    return applyScaling(operator, left, right);
+  }
+
+  const numbers = toCommonNumbers(left, right, operator);
+  if (!numbers) {
+    throw new ExpressionError(`Cannot apply '${operator}' to ${describeValue(left)} and ${describeValue(right)}`);
+  }
+  const [a, b, unit] = numbers;
+  const result = operator === '+' ? a + b : a - b;
+  return unit ? new Quantity(result, unit) : result;
+}
+
+function applyScaling(operator: '*' | '/' | '%', left: unknown, right: unknown): unknown {
+  const isNumeric = (value: unknown) => typeof value === 'number' || value instanceof Quantity;
+  if (!isNumeric(left) || !isNumeric(right)) {
+    throw new ExpressionError(`Cannot apply '${operator}' to ${describeValue(left)} and ${describeValue(right)}`);
+  }
+
+  // Scaling a quantity by a bare number keeps its unit
+  if (left instanceof Quantity && typeof right === 'number') {
+    if (operator !== '*' && right === 0) return null;
+    const value = operator === '*' ? left.value * right : operator === '/' ? left.value / right : left.value % (right * left.unit.factor);
+    return new Quantity(value, left.unit);
+  }
+  if (typeof left === 'number' && right instanceof Quantity && operator === '*') {
+    return new Quantity(left * right.value, right.unit);
+  }
+
+  // Anything else works on base-unit magnitudes and produces a bare number
+  const a = left instanceof Quantity ? left.value : (left as number);
+  const b = right instanceof Quantity ? right.value : (right as number);
+  if (operator === '*') return a * b;
+  if (b === 0) return null;
+  return operator === '/' ? a / b : a % b;
+}
+
+// ---------------------------------------------------------------------------
+// Helper functions
+// ---------------------------------------------------------------------------
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  evaluate(args: unknown[]): unknown;
+  check(args: TypeInfo[]): TypeInfo | string; // Result type or an error message
+}
+
+const ANY: TypeInfo = { type: 'any' };
+const NUMBER: TypeInfo = { type: 'number' };
+const STRING: TypeInfo = { type: 'string' };
+const BOOLEAN: TypeInfo = { type: 'boolean' };
+
+const RESOLUTION_ALIASES: Record<string, [number, number]> = {
+  '480p': [640, 480],
+  '720p': [1280, 720],
+  '1080p': [1920, 1080],
+  '1440p': [2560, 1440],
+  '2160p': [3840, 2160],
+  '4k': [3840, 2160],
+  '5k': [5120, 2880],
+  '8k': [7680, 4320]
+};
+
+function parseResolution(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  const alias = RESOLUTION_ALIASES[normalized] || RESOLUTION_ALIASES[normalized.split(/\s+/)[0]];
+  if (alias) return alias[0] * alias[1];
+
+  const match = normalized.match(/(\d+)\s*[x×]\s*(\d+)/);
+  return match ? Number(match[1]) * Number(match[2]) : null;
+}
+
+function numericArgs(args: unknown[], name: string): Array<number | Quantity> {
+  const values = args.length === 1 && Array.isArray(args[0]) ? args[0] : args;
+  return values.filter(value => value !== null).map(value => {
+    if (typeof value !== 'number' && !(value instanceof Quantity)) {
+      throw new ExpressionError(`${name}() expects numbers, got ${describeValue(value)}`);
+    }
+    return value;
+  });
+}
+
+function pickExtreme(args: unknown[], name: string, pickLarger: boolean): unknown {
+  const values = numericArgs(args, name);
+  if (values.length === 0) return null;
+  return values.reduce((best, value) => {
+    const [a, b] = toCommonNumbers(value, best, name)!;
+    return (pickLarger ? a > b : a < b) ? value : best;
+  });
+}
+
+function mapNumber(value: unknown, name: string, fn: (n: number) => number): unknown {
+  if (value === null) return null;
+  if (value instanceof Quantity) return Quantity.from(fn(value.inOwnUnit()), value.unit);
+  if (typeof value === 'number') return fn(value);
+  throw new ExpressionError(`${name}() expects a number, got ${describeValue(value)}`);
+}
+
+function checkNumeric(name: string) {
+  return (args: TypeInfo[]): TypeInfo | string => {
+    const bad = args.find(arg => !['number', 'array', 'any', 'null'].includes(arg.type));
+    if (bad) return `${name}() expects numbers, got ${bad.type}`;
+    const units = args.map(arg => arg.unit).filter(Boolean);
+    return units.length > 0 ? { type: 'number', unit: units[0] } : NUMBER;
+  };
+}
+
+function checkArgTypes(name: string, expected: ExpressionType[][], result: TypeInfo) {
+  return (args: TypeInfo[]): TypeInfo | string => {
+    for (let i = 0; i < args.length; i++) {
+      const allowed = expected[Math.min(i, expected.length - 1)];
+      if (!['any', 'null'].includes(args[i].type) && !allowed.includes(args[i].type)) {
+        return `${name}() argument ${i + 1} must be ${allowed.join(' or ')}, got ${args[i].type}`;
+      }
+    }
+    return result;
+  };
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => pickExtreme(args, 'min', false),
+    check: checkNumeric('min')
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => pickExtreme(args, 'max', true),
+    check: checkNumeric('max')
+  },
+  abs: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => mapNumber(value, 'abs', Math.abs),
+    check: checkNumeric('abs')
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([value, digits]) => {
+      const factor = Math.pow(10, typeof digits === 'number' ? digits : 0);
+      return mapNumber(value, 'round', n => Math.round(n * factor) / factor);
+    },
+    check: args => checkNumeric('round')(args.slice(0, 1))
+  },
+  floor: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => mapNumber(value, 'floor', Math.floor),
+    check: checkNumeric('floor')
+  },
+  ceil: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => mapNumber(value, 'ceil', Math.ceil),
+    check: checkNumeric('ceil')
+  },
+  lower: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => (typeof value === 'string' ? value.toLowerCase() : value === null ? null : String(unwrap(value)).toLowerCase()),
+    check: checkArgTypes('lower', [['string']], STRING)
+  },
+  upper: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => (typeof value === 'string' ? value.toUpperCase() : value === null ? null : String(unwrap(value)).toUpperCase()),
+    check: checkArgTypes('upper', [['string']], STRING)
+  },
+  len: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => (typeof value === 'string' || Array.isArray(value) ? value.length : 0),
+    check: checkArgTypes('len', [['string', 'array']], NUMBER)
+  },
+  contains: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([container, item]) => containsValue(container, item),
+    check: checkArgTypes('contains', [['array', 'string', 'object'], ['string', 'number', 'boolean', 'array', 'object']], BOOLEAN)
+  },
+  overlaps: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([left, right]) =>
+      Array.isArray(left) && Array.isArray(right) && left.some(item => containsValue(right, item)),
+    check: checkArgTypes('overlaps', [['array']], BOOLEAN)
+  },
+  resolution: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => parseResolution(value),
+    check: checkArgTypes('resolution', [['string']], NUMBER)
+  },
+  convert: {
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, unitName]) => {
+      if (value === null) return null;
+      const unit = typeof unitName === 'string' ? resolveUnit(unitName) : null;
+      if (!unit) throw new ExpressionError(`convert() got an unknown unit: ${String(unitName)}`);
+      if (!(value instanceof Quantity)) {
+        throw new ExpressionError('convert() needs a value with a unit');
+      }
+      if (value.unit.dimension !== unit.dimension) {
+        throw new ExpressionError(`Cannot convert ${value.unit.dimension} to ${unit.dimension}`);
+      }
+      return value.value / unit.factor;
+    },
+    check: args => {
+      const error = checkArgTypes('convert', [['number'], ['string']], NUMBER)(args);
+      if (typeof error === 'string') return error;
+      if (args[0].type === 'number' && !args[0].unit) return 'convert() needs a value with a unit';
+      return NUMBER;
+    }
+  }
+};
+
+function describeArity(fn: ExpressionFunction): string {
+  if (fn.maxArgs === Infinity) return `at least ${fn.minArgs} argument${fn.minArgs === 1 ? '' : 's'}`;
+  if (fn.minArgs === fn.maxArgs) return `${fn.minArgs} argument${fn.minArgs === 1 ? '' : 's'}`;
+  return `${fn.minArgs}-${fn.maxArgs} arguments`;
+}
+
+// ---------------------------------------------------------------------------
+// Static type checker
+// ---------------------------------------------------------------------------
+
+function checkNode(node: ExpressionNode, environment: TypeEnvironment, errors: string[]): TypeInfo {
+  switch (node.type) {
+    case 'literal':
+      if (node.value === null) return { type: 'null' };
+      return { type: typeof node.value as ExpressionType };
+
+    case 'quantity':
+      return { type: 'number', unit: node.unit };
+
+    case 'identifier': {
+      if (!Object.prototype.hasOwnProperty.call(environment, node.name)) {
+        errors.push(`Unknown field '${node.name}'`);
+        return ANY;
+      }
+      return environment[node.name];
+    }
+
+    case 'member': {
+      const object = checkNode(node.object, environment, errors);
+      if (node.property === 'length' && ['string', 'array'].includes(object.type)) return NUMBER;
+      if (object.type === 'any') return ANY;
+      if (object.type === 'object') {
+        if (!object.properties) return ANY;
+        if (!Object.prototype.hasOwnProperty.call(object.properties, node.property)) {
+          errors.push(`Unknown field '${node.property}'`);
+          return ANY;
+        }
+        return object.properties[node.property];
+      }
+      errors.push(`Cannot read '${node.property}' of ${object.type}`);
+      return ANY;
+    }
+
+    case 'array':
+      node.elements.forEach(element => checkNode(element, environment, errors));
+      return { type: 'array' };
+
+    case 'unary': {
+      const argument = checkNode(node.argument, environment, errors);
+      if (node.operator === 'not') return BOOLEAN;
+      if (!isAssignable(argument, 'number')) {
+        errors.push(`Cannot negate ${argument.type}`);
+      }
+      return argument.unit ? { type: 'number', unit: argument.unit } : NUMBER;
+    }
+
+    case 'logical':
+      checkNode(node.left, environment, errors);
+      checkNode(node.right, environment, errors);
+      return BOOLEAN;
+
+    case 'conditional': {
+      checkNode(node.test, environment, errors);
+      const consequent = checkNode(node.consequent, environment, errors);
+      const alternate = checkNode(node.alternate, environment, errors);
+      return consequent.type === alternate.type ? consequent : ANY;
+    }
+
+    case 'binary':
+      return checkBinary(node.operator, checkNode(node.left, environment, errors), checkNode(node.right, environment, errors), errors);
+
+    case 'call': {
+      const fn = lookup(FUNCTIONS, node.callee);
+      const args = node.args.map(arg => checkNode(arg, environment, errors));
+      if (!fn) {
+        errors.push(`Unknown function '${node.callee}'`);
+        return ANY;
+      }
+      if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        errors.push(`${node.callee}() expects ${describeArity(fn)}, got ${args.length}`);
+        return ANY;
+      }
+      const result = fn.check(args);
+      if (typeof result === 'string') {
+        errors.push(result);
+        return ANY;
+      }
+      return result;
+    }
+  }
+}
+
+function isAssignable(info: TypeInfo, ...types: ExpressionType[]): boolean {
+  return info.type === 'any' || info.type === 'null' || types.includes(info.type);
+}
+
+function checkUnits(operator: string, left: TypeInfo, right: TypeInfo, errors: string[]): void {
+  const leftUnit = resolveUnit(left.unit);
+  const rightUnit = resolveUnit(right.unit);
+  if (leftUnit && rightUnit && leftUnit.dimension !== rightUnit.dimension) {
+    errors.push(
+      `Cannot apply '${operator}' to ${leftUnit.dimension} (${leftUnit.symbol}) and ${rightUnit.dimension} (${rightUnit.symbol})`
+    );
+  }
+}
+
+function checkBinary(operator: BinaryOperator, left: TypeInfo, right: TypeInfo, errors: string[]): TypeInfo {
+  switch (operator) {
+    case '==':
+    case '!=': {
+      const comparable = left.type === right.type || [left.type, right.type].some(type => type === 'any' || type === 'null');
+      if (!comparable) {
+        errors.push(`Comparing ${left.type} with ${right.type} is always ${operator === '==' ? 'false' : 'true'}`);
+      }
+      checkUnits(operator, left, right, errors);
+      return BOOLEAN;
+    }
+
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const bothNumbers = isAssignable(left, 'number') && isAssignable(right, 'number');
+      const bothStrings = isAssignable(left, 'string') && isAssignable(right, 'string');
+      if (!bothNumbers && !bothStrings) {
+        errors.push(`Cannot compare ${left.type} with ${right.type} using '${operator}'`);
+      }
+      checkUnits(operator, left, right, errors);
+      return BOOLEAN;
+    }
+
+    case 'in':
+      if (!isAssignable(right, 'array', 'string', 'object')) {
+        errors.push(`Right side of 'in' must be an array, string or object, got ${right.type}`);
+      }
+      return BOOLEAN;
+
+    case 'contains':
+      if (!isAssignable(left, 'array', 'string', 'object')) {
+        errors.push(`Left side of 'contains' must be an array, string or object, got ${left.type}`);
+      }
+      return BOOLEAN;
+
+    case '+':
+      if (left.type === 'string' && right.type === 'string') return STRING;
+    // falls through
+    default: {
+      if (!isAssignable(left, 'number') || !isAssignable(right, 'number')) {
+        errors.push(`Operator '${operator}' cannot be applied to ${left.type} and ${right.type}`);
+        return ANY;
+      }
+      if (operator === '+' || operator === '-') {
+        checkUnits(operator, left, right, errors);
+      }
+      const unit = operator === '+' || operator === '-'
+        ? left.unit || right.unit
+        : (left.unit && !right.unit) ? left.unit : (operator === '*' && !left.unit) ? right.unit : undefined;
+      return unit ? { type: 'number', unit } : NUMBER;
+    }
+  }
+}
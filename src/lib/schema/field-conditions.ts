@@ -0,0 +1,61 @@
+/**
+ * Field Conditions - Visibility and required-ness of fields that depend on
+ * the values of other fields
+ *
+ * Conditions are rule expressions evaluated against the specification, e.g.
+ * `hdrSupport == true` or `powerType == "Battery"`. They are shared by the
+ * validator and the device forms, so both accept any field shape carrying the
+ * condition strings.
+ */
+
+import { compileExpression, EvaluationOptions } from './expression';
+
+export interface ConditionalField {
+  visibleWhen?: string; // Field applies only while this holds
+  requiredWhen?: string; // Field is required while this holds
+}
+
+/**
+ * Evaluate a field condition. Conditions that fail to evaluate yield the
+ * fallback, so a broken condition never hides a field or blocks a save.
+ */
+export function evaluateFieldCondition(
+  condition: string | undefined,
+  values: Record<string, unknown>,
+  fallback: boolean,
+  options?: EvaluationOptions
+): boolean {
+  if (!condition) return fallback;
+
+  try {
+    return !!compileExpression(condition).evaluate({ ...values }, options);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Whether a field applies to a specification
+ */
+export function isFieldVisible(
+  field: ConditionalField,
+  values: Record<string, unknown>,
+  options?: EvaluationOptions
+): boolean {
+  return evaluateFieldCondition(field.visibleWhen, values, true, options);
+}
+
+/**
+ * Whether a field must have a value. Hidden fields are never required;
+ * visible fields are required when always required or when their
+ * `requiredWhen` condition holds.
+ */
+export function isFieldRequired(
+  field: ConditionalField,
+  values: Record<string, unknown>,
+  alwaysRequired: boolean,
+  options?: EvaluationOptions
+): boolean {
+  if (!isFieldVisible(field, values, options)) return false;
+  return alwaysRequired || evaluateFieldCondition(field.requiredWhen, values, false, options);
+}
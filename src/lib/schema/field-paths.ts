@@ -0,0 +1,74 @@
+/**
+ * Field Paths - JSON pointers into nested object and array specification values
+ *
+ * Top-level fields are addressed by name; values inside object and array
+ * fields by JSON pointer (RFC 6901), e.g. `/ports/0/count`. Validation errors
+ * of nested values carry these pointers, and search filters accept them.
+ */
+
+import { FieldDefinition } from './types';
+
+/**
+ * Path of a value inside a field value. Top-level field names become the
+ * first pointer segment.
+ */
+export function childPath(parent: string, key: string | number): string {
+  const base = parent.startsWith('/') ? parent : `/${escapeSegment(parent)}`;
+  return `${base}/${escapeSegment(String(key))}`;
+}
+
+/**
+ * Split a JSON pointer into its unescaped segments
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Values at a path. A segment that is not an array index applies to every
+ * item of an array, so `/ports/type` yields the type of each port.
+ */
+export function resolvePath(value: unknown, segments: string[]): unknown[] {
+  if (segments.length === 0) return value === undefined ? [] : [value];
+
+  const [segment, ...rest] = segments;
+
+  if (Array.isArray(value)) {
+    if (/^\d+$/.test(segment)) return resolvePath(value[Number(segment)], rest);
+    return value.flatMap(item => resolvePath(item, segments));
+  }
+
+  if (value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, segment)) {
+    return resolvePath((value as Record<string, unknown>)[segment], rest);
+  }
+
+  return [];
+}
+
+/**
+ * Definition of the value at a path, following object properties and array
+ * items. Array index segments are optional.
+ */
+export function getFieldAtPath(
+  fields: Record<string, FieldDefinition>,
+  segments: string[]
+): FieldDefinition | undefined {
+  let field: FieldDefinition | undefined = fields[segments[0]];
+
+  for (const segment of segments.slice(1)) {
+    if (field?.type === 'array' && field.items) {
+      field = field.items;
+      if (/^\d+$/.test(segment)) continue;
+    }
+    field = field?.type === 'object' ? field.properties?.[segment] : undefined;
+  }
+
+  return field;
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,207 @@
+/**
+ * Full-Text Search - Weighted search documents of devices and the text
+ * queries that match and rank them
+ *
+ * Every device stores a `search_vector` built from its core columns and the
+ * specification fields marked `searchable`, each with the tsvector weight of
+ * its search configuration, and a `search_text` of its fuzzy fields for
+ * trigram matching of misspelled queries. Model numbers are indexed with
+ * their letter and digit runs, so "OLED55C3" and "OLED 55 C3" match each
+ * other.
+ */
+
+import { prisma } from '../database';
+import { schemaRegistry } from './registry';
+import { computedFieldPipeline } from './computed-fields';
+import { CategorySchema, SearchConfiguration } from './types';
+import { joinSql, quoteLiteral, rawSql, renderSql, sql, SqlFragment } from './sql';
+
+// Core device columns; the backfill in the device_search_vectors migration mirrors these
+export const DEFAULT_SEARCH_CONFIGURATION: SearchConfiguration[] = [
+  { field: 'name', weight: 1, searchType: 'fuzzy' },
+  { field: 'model', weight: 0.6, searchType: 'prefix' },
+  { field: 'brand', weight: 0.4, searchType: 'fuzzy' },
+  { field: 'description', weight: 0.2, searchType: 'fulltext', analyzer: 'english' }
+];
+
+// Configuration of specification fields marked `searchable`
+const SPECIFICATION_FIELD_WEIGHT = 0.2;
+
+const CORE_COLUMNS: Record<string, string> = {
+  name: 'd.name',
+  model: 'd.model',
+  brand: 'd.brand',
+  description: 'd.description'
+};
+
+// Query words beyond this are ignored
+const MAX_QUERY_TERMS = 10;
+
+/**
+ * tsvector weight class of a configured weight
+ */
+export function weightLabel(weight: number): 'A' | 'B' | 'C' | 'D' {
+  if (weight >= 0.8) return 'A';
+  if (weight >= 0.5) return 'B';
+  if (weight >= 0.3) return 'C';
+  return 'D';
+}
+
+/**
+ * Split a query into lowercase terms. Each term lists the tokens it also
+ * matches as a whole: "wh-1000xm5" yields `wh1000xm5` with the parts
+ * `wh`, `1000`, `xm`, `5`.
+ */
+export function parseSearchTerms(query: string): Array<{ term: string; parts: string[] }> {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+(?:[-./][\p{L}\p{N}]+)*/gu) || [];
+
+  return words.slice(0, MAX_QUERY_TERMS).map(word => {
+    const parts = word.match(/\p{L}+|\p{N}+/gu) || [];
+    return { term: parts.join(''), parts: parts.length > 1 ? parts : [] };
+  });
+}
+
+export class FullTextSearch {
+  /**
+   * Search configuration of a category: the core columns followed by its
+   * searchable specification fields
+   */
+  getConfiguration(schema: CategorySchema | null): SearchConfiguration[] {
+    if (!schema) return DEFAULT_SEARCH_CONFIGURATION;
+
+    const specificationFields = Object.entries(schema.fields)
+      .filter(([fieldName, field]) =>
+        field.metadata.searchable && !field.metadata.deprecated && !(fieldName in CORE_COLUMNS))
+      .map(([fieldName, field]): SearchConfiguration => ({
+        field: fieldName,
+        weight: SPECIFICATION_FIELD_WEIGHT,
+        searchType: field.type === 'string' ? 'fuzzy' : 'fulltext'
+      }));
+
+    return [...DEFAULT_SEARCH_CONFIGURATION, ...specificationFields];
+  }
+
+  /**
+   * Rebuild the search document of a device from its current columns and
+   * specification
+   */
+  async refreshDevice(deviceId: string, categoryId: string): Promise<void> {
+    await this.refreshDocuments(categoryId, sql`d.id = ${deviceId}`);
+  }
+
+  /**
+   * Rebuild the search documents of devices of a category after their
+   * specifications were rewritten. Pass the transaction client when the
+   * rewrites are not committed yet.
+   */
+  async refreshDevices(deviceIds: string[], categoryId: string, db = prisma): Promise<void> {
+    if (deviceIds.length === 0) return;
+    await this.refreshDocuments(categoryId, sql`d.id = ANY(${deviceIds}::text[])`, db);
+  }
+
+  /**
+   * Rebuild the search documents of every device in a category, e.g. after
+   * its searchable fields changed. With `missingOnly`, only devices without a
+   * search document are built. Returns the number of devices updated.
+   */
+  async refreshCategory(categoryId: string, options: { missingOnly?: boolean } = {}): Promise<number> {
+    return this.refreshDocuments(
+      categoryId,
+      options.missingOnly
+        ? sql`d.category_id = ${categoryId} AND d.search_vector IS NULL`
+        : sql`d.category_id = ${categoryId}`
+    );
+  }
+
+  /**
+   * Condition matching devices whose search document contains every query
+   * term, or whose fuzzy fields are similar to the query. Null for queries
+   * without terms.
+   */
+  matchCondition(query: string, configuration: SearchConfiguration[]): SqlFragment | null {
+    const tsQuery = this.tsQuery(query, configuration);
+    if (!tsQuery) return null;
+    return sql`(d.search_vector @@ ${tsQuery} OR ${query} <% d.search_text)`;
+  }
+
+  /**
+   * Relevance of a device to a query: the weighted text rank plus the trigram
+   * similarity of the fuzzy fields
+   */
+  rankExpression(query: string, configuration: SearchConfiguration[]): SqlFragment | null {
+    const tsQuery = this.tsQuery(query, configuration);
+    if (!tsQuery) return null;
+    return sql`(ts_rank(d.search_vector, ${tsQuery}) + coalesce(word_similarity(${query}, d.search_text), 0))`;
+  }
+
+  /**
+   * `to_tsquery('simple', ...)` text for a partially typed query: every term
+   * has to match, the last one by prefix. Null for queries without terms.
+   */
+  prefixQuery(query: string): string | null {
+    const terms = parseSearchTerms(query);
+    if (terms.length === 0) return null;
+
+    return terms.map(({ term, parts }, i) => {
+      if (i === terms.length - 1) return `${term}:*`;
+      return parts.length > 0 ? `(${term} | (${parts.join(' & ')}))` : term;
+    }).join(' & ');
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  /**
+   * Each term matches as a whole word, as a prefix within the weights of
+   * prefix-searched fields, by its model number parts, or stemmed
+   */
+  private tsQuery(query: string, configuration: SearchConfiguration[]): SqlFragment | null {
+    const terms = parseSearchTerms(query);
+    if (terms.length === 0) return null;
+
+    const prefixLabels = [...new Set(configuration
+      .filter(config => config.searchType === 'prefix')
+      .map(config => weightLabel(config.weight)))].sort().join('');
+
+    return sql`(${joinSql(terms.map(({ term, parts }) => {
+      const alternatives = [term];
+      if (prefixLabels) alternatives.push(`${term}:*${prefixLabels}`);
+      if (parts.length > 0) alternatives.push(`(${parts.join(' & ')})`);
+      return sql`(to_tsquery('simple', ${alternatives.join(' | ')}) || plainto_tsquery('english', ${term}))`;
+    }), ' && ')})`;
+  }
+
+  private async refreshDocuments(categoryId: string, condition: SqlFragment, db = prisma): Promise<number> {
+    await schemaRegistry.initialize();
+    const schema = schemaRegistry.getResolvedSchema(categoryId);
+    const computed = schema ? computedFieldPipeline.getDefinitions(schema) : {};
+    const configuration = this.getConfiguration(schema);
+
+    const value = (field: string) => rawSql(
+      CORE_COLUMNS[field] ??
+        `(${field in computed ? 'ds.computed_values' : 'ds.specifications'} ->> ${quoteLiteral(field)})`
+    );
+    const vector = joinSql(configuration.map(config =>
+      sql`setweight(to_tsvector(${this.analyzer(config)}::regconfig, expand_model_numbers(coalesce(${value(config.field)}, ''))), ${rawSql(quoteLiteral(weightLabel(config.weight)))})`
+    ), ' || ');
+    const fuzzyValues = configuration
+      .filter(config => config.searchType === 'fuzzy')
+      .map(config => value(config.field));
+
+    const { text, params } = renderSql(sql`UPDATE devices SET
+        search_vector = ${vector},
+        search_text = ${fuzzyValues.length > 0 ? sql`concat_ws(' ', ${joinSql(fuzzyValues, ', ')})` : sql`NULL`}
+      FROM devices d LEFT JOIN device_specifications ds ON ds.device_id = d.id
+      WHERE devices.id = d.id AND ${condition}`);
+
+    return db.$executeRawUnsafe(text, ...params);
+  }
+
+  private analyzer(config: SearchConfiguration): string {
+    return config.searchType === 'fulltext' ? config.analyzer || 'english' : 'simple';
+  }
+}
+
+// Export singleton instance
+export const fullTextSearch = new FullTextSearch();
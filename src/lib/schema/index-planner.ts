@@ -0,0 +1,258 @@
+/**
+ * Index Planner - Plans and maintains expression indexes on device
+ * specification fields from their schema metadata
+ *
+ * Each indexed field gets one partial index restricted to its category:
+ * - numbers: btree on the value cast to numeric, matching range filters
+ * - arrays, enums and objects: GIN on the JSONB value for containment queries
+ * - searchable strings: trigram GIN for fuzzy and substring matching
+ * - other scalars: btree on the text value
+ *
+ * Indexes are built and dropped concurrently, so they never run inside a
+ * transaction, and every index is recorded in `dynamic_indexes`.
+ */
+
+import { prisma } from '../database';
+import { CategorySchema, FieldDefinition, FieldType, PlannedIndex } from './types';
+import { computedFieldPipeline } from './computed-fields';
+import { quoteIdentifier, quoteLiteral } from './sql';
+
+export interface IndexSyncResult {
+  created: string[];
+  dropped: string[];
+  failed: Array<{ field: string; message: string }>;
+}
+
+interface DynamicIndexRecord {
+  id: string;
+  fieldName: string;
+  indexType: string;
+  indexName: string;
+  partialCondition: string | null;
+  expression: string | null;
+}
+
+// PostgreSQL truncates identifiers longer than this
+const MAX_IDENTIFIER_LENGTH = 63;
+
+export class IndexPlanner {
+  /**
+   * Plan the indexes of a schema. Searchable and indexable fields are always
+   * indexed; suggested fields are indexed unless marked `indexable: false`.
+   * Deprecated fields are never indexed.
+   */
+  planIndexes(schema: CategorySchema, suggestedFields: string[] = []): PlannedIndex[] {
+    const suggested = new Set(suggestedFields);
+    const computed = computedFieldPipeline.getDefinitions(schema);
+
+    return Object.entries(schema.fields).flatMap(([fieldName, field]) => {
+      if (!this.isIndexed(field, suggested.has(fieldName))) return [];
+      return [this.planIndex(schema.id, fieldName, field, fieldName in computed)];
+    });
+  }
+
+  /**
+   * Plan the index of a single field, or null if it is not indexed
+   */
+  planFieldIndex(categoryId: string, fieldName: string, field: FieldDefinition): PlannedIndex | null {
+    return this.isIndexed(field) ? this.planIndex(categoryId, fieldName, field, false) : null;
+  }
+
+  /**
+   * Whether a field gets an index
+   */
+  isIndexed(field: FieldDefinition, suggested = false): boolean {
+    if (field.metadata.deprecated) return false;
+    if (field.metadata.searchable || field.metadata.indexable) return true;
+    return suggested && field.metadata.indexable !== false;
+  }
+
+  /**
+   * Bring the indexes of a category in line with its schema: create planned
+   * indexes, rebuild changed ones and drop those of removed or deprecated
+   * fields. Fields that already have an index keep it while still eligible.
+   */
+  async syncIndexes(schema: CategorySchema, suggestedFields: string[] = []): Promise<IndexSyncResult> {
+    const existing: DynamicIndexRecord[] = await prisma.dynamicIndex.findMany({
+      where: { categoryId: schema.id }
+    });
+    const planned = new Map(
+      this.planIndexes(schema, [...suggestedFields, ...existing.map(index => index.fieldName)])
+        .map(index => [index.field, index])
+    );
+    const result: IndexSyncResult = { created: [], dropped: [], failed: [] };
+
+    for (const record of existing) {
+      const index = planned.get(record.fieldName);
+      if (index && this.matches(record, index)) {
+        planned.delete(record.fieldName);
+        continue;
+      }
+
+      try {
+        await this.dropRecordedIndex(record);
+        result.dropped.push(record.indexName);
+      } catch (error) {
+        planned.delete(record.fieldName);
+        result.failed.push({ field: record.fieldName, message: this.describeError(error) });
+      }
+    }
+
+    for (const index of planned.values()) {
+      try {
+        await this.createIndex(schema.id, index);
+        result.created.push(index.name);
+      } catch (error) {
+        result.failed.push({ field: index.field, message: this.describeError(error) });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Build an index concurrently and record it
+   */
+  async createIndex(categoryId: string, index: PlannedIndex): Promise<string> {
+    try {
+      await prisma.$executeRawUnsafe(this.createIndexSql(index));
+    } catch (error) {
+      // A failed concurrent build leaves an invalid index behind
+      await prisma.$executeRawUnsafe(`DROP INDEX CONCURRENTLY IF EXISTS ${quoteIdentifier(index.name)}`).catch(() => {});
+      throw error;
+    }
+
+    await prisma.dynamicIndex.upsert({
+      where: { categoryId_fieldName: { categoryId, fieldName: index.field } },
+      create: {
+        categoryId,
+        fieldName: index.field,
+        indexType: index.type,
+        indexName: index.name,
+        uniqueConstraint: false,
+        partialCondition: index.partial,
+        expression: index.expression
+      },
+      update: {
+        indexType: index.type,
+        indexName: index.name,
+        partialCondition: index.partial,
+        expression: index.expression
+      }
+    });
+
+    console.log(`Created index ${index.name} for field ${index.field}`);
+    return index.name;
+  }
+
+  /**
+   * Drop the recorded index of a field, if any
+   */
+  async dropFieldIndex(categoryId: string, fieldName: string): Promise<string | null> {
+    const record: DynamicIndexRecord | null = await prisma.dynamicIndex.findFirst({
+      where: { categoryId, fieldName }
+    });
+    if (!record) return null;
+
+    await this.dropRecordedIndex(record);
+    return record.indexName;
+  }
+
+  /**
+   * SQL that builds a planned index without blocking writes
+   */
+  createIndexSql(index: PlannedIndex): string {
+    return `CREATE INDEX CONCURRENTLY IF NOT EXISTS ${quoteIdentifier(index.name)} ` +
+      `ON device_specifications USING ${index.type} (${index.expression}) WHERE ${index.partial}`;
+  }
+
+  /**
+   * Expression the index of a field is built on. A query can use the index
+   * when it filters on this exact expression and its WHERE clause implies
+   * the partial condition of the category.
+   */
+  fieldExpression(fieldName: string, type: FieldType, computed = false): string {
+    const column = computed ? 'computed_values' : 'specifications';
+    const key = quoteLiteral(fieldName);
+
+    switch (type) {
+      case 'number':
+        return `(CASE WHEN jsonb_typeof(${column} -> ${key}) = 'number' THEN (${column} ->> ${key})::numeric END)`;
+      case 'array':
+      case 'enum':
+      case 'object':
+        return `(${column} -> ${key})`;
+      default:
+        return `(${column} ->> ${key})`;
+    }
+  }
+
+  /**
+   * Partial index condition restricting an index to one category
+   */
+  partialCondition(categoryId: string): string {
+    return `category_id = ${quoteLiteral(categoryId)}`;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private planIndex(categoryId: string, fieldName: string, field: FieldDefinition, computed: boolean): PlannedIndex {
+    const expression = this.fieldExpression(fieldName, field.type, computed);
+    const base = { field: fieldName, name: this.indexName(categoryId, fieldName), partial: this.partialCondition(categoryId) };
+
+    switch (field.type) {
+      case 'number':
+        return { ...base, type: 'btree', expression };
+
+      case 'array':
+      case 'enum':
+      case 'object':
+        return { ...base, type: 'gin', expression };
+
+      case 'string':
+        if (field.metadata.searchable) {
+          return { ...base, type: 'gin', expression: `${expression} gin_trgm_ops` };
+        }
+        return { ...base, type: 'btree', expression };
+
+      default:
+        return { ...base, type: 'btree', expression };
+    }
+  }
+
+  private indexName(categoryId: string, fieldName: string): string {
+    const fullName = `idx_ds_${categoryId}_${fieldName}`;
+    const name = fullName.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+
+    // Lower-casing, replacing and truncating can map two fields to the same
+    // name (`hdrMode` and `hdrmode`), so names end in a hash of the full name
+    let hash = 0;
+    for (const char of fullName) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    const suffix = `_${hash.toString(36)}`;
+    return name.slice(0, MAX_IDENTIFIER_LENGTH - suffix.length) + suffix;
+  }
+
+  private matches(record: DynamicIndexRecord, index: PlannedIndex): boolean {
+    return record.indexName === index.name &&
+      record.indexType === index.type &&
+      record.expression === index.expression &&
+      record.partialCondition === index.partial;
+  }
+
+  private async dropRecordedIndex(record: DynamicIndexRecord): Promise<void> {
+    await prisma.$executeRawUnsafe(`DROP INDEX CONCURRENTLY IF EXISTS ${quoteIdentifier(record.indexName)}`);
+    await prisma.dynamicIndex.delete({ where: { id: record.id } });
+    console.log(`Removed index ${record.indexName} for field ${record.fieldName}`);
+  }
+
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+// Export singleton instance
+export const indexPlanner = new IndexPlanner();
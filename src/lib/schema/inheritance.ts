@@ -0,0 +1,187 @@
+/**
+ * Schema Inheritance - Resolves the effective schema of a category from the
+ * chain of its ancestors and checks that child overrides only narrow what
+ * they inherit
+ */
+
+import {
+  CategorySchema,
+  FieldConstraints,
+  FieldDefinition,
+  FieldSource,
+  InheritanceConflict,
+  ResolvedCategorySchema
+} from './types';
+
+type SchemaLookup = (categoryId: string) => CategorySchema | null;
+
+export class SchemaInheritanceError extends Error {
+  public readonly categoryId: string;
+  public readonly conflicts: InheritanceConflict[];
+
+  constructor(categoryId: string, conflicts: InheritanceConflict[]) {
+    super(`Schema ${categoryId} breaks inherited field definitions: ${conflicts.map(conflict => conflict.message).join('; ')}`);
+    this.name = 'SchemaInheritanceError';
+    this.categoryId = categoryId;
+    this.conflicts = conflicts;
+  }
+}
+
+export class SchemaInheritanceResolver {
+  /**
+   * Get the schemas from the root ancestor down to the schema itself
+   */
+  getAncestry(schema: CategorySchema, getSchema: SchemaLookup): CategorySchema[] {
+    const chain = [schema];
+    const visited = new Set<string>([schema.id]);
+    let current = schema;
+
+    while (current.parentId) {
+      if (visited.has(current.parentId)) {
+        throw new Error('Circular inheritance detected');
+      }
+
+      const parent = getSchema(current.parentId);
+      if (!parent) {
+        throw new Error(`Parent schema not found: ${current.parentId}`);
+      }
+
+      visited.add(parent.id);
+      chain.unshift(parent);
+      current = parent;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Resolve the effective schema. Each level may override fields it inherits;
+   * overrides are merged into the inherited definition and recorded as
+   * conflicts when they widen it.
+   */
+  resolve(schema: CategorySchema, getSchema: SchemaLookup): ResolvedCategorySchema {
+    const chain = this.getAncestry(schema, getSchema);
+    const fields: Record<string, FieldDefinition> = {};
+    const fieldSources: Record<string, FieldSource> = {};
+    const conflicts: InheritanceConflict[] = [];
+
+    for (const level of chain) {
+      for (const [fieldName, field] of Object.entries(level.fields)) {
+        const inherited = fields[fieldName];
+        if (!inherited) {
+          fields[fieldName] = field;
+          fieldSources[fieldName] = { definedIn: level.id, overriddenIn: [] };
+          continue;
+        }
+
+        conflicts.push(...this.checkOverride(level.id, fieldName, inherited, field));
+        fields[fieldName] = this.mergeField(inherited, field);
+        fieldSources[fieldName].overriddenIn.push(level.id);
+      }
+    }
+
+    return {
+      ...schema,
+      fields,
+      requiredFields: this.unique(chain.flatMap(level => level.requiredFields)),
+      inheritedFields: Object.keys(fields).filter(fieldName => fieldSources[fieldName].definedIn !== schema.id),
+      computedFields: chain.some(level => level.computedFields)
+        ? Object.assign({}, ...chain.map(level => level.computedFields || {}))
+        : undefined,
+      validationRules: this.mergeRules(chain.map(level => level.validationRules)),
+      compatibilityRules: this.mergeRules(chain.map(level => level.compatibilityRules)),
+      ancestors: chain.slice(0, -1).map(level => level.id),
+      localFields: schema.fields,
+      fieldSources,
+      inheritanceConflicts: conflicts
+    };
+  }
+
+  /**
+   * Check that an override narrows the inherited field: it keeps the type and
+   * unit, stays within the inherited ranges and options, and does not make a
+   * required field optional
+   */
+  checkOverride(
+    categoryId: string,
+    fieldName: string,
+    inherited: FieldDefinition,
+    override: FieldDefinition
+  ): InheritanceConflict[] {
+    const problems: string[] = [];
+    const parent: FieldConstraints = inherited.constraints || {};
+    const child: FieldConstraints = override.constraints || {};
+
+    if (override.type !== inherited.type) {
+      problems.push(`changes type from ${inherited.type} to ${override.type}`);
+    }
+
+    for (const key of ['min', 'minLength'] as const) {
+      if (parent[key] !== undefined && child[key] !== undefined && child[key]! < parent[key]!) {
+        problems.push(`lowers ${key} from ${parent[key]} to ${child[key]}`);
+      }
+    }
+
+    for (const key of ['max', 'maxLength'] as const) {
+      if (parent[key] !== undefined && child[key] !== undefined && child[key]! > parent[key]!) {
+        problems.push(`raises ${key} from ${parent[key]} to ${child[key]}`);
+      }
+    }
+
+    if (parent.enum && child.enum) {
+      const added = child.enum.filter(option => !parent.enum!.includes(option));
+      if (added.length > 0) {
+        problems.push(`adds options ${added.join(', ')}`);
+      }
+    }
+
+    if (parent.required && child.required === false) {
+      problems.push('makes a required field optional');
+    }
+
+    for (const key of ['unit', 'pattern', 'format'] as const) {
+      if (parent[key] !== undefined && child[key] !== undefined && child[key] !== parent[key]) {
+        problems.push(`changes ${key} from ${parent[key]} to ${child[key]}`);
+      }
+    }
+
+    return problems.map(problem => ({
+      categoryId,
+      field: fieldName,
+      message: `${categoryId} override of ${fieldName} ${problem}`
+    }));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private mergeField(inherited: FieldDefinition, override: FieldDefinition): FieldDefinition {
+    const constraints = inherited.constraints || override.constraints
+      ? { ...inherited.constraints, ...override.constraints }
+      : undefined;
+
+    return {
+      ...inherited,
+      ...override,
+      constraints,
+      metadata: { ...inherited.metadata, ...override.metadata }
+    };
+  }
+
+  private mergeRules<T extends { id: string }>(levels: Array<T[] | undefined>): T[] | undefined {
+    if (levels.every(rules => !rules)) return undefined;
+
+    // Rules with the same id as an inherited rule replace it
+    const rules = new Map<string, T>();
+    for (const rule of levels.flatMap(level => level || [])) {
+      rules.set(rule.id, rule);
+    }
+
+    return Array.from(rules.values());
+  }
+
+  private unique(values: string[]): string[] {
+    return values.filter((value, index) => values.indexOf(value) === index);
+  }
+}
@@ -2,11 +2,41 @@
  * Migration Manager - Handles schema migrations and database updates
  */
 
-import { prisma } from '../database';
-import { SchemaMigration, MigrationOperation, CategorySchema } from './types';
+import { prisma, NotFoundError, ValidationError } from '../database';
+import {
+  SchemaMigration,
+  MigrationOperation,
+  CategorySchema,
+  FieldDefinition,
+  RollbackOperation,
+  MigrationRollbackData,
+  MigrationRollbackConflict,
+  DeviceSpecification,
+  SchemaBackfillJob
+} from './types';
 import { schemaRegistry } from './registry';
+import { SchemaVersionManager } from './versioning';
+import { schemaBackfill } from './backfill';
+import { indexPlanner } from './index-planner';
+import { fullTextSearch } from './full-text-search';
+
+type DeviceSpecificationState = Map<string, Record<string, unknown>>;
+
+export class MigrationRollbackError extends Error {
+  public readonly migrationId: string;
+  public readonly conflicts: MigrationRollbackConflict[];
+
+  constructor(migrationId: string, conflicts: MigrationRollbackConflict[]) {
+    super(`Migration ${migrationId} cannot be rolled back: ${conflicts.map(conflict => conflict.message).join('; ')}`);
+    this.name = 'MigrationRollbackError';
+    this.migrationId = migrationId;
+    this.conflicts = conflicts;
+  }
+}
 
 export class MigrationManager {
+  private versionManager = new SchemaVersionManager();
+
   /**
    * Create a new migration
    */
@@ -49,12 +79,15 @@ export class MigrationManager {
   }
 
   /**
-   * Apply a migration
+   * Apply a migration. The schema changes take effect immediately; stored
+   * specifications are rewritten to the new version by a backfill job that
+   * runs in the background.
    */
-  async applyMigration(migrationId: string): Promise<{
+  async applyMigration(migrationId: string, options: { batchSize?: number } = {}): Promise<{
     migration: SchemaMigration;
     affectedDevices: number;
     generatedIndexes: string[];
+    backfillJob: SchemaBackfillJob;
   }> {
     // Get migration record from database
     const migrationRecord = await prisma.schemaMigration.findUnique({
@@ -65,28 +98,46 @@ export class MigrationManager {
     });
 
     if (!migrationRecord) {
-      throw new Error(`Migration not found: ${migrationId}`);
+      throw new NotFoundError('Migration', migrationId);
     }
 
     if (migrationRecord.appliedAt) {
-      throw new Error('Migration has already been applied');
+      throw new ValidationError('Migration has already been applied');
     }
 
     const operations = migrationRecord.operations as MigrationOperation[];
     const categoryId = migrationRecord.categoryId;
 
     try {
+      // Record what each operation changes so the migration can be rolled back
+      const rollbackData = await this.captureRollbackData(categoryId, migrationRecord.fromVersion, operations);
+
       // Apply each operation
       const results = await this.applyOperations(categoryId, operations);
 
       // Mark migration as applied
       await prisma.schemaMigration.update({
         where: { id: migrationId },
-        data: { appliedAt: new Date() }
+        data: {
+          appliedAt: new Date(),
+          rolledBackAt: null,
+          rollbackData: JSON.parse(JSON.stringify(rollbackData))
+        }
       });
 
       // Update schema registry
       await schemaRegistry.initialize();
+      if (rollbackData.previousSchema) {
+        await schemaRegistry.registerSchema(
+          this.migrateSchema(rollbackData.previousSchema, operations, migrationRecord.toVersion)
+        );
+      }
+
+      // Rewrite existing specifications to the new version
+      const backfillJob = await schemaBackfill.createJob(migrationRecord, options.batchSize);
+      schemaBackfill.runJob(backfillJob.id).catch(error =>
+        console.error(`Failed to run backfill job ${backfillJob.id}:`, error)
+      );
 
       return {
         migration: {
@@ -98,8 +149,9 @@ export class MigrationManager {
           createdAt: migrationRecord.createdAt,
           appliedAt: new Date()
         },
-        affectedDevices: results.affectedDevices,
-        generatedIndexes: results.generatedIndexes
+        affectedDevices: backfillJob.totalCount,
+        generatedIndexes: results.generatedIndexes,
+        backfillJob
       };
 
     } catch (error) {
@@ -109,39 +161,32 @@ export class MigrationManager {
   }
 
   /**
-   * Apply migration operations
+   * Apply migration operations. Field data is left to the backfill job.
    */
   private async applyOperations(
     categoryId: string, 
     operations: MigrationOperation[]
   ): Promise<{
-    affectedDevices: number;
     generatedIndexes: string[];
   }> {
-    let affectedDevices = 0;
     const generatedIndexes: string[] = [];
 
     for (const operation of operations) {
       switch (operation.type) {
-        case 'add_field':
-          await this.addField(categoryId, operation.field, operation.definition);
-          if (operation.definition.metadata.indexable) {
-            const indexName = await this.createDynamicIndex(categoryId, operation.field);
-            generatedIndexes.push(indexName);
+        case 'add_field': {
+          const index = indexPlanner.planFieldIndex(categoryId, operation.field, operation.definition);
+          if (index) {
+            generatedIndexes.push(await indexPlanner.createIndex(categoryId, index));
           }
           break;
+        }
 
         case 'remove_field':
-          await this.removeField(categoryId, operation.field);
           await this.removeDynamicIndex(categoryId, operation.field);
           break;
 
         case 'modify_field':
-          await this.modifyField(categoryId, operation.field, operation.changes);
-          break;
-
         case 'rename_field':
-          await this.renameField(categoryId, operation.oldName, operation.newName);
           break;
 
         case 'add_validation_rule':
@@ -165,78 +210,7 @@ export class MigrationManager {
       }
     }
 
-    // Count affected devices
-    affectedDevices = await prisma.deviceSpecification.count({
-      where: { categoryId }
-    });
-
-    return { affectedDevices, generatedIndexes };
-  }
-
-  /**
-   * Add a new field to category schema
-   */
-  private async addField(categoryId: string, fieldName: string, definition: any): Promise<void> {
-    // Update existing device specifications to include the new field with default value
-    const defaultValue = this.getDefaultValueForType(definition.type);
-    
-    // Update existing device specifications to include the new field with default value
-    // Use raw SQL for JSON field updates
-    await prisma.$executeRaw`
-      UPDATE device_specifications 
-      SET specifications = specifications || ${JSON.stringify({ [fieldName]: defaultValue })}::jsonb
-      WHERE category_id = ${categoryId}
-      AND NOT (specifications ? ${fieldName})
-    `;
-
-    console.log(`Added field ${fieldName} to category ${categoryId}`);
-  }
-
-  /**
-   * Remove a field from category schema
-   */
-  private async removeField(categoryId: string, fieldName: string): Promise<void> {
-    // Remove field from all device specifications using raw SQL
-    await prisma.$executeRaw`
-      UPDATE device_specifications 
-      SET specifications = specifications - ${fieldName}
-      WHERE category_id = ${categoryId}
-    `;
-    
-    console.log(`Removed field ${fieldName} from category ${categoryId}`);
-  }
-
-  /**
-   * Modify an existing field
-   */
-  private async modifyField(categoryId: string, fieldName: string, changes: any): Promise<void> {
-    // Apply field modifications to existing specifications
-    // This would typically involve validation and type conversion
-    if (changes.defaultValue !== undefined) {
-      await prisma.$executeRaw`
-        UPDATE device_specifications 
-        SET specifications = jsonb_set(specifications, ${`{${fieldName}}`}, ${JSON.stringify(changes.defaultValue)}::jsonb)
-        WHERE category_id = ${categoryId}
-        AND (specifications->>${fieldName} IS NULL OR specifications->>${fieldName} = '')
-      `;
-    }
-    
-    console.log(`Modified field ${fieldName} in category ${categoryId}:`, changes);
-  }
-
-  /**
-   * Rename a field
-   */
-  private async renameField(categoryId: string, oldName: string, newName: string): Promise<void> {
-    // Rename field in all device specifications using raw SQL
-    await prisma.$executeRaw`
-      UPDATE device_specifications 
-      SET specifications = specifications - ${oldName} || jsonb_build_object(${newName}, specifications->${oldName})
-      WHERE category_id = ${categoryId}
-      AND specifications ? ${oldName}
-    `;
-    
-    console.log(`Renamed field ${oldName} to ${newName} in category ${categoryId}`);
+    return { generatedIndexes };
   }
 
   /**
@@ -271,83 +245,18 @@ export class MigrationManager {
     console.log(`Removed compatibility rule ${ruleId} from category ${categoryId}`);
   }
 
-  /**
-   * Create dynamic database index for a field
-   */
-  private async createDynamicIndex(categoryId: string, fieldName: string): Promise<string> {
-    const indexName = `idx_${categoryId}_${fieldName}`.replace(/[^a-zA-Z0-9_]/g, '_');
-    
-    try {
-      // Create the index record
-      await prisma.dynamicIndex.create({
-        data: {
-          categoryId,
-          fieldName,
-          indexType: 'btree',
-          indexName,
-          uniqueConstraint: false
-        }
-      });
-
-      // Create actual database index using raw SQL
-      await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS ${indexName} ON device_specifications USING btree ((specifications->>${fieldName}))`;
-      
-      console.log(`Created index ${indexName} for field ${fieldName}`);
-      return indexName;
-    } catch (error) {
-      console.error(`Failed to create index for ${fieldName}:`, error);
-      throw error;
-    }
-  }
-
   /**
    * Remove dynamic database index for a field
    */
   private async removeDynamicIndex(categoryId: string, fieldName: string): Promise<void> {
     try {
-      // Find the index record
-      const index = await prisma.dynamicIndex.findFirst({
-        where: {
-          categoryId,
-          fieldName
-        }
-      });
-
-      if (index) {
-        // Drop the database index using raw SQL
-        await prisma.$executeRaw`DROP INDEX IF EXISTS ${index.indexName}`;
-        
-        // Remove the index record
-        await prisma.dynamicIndex.delete({
-          where: { id: index.id }
-        });
-
-        console.log(`Removed index ${index.indexName} for field ${fieldName}`);
-      }
+      await indexPlanner.dropFieldIndex(categoryId, fieldName);
     } catch (error) {
       console.error(`Failed to remove index for ${fieldName}:`, error);
       // Don't throw - index removal is not critical
     }
   }
 
-  /**
-   * Get default value for a field type
-   */
-  private getDefaultValueForType(type: string): any {
-    switch (type) {
-      case 'string': return '';
-      case 'number': return 0;
-      case 'boolean': return false;
-      case 'array': return [];
-      case 'object': return {};
-      case 'date': return null;
-      case 'url': return '';
-      case 'email': return '';
-      case 'enum': return null;
-      default: return null;
-    }
-  }
-
   /**
    * Get pending migrations for a category
    */
@@ -374,11 +283,418 @@ export class MigrationManager {
   }
 
   /**
-   * Rollback a migration (if possible)
+   * Roll back an applied migration using the inverse operations recorded when
+   * it was applied. Data changes run in one transaction; if data written after
+   * the migration would be lost, nothing is changed and a MigrationRollbackError
+   * lists the conflicts.
+   */
+  async rollbackMigration(migrationId: string): Promise<{
+    migration: SchemaMigration;
+    operations: RollbackOperation[];
+    affectedDevices: number;
+    restoredVersion: string;
+  }> {
+    const migrationRecord = await prisma.schemaMigration.findUnique({
+      where: { id: migrationId }
+    });
+
+    if (!migrationRecord) {
+      throw new NotFoundError('Migration', migrationId);
+    }
+
+    if (!migrationRecord.appliedAt) {
+      throw new ValidationError('Migration has not been applied yet');
+    }
+
+    const rollbackData = migrationRecord.rollbackData as MigrationRollbackData | null;
+    if (!rollbackData) {
+      throw new MigrationRollbackError(migrationId, [
+        { message: 'Migration was applied without rollback data and has to be reverted manually' }
+      ]);
+    }
+
+    const categoryId = migrationRecord.categoryId;
+    const rolledBackAt = new Date();
+
+    const changedDevices: string[] = await prisma.$transaction(async (tx: typeof prisma) => {
+      // Stop the backfill before reading the rows it would rewrite
+      await schemaBackfill.cancelJob(migrationId, tx);
+
+      // Later migrations may depend on this one's changes
+      const laterMigrations = await tx.schemaMigration.findMany({
+        where: { categoryId, appliedAt: { gt: migrationRecord.appliedAt } },
+        select: { id: true, toVersion: true }
+      });
+
+      // Specifications the backfill has not reached yet still hold their old values
+      const specs = await tx.deviceSpecification.findMany({
+        where: { categoryId, schemaVersion: migrationRecord.toVersion },
+        select: { deviceId: true, specifications: true }
+      });
+      const state: DeviceSpecificationState = new Map(specs.map((spec: { deviceId: string; specifications: unknown }) =>
+        [spec.deviceId, { ...(spec.specifications as Record<string, unknown>) }]
+      ));
+      const original = new Map(Array.from(state, ([deviceId, values]) => [deviceId, JSON.stringify(values)]));
+
+      const conflicts: MigrationRollbackConflict[] = laterMigrations.map((later: { id: string; toVersion: string }) => ({
+        message: `Migration ${later.id} to version ${later.toVersion} was applied afterwards and has to be rolled back first`
+      }));
+      for (const operation of rollbackData.operations) {
+        conflicts.push(...this.findRollbackConflicts(operation, state));
+        this.applyRollbackOperation(operation, state);
+      }
+
+      if (conflicts.length > 0) {
+        throw new MigrationRollbackError(migrationId, conflicts);
+      }
+
+      const changed: string[] = [];
+      for (const [deviceId, specifications] of state) {
+        if (JSON.stringify(specifications) === original.get(deviceId)) continue;
+
+        await tx.deviceSpecification.update({
+          where: { deviceId },
+          data: { specifications: JSON.parse(JSON.stringify(specifications)) }
+        });
+        changed.push(deviceId);
+      }
+
+      await tx.deviceSpecification.updateMany({
+        where: { categoryId, schemaVersion: migrationRecord.toVersion },
+        data: { schemaVersion: migrationRecord.fromVersion }
+      });
+
+      await tx.schemaMigration.update({
+        where: { id: migrationId },
+        data: { appliedAt: null, rolledBackAt }
+      });
+
+      return changed;
+    });
+
+    // Indexes are built concurrently, which cannot happen inside the transaction
+    for (const operation of rollbackData.operations) {
+      if (operation.type === 'remove_field' && operation.dropIndex) {
+        await this.removeDynamicIndex(categoryId, operation.field);
+      } else if (operation.type === 'restore_field' && operation.definition) {
+        const index = indexPlanner.planFieldIndex(categoryId, operation.field, operation.definition);
+        if (index) {
+          await indexPlanner.createIndex(categoryId, index).catch(error =>
+            console.error(`Failed to restore index for ${operation.field}:`, error)
+          );
+        }
+      }
+    }
+
+    // Restore the schema version the migration started from
+    if (rollbackData.previousSchema) {
+      await schemaRegistry.registerSchema(rollbackData.previousSchema);
+    }
+
+    // Search documents follow the restored values and searchable fields
+    await fullTextSearch.refreshDevices(changedDevices, categoryId).catch(error =>
+      console.error(`Failed to refresh search documents after rolling back ${migrationId}:`, error)
+    );
+
+    console.log(`Rolled back migration ${migrationId} to version ${migrationRecord.fromVersion}`);
+
+    return {
+      migration: {
+        id: migrationRecord.id,
+        categoryId,
+        fromVersion: migrationRecord.fromVersion,
+        toVersion: migrationRecord.toVersion,
+        operations: migrationRecord.operations as MigrationOperation[],
+        createdAt: migrationRecord.createdAt,
+        rolledBackAt
+      },
+      operations: rollbackData.operations,
+      affectedDevices: changedDevices.length,
+      restoredVersion: migrationRecord.fromVersion
+    };
+  }
+
+  /**
+   * Snapshot the schema and the device values each operation will change,
+   * as the inverse operations that undo them
    */
-  async rollbackMigration(migrationId: string): Promise<void> {
-    // This would create a reverse migration
-    // Implementation depends on the specific operations that were applied
-    throw new Error('Migration rollback not yet implemented');
+  private async captureRollbackData(
+    categoryId: string,
+    fromVersion: string,
+    operations: MigrationOperation[]
+  ): Promise<MigrationRollbackData> {
+    // Only specifications at the source version are backfilled
+    const specs = await prisma.deviceSpecification.findMany({
+      where: { categoryId, schemaVersion: fromVersion },
+      select: { deviceId: true, specifications: true }
+    });
+    const state: DeviceSpecificationState = new Map(specs.map((spec: { deviceId: string; specifications: unknown }) =>
+      [spec.deviceId, { ...(spec.specifications as Record<string, unknown>) }]
+    ));
+
+    const previousSchema = schemaRegistry.getSchema(categoryId);
+    let fields: Record<string, FieldDefinition> = { ...(previousSchema?.fields || {}) };
+    const inverses: RollbackOperation[] = [];
+
+    for (const operation of operations) {
+      const inverse = this.recordOperation(operation, state, fields);
+      if (inverse) {
+        inverses.unshift(inverse);
+      }
+
+      if (previousSchema) {
+        fields = this.migrateSchema({ ...previousSchema, fields }, [operation], previousSchema.version).fields;
+      }
+    }
+
+    return { previousSchema, operations: inverses };
+  }
+
+  /**
+   * Build the inverse of one operation and apply the operation to the
+   * in-memory specifications the way the backfill job will
+   */
+  private recordOperation(
+    operation: MigrationOperation,
+    state: DeviceSpecificationState,
+    fields: Record<string, FieldDefinition>
+  ): RollbackOperation | null {
+    const before = new Map(state);
+    for (const [deviceId, specifications] of before) {
+      state.set(deviceId, this.migrateValues(specifications, operation));
+    }
+
+    switch (operation.type) {
+      case 'add_field':
+        return {
+          type: 'remove_field',
+          field: operation.field,
+          defaultValue: operation.definition.defaultValue ?? null,
+          keepDeviceIds: Array.from(before)
+            .filter(([, specifications]) => operation.field in specifications)
+            .map(([deviceId]) => deviceId),
+          dropIndex: indexPlanner.isIndexed(operation.definition)
+        };
+
+      case 'remove_field': {
+        const values: Record<string, unknown> = {};
+        for (const [deviceId, specifications] of before) {
+          if (operation.field in specifications) values[deviceId] = specifications[operation.field];
+        }
+        return { type: 'restore_field', field: operation.field, definition: fields[operation.field], values };
+      }
+
+      case 'modify_field': {
+        const values: Record<string, unknown> = {};
+        const writtenValues: Record<string, unknown> = {};
+        const absentDeviceIds: string[] = [];
+        for (const [deviceId, specifications] of before) {
+          const migrated = state.get(deviceId)!;
+          if (this.sameValue(specifications[operation.field], migrated[operation.field])) continue;
+
+          if (!(operation.field in specifications)) {
+            absentDeviceIds.push(deviceId);
+            continue;
+          }
+
+          values[deviceId] = specifications[operation.field];
+          if (!this.sameValue(migrated[operation.field], operation.changes.defaultValue)) {
+            writtenValues[deviceId] = migrated[operation.field];
+          }
+        }
+
+        if (Object.keys(values).length === 0 && absentDeviceIds.length === 0) return null;
+        return {
+          type: 'restore_values',
+          field: operation.field,
+          filledValue: operation.changes.defaultValue ?? null,
+          values,
+          absentDeviceIds,
+          ...(Object.keys(writtenValues).length > 0 ? { writtenValues } : {})
+        };
+      }
+
+      case 'rename_field': {
+        const values: Record<string, unknown> = {};
+        for (const [deviceId, specifications] of before) {
+          if (operation.oldName in specifications && operation.newName in specifications) {
+            values[deviceId] = specifications[operation.newName];
+          }
+        }
+        return { type: 'rename_field', from: operation.newName, to: operation.oldName, values };
+      }
+
+      default:
+        // Rule changes are undone by restoring the previous schema
+        return null;
+    }
+  }
+
+  /**
+   * Find values written after the migration that a rollback operation would lose
+   */
+  private findRollbackConflicts(
+    operation: RollbackOperation,
+    state: DeviceSpecificationState
+  ): MigrationRollbackConflict[] {
+    const conflicts: MigrationRollbackConflict[] = [];
+    const conflict = (deviceId: string, field: string, message: string) =>
+      conflicts.push({ deviceId, field, message: `Device ${deviceId}: ${message}` });
+
+    switch (operation.type) {
+      case 'remove_field': {
+        const keep = new Set(operation.keepDeviceIds);
+        for (const [deviceId, specifications] of state) {
+          if (keep.has(deviceId) || !(operation.field in specifications)) continue;
+          if (!this.sameValue(specifications[operation.field], operation.defaultValue)) {
+            conflict(deviceId, operation.field, `${operation.field} was set after the migration and would be removed`);
+          }
+        }
+        break;
+      }
+
+      case 'restore_field':
+        for (const [deviceId, value] of Object.entries(operation.values)) {
+          const specifications = state.get(deviceId);
+          if (specifications && operation.field in specifications && !this.sameValue(specifications[operation.field], value)) {
+            conflict(deviceId, operation.field, `${operation.field} was written after the migration and would be overwritten`);
+          }
+        }
+        break;
+
+      case 'rename_field':
+        for (const [deviceId, specifications] of state) {
+          if (operation.from in specifications && operation.to in specifications) {
+            conflict(deviceId, operation.to, `${operation.to} was written after the migration and would be overwritten by ${operation.from}`);
+          }
+        }
+        break;
+
+      case 'restore_values':
+        for (const deviceId of [...Object.keys(operation.values), ...operation.absentDeviceIds]) {
+          const specifications = state.get(deviceId);
+          const written = operation.writtenValues && deviceId in operation.writtenValues
+            ? operation.writtenValues[deviceId]
+            : operation.filledValue;
+          if (specifications && operation.field in specifications &&
+            !this.sameValue(specifications[operation.field], written)) {
+            conflict(deviceId, operation.field, `${operation.field} was changed after the migration and would be reset`);
+          }
+        }
+        break;
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Apply a rollback operation to the in-memory specifications
+   */
+  private applyRollbackOperation(operation: RollbackOperation, state: DeviceSpecificationState): void {
+    switch (operation.type) {
+      case 'remove_field': {
+        const keep = new Set(operation.keepDeviceIds);
+        for (const [deviceId, specifications] of state) {
+          if (!keep.has(deviceId)) delete specifications[operation.field];
+        }
+        break;
+      }
+
+      case 'restore_field':
+        for (const [deviceId, value] of Object.entries(operation.values)) {
+          const specifications = state.get(deviceId);
+          if (specifications) specifications[operation.field] = value;
+        }
+        break;
+
+      case 'rename_field':
+        for (const [deviceId, specifications] of state) {
+          if (!(operation.from in specifications)) continue;
+
+          specifications[operation.to] = specifications[operation.from];
+          delete specifications[operation.from];
+          if (deviceId in operation.values) specifications[operation.from] = operation.values[deviceId];
+        }
+        break;
+
+      case 'restore_values':
+        for (const [deviceId, value] of Object.entries(operation.values)) {
+          const specifications = state.get(deviceId);
+          if (specifications && operation.field in specifications) specifications[operation.field] = value;
+        }
+        for (const deviceId of operation.absentDeviceIds) {
+          delete state.get(deviceId)?.[operation.field];
+        }
+        break;
+    }
+  }
+
+  /**
+   * Apply migration operations to a schema definition
+   */
+  private migrateSchema(schema: CategorySchema, operations: MigrationOperation[], version: string): CategorySchema {
+    const fields = { ...schema.fields };
+    let requiredFields = [...schema.requiredFields];
+    let validationRules = [...(schema.validationRules || [])];
+    let compatibilityRules = [...(schema.compatibilityRules || [])];
+
+    for (const operation of operations) {
+      switch (operation.type) {
+        case 'add_field':
+          fields[operation.field] = operation.definition;
+          break;
+
+        case 'remove_field':
+          delete fields[operation.field];
+          requiredFields = requiredFields.filter(field => field !== operation.field);
+          break;
+
+        case 'modify_field':
+          if (fields[operation.field]) {
+            fields[operation.field] = { ...fields[operation.field], ...operation.changes };
+          }
+          break;
+
+        case 'rename_field':
+          if (fields[operation.oldName]) {
+            fields[operation.newName] = fields[operation.oldName];
+            delete fields[operation.oldName];
+          }
+          requiredFields = requiredFields.map(field => field === operation.oldName ? operation.newName : field);
+          break;
+
+        case 'add_validation_rule':
+          validationRules = [...validationRules.filter(rule => rule.id !== operation.rule.id), operation.rule];
+          break;
+
+        case 'remove_validation_rule':
+          validationRules = validationRules.filter(rule => rule.id !== operation.ruleId);
+          break;
+
+        case 'add_compatibility_rule':
+          compatibilityRules = [...compatibilityRules.filter(rule => rule.id !== operation.rule.id), operation.rule];
+          break;
+
+        case 'remove_compatibility_rule':
+          compatibilityRules = compatibilityRules.filter(rule => rule.id !== operation.ruleId);
+          break;
+      }
+    }
+
+    return { ...schema, fields, requiredFields, validationRules, compatibilityRules, version, updatedAt: new Date() };
+  }
+
+  /**
+   * Apply one operation to a device's values with the backfill's semantics
+   */
+  private migrateValues(specifications: Record<string, unknown>, operation: MigrationOperation): Record<string, unknown> {
+    return this.versionManager.migrateSpecification(
+      { specifications } as DeviceSpecification,
+      { operations: [operation] } as SchemaMigration
+    ).specifications;
+  }
+
+  private sameValue(left: unknown, right: unknown): boolean {
+    return JSON.stringify(left) === JSON.stringify(right);
   }
-}
\ No newline at end of file
+}
@@ -3,6 +3,7 @@
  */
 
 import { FieldDefinition, ValidationError, DeviceSpecification } from './types';
+import { normalizeQuantity, parseQuantity } from './units';
 
 // Plugin interfaces
 export interface SpecificationProcessor {
@@ -293,61 +294,44 @@ export class PluginManager {
     this.registerPlugin({
       id: 'unit-converter',
       name: 'Unit Converter',
-      description: 'Converts and normalizes units to standard formats',
+      description: 'Converts unit-tagged values to the canonical unit of each field',
       version: '1.0.0',
       author: 'System',
       enabled: true,
       processors: [{
         id: 'unit-converter-processor',
         name: 'Unit Converter Processor',
-        description: 'Converts units to standard formats',
+        description: 'Parses values such as "27 in" or "65W" and converts them to the field unit',
         version: '1.0.0',
         supportedTypes: ['number'],
         async process(value: any, field: FieldDefinition, context: ProcessingContext): Promise<ProcessingResult> {
-          if (typeof value !== 'number' || !field.constraints?.unit) {
+          // Numbers are already in the field's canonical unit
+          const unit = field.constraints?.unit;
+          if (typeof value !== 'string' || !unit) {
             return { success: true, processedValue: value };
           }
 
-          // Convert common units to standard formats
-          const unit = field.constraints.unit.toLowerCase();
-          let convertedValue = value;
-          let confidence = 1.0;
-
-          const getStandardUnit = (unit: string): string => {
-            const unitMap: Record<string, string> = {
-              'inches': 'cm',
-              'feet': 'cm',
-              'lbs': 'kg',
-              'oz': 'kg'
-            };
-            return unitMap[unit.toLowerCase()] || unit;
-          };
+          // Unit-tagged input such as "27 in" is converted to the field's unit
+          const quantity = parseQuantity(value);
+          try {
+            const convertedValue = normalizeQuantity(value, unit);
 
-          switch (unit) {
-            case 'inches':
-              convertedValue = value * 2.54; // Convert to cm
-              break;
-            case 'feet':
-              convertedValue = value * 30.48; // Convert to cm
-              break;
-            case 'lbs':
-              convertedValue = value * 0.453592; // Convert to kg
-              break;
-            case 'oz':
-              convertedValue = value * 0.0283495; // Convert to kg
-              break;
+            return {
+              success: true,
+              processedValue: convertedValue,
+              confidence: 1.0,
+              metadata: {
+                originalValue: value,
+                originalUnit: quantity?.unit?.symbol || unit,
+                convertedUnit: unit
+              }
+            };
+          } catch (error) {
+            return {
+              success: false,
+              errors: [error instanceof Error ? error.message : 'Unknown error']
+            };
           }
-
-          return {
-            success: true,
-            processedValue: convertedValue,
-            confidence,
-            metadata: {
-              originalValue: value,
-              originalUnit: field.constraints.unit,
-              convertedUnit: getStandardUnit(unit)
-            }
-          };
         }
       }],
       validators: [{
@@ -10,26 +10,125 @@ import {
     FieldDefinition,
     ValidationRule,
     CompatibilityRuleDefinition,
-    MigrationOperation
+    MigrationOperation,
+    MigrationRollbackData,
+    SchemaMergeConflict,
+    SchemaVersionInfo,
+    InheritanceConflict,
+    ResolvedCategorySchema,
+    ValidationError
 } from './types';
 import { supabaseAdmin } from '../supabase-admin';
+import { SchemaVersionManager } from './versioning';
+import { SchemaInheritanceError, SchemaInheritanceResolver } from './inheritance';
+import { computedFieldPipeline, ComputedValuesResult, ComputeFunctionEntry } from './computed-fields';
+import { indexPlanner } from './index-planner';
+import { fullTextSearch } from './full-text-search';
+import { performanceMonitor } from '../monitoring/performance-monitor';
+import { normalizeSpecificationUnits, validateFieldUnits } from './units';
 // Import will be available after files are created
 // import { SchemaValidator } from './validator';
-// import { SchemaVersionManager } from './versioning';
+
+interface SchemaVersionRow {
+    category_id: string;
+    version: string;
+    name: string;
+    description: string | null;
+    fields: unknown;
+    required_fields: string[] | null;
+    inherited_fields: string[] | null;
+    computed_fields: Record<string, string> | null;
+    validation_rules: ValidationRule[] | null;
+    compatibility_rules: CompatibilityRuleDefinition[] | null;
+    deprecated: boolean | null;
+    deprecation_message: string | null;
+    created_at: string;
+    updated_at: string;
+    created_by: string;
+}
+
+interface RebuiltSchemaVersion {
+    schema: CategorySchema | null;
+    source: SchemaVersionInfo['source'];
+}
+
+/**
+ * Least-recently-used cache of rebuilt schema versions, keyed by category and version
+ */
+class SchemaVersionCache {
+    private entries: Map<string, RebuiltSchemaVersion> = new Map();
+
+    constructor(private readonly maxEntries: number) {}
+
+    get(categoryId: string, version: string): RebuiltSchemaVersion | undefined {
+        const key = `${categoryId}@${version}`;
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Move to the most recently used position
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(categoryId: string, version: string, entry: RebuiltSchemaVersion): void {
+        const key = `${categoryId}@${version}`;
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        if (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest !== undefined) this.entries.delete(oldest);
+        }
+    }
+
+    deleteCategory(categoryId: string): void {
+        for (const key of this.entries.keys()) {
+            if (key.startsWith(`${categoryId}@`)) this.entries.delete(key);
+        }
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+}
+
+export class SchemaMergeConflictError extends Error {
+    public readonly categoryId: string;
+    public readonly currentVersion: string;
+    public readonly conflicts: SchemaMergeConflict[];
+    public readonly merged?: CategorySchema;
+
+    constructor(categoryId: string, currentVersion: string, conflicts: SchemaMergeConflict[], merged?: CategorySchema) {
+        super(`Schema ${categoryId} changed since this edit started: ${conflicts.map(conflict => conflict.message).join('; ')}`);
+        this.name = 'SchemaMergeConflictError';
+        this.categoryId = categoryId;
+        this.currentVersion = currentVersion;
+        this.conflicts = conflicts;
+        this.merged = merged;
+    }
+}
 
 export class DeviceSchemaRegistry implements SchemaRegistry {
     public schemas: Map<string, CategorySchema> = new Map();
     public migrations: Map<string, SchemaMigration[]> = new Map();
     public computeFunctions: Map<string, Function> = new Map();
     public validationFunctions: Map<string, Function> = new Map();
+    private computeFunctionInputs: Map<string, string[]> = new Map();
 
     private validator: any; // SchemaValidator;
-    private versionManager: any; // SchemaVersionManager;
+    private versionManager: SchemaVersionManager;
+    private inheritance = new SchemaInheritanceResolver();
     private initialized: boolean = false;
 
+    // Complete historical schemas: stored version rows and snapshots taken when migrations were applied
+    private schemaSnapshots: Map<string, Map<string, RebuiltSchemaVersion>> = new Map();
+    private readonly maxCachedVersions = 50;
+    private versionCache = new SchemaVersionCache(this.maxCachedVersions);
+
     constructor() {
         // this.validator = new SchemaValidator();
-        // this.versionManager = new SchemaVersionManager();
+        this.versionManager = new SchemaVersionManager();
         this.initializeBuiltInFunctions();
     }
 
@@ -41,6 +140,7 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
 
         try {
             await this.loadSchemasFromDatabase();
+            await this.loadSchemaVersionsFromDatabase();
             await this.loadMigrationsFromDatabase();
             this.initialized = true;
             console.log('✅ Schema registry initialized successfully');
@@ -65,15 +165,34 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
             await this.validateInheritance(schema);
         }
 
+        // Reject unknown compute functions and cyclic computed fields
+        this.validateComputedFields(schema);
+
+        // Values are stored in metric units and converted for display
+        validateFieldUnits(schema.fields, this.schemas.get(schema.id)?.fields);
+
         // Store in database
         await this.saveSchemaToDatabase(schema);
 
+        // The replaced version stays available as history
+        const previous = this.schemas.get(schema.id);
+        if (previous && previous.version !== schema.version) {
+            this.addSchemaSnapshot(previous, 'snapshot');
+        }
+        const previousSearchSignature = previous && this.getSearchSignature(previous);
+
         // Update in-memory registry
         this.schemas.set(schema.id, schema);
+        this.versionCache.deleteCategory(schema.id);
 
         // Generate database indexes for new fields
         await this.generateIndexesForSchema(schema);
 
+        // Search documents hold the values of the searchable fields
+        if (previous && previousSearchSignature !== this.getSearchSignature(schema)) {
+            await this.refreshSearchDocuments(schema.id);
+        }
+
         console.log(`✅ Registered schema: ${schema.name} (v${schema.version})`);
     }
 
@@ -92,6 +211,40 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
         return schema;
     }
 
+    /**
+     * List every version of a category known from stored schemas and
+     * migrations, newest first, with how each one is rebuilt
+     */
+    listSchemaVersions(categoryId: string): SchemaVersionInfo[] {
+        const current = this.schemas.get(categoryId);
+        if (!current) return [];
+
+        const migrations = this.getReplayableMigrations(categoryId);
+        const versions = new Set<string>([
+            current.version,
+            ...(this.schemaSnapshots.get(categoryId)?.keys() || []),
+            ...migrations.flatMap(migration => [migration.fromVersion, migration.toVersion])
+        ]);
+
+        return Array.from(versions)
+            .sort((a, b) => this.versionManager.compareVersions(b, a))
+            .map(version => {
+                const migration = migrations.find(m => m.toVersion === version);
+                const isCurrent = version === current.version;
+                if (!isCurrent) {
+                    this.getSchemaVersion(categoryId, version);
+                }
+
+                return {
+                    version,
+                    current: isCurrent,
+                    source: isCurrent ? 'current' : this.versionCache.get(categoryId, version)?.source || 'unavailable',
+                    migrationId: migration?.id,
+                    appliedAt: migration?.appliedAt
+                };
+            });
+    }
+
     /**
      * Get all schemas with optional filtering
      */
@@ -115,23 +268,56 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
     }
 
     /**
-     * Update an existing schema (creates new version)
+     * Update an existing schema (creates new version). Pass the version the
+     * edit started from as baseVersion; if another update landed since, the
+     * edit is merged onto it or rejected with a SchemaMergeConflictError.
      */
     async updateSchema(
         categoryId: string,
         updates: Partial<CategorySchema>,
-        migrationOperations: MigrationOperation[] = []
+        migrationOperations: MigrationOperation[] = [],
+        options: { baseVersion?: string } = {}
     ): Promise<CategorySchema> {
         const currentSchema = this.getSchema(categoryId);
         if (!currentSchema) {
             throw new Error(`Schema not found: ${categoryId}`);
         }
 
+        let proposedSchema: CategorySchema = { ...currentSchema, ...updates };
+        let operations = migrationOperations;
+
+        // The edit started from an older version; merge it onto the current one
+        if (options.baseVersion && options.baseVersion !== currentSchema.version) {
+            const baseSchema = this.getSchema(categoryId, options.baseVersion);
+            if (!baseSchema) {
+                throw new SchemaMergeConflictError(categoryId, currentSchema.version, [{
+                    path: 'version',
+                    base: options.baseVersion,
+                    current: currentSchema.version,
+                    message: `Base version ${options.baseVersion} is not available to merge against`
+                }]);
+            }
+
+            const result = this.versionManager.mergeSchemas(baseSchema, currentSchema, { ...baseSchema, ...updates });
+            if (result.conflicts.length > 0) {
+                throw new SchemaMergeConflictError(categoryId, currentSchema.version, result.conflicts, result.merged);
+            }
+
+            proposedSchema = result.merged;
+            operations = []; // Explicit operations were written against the base version
+        }
+
+        if (operations.length === 0) {
+            operations = this.versionManager.generateMigrationOperations(currentSchema, proposedSchema);
+        }
+
         // Create new version
-        const newVersion = '1.1.0'; // this.versionManager.incrementVersion(currentSchema.version);
+        const newVersion = this.versionManager.incrementVersion(
+            currentSchema.version,
+            this.versionManager.getVersionBump(currentSchema, proposedSchema, operations)
+        );
         const updatedSchema: CategorySchema = {
-            ...currentSchema,
-            ...updates,
+            ...proposedSchema,
             version: newVersion,
             updatedAt: new Date()
         };
@@ -142,14 +328,24 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
         //   throw new Error(`Invalid schema update: ${validationResult.errors.join(', ')}`);
         // }
 
+        // Children may only narrow inherited fields, including the ones changed here
+        const inheritanceConflicts = this.findInheritanceConflicts(updatedSchema);
+        if (inheritanceConflicts.length > 0) {
+            throw new SchemaInheritanceError(categoryId, inheritanceConflicts);
+        }
+
+        // Fields the update adds or changes must use metric units; checked
+        // before the migration is recorded
+        validateFieldUnits(updatedSchema.fields, currentSchema.fields);
+
         // Create migration if there are operations
-        if (migrationOperations.length > 0) {
+        if (operations.length > 0) {
             const migration: SchemaMigration = {
                 id: `${categoryId}_${currentSchema.version}_to_${newVersion}`,
                 fromVersion: currentSchema.version,
                 toVersion: newVersion,
                 categoryId,
-                operations: migrationOperations,
+                operations,
                 createdAt: new Date()
             };
 
@@ -158,6 +354,7 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
 
         // Register updated schema
         await this.registerSchema(updatedSchema);
+        await this.cascadeAddedFields(updatedSchema, operations);
 
         return updatedSchema;
     }
@@ -188,39 +385,93 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
     }
 
     /**
-     * Inherit fields from parent schema
+     * Inherit fields, rules and required fields from every ancestor
      */
-    async inheritFromParent(childSchema: CategorySchema): Promise<CategorySchema> {
-        if (!childSchema.parentId) return childSchema;
+    async inheritFromParent(childSchema: CategorySchema): Promise<ResolvedCategorySchema> {
+        return this.inheritance.resolve(childSchema, categoryId => this.getSchema(categoryId));
+    }
 
-        const parentSchema = this.getSchema(childSchema.parentId);
-        if (!parentSchema) {
-            throw new Error(`Parent schema not found: ${childSchema.parentId}`);
-        }
+    /**
+     * Get the effective schema of a category with the source of each field
+     */
+    getResolvedSchema(categoryId: string, version?: string): ResolvedCategorySchema | null {
+        const schema = this.getSchema(categoryId, version);
+        if (!schema) return null;
 
-        // Merge parent fields with child fields
-        const inheritedFields = { ...parentSchema.fields };
-        const mergedFields = { ...inheritedFields, ...childSchema.fields };
+        return this.inheritance.resolve(schema, id => this.getSchema(id));
+    }
 
-        // Merge required fields
-        const mergedRequiredFields = [
-            ...parentSchema.requiredFields,
-            ...childSchema.requiredFields
-        ].filter((field, index, arr) => arr.indexOf(field) === index);
+    /**
+     * Get every category below a category, nearest first
+     */
+    getDescendants(categoryId: string): string[] {
+        const hierarchy = this.getSchemaHierarchy();
+        const descendants: string[] = [];
+        const queue = [...(hierarchy.get(categoryId) || [])];
 
-        return {
-            ...childSchema,
-            fields: mergedFields,
-            requiredFields: mergedRequiredFields,
-            inheritedFields: Object.keys(inheritedFields)
-        };
+        while (queue.length > 0) {
+            const childId = queue.shift()!;
+            if (childId === categoryId || descendants.includes(childId)) continue;
+
+            descendants.push(childId);
+            queue.push(...(hierarchy.get(childId) || []));
+        }
+
+        return descendants;
     }
 
     /**
-     * Register compute function
+     * Register compute function. Inputs are the fields it is called with when
+     * a computed field names the function without arguments.
      */
-    registerComputeFunction(name: string, func: Function): void {
+    registerComputeFunction(name: string, func: Function, inputs?: string[]): void {
         this.computeFunctions.set(name, func);
+        if (inputs) {
+            this.computeFunctionInputs.set(name, inputs);
+        } else {
+            this.computeFunctionInputs.delete(name);
+        }
+    }
+
+    /**
+     * Check that every computed field of a schema calls a registered function
+     * and that computed fields do not depend on each other in a cycle
+     */
+    validateComputedFields(schema: CategorySchema): void {
+        computedFieldPipeline.plan(this.getEffectiveSchema(schema), name => this.getComputeFunction(name));
+    }
+
+    /**
+     * Derive the computed fields of a specification, inherited ones included
+     */
+    computeValues(
+        categoryId: string,
+        specifications: Record<string, unknown>,
+        version?: string
+    ): ComputedValuesResult {
+        const schema = this.getSchema(categoryId, version);
+        if (!schema) return { values: {}, errors: [] };
+
+        return computedFieldPipeline.compute(
+            this.getEffectiveSchema(schema),
+            specifications,
+            name => this.getComputeFunction(name)
+        );
+    }
+
+    /**
+     * Convert unit-tagged values such as "27 in" to the canonical unit of each
+     * field, inherited fields included
+     */
+    normalizeUnits(
+        categoryId: string,
+        specifications: Record<string, unknown>,
+        version?: string
+    ): { values: Record<string, unknown>; errors: ValidationError[] } {
+        const schema = this.getSchema(categoryId, version);
+        if (!schema) return { values: specifications, errors: [] };
+
+        return normalizeSpecificationUnits(this.getEffectiveSchema(schema).fields, specifications);
     }
 
     /**
@@ -275,9 +526,119 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
         }
     }
 
+    private async loadSchemaVersionsFromDatabase(): Promise<void> {
+        try {
+            const { data: rows, error } = await supabaseAdmin
+                .from('device_category_schemas')
+                .select('*');
+
+            if (error) {
+                console.error('Error loading schema versions from Supabase:', error);
+                return;
+            }
+
+            for (const row of rows || []) {
+                const schema = this.convertSchemaRow(row);
+                if (schema) {
+                    this.addSchemaSnapshot(schema, 'stored');
+                }
+            }
+        } catch (error) {
+            console.error('Failed to load schema versions from database:', error);
+        }
+    }
+
     private async loadMigrationsFromDatabase(): Promise<void> {
-        // Load from schema_migrations table (to be created)
-        // Implementation will be added when migration table is created
+        try {
+            const { data: rows, error } = await supabaseAdmin
+                .from('schema_migrations')
+                .select('*')
+                .order('created_at', { ascending: true });
+
+            if (error) {
+                console.error('Error loading migrations from Supabase:', error);
+                return;
+            }
+
+            this.migrations.clear();
+            for (const row of rows || []) {
+                const migrations = this.migrations.get(row.category_id) || [];
+                migrations.push({
+                    id: row.id,
+                    categoryId: row.category_id,
+                    fromVersion: row.from_version,
+                    toVersion: row.to_version,
+                    operations: row.operations || [],
+                    createdAt: new Date(row.created_at),
+                    appliedAt: row.applied_at ? new Date(row.applied_at) : undefined,
+                    rolledBackAt: row.rolled_back_at ? new Date(row.rolled_back_at) : undefined
+                });
+                this.migrations.set(row.category_id, migrations);
+
+                // Applied migrations record the complete schema they started from
+                const previousSchema = (row.rollback_data as MigrationRollbackData | null)?.previousSchema;
+                if (previousSchema) {
+                    this.addSchemaSnapshot({
+                        ...previousSchema,
+                        createdAt: new Date(previousSchema.createdAt),
+                        updatedAt: new Date(previousSchema.updatedAt)
+                    }, 'snapshot');
+                }
+            }
+        } catch (error) {
+            console.error('Failed to load migrations from database:', error);
+        }
+    }
+
+    /**
+     * Convert a device_category_schemas row. Rows without complete field
+     * definitions (e.g. placeholders created for a migration) are skipped.
+     */
+    private convertSchemaRow(row: SchemaVersionRow): CategorySchema | null {
+        const fields = row.fields as Record<string, FieldDefinition>;
+        const isFieldMap = fields && typeof fields === 'object' && !Array.isArray(fields) &&
+            Object.keys(fields).length > 0 &&
+            Object.values(fields).every(field => field && typeof field.type === 'string' && field.metadata);
+        if (!isFieldMap) return null;
+
+        return {
+            id: row.category_id,
+            name: row.name,
+            version: row.version,
+            description: row.description ?? undefined,
+            fields,
+            inheritedFields: row.inherited_fields ?? undefined,
+            requiredFields: row.required_fields || [],
+            computedFields: row.computed_fields ?? undefined,
+            validationRules: row.validation_rules ?? undefined,
+            compatibilityRules: row.compatibility_rules ?? undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+            createdBy: row.created_by,
+            deprecated: row.deprecated ?? undefined,
+            deprecationMessage: row.deprecation_message ?? undefined
+        };
+    }
+
+    /**
+     * Keep a complete historical schema. Stored rows win over snapshots.
+     */
+    private addSchemaSnapshot(schema: CategorySchema, source: 'stored' | 'snapshot'): void {
+        const snapshots = this.schemaSnapshots.get(schema.id) || new Map<string, RebuiltSchemaVersion>();
+        if (source === 'snapshot' && snapshots.get(schema.version)?.source === 'stored') return;
+
+        snapshots.set(schema.version, { schema, source });
+        this.schemaSnapshots.set(schema.id, snapshots);
+        this.versionCache.deleteCategory(schema.id);
+    }
+
+    /**
+     * Migrations in the order they are tried when replaying: applied first,
+     * then pending, then rolled back
+     */
+    private getReplayableMigrations(categoryId: string): SchemaMigration[] {
+        const rank = (migration: SchemaMigration) => migration.appliedAt ? 0 : migration.rolledBackAt ? 2 : 1;
+        return [...(this.migrations.get(categoryId) || [])].sort((a, b) => rank(a) - rank(b));
     }
 
     private async convertCategoryToSchema(category: any): Promise<CategorySchema> {
@@ -338,26 +699,84 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
         };
     }
 
+    private getEffectiveSchema(schema: CategorySchema): CategorySchema {
+        if (!schema.parentId) return schema;
+        return this.inheritance.resolve(schema, categoryId =>
+            categoryId === schema.id ? schema : this.getSchema(categoryId)
+        );
+    }
+
+    private getComputeFunction(name: string): ComputeFunctionEntry | undefined {
+        const fn = this.computeFunctions.get(name);
+        if (!fn) return undefined;
+
+        return { fn: fn as ComputeFunctionEntry['fn'], inputs: this.computeFunctionInputs.get(name) };
+    }
+
     private async validateInheritance(schema: CategorySchema): Promise<void> {
         if (!schema.parentId) return;
 
-        const parent = this.getSchema(schema.parentId);
-        if (!parent) {
-            throw new Error(`Parent schema not found: ${schema.parentId}`);
+        // Resolving walks the whole chain and fails on missing parents or cycles
+        const conflicts = this.inheritance.resolve(schema, categoryId => this.getSchema(categoryId))
+            .inheritanceConflicts
+            .filter(conflict => conflict.categoryId === schema.id);
+
+        if (conflicts.length > 0) {
+            throw new SchemaInheritanceError(schema.id, conflicts);
         }
+    }
 
-        // Check for circular inheritance
-        const visited = new Set<string>();
-        let current = parent;
+    /**
+     * Overrides in a schema or its descendants that would no longer narrow
+     * the fields they inherit once the schema is replaced
+     */
+    private findInheritanceConflicts(schema: CategorySchema): InheritanceConflict[] {
+        const lookup = (categoryId: string) => categoryId === schema.id ? schema : this.getSchema(categoryId);
 
-        while (current && current.parentId) {
-            if (visited.has(current.id)) {
-                throw new Error('Circular inheritance detected');
-            }
-            visited.add(current.id);
-            const parentSchema = this.getSchema(current.parentId);
-            if (!parentSchema) break;
-            current = parentSchema;
+        return [schema.id, ...this.getDescendants(schema.id)].flatMap(categoryId => {
+            const level = lookup(categoryId);
+            if (!level?.parentId) return [];
+
+            return this.inheritance.resolve(level, lookup).inheritanceConflicts
+                .filter(conflict => conflict.categoryId === categoryId);
+        });
+    }
+
+    /**
+     * Give each descendant a migration adding the fields an ancestor added,
+     * unless a category in between already defines them
+     */
+    private async cascadeAddedFields(schema: CategorySchema, operations: MigrationOperation[]): Promise<void> {
+        const added = operations.filter(
+            (operation): operation is Extract<MigrationOperation, { type: 'add_field' }> => operation.type === 'add_field'
+        );
+        if (added.length === 0) return;
+
+        for (const descendantId of this.getDescendants(schema.id)) {
+            const descendant = this.getSchema(descendantId);
+            if (!descendant) continue;
+
+            const chain = this.inheritance.getAncestry(descendant, categoryId => this.getSchema(categoryId));
+            const below = chain.slice(chain.findIndex(level => level.id === schema.id) + 1);
+            const inheritedOperations = added.filter(operation => !below.some(level => operation.field in level.fields));
+            if (inheritedOperations.length === 0) continue;
+
+            const newVersion = this.versionManager.incrementVersion(descendant.version, 'minor');
+            await this.createMigration({
+                id: `${descendantId}_${descendant.version}_to_${newVersion}`,
+                fromVersion: descendant.version,
+                toVersion: newVersion,
+                categoryId: descendantId,
+                operations: inheritedOperations,
+                createdAt: new Date()
+            });
+
+            await this.registerSchema({
+                ...descendant,
+                version: newVersion,
+                inheritedFields: this.inheritance.resolve(descendant, categoryId => this.getSchema(categoryId)).inheritedFields,
+                updatedAt: new Date()
+            });
         }
     }
 
@@ -387,41 +806,124 @@ export class DeviceSchemaRegistry implements SchemaRegistry {
     }
 
     private async generateIndexesForSchema(schema: CategorySchema): Promise<void> {
-        // Generate database indexes for searchable/indexable fields
-        const indexableFields = Object.entries(schema.fields)
-            .filter(([_, field]) => field.metadata.indexable)
-            .map(([name, _]) => name);
+        // Specifications hold inherited fields too, so they are indexed per category
+        try {
+            const suggestions = await performanceMonitor.findMissingIndexes(schema.id);
+            const result = await indexPlanner.syncIndexes(this.getEffectiveSchema(schema), suggestions);
+
+            for (const failure of result.failed) {
+                console.warn(`Failed to update index for ${schema.id}.${failure.field}: ${failure.message}`);
+            }
+            if (result.created.length > 0 || result.dropped.length > 0) {
+                console.log(`Updated indexes for ${schema.id}: created ${result.created.length}, dropped ${result.dropped.length}`);
+            }
+        } catch (error) {
+            // Missing indexes slow down searches but do not block schema changes
+            console.error(`Failed to generate indexes for ${schema.id}:`, error);
+        }
+    }
 
-        // This would generate actual database indexes
-        // Implementation depends on database migration system
-        console.log(`Generated indexes for fields: ${indexableFields.join(', ')}`);
+    private getSearchSignature(schema: CategorySchema): string {
+        return JSON.stringify(fullTextSearch.getConfiguration(this.getEffectiveSchema(schema)));
+    }
+
+    /**
+     * Re-index a category and the categories inheriting its fields
+     */
+    private async refreshSearchDocuments(categoryId: string): Promise<void> {
+        for (const id of [categoryId, ...this.getDescendants(categoryId)]) {
+            try {
+                const refreshed = await fullTextSearch.refreshCategory(id);
+                console.log(`Refreshed search documents of ${refreshed} devices in ${id}`);
+            } catch (error) {
+                // Stale documents only affect search ranking until the devices are next written
+                console.error(`Failed to refresh search documents for ${id}:`, error);
+            }
+        }
     }
 
     private async createMigration(migration: SchemaMigration): Promise<void> {
         const existingMigrations = this.migrations.get(migration.categoryId) || [];
         existingMigrations.push(migration);
         this.migrations.set(migration.categoryId, existingMigrations);
+        this.versionCache.deleteCategory(migration.categoryId);
 
         // Save to database (schema_migrations table to be created)
         console.log(`Created migration: ${migration.id}`);
     }
 
-    private getSchemaVersion(_categoryId: string, _version: string): CategorySchema | null {
-        // Reconstruct schema at specific version using migrations
-        // This is a complex operation that would apply migrations in reverse
-        // For now, return null if version doesn't match current
-        return null;
+    private getSchemaVersion(categoryId: string, version: string): CategorySchema | null {
+        const cached = this.versionCache.get(categoryId, version);
+        if (cached) return cached.schema;
+
+        const rebuilt = this.rebuildSchemaVersion(categoryId, version);
+        this.versionCache.set(categoryId, version, rebuilt);
+        return rebuilt.schema;
+    }
+
+    /**
+     * Rebuild a historical version from a stored schema or snapshot of that
+     * version, or by replaying migrations forward from the nearest earlier one
+     */
+    private rebuildSchemaVersion(categoryId: string, version: string): RebuiltSchemaVersion {
+        const snapshots = this.schemaSnapshots.get(categoryId);
+        const exact = snapshots?.get(version);
+        if (exact) return exact;
+
+        const current = this.schemas.get(categoryId);
+        const anchors = [
+            ...(current ? [current] : []),
+            ...Array.from(snapshots?.values() || [], snapshot => snapshot.schema!)
+        ]
+            .filter(anchor => this.versionManager.compareVersions(anchor.version, version) < 0)
+            .sort((a, b) => this.versionManager.compareVersions(b.version, a.version));
+        const migrations = this.getReplayableMigrations(categoryId);
+
+        for (const anchor of anchors) {
+            let path: SchemaMigration[];
+            try {
+                path = this.versionManager.getMigrationPath(anchor.version, version, migrations);
+            } catch {
+                continue;
+            }
+
+            const replayed = path.reduce(
+                (schema, migration) => this.versionManager.applyMigrationOperations(schema, migration.operations),
+                anchor
+            );
+
+            return {
+                schema: {
+                    ...replayed,
+                    version,
+                    createdAt: anchor.createdAt,
+                    updatedAt: path[path.length - 1].createdAt
+                },
+                source: 'replay'
+            };
+        }
+
+        return { schema: null, source: 'unavailable' };
     }
 
     private initializeBuiltInFunctions(): void {
         // Register built-in compute functions
         this.registerComputeFunction('calculateVolume', (width: number, height: number, depth: number) => {
             return width * height * depth;
-        });
+        }, ['width', 'height', 'depth']);
 
         this.registerComputeFunction('calculatePowerDensity', (power: number, volume: number) => {
             return volume > 0 ? power / volume : 0;
-        });
+        }, ['power', 'volume']);
+
+        // Pixels per inch from a "3840x2160" resolution and a diagonal in inches;
+        // screen sizes are stored in metric units, so the input converts them
+        this.registerComputeFunction('calculatePixelDensity', (resolution: string, screenSize: number) => {
+            const match = String(resolution).match(/(\d+)\s*[x×]\s*(\d+)/);
+            if (!match || !(screenSize > 0)) return null;
+
+            return Math.round(Math.hypot(Number(match[1]), Number(match[2])) / screenSize);
+        }, ['resolution', 'convert(screenSize, "in")']);
 
         // Register built-in validation functions
         this.registerValidationFunction('validateDimensions', (width: number, height: number, depth: number) => {
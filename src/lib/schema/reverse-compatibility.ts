@@ -0,0 +1,634 @@
+/**
+ * Reverse Compatibility Search - "What works with this device"
+ *
+ * Lists catalog devices in a target category that are compatible with a given
+ * device. Instead of checking every device in the category, the category pair's
+ * rules are first turned into SQL/JSONB predicates over device_specifications
+ * (rule conditions) and device_standards (connector rules). The devices that pass
+ * the prefilter come with their stored compatibility_results; only those without
+ * a valid stored result are checked with the compatibility engine. Every match is
+ * then ranked together, so pages are cut from the whole result set.
+ */
+
+import { prisma } from '../database';
+import { schemaRegistry } from './registry';
+import { compatibilityEngine, CompatibilityResult } from './compatibility';
+import { CategorySchema, CompatibilityRuleDefinition, DeviceSpecification } from './types';
+import {
+  ExpressionNode,
+  ExpressionType,
+  collectIdentifiers,
+  compileExpression,
+  evaluateExpressionNode,
+  fieldTypeInfo,
+  fieldUnits
+} from './expression';
+import { convertUnit, resolveUnit } from './units';
+import { loadDeviceStandards } from './standard-matching';
+import { computedFieldPipeline } from './computed-fields';
+import { joinSql, rawSql, renderSql, sql, SqlFragment } from './sql';
+
+export { renderSql } from './sql';
+
+export interface ReverseCompatibilityOptions {
+  targetCategoryId: string;
+  minCompatibility?: 'full' | 'partial';
+  limit?: number;
+  offset?: number;
+  fresh?: boolean;
+}
+
+export interface CompatibleDevice {
+  deviceId: string;
+  name: string;
+  brand: string;
+  model: string | null;
+  verified: boolean;
+  compatible: 'full' | 'partial';
+  confidence: number;
+  limitations: string[];
+  recommendations: string[];
+  matchedRules: string[];
+}
+
+export interface ReverseCompatibilityResult {
+  sourceDeviceId: string;
+  targetCategoryId: string;
+  devices: CompatibleDevice[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+  candidatesChecked: number; // Candidates without a valid stored result, checked with the engine
+  prefilteredRules: string[]; // Rules that were pushed down into SQL
+}
+
+export interface SqlPredicate extends SqlFragment {
+  exact: boolean; // false when parts of the condition could not be translated and were dropped
+}
+
+interface TranslationContext {
+  rule: CompatibilityRuleDefinition;
+  scope: Record<string, unknown>;
+  units: Record<string, string | undefined>;
+  targetSchema: CategorySchema;
+}
+
+type SqlValue =
+  | { kind: 'constant'; value: unknown; unit?: string }
+  | { kind: 'field'; field: string; type: ExpressionType; unit?: string }
+  | { kind: 'unknown' };
+
+// Core device columns the engine exposes as base specification fields
+const BASE_FIELD_COLUMNS: Record<string, { column: string; type: ExpressionType }> = {
+  name: { column: 'd.name', type: 'string' },
+  brand: { column: 'd.brand', type: 'string' },
+  model: { column: 'd.model', type: 'string' },
+  widthCm: { column: 'd.width_cm', type: 'number' },
+  heightCm: { column: 'd.height_cm', type: 'number' },
+  depthCm: { column: 'd.depth_cm', type: 'number' },
+  powerWatts: { column: 'd.power_watts', type: 'number' },
+  powerType: { column: 'd.power_type', type: 'string' }
+};
+
+const TARGET_IDENTIFIERS = ['target', 'targetDevice'];
+
+const COMPARISON_SQL: Record<string, string> = {
+  '==': '=',
+  '!=': '<>',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>='
+};
+
+const FLIPPED_COMPARISON: Record<string, string> = {
+  '==': '==',
+  '!=': '!=',
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<='
+};
+
+export class ReverseCompatibilitySearch {
+  private readonly DEFAULT_LIMIT = 20;
+  private readonly MAX_LIMIT = 100;
+  private readonly BATCH_SIZE = 10;
+
+  /**
+   * Find devices in the target category that are compatible with the source device,
+   * ranked by compatibility type and confidence
+   */
+  async findCompatibleDevices(
+    sourceDeviceId: string,
+    options: ReverseCompatibilityOptions
+  ): Promise<ReverseCompatibilityResult> {
+    const limit = Math.min(Math.max(1, options.limit ?? this.DEFAULT_LIMIT), this.MAX_LIMIT);
+    const offset = Math.max(0, options.offset ?? 0);
+
+    const sourceSpec = await compatibilityEngine.getDeviceSpecification(sourceDeviceId);
+    const sourceSchema = schemaRegistry.getSchema(sourceSpec.categoryId, sourceSpec.schemaVersion);
+    const targetSchema = schemaRegistry.getSchema(options.targetCategoryId);
+
+    if (!sourceSchema || !targetSchema) {
+      throw new Error('Schema not found for the source device or target category');
+    }
+
+    const rules = await compatibilityEngine.getCategoryPairRules(sourceSchema, targetSchema);
+    const { predicates, prefilteredRules } = await this.buildPrefilter(sourceSpec, sourceSchema, targetSchema, rules);
+
+    const minRank = options.minCompatibility === 'full' ? 2 : 1;
+    const candidates = await this.findCandidates(
+      sourceDeviceId, options.targetCategoryId, predicates, minRank, options.fresh
+    );
+
+    // Candidates without a valid stored result are checked before ranking
+    const uncheckedIds = candidates.filter(candidate => candidate.compatibilityType === null).map(candidate => candidate.id);
+    const checked = new Map((await this.checkCandidates(sourceDeviceId, uncheckedIds, options.fresh))
+      .map(({ deviceId, result }) => [deviceId, result]));
+
+    const ranked = candidates
+      .flatMap((candidate, order) => {
+        const result = checked.get(candidate.id);
+        const compatible = result ? result.compatible : candidate.compatibilityType;
+        const confidence = result ? result.confidence : Number(candidate.confidence);
+        const rank = this.rank(compatible as CompatibilityResult['compatible'] | null);
+        return rank >= minRank ? [{ deviceId: candidate.id, rank, confidence, order }] : [];
+      })
+      .sort((a, b) => b.rank - a.rank || b.confidence - a.confidence || a.order - b.order);
+
+    // Stored results of the page are served from the cache with their details
+    const pageIds = ranked.slice(offset, offset + limit).map(match => match.deviceId);
+    const cachedIds = pageIds.filter(deviceId => !checked.has(deviceId));
+    for (const { deviceId, result } of await this.checkCandidates(sourceDeviceId, cachedIds, options.fresh)) {
+      checked.set(deviceId, result);
+    }
+
+    const devices = await this.loadDeviceSummaries(pageIds);
+
+    return {
+      sourceDeviceId,
+      targetCategoryId: options.targetCategoryId,
+      devices: pageIds
+        .filter(deviceId => devices.has(deviceId) && checked.has(deviceId))
+        .map(deviceId => {
+          const result = checked.get(deviceId)!;
+          return {
+            ...devices.get(deviceId)!,
+            compatible: result.compatible as 'full' | 'partial',
+            confidence: result.confidence,
+            limitations: result.limitations,
+            recommendations: result.recommendations,
+            matchedRules: result.matchedRules
+          };
+        }),
+      pagination: {
+        total: ranked.length,
+        limit,
+        offset,
+        hasMore: offset + limit < ranked.length
+      },
+      candidatesChecked: uncheckedIds.length,
+      prefilteredRules
+    };
+  }
+
+  /**
+   * Turn the category pair's rules into SQL predicates a compatible target must satisfy
+   */
+  async buildPrefilter(
+    sourceSpec: DeviceSpecification,
+    sourceSchema: CategorySchema,
+    targetSchema: CategorySchema,
+    rules: CompatibilityRuleDefinition[]
+  ): Promise<{ predicates: SqlFragment[]; prefilteredRules: string[] }> {
+    const predicates: SqlFragment[] = [];
+    const prefilteredRules: string[] = [];
+    let standardsPredicate: SqlFragment | null | undefined;
+
+    for (const rule of rules) {
+      // The engine skips rules whose source field the device does not have
+      if (!(rule.sourceField in sourceSpec.specifications)) continue;
+
+      let predicate: SqlFragment | null = null;
+      const processor = compatibilityEngine.getRuleProcessorName(rule);
+
+      if (processor === 'default') {
+        predicate = ruleToSqlPredicate(rule, sourceSpec, sourceSchema, targetSchema);
+      } else if (processor === 'connector_compatibility') {
+        if (standardsPredicate === undefined) {
+          standardsPredicate = await this.buildStandardsPredicate(sourceSpec.deviceId);
+        }
+        predicate = standardsPredicate;
+      }
+
+      if (!predicate) continue;
+
+      // Targets without the rule's field are not subject to the rule
+      const applicable = fieldPresentSql(rule.targetField, targetSchema);
+      predicates.push(sql`(NOT ${applicable} OR ${predicate})`);
+      prefilteredRules.push(rule.id);
+    }
+
+    return { predicates, prefilteredRules };
+  }
+
+  /**
+   * Targets must share a standard with the source, directly or through a full/partial
+   * standards rule. Targets without any standards fall back to spec comparison.
+   */
+  private async buildStandardsPredicate(sourceDeviceId: string): Promise<SqlFragment | null> {
+    const standards = (await loadDeviceStandards([sourceDeviceId])).get(sourceDeviceId) || [];
+    if (standards.length === 0) return null;
+
+    const sourceIds = standards.map(standard => standard.standardId);
+    const rules = await prisma.compatibilityRule.findMany({
+      where: {
+        compatibilityType: { in: ['full', 'partial'] },
+        OR: [{ standardAId: { in: sourceIds } }, { standardBId: { in: sourceIds } }]
+      },
+      select: { standardAId: true, standardBId: true }
+    });
+
+    const compatibleIds = new Set(sourceIds);
+    for (const rule of rules) {
+      compatibleIds.add(rule.standardAId);
+      compatibleIds.add(rule.standardBId);
+    }
+
+    return sql`(NOT EXISTS (SELECT 1 FROM device_standards s WHERE s.device_id = d.id)
+      OR EXISTS (SELECT 1 FROM device_standards s WHERE s.device_id = d.id AND s.standard_id = ANY(${[...compatibleIds]}::text[])))`;
+  }
+
+  /**
+   * Devices passing the prefilter with their stored result for the source device,
+   * if any, in tie-break order. Devices whose stored result is below the minimum
+   * are left out; with `fresh`, stored results are ignored.
+   */
+  private async findCandidates(
+    sourceDeviceId: string,
+    targetCategoryId: string,
+    predicates: SqlFragment[],
+    minRank: number,
+    fresh?: boolean
+  ): Promise<Array<{ id: string; compatibilityType: string | null; confidence: number | null }>> {
+    const accepted = minRank === 2 ? ['full'] : ['full', 'partial'];
+    const stored = fresh
+      ? sql`NULL::text AS compatibility_type, NULL::float8 AS confidence`
+      : sql`cr.compatibility_type, cr.confidence::float8 AS confidence`;
+    const cached = fresh ? sql`` : sql`LEFT JOIN compatibility_results cr ON cr.source_device_id = ${sourceDeviceId}
+        AND cr.target_device_id = d.id
+        AND (cr.expires_at IS NULL OR cr.expires_at > now())
+        AND cr.context_key = ''`;
+
+    const query = sql`SELECT d.id, ${stored}
+      FROM devices d
+      JOIN device_specifications ds ON ds.device_id = d.id
+      ${cached}
+      WHERE ds.category_id = ${targetCategoryId} AND d.id <> ${sourceDeviceId}
+      ${predicates.length > 0 ? joinSql(predicates.map(p => sql`AND ${p}`), '\n      ') : sql``}
+      ${fresh ? sql`` : sql`AND (cr.id IS NULL OR cr.compatibility_type = ANY(${accepted}::text[]))`}
+      ORDER BY d.verified DESC, d.confidence_score DESC, d.id`;
+
+    const { text, params } = renderSql(query);
+    const rows = (await prisma.$queryRawUnsafe(text, ...params)) as Array<{
+      id: string;
+      compatibility_type: string | null;
+      confidence: number | null;
+    }>;
+    return rows.map(row => ({ id: row.id, compatibilityType: row.compatibility_type, confidence: row.confidence }));
+  }
+
+  /**
+   * Check candidates with the compatibility engine in small batches. Valid stored
+   * results are served from the cache, so only cache misses are evaluated.
+   */
+  private async checkCandidates(
+    sourceDeviceId: string,
+    deviceIds: string[],
+    fresh?: boolean
+  ): Promise<Array<{ deviceId: string; result: CompatibilityResult }>> {
+    const results: Array<{ deviceId: string; result: CompatibilityResult }> = [];
+
+    for (let i = 0; i < deviceIds.length; i += this.BATCH_SIZE) {
+      const batch = deviceIds.slice(i, i + this.BATCH_SIZE);
+      const checked = await Promise.all(batch.map(async deviceId => {
+        try {
+          const result = await compatibilityEngine.checkCompatibility(sourceDeviceId, deviceId, undefined, { fresh });
+          return { deviceId, result };
+        } catch (error) {
+          console.warn(`Failed to check compatibility for ${sourceDeviceId} -> ${deviceId}:`, error);
+          return null;
+        }
+      }));
+      results.push(...checked.filter((entry): entry is { deviceId: string; result: CompatibilityResult } => entry !== null));
+    }
+
+    return results;
+  }
+
+  private async loadDeviceSummaries(deviceIds: string[]): Promise<Map<string, Pick<CompatibleDevice, 'deviceId' | 'name' | 'brand' | 'model' | 'verified'>>> {
+    if (deviceIds.length === 0) return new Map();
+
+    const devices = await prisma.device.findMany({
+      where: { id: { in: deviceIds } },
+      select: { id: true, name: true, brand: true, model: true, verified: true }
+    });
+
+    return new Map(devices.map((device: { id: string; name: string; brand: string; model: string | null; verified: boolean }) => [device.id, {
+      deviceId: device.id,
+      name: device.name,
+      brand: device.brand,
+      model: device.model,
+      verified: device.verified
+    }]));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private rank(compatible: CompatibilityResult['compatible'] | null): number {
+    return compatible === 'full' ? 2 : compatible === 'partial' ? 1 : 0;
+  }
+}
+
+/**
+ * Translate a default-processor rule into a SQL predicate over the target device
+ * (`d` = devices, `ds` = device_specifications). Source values are folded into
+ * constants. Untranslatable parts are dropped where that only widens the match;
+ * returns null when nothing useful is left. Rules of type 'none' are not translated.
+ */
+export function ruleToSqlPredicate(
+  rule: CompatibilityRuleDefinition,
+  sourceSpec: DeviceSpecification,
+  sourceSchema: CategorySchema,
+  targetSchema: CategorySchema
+): SqlPredicate | null {
+  if (rule.compatibilityType === 'none') return null;
+
+  let ast: ExpressionNode;
+  try {
+    ast = compileExpression(rule.condition).ast;
+  } catch {
+    return null;
+  }
+
+  const sourceFields = sourceSchema.fields || {};
+  const context: TranslationContext = {
+    rule,
+    scope: {
+      source: sourceSpec.specifications[rule.sourceField],
+      sourceDevice: sourceSpec.specifications
+    },
+    units: {
+      ...fieldUnits(sourceFields, 'sourceDevice'),
+      source: fieldTypeInfo(sourceFields[rule.sourceField]).unit
+    },
+    targetSchema
+  };
+
+  const predicate = translatePredicate(ast, context);
+  // A constant TRUE does not narrow anything
+  return predicate && predicate.text !== 'TRUE' ? predicate : null;
+}
+
+/**
+ * Private helpers
+ */
+
+function exactly(fragment: SqlFragment, exact = true): SqlPredicate {
+  return { ...fragment, exact };
+}
+
+function translatePredicate(node: ExpressionNode, context: TranslationContext): SqlPredicate | null {
+  if (!referencesTarget(node)) {
+    const folded = foldConstant(node, context);
+    if (folded.kind !== 'constant') return null;
+    return exactly(isTruthyConstant(folded.value) ? sql`TRUE` : sql`FALSE`);
+  }
+
+  switch (node.type) {
+    case 'logical': {
+      const left = translatePredicate(node.left, context);
+      const right = translatePredicate(node.right, context);
+
+      if (node.operator === 'and') {
+        // Dropping a conjunct only widens the match
+        if (!left || !right) return left || right ? { ...(left || right)!, exact: false } : null;
+        return exactly(sql`(${left} AND ${right})`, left.exact && right.exact);
+      }
+
+      if (!left || !right) return null;
+      return exactly(sql`(${left} OR ${right})`, left.exact && right.exact);
+    }
+
+    case 'unary': {
+      if (node.operator !== 'not') return null;
+      const argument = translatePredicate(node.argument, context);
+      return argument && argument.exact ? exactly(sql`(NOT ${argument})`) : null;
+    }
+
+    case 'binary':
+      return translateBinary(node, context);
+
+    case 'identifier':
+    case 'member': {
+      const value = resolveValue(node, context);
+      if (value.kind !== 'field' || value.type !== 'boolean') return null;
+      return exactly(sql`COALESCE(${jsonFieldSql(value.field, context.targetSchema)} = 'true'::jsonb, false)`);
+    }
+
+    default:
+      return null;
+  }
+}
+
+function translateBinary(
+  node: Extract<ExpressionNode, { type: 'binary' }>,
+  context: TranslationContext
+): SqlPredicate | null {
+  const left = resolveValue(node.left, context);
+  const right = resolveValue(node.right, context);
+
+  if (node.operator === 'in' || node.operator === 'contains') {
+    const [container, item] = node.operator === 'contains' ? [left, right] : [right, left];
+    return translateMembership(container, item, context);
+  }
+
+  if (!(node.operator in COMPARISON_SQL)) return null;
+
+  if (left.kind === 'field' && right.kind === 'constant') {
+    return translateComparison(left, node.operator, right, context);
+  }
+  if (left.kind === 'constant' && right.kind === 'field') {
+    return translateComparison(right, FLIPPED_COMPARISON[node.operator], left, context);
+  }
+  return null;
+}
+
+function translateComparison(
+  field: Extract<SqlValue, { kind: 'field' }>,
+  operator: string,
+  constant: Extract<SqlValue, { kind: 'constant' }>,
+  context: TranslationContext
+): SqlPredicate | null {
+  const { value } = constant;
+  // Missing values compare as false, except for !=
+  const fallback = operator === '!=' ? sql`true` : sql`false`;
+
+  if (typeof value === 'number' && (field.type === 'number' || field.type === 'any')) {
+    let converted = value;
+    if (constant.unit && field.unit) {
+      const from = resolveUnit(constant.unit);
+      const to = resolveUnit(field.unit);
+      if (!from || !to || from.dimension !== to.dimension) return null;
+      converted = convertUnit(value, from.symbol, to.symbol);
+    }
+
+    const column = numericFieldSql(field.field, context.targetSchema);
+    if (operator === '==' || operator === '!=') {
+      // Same tolerance as the expression evaluator
+      const equal = sql`abs(${column} - ${converted}::numeric) <= 1e-9 * greatest(1, abs(${column}), abs(${converted}::numeric))`;
+      return exactly(operator === '==' ? sql`COALESCE(${equal}, false)` : sql`COALESCE(NOT (${equal}), true)`);
+    }
+    return exactly(sql`COALESCE(${column} ${rawSql(COMPARISON_SQL[operator])} ${converted}::numeric, ${fallback})`);
+  }
+
+  if (operator !== '==' && operator !== '!=') return null;
+
+  if (typeof value === 'string' && (field.type === 'string' || field.type === 'any')) {
+    const column = textFieldSql(field.field, context.targetSchema);
+    const comparison = operator === '==' ? sql`${column} = ${value}::text` : sql`${column} <> ${value}::text`;
+    return exactly(sql`COALESCE(${comparison}, ${fallback})`);
+  }
+
+  if (typeof value === 'boolean' && (field.type === 'boolean' || field.type === 'any')) {
+    const column = jsonFieldSql(field.field, context.targetSchema);
+    const comparison = operator === '==' ? sql`${column} = ${JSON.stringify(value)}::jsonb` : sql`${column} <> ${JSON.stringify(value)}::jsonb`;
+    return exactly(sql`COALESCE(${comparison}, ${fallback})`);
+  }
+
+  return null;
+}
+
+function translateMembership(container: SqlValue, item: SqlValue, context: TranslationContext): SqlPredicate | null {
+  // Constant item in an array or string field
+  if (container.kind === 'field' && item.kind === 'constant' && !item.unit) {
+    const value = item.value;
+    if (container.type === 'array' && ['string', 'number', 'boolean'].includes(typeof value)) {
+      return exactly(sql`COALESCE(${jsonFieldSql(container.field, context.targetSchema)} @> ${JSON.stringify([value])}::jsonb, false)`);
+    }
+    if (container.type === 'string' && typeof value === 'string') {
+      return exactly(sql`COALESCE(position(${value}::text in ${textFieldSql(container.field, context.targetSchema)}) > 0, false)`);
+    }
+    return null;
+  }
+
+  // Field value in a constant list
+  if (container.kind === 'constant' && item.kind === 'field' && Array.isArray(container.value) && !container.unit) {
+    const values = container.value;
+    if (values.length > 0 && values.every(v => typeof v === 'string') && item.type !== 'number') {
+      return exactly(sql`COALESCE(${textFieldSql(item.field, context.targetSchema)} = ANY(${values}::text[]), false)`);
+    }
+    if (values.length > 0 && values.every(v => typeof v === 'number') && item.type === 'number' && !item.unit) {
+      return exactly(sql`COALESCE(${numericFieldSql(item.field, context.targetSchema)} = ANY(${values}::numeric[]), false)`);
+    }
+  }
+
+  return null;
+}
+
+function resolveValue(node: ExpressionNode, context: TranslationContext): SqlValue {
+  if (!referencesTarget(node)) {
+    return foldConstant(node, context);
+  }
+
+  let field: string | null = null;
+  if (node.type === 'identifier' && node.name === 'target') {
+    field = context.rule.targetField;
+  } else if (node.type === 'member' && node.object.type === 'identifier' && node.object.name === 'targetDevice') {
+    field = node.property;
+  }
+  if (!field) return { kind: 'unknown' };
+
+  const fieldDef = context.targetSchema.fields?.[field];
+  if (fieldDef) {
+    const info = fieldTypeInfo(fieldDef);
+    return { kind: 'field', field, type: info.type, unit: info.unit };
+  }
+  return { kind: 'field', field, type: BASE_FIELD_COLUMNS[field]?.type || 'any' };
+}
+
+function foldConstant(node: ExpressionNode, context: TranslationContext): SqlValue {
+  try {
+    const { value, unit } = evaluateExpressionNode(node, context.scope, { units: context.units });
+    return { kind: 'constant', value, unit };
+  } catch {
+    return { kind: 'unknown' };
+  }
+}
+
+function referencesTarget(node: ExpressionNode): boolean {
+  return collectIdentifiers(node).some(name => TARGET_IDENTIFIERS.includes(name));
+}
+
+function isTruthyConstant(value: unknown): boolean {
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  return !!value;
+}
+
+// Computed fields are stored apart from the submitted specification values
+function valuesColumnSql(field: string, schema?: CategorySchema): SqlFragment {
+  const computed = schema && field in computedFieldPipeline.getDefinitions(schema);
+  return rawSql(computed ? 'ds.computed_values' : 'ds.specifications');
+}
+
+function jsonFieldSql(field: string, schema?: CategorySchema): SqlFragment {
+  const column = valuesColumnSql(field, schema);
+  const defaultValue = schema?.fields?.[field]?.defaultValue;
+  return defaultValue === undefined
+    ? sql`(${column} -> ${field}::text)`
+    : sql`COALESCE(${column} -> ${field}::text, ${JSON.stringify(defaultValue)}::jsonb)`;
+}
+
+function numericFieldSql(field: string, schema: CategorySchema): SqlFragment {
+  const column = valuesColumnSql(field, schema);
+  const fromSpecs = sql`CASE WHEN jsonb_typeof(${column} -> ${field}::text) = 'number' THEN (${column} ->> ${field}::text)::numeric END`;
+  const base = BASE_FIELD_COLUMNS[field];
+  const defaultValue = schema.fields?.[field]?.defaultValue;
+
+  const parts = [fromSpecs];
+  if (base) parts.push(rawSql(`${base.column}::numeric`));
+  if (typeof defaultValue === 'number') parts.push(sql`${defaultValue}::numeric`);
+
+  return parts.length === 1 ? fromSpecs : sql`COALESCE(${joinSql(parts, ', ')})`;
+}
+
+function textFieldSql(field: string, schema: CategorySchema): SqlFragment {
+  const fromSpecs = sql`(${valuesColumnSql(field, schema)} ->> ${field}::text)`;
+  const base = BASE_FIELD_COLUMNS[field];
+  const defaultValue = schema.fields?.[field]?.defaultValue;
+
+  const parts = [fromSpecs];
+  if (base) parts.push(rawSql(`${base.column}::text`));
+  if (typeof defaultValue === 'string') parts.push(sql`${defaultValue}::text`);
+
+  return parts.length === 1 ? fromSpecs : sql`COALESCE(${joinSql(parts, ', ')})`;
+}
+
+function fieldPresentSql(field: string, schema: CategorySchema): SqlFragment {
+  // Schema defaults fill missing fields, so the rule always applies
+  if (schema.fields?.[field]?.defaultValue !== undefined) return sql`TRUE`;
+
+  const base = BASE_FIELD_COLUMNS[field];
+  return base
+    ? sql`(${jsonFieldSql(field, schema)} IS NOT NULL OR ${rawSql(`${base.column} IS NOT NULL`)})`
+    : sql`(${jsonFieldSql(field, schema)} IS NOT NULL)`;
+}
+
+// Export singleton instance
+export const reverseCompatibilitySearch = new ReverseCompatibilitySearch();
@@ -0,0 +1,184 @@
+/**
+ * Search Facets - Counts of the values of a search's matches per filter
+ *
+ * Facets are disjunctive: each one counts the matches of all applied filters
+ * except its own, so choosing a brand still shows how many devices the other
+ * brands have. Counts are aggregated by the database over the same source as
+ * the search itself. Specification facets cover the enum, number and boolean
+ * fields of the selected category.
+ */
+
+import { prisma } from '../database';
+import { schemaRegistry } from './registry';
+import { computedFieldPipeline } from './computed-fields';
+import { indexPlanner } from './index-planner';
+import { deviceSearch, DeviceSearchFilters } from './device-search';
+import { CategorySchema, FieldDefinition } from './types';
+import { rawSql, renderSql, sql, SqlFragment } from './sql';
+
+export interface HistogramBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+export type SpecificationFacet =
+  | { type: 'enum'; label: string; unit?: string; options: string[]; counts: Record<string, number> }
+  | { type: 'range'; label: string; unit?: string; min?: number; max?: number; buckets: HistogramBucket[] }
+  | { type: 'boolean'; label: string; counts: { true: number; false: number } };
+
+export interface SearchFacetCounts {
+  categories: Array<{ id: string; name: string; count: number }>;
+  brands: Array<{ name: string; count: number }>;
+  verified: { true: number; false: number };
+  specifications: Record<string, SpecificationFacet>;
+}
+
+const MAX_BRANDS = 20;
+const HISTOGRAM_BUCKETS = 10;
+
+export class SearchFacets {
+  /**
+   * Facet counts of a search. Throws SearchFilterError for malformed
+   * specification filters.
+   */
+  async build(query: string, filters: DeviceSearchFilters): Promise<SearchFacetCounts> {
+    await schemaRegistry.initialize();
+    const schema = filters.categoryId ? schemaRegistry.getResolvedSchema(filters.categoryId) : null;
+
+    // Specification filters only apply within their category
+    const categoryFilters = { ...filters, categoryId: undefined, specifications: undefined };
+    const brandFilters = { ...filters, brand: undefined };
+    const verifiedFilters = { ...filters, verified: undefined };
+
+    const specificationFields = schema ? this.facetedFields(schema) : [];
+
+    const [categories, brands, verified, ...specifications] = await Promise.all([
+      this.query<{ id: string; name: string; count: number }>(sql`SELECT dc.id, dc.name, facet.count
+        FROM (SELECT d.category_id, COUNT(*)::int AS count ${deviceSearch.sourceClause(query, categoryFilters, null)}
+          GROUP BY d.category_id) facet
+        JOIN device_categories dc ON dc.id = facet.category_id
+        ORDER BY facet.count DESC, dc.name`),
+      this.query<{ name: string; count: number }>(sql`SELECT d.brand AS name, COUNT(*)::int AS count
+        ${deviceSearch.sourceClause(query, brandFilters, schema)}
+        GROUP BY d.brand
+        ORDER BY count DESC, d.brand
+        LIMIT ${MAX_BRANDS}`),
+      this.query<{ value: boolean; count: number }>(sql`SELECT d.verified AS value, COUNT(*)::int AS count
+        ${deviceSearch.sourceClause(query, verifiedFilters, schema)}
+        GROUP BY d.verified`),
+      ...specificationFields.map(([fieldName, field]) =>
+        this.specificationFacet(query, this.withoutSpecification(filters, fieldName), schema!, fieldName, field))
+    ]);
+
+    return {
+      categories,
+      brands,
+      verified: {
+        true: verified.find(row => row.value)?.count ?? 0,
+        false: verified.find(row => !row.value)?.count ?? 0
+      },
+      specifications: Object.fromEntries(specificationFields.map(([fieldName], i) => [fieldName, specifications[i]]))
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private facetedFields(schema: CategorySchema): Array<[string, FieldDefinition]> {
+    return Object.entries(schema.fields).filter(([, field]) =>
+      ['enum', 'number', 'boolean'].includes(field.type) && !field.metadata.deprecated);
+  }
+
+  /**
+   * Value counts of a field: per option for enums, `true`/`false` for
+   * booleans, and a histogram of equal-width buckets between the smallest and
+   * largest value for numbers
+   */
+  private async specificationFacet(
+    query: string,
+    filters: DeviceSearchFilters,
+    schema: CategorySchema,
+    fieldName: string,
+    field: FieldDefinition
+  ): Promise<SpecificationFacet> {
+    const computed = fieldName in computedFieldPipeline.getDefinitions(schema);
+    const source = deviceSearch.sourceClause(query, filters, schema, true);
+    const label = field.metadata.label || fieldName;
+    const unit = field.constraints?.unit;
+
+    if (field.type === 'number') {
+      const value = rawSql(indexPlanner.fieldExpression(fieldName, 'number', computed));
+      const rows = await this.query<{ bucket: number; count: number; lo: number; hi: number }>(sql`WITH facet AS (
+          SELECT ${value} AS value ${source}
+        ), bounds AS (
+          SELECT min(value) AS lo, max(value) AS hi FROM facet
+        )
+        SELECT CASE WHEN bounds.hi = bounds.lo THEN 1
+            ELSE LEAST(width_bucket(facet.value, bounds.lo, bounds.hi, ${HISTOGRAM_BUCKETS}), ${HISTOGRAM_BUCKETS}) END AS bucket,
+          COUNT(*)::int AS count, bounds.lo::float8 AS lo, bounds.hi::float8 AS hi
+        FROM facet, bounds
+        WHERE facet.value IS NOT NULL
+        GROUP BY 1, bounds.lo, bounds.hi
+        ORDER BY 1`);
+
+      return { type: 'range', label, unit, ...this.histogram(rows) };
+    }
+
+    const value = rawSql(indexPlanner.fieldExpression(fieldName, 'string', computed));
+    const rows = await this.query<{ value: string; count: number }>(sql`SELECT facet.value, COUNT(*)::int AS count
+      FROM (SELECT ${value} AS value ${source}) facet
+      WHERE facet.value IS NOT NULL
+      GROUP BY facet.value`);
+    const counts = Object.fromEntries(rows.map(row => [row.value, row.count]));
+
+    if (field.type === 'boolean') {
+      return { type: 'boolean', label, counts: { true: counts.true ?? 0, false: counts.false ?? 0 } };
+    }
+
+    const options = field.constraints?.enum || [];
+    return {
+      type: 'enum',
+      label,
+      unit,
+      options,
+      counts: Object.fromEntries(options.map(option => [option, counts[option] ?? 0]))
+    };
+  }
+
+  private histogram(rows: Array<{ bucket: number; count: number; lo: number; hi: number }>) {
+    if (rows.length === 0) return { buckets: [] };
+
+    const { lo, hi } = rows[0];
+    if (lo === hi) {
+      return { min: lo, max: hi, buckets: [{ min: lo, max: hi, count: rows[0].count }] };
+    }
+
+    const width = (hi - lo) / HISTOGRAM_BUCKETS;
+    const counts = new Map(rows.map(row => [Number(row.bucket), row.count]));
+    const buckets = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+      min: lo + i * width,
+      max: i === HISTOGRAM_BUCKETS - 1 ? hi : lo + (i + 1) * width,
+      count: counts.get(i + 1) ?? 0
+    }));
+
+    return { min: lo, max: hi, buckets };
+  }
+
+  private withoutSpecification(filters: DeviceSearchFilters, fieldName: string): DeviceSearchFilters {
+    if (!filters.specifications || !(fieldName in filters.specifications)) return filters;
+
+    const specifications = { ...filters.specifications };
+    delete specifications[fieldName];
+    return { ...filters, specifications };
+  }
+
+  private query<T>(fragment: SqlFragment): Promise<T[]> {
+    const { text, params } = renderSql(fragment);
+    return prisma.$queryRawUnsafe(text, ...params) as Promise<T[]>;
+  }
+}
+
+// Export singleton instance
+export const searchFacets = new SearchFacets();
@@ -0,0 +1,605 @@
+/**
+ * Setup Analysis - Checks a user's whole device library as one setup
+ *
+ * Devices are connected through their connector standards: every pair that shares
+ * a usable standard becomes an edge of the setup graph and is checked with the
+ * compatibility engine. Ports are allocated edge by edge, hubs (the devices with
+ * the most ports, e.g. a TV or receiver) first, so port budgets, the power strip
+ * load and shared bandwidth can be checked across the setup.
+ */
+
+import { prisma, NotFoundError } from '../database';
+import { schemaRegistry } from './registry';
+import { compatibilityEngine, CompatibilityResult } from './compatibility';
+import {
+  CompatibilityLevel,
+  DeviceStandardInfo,
+  StandardMatch,
+  StandardRuleInfo,
+  loadDeviceStandards,
+  loadStandardRules,
+  matchStandards
+} from './standard-matching';
+import { convertUnit, resolveUnit } from './units';
+
+export interface SetupDevice {
+  deviceId: string;
+  userDeviceId: string;
+  name: string;
+  nickname: string | null;
+  categoryId: string;
+  categoryName: string;
+  powerWatts: number | null;
+  isPowerStrip: boolean;
+}
+
+export interface SetupEdge {
+  sourceDeviceId: string;
+  targetDeviceId: string;
+  connected: boolean; // false when no free port pair was left for this link
+  connections: StandardMatch[];
+  result: CompatibilityResult | null;
+  error?: string;
+}
+
+export interface PortBudget {
+  deviceId: string;
+  standardId: string;
+  standard: string;
+  ports: number;
+  used: number;
+  requested: number; // Used ports plus connections that found no free port
+}
+
+export interface PowerBudget {
+  totalWatts: number;
+  capacityWatts: number | null;
+  outlets: number | null;
+  poweredDevices: number;
+  powerStrips: string[];
+  unknownDevices: string[]; // Devices without a power draw
+}
+
+export interface BandwidthBudget {
+  deviceId: string;
+  capacityGbps: number;
+  demandGbps: number;
+  deviceIds: string[];
+}
+
+export interface SetupWarning {
+  type: 'power' | 'ports' | 'bandwidth' | 'connectivity' | 'compatibility';
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  deviceIds: string[];
+}
+
+export interface SetupAnalysisResult {
+  userId: string;
+  compatible: CompatibilityLevel;
+  devices: SetupDevice[];
+  edges: SetupEdge[];
+  ports: PortBudget[];
+  power: PowerBudget;
+  bandwidth: BandwidthBudget[];
+  warnings: SetupWarning[];
+}
+
+export interface SetupAnalysisOptions {
+  deviceIds?: string[]; // Restrict the analysis to part of the library
+  fresh?: boolean;
+}
+
+interface LoadedDevice extends SetupDevice {
+  standards: DeviceStandardInfo[];
+  specifications: Record<string, unknown>;
+  order: number;
+}
+
+// Library entry as loaded with its device, category and specification
+interface UserDeviceRecord {
+  id: string;
+  deviceId: string;
+  nickname: string | null;
+  device: {
+    id: string;
+    name: string;
+    categoryId: string;
+    powerWatts: number | null;
+    category: { name: string } | null;
+    deviceSpecification: { specifications: unknown } | null;
+  };
+}
+
+interface CandidateEdge {
+  source: LoadedDevice;
+  target: LoadedDevice;
+}
+
+export class SetupAnalyzer {
+  private readonly POWER_HEADROOM = 0.8; // Keep continuous load under 80% of the strip rating
+  private readonly POWER_STRIP_PATTERN = /power strip|surge|power distribution|\bups\b/i;
+  private readonly POWER_STANDARD_CATEGORY = 'power';
+
+  /**
+   * Analyze every relevant device pair in a user's library plus the setup-wide
+   * power, port and bandwidth budgets
+   */
+  async analyzeSetup(userId: string, options: SetupAnalysisOptions = {}): Promise<SetupAnalysisResult> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    const devices = await this.loadSetupDevices(userId, options.deviceIds);
+    const warnings: SetupWarning[] = [];
+
+    const linkable = devices.filter(device => !device.isPowerStrip);
+    const standardIds = [...new Set(linkable.flatMap(device => device.standards.map(s => s.standardId)))];
+    const rules = await loadStandardRules(standardIds, standardIds);
+
+    const { edges, ports } = await this.connectDevices(linkable, rules, options, warnings);
+    const power = this.checkPower(devices, warnings);
+    const bandwidth = this.checkBandwidth(linkable, edges, warnings);
+
+    for (const device of linkable) {
+      if (device.standards.length === 0) {
+        warnings.push({
+          type: 'connectivity',
+          severity: 'info',
+          message: `${this.label(device)} has no connector data, so its connections were not checked`,
+          deviceIds: [device.deviceId]
+        });
+      }
+    }
+
+    return {
+      userId,
+      compatible: this.overallCompatibility(edges, warnings),
+      devices: devices.map(device => this.toSetupDevice(device)),
+      edges,
+      ports,
+      power,
+      bandwidth,
+      warnings
+    };
+  }
+
+  /**
+   * Build the setup graph: find connectable pairs, allocate ports on both ends and
+   * check each connected pair with the compatibility engine
+   */
+  private async connectDevices(
+    devices: LoadedDevice[],
+    rules: StandardRuleInfo[],
+    options: SetupAnalysisOptions,
+    warnings: SetupWarning[]
+  ): Promise<{ edges: SetupEdge[]; ports: PortBudget[] }> {
+    const free = new Map(devices.map(device => [
+      device.deviceId,
+      new Map(this.dataStandards(device).map(s => [s.standardId, s.portCount]))
+    ]));
+    const requested = new Map<string, number>(); // "deviceId|standardId" -> connections that found no port
+
+    const edges: SetupEdge[] = [];
+    const attached = new Set<string>();
+    const blocked = new Map<string, LoadedDevice>(); // source -> a full target it could not attach to
+
+    for (const { source, target } of this.findCandidateEdges(devices, rules)) {
+      const sourceFree = free.get(source.deviceId)!;
+      const targetFree = free.get(target.deviceId)!;
+
+      const sourceStandards = this.dataStandards(source)
+        .map(s => ({ ...s, portCount: sourceFree.get(s.standardId) || 0 }));
+      const portUsage = this.portUsage(target, targetFree);
+      const match = matchStandards(sourceStandards, this.dataStandards(target), rules, { portUsage });
+      const connections = match.matches.filter(m => m.connections > 0);
+
+      if (connections.length === 0) {
+        // Only count a missing port against the target when the source still had one free
+        for (const candidate of match.matches) {
+          if (candidate.compatibility === 'none' || !sourceFree.get(candidate.sourceStandard.id)) continue;
+          if (targetFree.get(candidate.targetStandard.id)) continue;
+          const key = `${target.deviceId}|${candidate.targetStandard.id}`;
+          requested.set(key, (requested.get(key) || 0) + 1);
+          blocked.set(source.deviceId, target);
+          break;
+        }
+
+        edges.push({
+          sourceDeviceId: source.deviceId,
+          targetDeviceId: target.deviceId,
+          connected: false,
+          connections: [],
+          ...(await this.checkEdge(source, target, {}, options))
+        });
+        continue;
+      }
+
+      for (const connection of connections) {
+        sourceFree.set(connection.sourceStandard.id, sourceFree.get(connection.sourceStandard.id)! - connection.connections);
+        targetFree.set(connection.targetStandard.id, targetFree.get(connection.targetStandard.id)! - connection.connections);
+      }
+      attached.add(source.deviceId);
+      attached.add(target.deviceId);
+
+      edges.push({
+        sourceDeviceId: source.deviceId,
+        targetDeviceId: target.deviceId,
+        connected: true,
+        connections,
+        ...(await this.checkEdge(source, target, portUsage, options))
+      });
+    }
+
+    for (const [deviceId, target] of blocked) {
+      if (attached.has(deviceId)) continue;
+      const source = devices.find(device => device.deviceId === deviceId)!;
+      warnings.push({
+        type: 'ports',
+        severity: 'error',
+        message: `${this.label(source)} cannot be connected: no free compatible ports left on ${this.label(target)}`,
+        deviceIds: [source.deviceId, target.deviceId]
+      });
+    }
+
+    for (const edge of edges) {
+      if (!edge.connected) continue;
+      if (edge.error) {
+        warnings.push({
+          type: 'compatibility',
+          severity: 'warning',
+          message: `Could not check ${this.edgeLabel(devices, edge)}: ${edge.error}`,
+          deviceIds: [edge.sourceDeviceId, edge.targetDeviceId]
+        });
+      } else if (edge.result?.compatible === 'none') {
+        warnings.push({
+          type: 'compatibility',
+          severity: 'error',
+          message: `${this.edgeLabel(devices, edge)} are not compatible`,
+          deviceIds: [edge.sourceDeviceId, edge.targetDeviceId]
+        });
+      }
+    }
+
+    const ports = this.portBudgets(devices, free, requested);
+    for (const budget of ports) {
+      if (budget.requested > budget.ports) {
+        const device = devices.find(d => d.deviceId === budget.deviceId)!;
+        warnings.push({
+          type: 'ports',
+          severity: 'warning',
+          message: `${this.label(device)} needs ${budget.requested} ${budget.standard} port(s) but has ${budget.ports}`,
+          deviceIds: [budget.deviceId]
+        });
+      }
+    }
+
+    return { edges, ports };
+  }
+
+  /**
+   * Pairs whose standards can be linked, oriented towards the device with more ports.
+   * Hubs come first so peripherals attach to them before connecting to each other.
+   */
+  private findCandidateEdges(devices: LoadedDevice[], rules: StandardRuleInfo[]): CandidateEdge[] {
+    const candidates: CandidateEdge[] = [];
+
+    for (let i = 0; i < devices.length; i++) {
+      for (let j = i + 1; j < devices.length; j++) {
+        const [source, target] = this.totalPorts(devices[i]) > this.totalPorts(devices[j])
+          ? [devices[j], devices[i]]
+          : [devices[i], devices[j]];
+
+        const match = matchStandards(this.dataStandards(source), this.dataStandards(target), rules);
+        if (match.compatible !== 'none') {
+          candidates.push({ source, target });
+        }
+      }
+    }
+
+    return candidates.sort((a, b) =>
+      this.totalPorts(b.target) - this.totalPorts(a.target) ||
+      a.target.order - b.target.order ||
+      a.source.order - b.source.order
+    );
+  }
+
+  /**
+   * Run the compatibility engine on a connected pair. Port usage is only passed on
+   * when other devices already occupy the target, so untouched pairs hit the cache.
+   */
+  private async checkEdge(
+    source: LoadedDevice,
+    target: LoadedDevice,
+    portUsage: Record<string, number>,
+    options: SetupAnalysisOptions
+  ): Promise<{ result: CompatibilityResult | null; error?: string }> {
+    try {
+      const context = Object.keys(portUsage).length > 0 ? { portUsage } : undefined;
+      const result = await compatibilityEngine.checkCompatibility(
+        source.deviceId,
+        target.deviceId,
+        context,
+        { fresh: options.fresh }
+      );
+      return { result };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Compare the total power draw with the power strips in the setup
+   */
+  private checkPower(devices: LoadedDevice[], warnings: SetupWarning[]): PowerBudget {
+    const strips = devices.filter(device => device.isPowerStrip);
+    const consumers = devices.filter(device => !device.isPowerStrip);
+    const unknown = consumers.filter(device => device.powerWatts === null);
+
+    const totalWatts = consumers.reduce((sum, device) => sum + (device.powerWatts || 0), 0);
+    const capacities = strips.map(strip => this.specValue(strip, 'maxLoadWatts', 'W'));
+    const outletCounts = strips.map(strip => this.specValue(strip, 'outlets'));
+
+    const capacityWatts = strips.length > 0 && capacities.every(c => c !== null)
+      ? capacities.reduce<number>((sum, c) => sum + c!, 0)
+      : null;
+    const outlets = strips.length > 0 && outletCounts.every(c => c !== null)
+      ? outletCounts.reduce<number>((sum, c) => sum + c!, 0)
+      : null;
+    const poweredDevices = consumers.filter(device => (device.powerWatts || 0) > 0).length;
+
+    if (capacityWatts !== null) {
+      const stripIds = strips.map(strip => strip.deviceId);
+      if (totalWatts > capacityWatts) {
+        warnings.push({
+          type: 'power',
+          severity: 'error',
+          message: `Total draw of ${totalWatts} W exceeds the ${capacityWatts} W power strip capacity`,
+          deviceIds: stripIds
+        });
+      } else if (totalWatts > capacityWatts * this.POWER_HEADROOM) {
+        warnings.push({
+          type: 'power',
+          severity: 'warning',
+          message: `Total draw of ${totalWatts} W is above ${Math.round(this.POWER_HEADROOM * 100)}% of the ${capacityWatts} W power strip capacity`,
+          deviceIds: stripIds
+        });
+      }
+    } else if (strips.length > 0) {
+      warnings.push({
+        type: 'power',
+        severity: 'info',
+        message: 'Power strip capacity is unknown, so the total draw could not be checked',
+        deviceIds: strips.filter((_, index) => capacities[index] === null).map(strip => strip.deviceId)
+      });
+    }
+
+    if (outlets !== null && poweredDevices > outlets) {
+      warnings.push({
+        type: 'power',
+        severity: 'error',
+        message: `${poweredDevices} devices need power but the power strips have ${outlets} outlets`,
+        deviceIds: strips.map(strip => strip.deviceId)
+      });
+    }
+
+    if (unknown.length > 0) {
+      warnings.push({
+        type: 'power',
+        severity: 'info',
+        message: `Power draw is unknown for ${unknown.map(device => this.label(device)).join(', ')}`,
+        deviceIds: unknown.map(device => device.deviceId)
+      });
+    }
+
+    return {
+      totalWatts,
+      capacityWatts,
+      outlets,
+      poweredDevices,
+      powerStrips: strips.map(strip => strip.deviceId),
+      unknownDevices: unknown.map(device => device.deviceId)
+    };
+  }
+
+  /**
+   * Check devices whose ports share one bus (`sharedBandwidthGbps`) against the
+   * bandwidth of the links connected to them. A link uses the source's
+   * `bandwidthGbps` when known, otherwise the slower standard's `bandwidthGbps`.
+   */
+  private checkBandwidth(devices: LoadedDevice[], edges: SetupEdge[], warnings: SetupWarning[]): BandwidthBudget[] {
+    const budgets: BandwidthBudget[] = [];
+
+    for (const device of devices) {
+      const capacityGbps = this.specValue(device, 'sharedBandwidthGbps', 'Gbps');
+      if (capacityGbps === null) continue;
+
+      let demandGbps = 0;
+      const deviceIds: string[] = [];
+      for (const edge of edges) {
+        if (!edge.connected) continue;
+        const otherId = edge.targetDeviceId === device.deviceId ? edge.sourceDeviceId
+          : edge.sourceDeviceId === device.deviceId ? edge.targetDeviceId
+          : null;
+        if (!otherId) continue;
+
+        const other = devices.find(d => d.deviceId === otherId)!;
+        const linkGbps = this.linkBandwidth(device, other, edge.connections);
+        if (linkGbps !== null) {
+          demandGbps += linkGbps;
+          deviceIds.push(otherId);
+        }
+      }
+
+      budgets.push({ deviceId: device.deviceId, capacityGbps, demandGbps, deviceIds });
+
+      if (demandGbps > capacityGbps) {
+        warnings.push({
+          type: 'bandwidth',
+          severity: 'warning',
+          message: `Devices on ${this.label(device)} can use up to ${demandGbps} Gbps but its ports share ${capacityGbps} Gbps`,
+          deviceIds: [device.deviceId, ...deviceIds]
+        });
+      }
+    }
+
+    return budgets;
+  }
+
+  /**
+   * Load the library with each device's category, standards and specifications
+   */
+  private async loadSetupDevices(userId: string, deviceIds?: string[]): Promise<LoadedDevice[]> {
+    const userDevices: UserDeviceRecord[] = await prisma.userDevice.findMany({
+      where: {
+        userId,
+        ...(deviceIds && deviceIds.length > 0 ? { deviceId: { in: deviceIds } } : {})
+      },
+      include: {
+        device: {
+          include: {
+            category: true,
+            deviceSpecification: true
+          }
+        }
+      },
+      orderBy: { addedAt: 'asc' }
+    });
+
+    const standards = await loadDeviceStandards(userDevices.map(userDevice => userDevice.deviceId));
+
+    return userDevices.map((userDevice, index) => {
+      const device = userDevice.device;
+      const specifications: Record<string, unknown> = {
+        ...((device.deviceSpecification?.specifications as Record<string, unknown>) || {})
+      };
+
+      const loaded: LoadedDevice = {
+        deviceId: device.id,
+        userDeviceId: userDevice.id,
+        name: device.name,
+        nickname: userDevice.nickname,
+        categoryId: device.categoryId,
+        categoryName: device.category?.name || '',
+        powerWatts: null,
+        isPowerStrip: false,
+        standards: standards.get(device.id) || [],
+        specifications,
+        order: index
+      };
+
+      const powerWatts = this.specValue(loaded, 'powerWatts', 'W') ?? device.powerWatts;
+      loaded.powerWatts = typeof powerWatts === 'number' ? powerWatts : null;
+      loaded.isPowerStrip = specifications.maxLoadWatts !== undefined ||
+        this.POWER_STRIP_PATTERN.test(loaded.categoryName);
+
+      return loaded;
+    });
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private toSetupDevice(device: LoadedDevice): SetupDevice {
+    return {
+      deviceId: device.deviceId,
+      userDeviceId: device.userDeviceId,
+      name: device.name,
+      nickname: device.nickname,
+      categoryId: device.categoryId,
+      categoryName: device.categoryName,
+      powerWatts: device.powerWatts,
+      isPowerStrip: device.isPowerStrip
+    };
+  }
+
+  private dataStandards(device: LoadedDevice): DeviceStandardInfo[] {
+    // Power inputs are covered by the power budget, not by device-to-device links
+    return device.standards.filter(standard => standard.category !== this.POWER_STANDARD_CATEGORY);
+  }
+
+  private totalPorts(device: LoadedDevice): number {
+    return this.dataStandards(device).reduce((sum, standard) => sum + standard.portCount, 0);
+  }
+
+  private portUsage(device: LoadedDevice, free: Map<string, number>): Record<string, number> {
+    const usage: Record<string, number> = {};
+    for (const standard of this.dataStandards(device)) {
+      const used = standard.portCount - (free.get(standard.standardId) ?? standard.portCount);
+      if (used > 0) usage[standard.standardId] = used;
+    }
+    return usage;
+  }
+
+  private portBudgets(
+    devices: LoadedDevice[],
+    free: Map<string, Map<string, number>>,
+    requested: Map<string, number>
+  ): PortBudget[] {
+    return devices.flatMap(device => this.dataStandards(device).map(standard => {
+      const used = standard.portCount - (free.get(device.deviceId)!.get(standard.standardId) ?? standard.portCount);
+      return {
+        deviceId: device.deviceId,
+        standardId: standard.standardId,
+        standard: standard.name,
+        ports: standard.portCount,
+        used,
+        requested: used + (requested.get(`${device.deviceId}|${standard.standardId}`) || 0)
+      };
+    }));
+  }
+
+  private linkBandwidth(device: LoadedDevice, other: LoadedDevice, connections: StandardMatch[]): number | null {
+    const declared = this.specValue(other, 'bandwidthGbps', 'Gbps');
+    if (declared !== null) return declared;
+
+    let total: number | null = null;
+    for (const connection of connections) {
+      const rates = [connection.sourceStandard.id, connection.targetStandard.id]
+        .map(id => [...device.standards, ...other.standards].find(s => s.standardId === id))
+        .map(standard => Number(standard?.specifications?.bandwidthGbps))
+        .filter(rate => Number.isFinite(rate) && rate > 0);
+      if (rates.length > 0) {
+        total = (total || 0) + Math.min(...rates) * connection.connections;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Read a numeric specification, converted from the schema field's unit when known
+   */
+  private specValue(device: LoadedDevice, fieldName: string, unit?: string): number | null {
+    const raw = device.specifications[fieldName];
+    const value = typeof raw === 'number' ? raw : parseFloat(String(raw));
+    if (!Number.isFinite(value)) return null;
+    if (!unit) return value;
+
+    const fieldUnit = schemaRegistry.getSchema(device.categoryId)?.fields?.[fieldName]?.constraints?.unit;
+    const from = resolveUnit(fieldUnit);
+    const to = resolveUnit(unit);
+    return from && to && from.dimension === to.dimension ? convertUnit(value, from.symbol, to.symbol) : value;
+  }
+
+  private overallCompatibility(edges: SetupEdge[], warnings: SetupWarning[]): CompatibilityLevel {
+    const results = edges.filter(edge => edge.connected && edge.result).map(edge => edge.result!.compatible);
+    if (results.includes('none') || warnings.some(w => w.severity === 'error')) return 'none';
+    if (results.includes('partial') || warnings.some(w => w.severity === 'warning')) return 'partial';
+    return 'full';
+  }
+
+  private label(device: SetupDevice): string {
+    return device.nickname || device.name;
+  }
+
+  private edgeLabel(devices: SetupDevice[], edge: SetupEdge): string {
+    const source = devices.find(device => device.deviceId === edge.sourceDeviceId);
+    const target = devices.find(device => device.deviceId === edge.targetDeviceId);
+    return `${source ? this.label(source) : edge.sourceDeviceId} and ${target ? this.label(target) : edge.targetDeviceId}`;
+  }
+}
+
+// Export singleton instance
+export const setupAnalyzer = new SetupAnalyzer();
@@ -0,0 +1,76 @@
+/**
+ * SQL - Parameterised fragments for the raw queries over device specifications
+ *
+ * Fragments are composed with the `sql` tag and rendered with numbered
+ * placeholders for `prisma.$queryRawUnsafe`. Only identifiers and literals
+ * that must appear verbatim in the query text, such as the keys of expression
+ * indexes, are quoted inline.
+ */
+
+// A parameterised SQL fragment; `$?` marks where the next parameter goes
+export interface SqlFragment {
+  text: string;
+  params: unknown[];
+}
+
+/**
+ * Build a fragment; interpolated fragments are inlined, other values become parameters
+ */
+export function sql(strings: TemplateStringsArray, ...values: unknown[]): SqlFragment {
+  let text = strings[0];
+  const params: unknown[] = [];
+
+  values.forEach((value, i) => {
+    if (isFragment(value)) {
+      text += value.text;
+      params.push(...value.params);
+    } else {
+      text += '$?';
+      params.push(value);
+    }
+    text += strings[i + 1];
+  });
+
+  return { text, params };
+}
+
+/**
+ * A fragment of trusted SQL text without parameters
+ */
+export function rawSql(text: string): SqlFragment {
+  return { text, params: [] };
+}
+
+/**
+ * Join fragments with a separator such as ' AND '
+ */
+export function joinSql(fragments: SqlFragment[], separator: string): SqlFragment {
+  return {
+    text: fragments.map(fragment => fragment.text).join(separator),
+    params: fragments.flatMap(fragment => fragment.params)
+  };
+}
+
+/**
+ * Render a fragment into Postgres text with numbered placeholders
+ */
+export function renderSql(fragment: SqlFragment): { text: string; params: unknown[] } {
+  let index = 0;
+  return {
+    text: fragment.text.replace(/\$\?/g, () => `$${++index}`),
+    params: fragment.params
+  };
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function isFragment(value: unknown): value is SqlFragment {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as SqlFragment).text === 'string' && Array.isArray((value as SqlFragment).params);
+}
@@ -0,0 +1,242 @@
+/**
+ * Standard Matching - Pairs two devices through their DeviceStandard rows and the
+ * standards-based CompatibilityRule table. Shared by the connector rule processor
+ * and checkDeviceCompatibility so both compatibility paths give the same answer.
+ */
+
+import { prisma } from '../database';
+
+export type CompatibilityLevel = 'full' | 'partial' | 'none';
+
+export interface DeviceStandardInfo {
+  standardId: string;
+  name: string;
+  category: string;
+  version: string | null;
+  portCount: number;
+  verified: boolean;
+  specifications?: Record<string, unknown> | null; // Standard specs, e.g. bandwidthGbps
+}
+
+export interface StandardRuleInfo {
+  id: string;
+  standardAId: string;
+  standardBId: string;
+  compatibilityType: string;
+  description: string | null;
+  limitations: string[];
+}
+
+export interface StandardMatch {
+  sourceStandard: { id: string; name: string };
+  targetStandard: { id: string; name: string };
+  compatibility: CompatibilityLevel;
+  via: 'same_standard' | 'rule';
+  ruleId?: string;
+  description: string;
+  limitations: string[];
+  verified: boolean;
+  connections: number; // Links allocated to this pair
+}
+
+export interface PortShortfall {
+  required: number;
+  available: number;
+  standards: string[];
+}
+
+export interface StandardsMatchResult {
+  compatible: CompatibilityLevel;
+  hasStandards: boolean;
+  matches: StandardMatch[];
+  portShortfall?: PortShortfall;
+}
+
+export interface StandardMatchOptions {
+  connections?: number; // Links the source needs to make to the target (default 1)
+  portUsage?: Record<string, number>; // Target ports already taken, keyed by standard id
+}
+
+const LEVEL_RANK: Record<CompatibilityLevel, number> = { none: 0, partial: 1, full: 2 };
+
+/**
+ * Load the standards supported by each device, keyed by device id
+ */
+export async function loadDeviceStandards(deviceIds: string[]): Promise<Map<string, DeviceStandardInfo[]>> {
+  const rows = await prisma.deviceStandard.findMany({
+    where: { deviceId: { in: deviceIds } },
+    include: { standard: true }
+  });
+
+  const standards = new Map<string, DeviceStandardInfo[]>(deviceIds.map(id => [id, []]));
+  for (const row of rows) {
+    standards.get(row.deviceId)?.push({
+      standardId: row.standardId,
+      name: row.standard.name,
+      category: row.standard.category,
+      version: row.standard.version,
+      portCount: row.portCount,
+      verified: row.verified,
+      specifications: row.standard.specifications as Record<string, unknown> | null
+    });
+  }
+
+  return standards;
+}
+
+/**
+ * Load compatibility rules between two sets of standards, in either direction
+ */
+export async function loadStandardRules(
+  sourceStandardIds: string[],
+  targetStandardIds: string[]
+): Promise<StandardRuleInfo[]> {
+  if (sourceStandardIds.length === 0 || targetStandardIds.length === 0) {
+    return [];
+  }
+
+  return prisma.compatibilityRule.findMany({
+    where: {
+      OR: [
+        { standardAId: { in: sourceStandardIds }, standardBId: { in: targetStandardIds } },
+        { standardAId: { in: targetStandardIds }, standardBId: { in: sourceStandardIds } }
+      ]
+    }
+  });
+}
+
+/**
+ * Match two devices through their standards
+ */
+export async function matchDeviceStandards(
+  sourceDeviceId: string,
+  targetDeviceId: string,
+  options: StandardMatchOptions = {}
+): Promise<StandardsMatchResult> {
+  const standards = await loadDeviceStandards([sourceDeviceId, targetDeviceId]);
+  const source = standards.get(sourceDeviceId) || [];
+  const target = standards.get(targetDeviceId) || [];
+
+  const rules = await loadStandardRules(
+    source.map(s => s.standardId),
+    target.map(t => t.standardId)
+  );
+
+  return matchStandards(source, target, rules, options);
+}
+
+/**
+ * Pair source and target standards and allocate the links the source needs
+ * across the target's free ports, preferring fully compatible pairs
+ */
+export function matchStandards(
+  source: DeviceStandardInfo[],
+  target: DeviceStandardInfo[],
+  rules: StandardRuleInfo[],
+  options: StandardMatchOptions = {}
+): StandardsMatchResult {
+  const hasStandards = source.length > 0 && target.length > 0;
+  const matches: StandardMatch[] = [];
+
+  for (const sourceStandard of source) {
+    for (const targetStandard of target) {
+      const match = pairStandards(sourceStandard, targetStandard, rules);
+      if (match) matches.push(match);
+    }
+  }
+
+  // Allocate links: best compatibility first, verified pairs before unverified ones
+  const required = Math.max(1, options.connections ?? 1);
+  const sourceFree = new Map(source.map(s => [s.standardId, s.portCount]));
+  const targetFree = new Map(
+    target.map(t => [t.standardId, Math.max(0, t.portCount - (options.portUsage?.[t.standardId] || 0))])
+  );
+
+  let allocated = 0;
+  const candidates = matches
+    .filter(match => match.compatibility !== 'none')
+    .sort((a, b) =>
+      LEVEL_RANK[b.compatibility] - LEVEL_RANK[a.compatibility] || Number(b.verified) - Number(a.verified)
+    );
+
+  for (const match of candidates) {
+    if (allocated >= required) break;
+    const links = Math.min(
+      required - allocated,
+      sourceFree.get(match.sourceStandard.id) || 0,
+      targetFree.get(match.targetStandard.id) || 0
+    );
+    if (links <= 0) continue;
+
+    match.connections = links;
+    allocated += links;
+    sourceFree.set(match.sourceStandard.id, sourceFree.get(match.sourceStandard.id)! - links);
+    targetFree.set(match.targetStandard.id, targetFree.get(match.targetStandard.id)! - links);
+  }
+
+  if (candidates.length === 0) {
+    return { compatible: 'none', hasStandards, matches };
+  }
+
+  const used = candidates.filter(match => match.connections > 0);
+  let compatible: CompatibilityLevel = used.some(match => match.compatibility === 'full') ? 'full' : 'partial';
+
+  let portShortfall: PortShortfall | undefined;
+  if (allocated < required) {
+    // The devices can talk to each other, but not over as many links as needed
+    compatible = 'partial';
+    portShortfall = {
+      required,
+      available: allocated,
+      standards: [...new Set(candidates.map(match => match.targetStandard.name))]
+    };
+  }
+
+  return { compatible, hasStandards, matches, portShortfall };
+}
+
+/**
+ * Private helpers
+ */
+
+function pairStandards(
+  source: DeviceStandardInfo,
+  target: DeviceStandardInfo,
+  rules: StandardRuleInfo[]
+): StandardMatch | null {
+  const base = {
+    sourceStandard: { id: source.standardId, name: source.name },
+    targetStandard: { id: target.standardId, name: target.name },
+    verified: source.verified && target.verified,
+    connections: 0
+  };
+
+  if (source.standardId === target.standardId) {
+    return {
+      ...base,
+      compatibility: 'full',
+      via: 'same_standard',
+      description: `Both devices support ${source.name}`,
+      limitations: []
+    };
+  }
+
+  const rule = rules.find(r =>
+    (r.standardAId === source.standardId && r.standardBId === target.standardId) ||
+    (r.standardAId === target.standardId && r.standardBId === source.standardId)
+  );
+  if (!rule) return null;
+
+  return {
+    ...base,
+    compatibility: normalizeLevel(rule.compatibilityType),
+    via: 'rule',
+    ruleId: rule.id,
+    description: rule.description || `${source.name} works with ${target.name}`,
+    limitations: rule.limitations || []
+  };
+}
+
+function normalizeLevel(value: string): CompatibilityLevel {
+  return value === 'full' || value === 'partial' ? value : 'none';
+}
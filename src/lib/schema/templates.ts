@@ -122,7 +122,7 @@ export class CategoryTemplateManager {
             description: 'Check if console resolution is supported by TV',
             sourceField: 'maxResolution',
             targetField: 'maxResolution',
-            condition: 'this.getResolutionValue(source) <= this.getResolutionValue(target)',
+            condition: 'resolution(source) <= resolution(target)',
             compatibilityType: 'full',
             message: 'Console resolution is supported by display'
           }
@@ -142,10 +142,10 @@ export class CategoryTemplateManager {
           ...this.getBaseDeviceFields(),
           screenSize: {
             type: 'number',
-            constraints: { min: 1, max: 200, unit: 'inches' },
+            constraints: { min: 2.5, max: 508, unit: 'cm' },
             metadata: {
               label: 'Screen Size',
-              description: 'Diagonal screen size in inches',
+              description: 'Diagonal screen size',
               importance: 'high',
               weight: 0.8
             }
@@ -224,7 +224,7 @@ export class CategoryTemplateManager {
             id: 'screen-size-resolution',
             name: 'Screen Size Resolution Validation',
             description: 'Validate that resolution is appropriate for screen size',
-            condition: 'this.validateScreenSizeResolution(screenSize, resolution)',
+            condition: 'screenSize < 24in or resolution(resolution) >= resolution("1080p")',
             errorMessage: 'Resolution may not be optimal for this screen size',
             severity: 'warning'
           }
@@ -412,7 +412,7 @@ export class CategoryTemplateManager {
             description: 'Check if cable connectors match device ports',
             sourceField: 'connectorA',
             targetField: 'inputPorts',
-            condition: 'target.includes(source)',
+            condition: 'target contains source',
             compatibilityType: 'full',
             message: 'Cable connector matches device port'
           }
@@ -442,10 +442,10 @@ export class CategoryTemplateManager {
           },
           screenSize: {
             type: 'number',
-            constraints: { min: 3, max: 10, unit: 'inches' },
+            constraints: { min: 7.6, max: 25.4, unit: 'cm' },
             metadata: {
               label: 'Screen Size',
-              description: 'Display diagonal size in inches',
+              description: 'Display diagonal size',
               importance: 'high',
               weight: 0.8
             }
@@ -551,10 +551,10 @@ export class CategoryTemplateManager {
           },
           screenSize: {
             type: 'number',
-            constraints: { min: 10, max: 20, unit: 'inches' },
+            constraints: { min: 25.4, max: 50.8, unit: 'cm' },
             metadata: {
               label: 'Screen Size',
-              description: 'Display diagonal size in inches',
+              description: 'Display diagonal size',
               importance: 'high',
               weight: 0.7
             }
@@ -42,6 +42,7 @@ export interface FieldMetadata {
   deprecated?: boolean;
   deprecationMessage?: string;
   addedInVersion?: string;
+  orientations?: 'any' | 'upright' | 'fixed'; // Interior dimension fields: how devices placed inside may be rotated
 }
 
 // Core field definition
@@ -52,6 +53,10 @@ export interface FieldDefinition {
   defaultValue?: any;
   computed?: boolean; // If field is computed from other fields
   computeFunction?: string; // Function name for computed fields
+  visibleWhen?: string; // Rule expression over other fields; the field only applies while it holds
+  requiredWhen?: string; // Rule expression over other fields; the field is required while it holds
+  items?: FieldDefinition; // Definition of each item of an array field
+  properties?: Record<string, FieldDefinition>; // Nested fields of an object field
 }
 
 // Schema definition for a device category
@@ -74,12 +79,33 @@ export interface CategorySchema {
   deprecationMessage?: string;
 }
 
+// Where an effective field of an inheriting schema comes from
+export interface FieldSource {
+  definedIn: string; // Top-most category that defines the field
+  overriddenIn: string[]; // Categories below it, down to this schema, that narrow it
+}
+
+// Override that does not narrow the field it inherits
+export interface InheritanceConflict {
+  categoryId: string;
+  field: string;
+  message: string;
+}
+
+// Schema with every field, rule and required field inherited from its ancestors
+export interface ResolvedCategorySchema extends CategorySchema {
+  ancestors: string[]; // Root first, excluding the schema itself
+  localFields: Record<string, FieldDefinition>; // Fields and overrides defined by the schema itself
+  fieldSources: Record<string, FieldSource>;
+  inheritanceConflicts: InheritanceConflict[];
+}
+
 // Validation rules for complex field relationships
 export interface ValidationRule {
   id: string;
   name: string;
   description: string;
-  condition: string; // JavaScript expression
+  condition: string; // Rule expression
   errorMessage: string;
   severity: 'error' | 'warning' | 'info';
 }
@@ -91,10 +117,11 @@ export interface CompatibilityRuleDefinition {
   description: string;
   sourceField: string;
   targetField: string;
-  condition: string; // JavaScript expression for compatibility check
+  condition: string; // Rule expression for compatibility check
   compatibilityType: 'full' | 'partial' | 'none';
   message: string;
   limitations?: string[];
+  parameters?: Record<string, unknown>; // Processor-specific settings, e.g. clearance for dimension rules
 }
 
 // Device specification instance
@@ -130,19 +157,104 @@ export interface SchemaMigration {
   operations: MigrationOperation[];
   createdAt: Date;
   appliedAt?: Date;
+  rolledBackAt?: Date;
 }
 
 // Migration operations
 export type MigrationOperation = 
   | { type: 'add_field'; field: string; definition: FieldDefinition }
   | { type: 'remove_field'; field: string }
-  | { type: 'modify_field'; field: string; changes: Partial<FieldDefinition> }
+  // fromUnit is the previous constraints.unit when the change converts stored values
+  | { type: 'modify_field'; field: string; changes: Partial<FieldDefinition>; fromUnit?: string }
   | { type: 'rename_field'; oldName: string; newName: string }
   | { type: 'add_validation_rule'; rule: ValidationRule }
   | { type: 'remove_validation_rule'; ruleId: string }
   | { type: 'add_compatibility_rule'; rule: CompatibilityRuleDefinition }
   | { type: 'remove_compatibility_rule'; ruleId: string };
 
+// Inverse of an applied migration operation, recorded when the migration is applied.
+// Rule and definition changes are undone by restoring the previous schema instead.
+export type RollbackOperation =
+  // Undoes add_field: drops the field from devices that did not have it before
+  | { type: 'remove_field'; field: string; defaultValue: unknown; keepDeviceIds: string[]; dropIndex: boolean }
+  // Undoes remove_field: restores the removed definition and values
+  | { type: 'restore_field'; field: string; definition?: FieldDefinition; values: Record<string, unknown> }
+  // Undoes rename_field: renames `from` back to `to`, restoring values the rename overwrote
+  | { type: 'rename_field'; from: string; to: string; values: Record<string, unknown> }
+  // Undoes the default fill and type conversion of modify_field; writtenValues holds converted values
+  | {
+      type: 'restore_values';
+      field: string;
+      filledValue: unknown;
+      values: Record<string, unknown>;
+      absentDeviceIds: string[];
+      writtenValues?: Record<string, unknown>;
+    };
+
+export interface MigrationRollbackData {
+  previousSchema: CategorySchema | null;
+  operations: RollbackOperation[]; // In the order they are applied on rollback
+}
+
+export interface MigrationRollbackConflict {
+  deviceId?: string;
+  field?: string;
+  message: string;
+}
+
+// Schema version known to the registry and how it is rebuilt
+export interface SchemaVersionInfo {
+  version: string;
+  current: boolean;
+  source: 'current' | 'stored' | 'snapshot' | 'replay' | 'unavailable';
+  migrationId?: string; // Migration that produces this version
+  appliedAt?: Date;
+}
+
+// Three-way merge of a schema edit made against an older version
+export interface SchemaMergeConflict {
+  path: string; // Dotted path, e.g. "fields.refreshRate.metadata.label"
+  base?: unknown; // Value in the version the edit started from
+  current?: unknown; // Value saved by the other edit
+  proposed?: unknown; // Value in this edit
+  message: string;
+}
+
+export interface SchemaMergeResult {
+  merged: CategorySchema; // Conflicting paths keep the current value
+  applied: MigrationOperation[]; // Proposed operations merged onto the current version
+  conflicts: SchemaMergeConflict[];
+}
+
+// Batched rewrite of stored specifications to a migration's target version
+export type SchemaBackfillStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SchemaBackfillJob {
+  id: string;
+  migrationId: string;
+  categoryId: string;
+  fromVersion: string;
+  toVersion: string;
+  status: SchemaBackfillStatus;
+  batchSize: number;
+  cursor?: string; // Last processed device_specifications id
+  totalCount: number;
+  processedCount: number;
+  failedCount: number; // Specifications that could not be rewritten
+  invalidCount: number; // Rewritten specifications that fail validation
+  failures: SchemaBackfillFailure[]; // Most recent failures only
+  lastError?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SchemaBackfillFailure {
+  deviceId: string;
+  message: string;
+}
+
 // Schema registry for managing all category schemas
 export interface SchemaRegistry {
   schemas: Map<string, CategorySchema>;
@@ -171,6 +283,13 @@ export interface IndexConfiguration {
   expression?: string; // For expression indexes
 }
 
+// Index the planner creates on device_specifications for one field of a category
+export interface PlannedIndex extends IndexConfiguration {
+  name: string;
+  expression: string; // Indexed expression including any operator class
+  partial: string; // Restricts the index to the category's specifications
+}
+
 // Search configuration for dynamic search capabilities
 export interface SearchConfiguration {
   field: string;
@@ -0,0 +1,324 @@
+/**
+ * Unit Definitions - Physical units understood by rule expressions and unit-aware fields
+ */
+
+import type { FieldDefinition, ValidationError } from './types';
+import { childPath } from './field-paths';
+
+export type UnitDimension =
+  | 'length'
+  | 'mass'
+  | 'power'
+  | 'frequency'
+  | 'dataRate'
+  | 'dataSize'
+  | 'voltage'
+  | 'current'
+  | 'charge'
+  | 'energy'
+  | 'time'
+  | 'resistance';
+
+// Measurement system of units that differ between metric and imperial display
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface UnitDefinition {
+  symbol: string;
+  dimension: UnitDimension;
+  factor: number; // Multiplier converting a value in this unit to the dimension's base unit
+  aliases?: string[];
+  system?: UnitSystem; // Unset for units shared by both systems (W, Hz, V, ...)
+}
+
+// Value parsed from input such as "27 in", "2.5 kg" or "65W"
+export interface Quantity {
+  value: number;
+  unit?: UnitDefinition; // Unset for bare numbers
+}
+
+// Base unit for each dimension; all conversions go through these
+export const BASE_UNITS: Record<UnitDimension, string> = {
+  length: 'm',
+  mass: 'kg',
+  power: 'W',
+  frequency: 'Hz',
+  dataRate: 'bps',
+  dataSize: 'B',
+  voltage: 'V',
+  current: 'A',
+  charge: 'Ah',
+  energy: 'Wh',
+  time: 's',
+  resistance: 'ohm'
+};
+
+export const UNIT_DEFINITIONS: UnitDefinition[] = [
+  // Length
+  { symbol: 'mm', dimension: 'length', factor: 0.001, aliases: ['millimeter', 'millimeters'], system: 'metric' },
+  { symbol: 'cm', dimension: 'length', factor: 0.01, aliases: ['centimeter', 'centimeters'], system: 'metric' },
+  { symbol: 'm', dimension: 'length', factor: 1, aliases: ['meter', 'meters', 'metre', 'metres'], system: 'metric' },
+  { symbol: 'in', dimension: 'length', factor: 0.0254, aliases: ['inch', 'inches', '"'], system: 'imperial' },
+  { symbol: 'ft', dimension: 'length', factor: 0.3048, aliases: ['foot', 'feet', "'"], system: 'imperial' },
+
+  // Mass
+  { symbol: 'g', dimension: 'mass', factor: 0.001, aliases: ['gram', 'grams'], system: 'metric' },
+  { symbol: 'kg', dimension: 'mass', factor: 1, aliases: ['kilogram', 'kilograms'], system: 'metric' },
+  { symbol: 'lb', dimension: 'mass', factor: 0.45359237, aliases: ['lbs', 'pound', 'pounds'], system: 'imperial' },
+  { symbol: 'oz', dimension: 'mass', factor: 0.028349523125, aliases: ['ounce', 'ounces'], system: 'imperial' },
+
+  // Power
+  { symbol: 'mW', dimension: 'power', factor: 0.001, aliases: ['milliwatt', 'milliwatts'] },
+  { symbol: 'W', dimension: 'power', factor: 1, aliases: ['watt', 'watts'] },
+  { symbol: 'kW', dimension: 'power', factor: 1000, aliases: ['kilowatt', 'kilowatts'] },
+
+  // Frequency
+  { symbol: 'Hz', dimension: 'frequency', factor: 1, aliases: ['hertz'] },
+  { symbol: 'kHz', dimension: 'frequency', factor: 1e3 },
+  { symbol: 'MHz', dimension: 'frequency', factor: 1e6 },
+  { symbol: 'GHz', dimension: 'frequency', factor: 1e9 },
+
+  // Data rate
+  { symbol: 'bps', dimension: 'dataRate', factor: 1 },
+  { symbol: 'Kbps', dimension: 'dataRate', factor: 1e3 },
+  { symbol: 'Mbps', dimension: 'dataRate', factor: 1e6 },
+  { symbol: 'Gbps', dimension: 'dataRate', factor: 1e9 },
+
+  // Data size (decimal prefixes, as used on spec sheets)
+  { symbol: 'B', dimension: 'dataSize', factor: 1, aliases: ['byte', 'bytes'] },
+  { symbol: 'KB', dimension: 'dataSize', factor: 1e3 },
+  { symbol: 'MB', dimension: 'dataSize', factor: 1e6 },
+  { symbol: 'GB', dimension: 'dataSize', factor: 1e9 },
+  { symbol: 'TB', dimension: 'dataSize', factor: 1e12 },
+
+  // Electrical
+  { symbol: 'mV', dimension: 'voltage', factor: 0.001 },
+  { symbol: 'V', dimension: 'voltage', factor: 1, aliases: ['volt', 'volts'] },
+  { symbol: 'mA', dimension: 'current', factor: 0.001 },
+  { symbol: 'A', dimension: 'current', factor: 1, aliases: ['amp', 'amps'] },
+  { symbol: 'mAh', dimension: 'charge', factor: 0.001 },
+  { symbol: 'Ah', dimension: 'charge', factor: 1 },
+  { symbol: 'Wh', dimension: 'energy', factor: 1 },
+  { symbol: 'kWh', dimension: 'energy', factor: 1000 },
+  { symbol: 'ohm', dimension: 'resistance', factor: 1, aliases: ['ohms', 'Ω'] },
+
+  // Time
+  { symbol: 'ms', dimension: 'time', factor: 0.001 },
+  { symbol: 's', dimension: 'time', factor: 1, aliases: ['sec', 'second', 'seconds'] },
+  { symbol: 'min', dimension: 'time', factor: 60, aliases: ['minute', 'minutes'] },
+  { symbol: 'h', dimension: 'time', factor: 3600, aliases: ['hr', 'hour', 'hours'] }
+];
+
+const exactLookup = new Map<string, UnitDefinition>();
+const caseInsensitiveLookup = new Map<string, UnitDefinition | null>();
+
+for (const unit of UNIT_DEFINITIONS) {
+  for (const name of [unit.symbol, ...(unit.aliases || [])]) {
+    exactLookup.set(name, unit);
+
+    // Names that collide case-insensitively (e.g. mW / MW) are only matched exactly
+    const lower = name.toLowerCase();
+    const existing = caseInsensitiveLookup.get(lower);
+    caseInsensitiveLookup.set(lower, existing === undefined || existing === unit ? unit : null);
+  }
+}
+
+/**
+ * Resolve a unit symbol or alias (e.g. "in", "inches", "W", "watts")
+ */
+export function resolveUnit(name: string | undefined | null): UnitDefinition | null {
+  if (!name) return null;
+  const trimmed = name.trim();
+  return exactLookup.get(trimmed) || caseInsensitiveLookup.get(trimmed.toLowerCase()) || null;
+}
+
+/**
+ * Convert a value expressed in `unit` to its dimension's base unit
+ */
+export function toBaseUnit(value: number, unit: string): number {
+  const definition = resolveUnit(unit);
+  if (!definition) {
+    throw new Error(`Unknown unit: ${unit}`);
+  }
+  return value * definition.factor;
+}
+
+/**
+ * Convert a value expressed in the dimension's base unit to `unit`
+ */
+export function fromBaseUnit(value: number, unit: string): number {
+  const definition = resolveUnit(unit);
+  if (!definition) {
+    throw new Error(`Unknown unit: ${unit}`);
+  }
+  return value / definition.factor;
+}
+
+/**
+ * Convert a value between two units of the same dimension
+ */
+export function convertUnit(value: number, fromUnit: string, toUnit: string): number {
+  const from = resolveUnit(fromUnit);
+  const to = resolveUnit(toUnit);
+
+  if (!from) throw new Error(`Unknown unit: ${fromUnit}`);
+  if (!to) throw new Error(`Unknown unit: ${toUnit}`);
+  if (from.dimension !== to.dimension) {
+    throw new Error(`Cannot convert ${from.symbol} (${from.dimension}) to ${to.symbol} (${to.dimension})`);
+  }
+
+  return (value * from.factor) / to.factor;
+}
+
+// A number, optionally with thousands separators, followed by an optional unit
+const QUANTITY_PATTERN = /^([-+]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?)(?:\s*-?\s*)(.*?)$/;
+
+/**
+ * Parse a number with an optional unit, e.g. "27 in", "2.5 kg", "65W",
+ * "120Hz", '27"' or "27-inch". Returns null for unparseable input and
+ * unknown units.
+ */
+export function parseQuantity(input: unknown): Quantity | null {
+  if (typeof input === 'number') {
+    return Number.isFinite(input) ? { value: input } : null;
+  }
+  if (typeof input !== 'string') return null;
+
+  const match = input.trim().match(QUANTITY_PATTERN);
+  if (!match || !/\d/.test(match[1])) return null;
+
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  if (!match[2]) return { value };
+
+  const unit = resolveUnit(match[2]);
+  return unit ? { value, unit } : null;
+}
+
+/**
+ * Convert unit-tagged input to a field's canonical unit. Bare numbers are
+ * taken to be in `defaultUnit`, or already in the canonical unit.
+ */
+export function normalizeQuantity(input: unknown, targetUnit?: string, defaultUnit?: string): number {
+  const quantity = parseQuantity(input);
+  if (!quantity) {
+    throw new Error(`Invalid quantity: ${JSON.stringify(input)}`);
+  }
+
+  const fromUnit = quantity.unit?.symbol || defaultUnit;
+  if (!fromUnit) return quantity.value;
+  if (!targetUnit) {
+    throw new Error(`Cannot store a value in ${fromUnit} in a field without a unit`);
+  }
+
+  // Drop floating point noise from the conversion factors
+  return Number(convertUnit(quantity.value, fromUnit, targetUnit).toPrecision(12));
+}
+
+/**
+ * Unit to display a value stored in `unit` with, for a measurement system.
+ * Units of the other system map to the closest unit of the same dimension;
+ * units shared by both systems are kept.
+ */
+export function displayUnit(unit: string, system: UnitSystem): string {
+  const definition = resolveUnit(unit);
+  if (!definition || !definition.system || definition.system === system) return unit;
+
+  const candidates = UNIT_DEFINITIONS.filter(candidate =>
+    candidate.dimension === definition.dimension && candidate.system === system
+  );
+  if (candidates.length === 0) return unit;
+
+  const distance = (candidate: UnitDefinition) => Math.abs(Math.log(candidate.factor / definition.factor));
+  return candidates.reduce((best, candidate) => distance(candidate) < distance(best) ? candidate : best).symbol;
+}
+
+/**
+ * Format a value stored in `unit` for display in a measurement system,
+ * e.g. 68.58 cm as "27 in" for imperial
+ */
+export function formatQuantity(
+  value: number,
+  unit: string | undefined,
+  system: UnitSystem,
+  maximumFractionDigits = 2
+): string {
+  if (!unit) return String(value);
+
+  const target = displayUnit(unit, system);
+  const converted = target === unit ? value : convertUnit(value, unit, target);
+  const factor = 10 ** maximumFractionDigits;
+
+  return `${Math.round(converted * factor) / factor} ${target}`;
+}
+
+/**
+ * Convert the unit-tagged string values of a specification's number fields to
+ * each field's canonical unit
+ */
+export function normalizeSpecificationUnits(
+  fields: Record<string, FieldDefinition>,
+  specifications: Record<string, unknown>
+): { values: Record<string, unknown>; errors: ValidationError[] } {
+  const values: Record<string, unknown> = { ...specifications };
+  const errors: ValidationError[] = [];
+
+  for (const [fieldName, value] of Object.entries(specifications)) {
+    const field = fields[fieldName];
+    if (field?.type !== 'number' || typeof value !== 'string' || value.trim() === '') continue;
+
+    try {
+      values[fieldName] = normalizeQuantity(value, field.constraints?.unit);
+    } catch (error) {
+      errors.push({
+        field: fieldName,
+        message: `Field '${fieldName}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'error',
+        code: 'INVALID_UNIT',
+        value
+      });
+    }
+  }
+
+  return { values, errors };
+}
+
+export class FieldUnitError extends Error {
+  public readonly field: string;
+
+  constructor(message: string, field: string) {
+    super(message);
+    this.name = 'FieldUnitError';
+    this.field = field;
+  }
+}
+
+/**
+ * Check that number fields are stored in metric units. Imperial units are
+ * display units only, so a field declared in inches must use cm instead.
+ * Only fields that are new or differ from `previousFields` are checked.
+ * Nested fields are named by their path, as in schema validation.
+ */
+export function validateFieldUnits(
+  fields: Record<string, FieldDefinition>,
+  previousFields: Record<string, FieldDefinition> = {}
+): void {
+  for (const [fieldName, field] of Object.entries(fields)) {
+    if (JSON.stringify(previousFields[fieldName]) === JSON.stringify(field)) continue;
+    validateFieldUnit(fieldName, field);
+  }
+}
+
+function validateFieldUnit(path: string, field: FieldDefinition): void {
+  const unit = field.type === 'number' ? resolveUnit(field.constraints?.unit) : null;
+
+  if (unit?.system === 'imperial') {
+    throw new FieldUnitError(
+      `Field '${path}' must be stored in a metric unit, not ${unit.symbol}; use ${displayUnit(unit.symbol, 'metric')}`,
+      path
+    );
+  }
+
+  if (field.items) validateFieldUnit(path, field.items);
+  for (const [propertyName, property] of Object.entries(field.properties || {})) {
+    validateFieldUnit(childPath(path, propertyName), property);
+  }
+}
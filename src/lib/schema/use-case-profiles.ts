@@ -0,0 +1,322 @@
+/**
+ * Use-Case Profiles - Named compatibility profiles (e.g. "4K120 gaming") that
+ * re-weight fields, add required constraints and move the full/partial score
+ * thresholds for a compatibility check
+ */
+
+import { prisma, ValidationError } from '../database';
+import { parseExpression } from './expression';
+import { CategorySchema, CompatibilityRuleDefinition } from './types';
+
+export interface ProfileConstraint {
+  id: string;
+  description?: string;
+  sourceField: string;
+  targetField: string;
+  condition: string; // Rule expression, evaluated like a compatibility rule condition
+  severity: 'partial' | 'none'; // Highest compatibility a pair can reach when the constraint fails
+  message: string;
+}
+
+export interface UseCaseProfile {
+  useCase: string; // Key passed as context.useCase
+  name: string;
+  description?: string;
+  sourceCategoryId?: string | null; // Null for built-in profiles that apply to every pair
+  targetCategoryId?: string | null;
+  fieldWeights: Record<string, number>;
+  constraints: ProfileConstraint[];
+  fullThreshold: number;
+  partialThreshold: number;
+  builtIn: boolean;
+}
+
+export const DEFAULT_FULL_THRESHOLD = 0.8;
+export const DEFAULT_PARTIAL_THRESHOLD = 0.3;
+
+export class UseCaseProfileRegistry {
+  private builtInProfiles: Map<string, UseCaseProfile> = new Map();
+
+  constructor() {
+    this.initializeBuiltInProfiles();
+  }
+
+  /**
+   * Resolve the profile for a use case and category pair. Profiles managed for
+   * the pair take precedence over the built-in profile of the same name.
+   */
+  async resolveProfile(
+    useCase: string,
+    sourceCategoryId: string,
+    targetCategoryId: string
+  ): Promise<UseCaseProfile> {
+    const record = await prisma.compatibilityProfile.findUnique({
+      where: {
+        useCase_sourceCategoryId_targetCategoryId: { useCase, sourceCategoryId, targetCategoryId }
+      }
+    });
+
+    if (record) {
+      return this.fromRecord(record);
+    }
+
+    const builtIn = this.builtInProfiles.get(useCase);
+    if (!builtIn) {
+      throw new ValidationError(`Unknown use case: ${useCase}`, 'useCase');
+    }
+
+    return builtIn;
+  }
+
+  /**
+   * List the profiles available for a category pair, or every managed profile
+   * when no pair is given
+   */
+  async listProfiles(sourceCategoryId?: string, targetCategoryId?: string): Promise<UseCaseProfile[]> {
+    const records = await prisma.compatibilityProfile.findMany({
+      where: {
+        ...(sourceCategoryId ? { sourceCategoryId } : {}),
+        ...(targetCategoryId ? { targetCategoryId } : {})
+      },
+      orderBy: [{ useCase: 'asc' }, { createdAt: 'asc' }]
+    });
+    const managed: UseCaseProfile[] = records.map((record: Parameters<UseCaseProfileRegistry['fromRecord']>[0]) =>
+      this.fromRecord(record)
+    );
+
+    // Built-ins apply to every pair unless the pair overrides them
+    const pairSelected = Boolean(sourceCategoryId && targetCategoryId);
+    const overridden = new Set(pairSelected ? managed.map(profile => profile.useCase) : []);
+
+    return [
+      ...managed,
+      ...this.getBuiltInProfiles().filter(profile => !overridden.has(profile.useCase))
+    ];
+  }
+
+  /**
+   * Get all built-in profiles
+   */
+  getBuiltInProfiles(): UseCaseProfile[] {
+    return Array.from(this.builtInProfiles.values());
+  }
+
+  /**
+   * Validate a profile definition, returning a list of problems
+   */
+  validateProfile(profile: Partial<UseCaseProfile>): string[] {
+    const errors: string[] = [];
+    const full = profile.fullThreshold ?? DEFAULT_FULL_THRESHOLD;
+    const partial = profile.partialThreshold ?? DEFAULT_PARTIAL_THRESHOLD;
+
+    if (!profile.useCase || !/^[a-z0-9][a-z0-9-]*$/.test(profile.useCase)) {
+      errors.push('useCase must be a lowercase key such as "4k120-gaming"');
+    }
+    if (!profile.name) {
+      errors.push('name is required');
+    }
+    if (!this.isFraction(full) || !this.isFraction(partial)) {
+      errors.push('Thresholds must be numbers between 0 and 1');
+    } else if (partial > full) {
+      errors.push('partialThreshold cannot be higher than fullThreshold');
+    }
+
+    for (const [field, weight] of Object.entries(profile.fieldWeights || {})) {
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        errors.push(`Weight for ${field} must be a non-negative number`);
+      }
+    }
+
+    const ids = new Set<string>();
+    for (const constraint of profile.constraints || []) {
+      const label = constraint.id || '(unnamed constraint)';
+      if (!constraint.id) errors.push('Every constraint needs an id');
+      else if (ids.has(constraint.id)) errors.push(`Duplicate constraint id: ${constraint.id}`);
+      ids.add(constraint.id);
+
+      if (!constraint.sourceField || !constraint.targetField) {
+        errors.push(`Constraint ${label} needs a sourceField and a targetField`);
+      }
+      if (!constraint.message) {
+        errors.push(`Constraint ${label} needs a message`);
+      }
+      if (constraint.severity !== 'partial' && constraint.severity !== 'none') {
+        errors.push(`Constraint ${label} severity must be 'partial' or 'none'`);
+      }
+      try {
+        parseExpression(constraint.condition);
+      } catch (error) {
+        errors.push(`Constraint ${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Constraints whose fields exist in both schemas, as compatibility rules
+   */
+  getConstraintRules(
+    profile: UseCaseProfile,
+    sourceSchema: CategorySchema,
+    targetSchema: CategorySchema
+  ): Array<{ rule: CompatibilityRuleDefinition; severity: ProfileConstraint['severity'] }> {
+    return profile.constraints
+      .filter(constraint =>
+        constraint.sourceField in (sourceSchema.fields || {}) &&
+        constraint.targetField in (targetSchema.fields || {})
+      )
+      .map(constraint => ({
+        rule: {
+          id: `profile:${profile.useCase}:${constraint.id}`,
+          name: `profile:${profile.useCase}`,
+          description: constraint.description || constraint.message,
+          sourceField: constraint.sourceField,
+          targetField: constraint.targetField,
+          condition: constraint.condition,
+          compatibilityType: 'full',
+          message: constraint.message,
+          limitations: [constraint.message]
+        },
+        severity: constraint.severity
+      }));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private fromRecord(record: {
+    useCase: string;
+    name: string;
+    description: string | null;
+    sourceCategoryId: string;
+    targetCategoryId: string;
+    fieldWeights: unknown;
+    constraints: unknown;
+    fullThreshold: number;
+    partialThreshold: number;
+  }): UseCaseProfile {
+    return {
+      useCase: record.useCase,
+      name: record.name,
+      description: record.description ?? undefined,
+      sourceCategoryId: record.sourceCategoryId,
+      targetCategoryId: record.targetCategoryId,
+      fieldWeights: (record.fieldWeights as Record<string, number>) || {},
+      constraints: (record.constraints as ProfileConstraint[]) || [],
+      fullThreshold: record.fullThreshold,
+      partialThreshold: record.partialThreshold,
+      builtIn: false
+    };
+  }
+
+  private isFraction(value: unknown): boolean {
+    return typeof value === 'number' && value >= 0 && value <= 1;
+  }
+
+  private registerBuiltInProfile(profile: Omit<UseCaseProfile, 'builtIn'>): void {
+    this.builtInProfiles.set(profile.useCase, { ...profile, builtIn: true });
+  }
+
+  /**
+   * Initialize built-in profiles. Their constraints only apply to category
+   * pairs whose schemas define the constrained fields.
+   */
+  private initializeBuiltInProfiles(): void {
+    this.registerBuiltInProfile({
+      useCase: '4k120-gaming',
+      name: '4K120 Gaming',
+      description: 'Console or PC gaming at 4K and 120 Hz',
+      fieldWeights: { maxResolution: 1.0, resolution: 1.0, refreshRate: 1.0, inputPorts: 1.0 },
+      constraints: [
+        {
+          id: '4k-output',
+          sourceField: 'maxResolution',
+          targetField: 'resolution',
+          condition: 'resolution(source) >= resolution("4K") and resolution(target) >= resolution("4K")',
+          severity: 'partial',
+          message: '4K120 gaming needs 4K output and a 4K display'
+        },
+        {
+          id: '120hz-refresh',
+          sourceField: 'maxResolution',
+          targetField: 'refreshRate',
+          condition: '120 in target or 144 in target or 165 in target or 240 in target',
+          severity: 'partial',
+          message: '4K120 gaming needs a display refresh rate of at least 120 Hz'
+        }
+      ],
+      fullThreshold: 0.9,
+      partialThreshold: 0.4,
+      sourceCategoryId: null,
+      targetCategoryId: null
+    });
+
+    this.registerBuiltInProfile({
+      useCase: 'hdr-movies',
+      name: 'HDR Movie Playback',
+      description: 'Watching HDR films and series',
+      fieldWeights: { hdrSupport: 1.0, hdrFormats: 1.0, maxResolution: 0.8, resolution: 0.8 },
+      constraints: [
+        {
+          id: 'shared-hdr-format',
+          sourceField: 'hdrSupport',
+          targetField: 'hdrFormats',
+          condition: 'overlaps(source, target)',
+          severity: 'partial',
+          message: 'HDR playback needs an HDR format supported by both devices'
+        }
+      ],
+      fullThreshold: DEFAULT_FULL_THRESHOLD,
+      partialThreshold: DEFAULT_PARTIAL_THRESHOLD,
+      sourceCategoryId: null,
+      targetCategoryId: null
+    });
+
+    this.registerBuiltInProfile({
+      useCase: 'fast-charging',
+      name: 'Fast Charging',
+      description: 'Charging a device at 25 W or more',
+      fieldWeights: { powerDelivery: 1.0, chargingPorts: 1.0, maxDataRate: 0.2 },
+      constraints: [
+        {
+          id: 'power-delivery',
+          sourceField: 'chargingPorts',
+          targetField: 'powerDelivery',
+          condition: 'target >= 25W',
+          severity: 'partial',
+          message: 'Fast charging needs at least 25 W of power delivery'
+        }
+      ],
+      fullThreshold: DEFAULT_FULL_THRESHOLD,
+      partialThreshold: DEFAULT_PARTIAL_THRESHOLD,
+      sourceCategoryId: null,
+      targetCategoryId: null
+    });
+
+    this.registerBuiltInProfile({
+      useCase: 'studio-monitoring',
+      name: 'Studio Monitoring',
+      description: 'Latency-free, uncompressed listening for recording and mixing',
+      fieldWeights: { frequencyResponse: 1.0, impedance: 1.0, connectionType: 1.0, wirelessCodecs: 0, noiseCancellation: 0 },
+      constraints: [
+        {
+          id: 'wired-connection',
+          sourceField: 'connectionType',
+          targetField: 'connectionType',
+          condition: 'not (source in ["Bluetooth", "Wireless"]) and not (target in ["Bluetooth", "Wireless"])',
+          severity: 'partial',
+          message: 'Studio monitoring needs a wired connection'
+        }
+      ],
+      fullThreshold: 0.85,
+      partialThreshold: 0.4,
+      sourceCategoryId: null,
+      targetCategoryId: null
+    });
+  }
+}
+
+// Export singleton instance
+export const useCaseProfiles = new UseCaseProfileRegistry();
@@ -10,6 +10,16 @@ import {
   ValidationRule,
   FieldType 
 } from './types';
+import {
+  compileExpression,
+  compatibilityRuleEnvironment,
+  fieldsToTypeEnvironment,
+  fieldUnits,
+  typeCheckExpression
+} from './expression';
+import { computedFieldPipeline } from './computed-fields';
+import { isFieldRequired, isFieldVisible } from './field-conditions';
+import { childPath } from './field-paths';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -46,6 +56,7 @@ export class SchemaValidator {
       for (const [fieldName, fieldDef] of Object.entries(schema.fields)) {
         const fieldErrors = this.validateFieldDefinition(fieldName, fieldDef);
         errors.push(...fieldErrors);
+        errors.push(...this.validateFieldConditions(fieldName, fieldDef, schema));
       }
     }
 
@@ -98,20 +109,30 @@ export class SchemaValidator {
       warnings.push(`Specification uses schema version ${specification.schemaVersion}, current is ${schema.version}`);
     }
 
-    // Validate required fields
-    for (const requiredField of schema.requiredFields) {
-      if (!(requiredField in specification.specifications)) {
-        fieldErrors.push({
-          field: requiredField,
-          message: `Required field '${requiredField}' is missing`,
-          severity: 'error',
-          code: 'REQUIRED_FIELD_MISSING'
-        });
-      }
+    const values = specification.specifications;
+    const conditionOptions = { units: fieldUnits(schema.fields) };
+
+    // Validate required fields, including those required by a condition.
+    // Fields that are present but empty are checked per field below.
+    for (const fieldName of new Set([...schema.requiredFields, ...Object.keys(schema.fields)])) {
+      if (fieldName in values) continue;
+
+      const fieldDef = schema.fields[fieldName] || {};
+      const listed = schema.requiredFields.includes(fieldName);
+      if (!isFieldRequired(fieldDef, values, listed, conditionOptions)) continue;
+
+      fieldErrors.push({
+        field: fieldName,
+        message: listed
+          ? `Required field '${fieldName}' is missing`
+          : `Field '${fieldName}' is required when ${fieldDef.requiredWhen}`,
+        severity: 'error',
+        code: 'REQUIRED_FIELD_MISSING'
+      });
     }
 
     // Validate each specification field
-    for (const [fieldName, value] of Object.entries(specification.specifications)) {
+    for (const [fieldName, value] of Object.entries(values)) {
       const fieldDef = schema.fields[fieldName];
       
       if (!fieldDef) {
@@ -125,14 +146,28 @@ export class SchemaValidator {
         continue;
       }
 
-      const fieldValidation = this.validateFieldValue(fieldName, value, fieldDef);
+      if (!isFieldVisible(fieldDef, values, conditionOptions)) {
+        if (!this.isEmpty(value)) {
+          fieldErrors.push({
+            field: fieldName,
+            message: `Field '${fieldName}' only applies when ${fieldDef.visibleWhen}`,
+            severity: 'warning',
+            code: 'FIELD_NOT_APPLICABLE',
+            value
+          });
+        }
+        continue;
+      }
+
+      const required = isFieldRequired(fieldDef, values, !!fieldDef.constraints?.required, conditionOptions);
+      const fieldValidation = this.validateFieldValue(fieldName, value, fieldDef, required);
       fieldErrors.push(...fieldValidation);
     }
 
     // Apply custom validation rules
     if (schema.validationRules) {
       for (const rule of schema.validationRules) {
-        const ruleValidation = this.applyValidationRule(rule, specification.specifications);
+        const ruleValidation = this.applyValidationRule(rule, specification.specifications, schema);
         if (!ruleValidation.isValid) {
           fieldErrors.push({
             field: rule.name,
@@ -153,9 +188,10 @@ export class SchemaValidator {
   }
 
   /**
-   * Validate field definition
+   * Validate field definition. Nested definitions are named by their path
+   * without array indexes, and array items take their label from the array.
    */
-  private validateFieldDefinition(fieldName: string, fieldDef: FieldDefinition): string[] {
+  private validateFieldDefinition(fieldName: string, fieldDef: FieldDefinition, isItem = false): string[] {
     const errors: string[] = [];
 
     // Validate field type
@@ -204,7 +240,7 @@ export class SchemaValidator {
     }
 
     // Validate metadata
-    if (!fieldDef.metadata || !fieldDef.metadata.label) {
+    if (!isItem && (!fieldDef.metadata || !fieldDef.metadata.label)) {
       errors.push(`Field '${fieldName}' must have metadata with label`);
     }
 
@@ -212,17 +248,43 @@ export class SchemaValidator {
       errors.push(`Field '${fieldName}' has invalid importance level`);
     }
 
+    // Validate nested definitions
+    if (fieldDef.items !== undefined) {
+      if (fieldDef.type !== 'array') {
+        errors.push(`Field '${fieldName}' defines items but is not an array`);
+      } else {
+        errors.push(...this.validateFieldDefinition(fieldName, fieldDef.items, true));
+      }
+    }
+
+    if (fieldDef.properties !== undefined) {
+      if (fieldDef.type !== 'object') {
+        errors.push(`Field '${fieldName}' defines properties but is not an object`);
+      } else if (typeof fieldDef.properties !== 'object' || fieldDef.properties === null) {
+        errors.push(`Field '${fieldName}' properties must be an object`);
+      } else {
+        for (const [propertyName, propertyDef] of Object.entries(fieldDef.properties)) {
+          errors.push(...this.validateFieldDefinition(childPath(fieldName, propertyName), propertyDef));
+        }
+      }
+    }
+
     return errors;
   }
 
   /**
    * Validate field value against field definition
    */
-  private validateFieldValue(fieldName: string, value: any, fieldDef: FieldDefinition): ValidationError[] {
+  private validateFieldValue(
+    fieldName: string,
+    value: any,
+    fieldDef: FieldDefinition,
+    required = !!fieldDef.constraints?.required
+  ): ValidationError[] {
     const errors: ValidationError[] = [];
 
     // Check if required field is present
-    if (fieldDef.constraints?.required && (value === null || value === undefined || value === '')) {
+    if (required && this.isEmpty(value)) {
       errors.push({
         field: fieldName,
         message: `Field '${fieldName}' is required`,
@@ -248,6 +310,43 @@ export class SchemaValidator {
       errors.push(...constraintValidation);
     }
 
+    // Nested value validation
+    errors.push(...this.validateNestedValues(fieldName, value, fieldDef));
+
+    return errors;
+  }
+
+  /**
+   * Validate the items of an array field and the properties of an object
+   * field. Nested errors are reported by JSON pointer, e.g. `/ports/0/count`.
+   */
+  private validateNestedValues(path: string, value: unknown, fieldDef: FieldDefinition): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (fieldDef.type === 'array' && fieldDef.items && Array.isArray(value)) {
+      value.forEach((item, index) => {
+        errors.push(...this.validateFieldValue(childPath(path, index), item, fieldDef.items!, true));
+      });
+    }
+
+    if (fieldDef.type === 'object' && fieldDef.properties && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      for (const [propertyName, propertyDef] of Object.entries(fieldDef.properties)) {
+        errors.push(...this.validateFieldValue(childPath(path, propertyName), (value as Record<string, unknown>)[propertyName], propertyDef));
+      }
+
+      for (const [propertyName, propertyValue] of Object.entries(value)) {
+        if (fieldDef.properties[propertyName]) continue;
+        const propertyPath = childPath(path, propertyName);
+        errors.push({
+          field: propertyPath,
+          message: `Field '${propertyPath}' is not defined in schema`,
+          severity: 'warning',
+          code: 'UNDEFINED_FIELD',
+          value: propertyValue
+        });
+      }
+    }
+
     return errors;
   }
 
@@ -428,6 +527,29 @@ export class SchemaValidator {
       }
     }
 
+    // Array constraints
+    if (fieldType === 'array' && Array.isArray(value)) {
+      if (constraints.minLength !== undefined && value.length < constraints.minLength) {
+        errors.push({
+          field: fieldName,
+          message: `Field '${fieldName}' must have at least ${constraints.minLength} items`,
+          severity: 'error',
+          code: 'MIN_LENGTH_VIOLATION',
+          value
+        });
+      }
+
+      if (constraints.maxLength !== undefined && value.length > constraints.maxLength) {
+        errors.push({
+          field: fieldName,
+          message: `Field '${fieldName}' must have at most ${constraints.maxLength} items`,
+          severity: 'error',
+          code: 'MAX_LENGTH_VIOLATION',
+          value
+        });
+      }
+    }
+
     // Enum constraints
     if (fieldType === 'enum' && constraints.enum) {
       if (!constraints.enum.includes(value)) {
@@ -444,6 +566,35 @@ export class SchemaValidator {
     return errors;
   }
 
+  /**
+   * Parse and type-check the visibility and required conditions of a field
+   */
+  private validateFieldConditions(fieldName: string, fieldDef: FieldDefinition, schema: CategorySchema): string[] {
+    const errors: string[] = [];
+    const environment = fieldsToTypeEnvironment(schema.fields);
+
+    for (const key of ['visibleWhen', 'requiredWhen'] as const) {
+      const condition = fieldDef[key];
+      if (condition === undefined) continue;
+
+      if (typeof condition !== 'string' || condition.trim() === '') {
+        errors.push(`Field '${fieldName}' ${key} condition must be a non-empty expression`);
+        continue;
+      }
+
+      const { errors: conditionErrors } = typeCheckExpression(condition, environment);
+      for (const conditionError of conditionErrors) {
+        errors.push(`Field '${fieldName}' has an invalid ${key} condition: ${conditionError}`);
+      }
+
+      if (conditionErrors.length === 0 && compileExpression(condition).identifiers.includes(fieldName)) {
+        errors.push(`Field '${fieldName}' ${key} condition cannot refer to the field itself`);
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * Validate validation rule
    */
@@ -458,11 +609,11 @@ export class SchemaValidator {
       errors.push(`Validation rule '${rule.name}' has invalid severity`);
     }
 
-    // Validate that condition references valid fields
-    const fieldReferences = this.extractFieldReferences(rule.condition);
-    for (const fieldRef of fieldReferences) {
-      if (!schema.fields[fieldRef]) {
-        errors.push(`Validation rule '${rule.name}' references undefined field: ${fieldRef}`);
+    // Parse and type-check the condition against the schema's fields
+    if (rule.condition) {
+      const { errors: conditionErrors } = typeCheckExpression(rule.condition, fieldsToTypeEnvironment(schema.fields));
+      for (const conditionError of conditionErrors) {
+        errors.push(`Validation rule '${rule.name}' has an invalid condition: ${conditionError}`);
       }
     }
 
@@ -483,28 +634,60 @@ export class SchemaValidator {
       errors.push(`Compatibility rule '${rule.name}' has invalid compatibility type`);
     }
 
-    // Validate field references
-    if (!schema.fields[rule.sourceField]) {
+    // Validate field references; computed fields are readable like stored ones
+    const computedFields = computedFieldPipeline.getDefinitions(schema);
+    if (!schema.fields[rule.sourceField] && !(rule.sourceField in computedFields)) {
       errors.push(`Compatibility rule '${rule.name}' references undefined source field: ${rule.sourceField}`);
     }
 
-    if (!schema.fields[rule.targetField]) {
+    if (!schema.fields[rule.targetField] && !(rule.targetField in computedFields)) {
       errors.push(`Compatibility rule '${rule.name}' references undefined target field: ${rule.targetField}`);
     }
 
+    if (rule.condition) {
+      errors.push(...this.validateCompatibilityRuleCondition(rule, schema));
+    }
+
     return errors;
   }
 
+  /**
+   * Parse and type-check a compatibility rule condition. The target schema is
+   * optional because schema-level rules may apply to devices of any category.
+   */
+  validateCompatibilityRuleCondition(
+    rule: { name?: string; condition: string; sourceField: string; targetField: string },
+    sourceSchema: CategorySchema,
+    targetSchema?: CategorySchema
+  ): string[] {
+    const environment = compatibilityRuleEnvironment(
+      sourceSchema.fields,
+      targetSchema?.fields,
+      rule.sourceField,
+      rule.targetField,
+      {
+        source: Object.keys(computedFieldPipeline.getDefinitions(sourceSchema)),
+        target: targetSchema ? Object.keys(computedFieldPipeline.getDefinitions(targetSchema)) : undefined
+      }
+    );
+
+    const { errors } = typeCheckExpression(rule.condition, environment);
+    return errors.map(error => `Compatibility rule '${rule.name}' has an invalid condition: ${error}`);
+  }
+
   /**
    * Apply validation rule to specifications
    */
-  private applyValidationRule(rule: ValidationRule, specifications: Record<string, any>): { isValid: boolean } {
+  private applyValidationRule(
+    rule: ValidationRule,
+    specifications: Record<string, any>,
+    schema: CategorySchema
+  ): { isValid: boolean } {
     try {
-      // Create a safe evaluation context
-      const context = { ...specifications };
-      
-      // Simple expression evaluation (in production, use a proper expression evaluator)
-      const result = this.evaluateExpression(rule.condition, context);
+      const result = compileExpression(rule.condition).evaluate(
+        { ...specifications },
+        { units: fieldUnits(schema.fields) }
+      );
       
       return { isValid: !!result };
     } catch (error) {
@@ -517,6 +700,10 @@ export class SchemaValidator {
    * Helper methods
    */
 
+  private isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+  }
+
   private isValidVersion(version: string): boolean {
     const semverRegex = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
     return semverRegex.test(version);
@@ -541,30 +728,4 @@ export class SchemaValidator {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(value);
   }
-
-  private extractFieldReferences(expression: string): string[] {
-    // Simple field reference extraction (in production, use proper AST parsing)
-    const fieldRegex = /\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g;
-    const matches = expression.match(fieldRegex) || [];
-    return [...new Set(matches)]; // Remove duplicates
-  }
-
-  private evaluateExpression(expression: string, context: Record<string, any>): any {
-    // WARNING: This is a simplified implementation
-    // In production, use a proper expression evaluator like JSONata or a sandboxed JS evaluator
-    
-    // Replace field references with context values
-    let evaluableExpression = expression;
-    for (const [key, value] of Object.entries(context)) {
-      const regex = new RegExp(`\\b${key}\\b`, 'g');
-      evaluableExpression = evaluableExpression.replace(regex, JSON.stringify(value));
-    }
-
-    try {
-      // Use Function constructor for safer evaluation than eval
-      return new Function(`return ${evaluableExpression}`)();
-    } catch (error) {
-      throw new Error(`Failed to evaluate expression: ${expression}`);
-    }
-  }
-}
\ No newline at end of file
+}
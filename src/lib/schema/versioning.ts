@@ -4,17 +4,31 @@
 
 import { 
   CategorySchema, 
+  FieldDefinition,
   SchemaMigration, 
-  MigrationOperation, 
-  DeviceSpecification 
+  MigrationOperation,
+  DeviceSpecification,
+  SchemaMergeConflict,
+  SchemaMergeResult
 } from './types';
+import { convertUnit, resolveUnit } from './units';
+
+// Schema properties that are merged as a whole rather than through operations
+const MERGED_SCHEMA_PROPERTIES = [
+  'name',
+  'description',
+  'parentId',
+  'computedFields',
+  'deprecated',
+  'deprecationMessage'
+] as const;
 
 export class SchemaVersionManager {
   /**
    * Increment version number using semantic versioning
    */
   incrementVersion(currentVersion: string, type: 'major' | 'minor' | 'patch' = 'minor'): string {
-    const [major, minor, patch] = currentVersion.split('.').map(Number);
+    const [major = 0, minor = 0, patch = 0] = currentVersion.split('.').map(Number);
     
     switch (type) {
       case 'major':
@@ -79,11 +93,7 @@ export class SchemaVersionManager {
         });
       } else if (JSON.stringify(fromFields[fieldName]) !== JSON.stringify(fieldDef)) {
         // Field modified
-        operations.push({
-          type: 'modify_field',
-          field: fieldName,
-          changes: this.calculateFieldChanges(fromFields[fieldName], fieldDef)
-        });
+        operations.push(this.modifyFieldOperation(fieldName, fromFields[fieldName], fieldDef));
       }
     }
 
@@ -241,8 +251,8 @@ export class SchemaVersionManager {
     for (const operation of migration.operations) {
       switch (operation.type) {
         case 'add_field':
-          // Add default value if specified
-          if (operation.definition.defaultValue !== undefined) {
+          // Add default value if specified, keeping values the device already has
+          if (operation.definition.defaultValue !== undefined && !(operation.field in migratedSpec.specifications)) {
             migratedSpec.specifications[operation.field] = operation.definition.defaultValue;
           }
           break;
@@ -293,9 +303,14 @@ export class SchemaVersionManager {
 
         case 'modify_field':
           // Handle field modifications that might require data transformation
-          if (operation.field in migratedSpec.specifications) {
+          if (this.isEmptyValue(migratedSpec.specifications[operation.field])) {
+            // A new default fills missing and empty values
+            if (operation.changes.defaultValue !== undefined) {
+              migratedSpec.specifications[operation.field] = operation.changes.defaultValue;
+            }
+          } else {
             const currentValue = migratedSpec.specifications[operation.field];
-            const transformedValue = this.transformFieldValue(currentValue, operation.changes);
+            const transformedValue = this.transformFieldValue(currentValue, operation.changes, operation.fromUnit);
             if (transformedValue !== currentValue) {
               migratedSpec.specifications[operation.field] = transformedValue;
             }
@@ -375,10 +390,211 @@ export class SchemaVersionManager {
     return true;
   }
 
+  /**
+   * Choose how far to bump the version for a schema change: major for
+   * breaking changes, minor for other field or rule changes and patch when
+   * only descriptive properties changed
+   */
+  getVersionBump(
+    fromSchema: CategorySchema,
+    toSchema: CategorySchema,
+    operations: MigrationOperation[] = this.generateMigrationOperations(fromSchema, toSchema)
+  ): 'major' | 'minor' | 'patch' {
+    // Newly required fields reject specifications that were valid before
+    const newlyRequired = toSchema.requiredFields.some(field => !fromSchema.requiredFields.includes(field));
+
+    if (newlyRequired || !this.isSafeMigration(operations)) {
+      return 'major';
+    }
+
+    return operations.length > 0 ? 'minor' : 'patch';
+  }
+
+  /**
+   * Three-way merge of an edit made against the base version onto the
+   * current version. Operations from base to proposed that do not touch
+   * anything changed from base to current are applied as they are; fields
+   * changed on both sides are merged property by property, and properties
+   * changed differently on both sides are reported as conflicts.
+   */
+  mergeSchemas(
+    baseSchema: CategorySchema,
+    currentSchema: CategorySchema,
+    proposedSchema: CategorySchema
+  ): SchemaMergeResult {
+    const theirOperations = this.generateMigrationOperations(baseSchema, currentSchema);
+    const ourOperations = this.generateMigrationOperations(baseSchema, proposedSchema);
+    const theirTargets = new Set(theirOperations.map(operation => this.getOperationTarget(operation)));
+
+    const conflicts: SchemaMergeConflict[] = [];
+    const applied: MigrationOperation[] = [];
+    const mergedFields: Record<string, unknown> = {};
+
+    for (const operation of ourOperations) {
+      const target = this.getOperationTarget(operation);
+
+      if (!theirTargets.has(target)) {
+        applied.push(operation);
+        continue;
+      }
+
+      if (operation.type === 'add_field' || operation.type === 'modify_field' || operation.type === 'remove_field') {
+        const currentField = currentSchema.fields[operation.field];
+        const merge = this.mergeValues(
+          baseSchema.fields[operation.field],
+          currentField,
+          proposedSchema.fields[operation.field],
+          target
+        );
+        conflicts.push(...merge.conflicts);
+
+        if (!this.isEqual(merge.value, currentField)) {
+          mergedFields[operation.field] = merge.value;
+          applied.push(
+            merge.value === undefined
+              ? { type: 'remove_field', field: operation.field }
+              : currentField
+                ? this.modifyFieldOperation(operation.field, currentField, merge.value as FieldDefinition)
+                : { type: 'add_field', field: operation.field, definition: merge.value as CategorySchema['fields'][string] }
+          );
+        }
+        continue;
+      }
+
+      // Rules are added and removed whole, so only identical operations merge
+      if (!theirOperations.some(theirs => this.isEqual(theirs, operation))) {
+        conflicts.push({
+          path: target,
+          message: `${target} was changed by both edits`
+        });
+      }
+    }
+
+    const merged: CategorySchema = {
+      ...this.applyMigrationOperations(currentSchema, applied.filter(operation => !('field' in operation) || !(operation.field in mergedFields))),
+      createdAt: currentSchema.createdAt,
+      updatedAt: currentSchema.updatedAt
+    };
+
+    for (const [fieldName, definition] of Object.entries(mergedFields)) {
+      if (definition === undefined) {
+        delete merged.fields[fieldName];
+      } else {
+        merged.fields[fieldName] = definition as CategorySchema['fields'][string];
+      }
+    }
+
+    for (const property of MERGED_SCHEMA_PROPERTIES) {
+      const merge = this.mergeValues(baseSchema[property], currentSchema[property], proposedSchema[property], property);
+      conflicts.push(...merge.conflicts);
+      (merged as unknown as Record<string, unknown>)[property] = merge.value;
+    }
+
+    // Required fields merge as a set; a field removed on either side stays removed
+    const added = proposedSchema.requiredFields.filter(field => !baseSchema.requiredFields.includes(field));
+    const dropped = baseSchema.requiredFields.filter(field => !proposedSchema.requiredFields.includes(field));
+    merged.requiredFields = [
+      ...currentSchema.requiredFields.filter(field => !dropped.includes(field)),
+      ...added.filter(field => !currentSchema.requiredFields.includes(field))
+    ].filter(field => field in merged.fields);
+
+    return { merged, applied, conflicts };
+  }
+
   /**
    * Private helper methods
    */
 
+  private getOperationTarget(operation: MigrationOperation): string {
+    switch (operation.type) {
+      case 'add_field':
+      case 'remove_field':
+      case 'modify_field':
+        return `fields.${operation.field}`;
+      case 'rename_field':
+        return `fields.${operation.oldName}`;
+      case 'add_validation_rule':
+        return `validationRules.${operation.rule.id}`;
+      case 'remove_validation_rule':
+        return `validationRules.${operation.ruleId}`;
+      case 'add_compatibility_rule':
+        return `compatibilityRules.${operation.rule.id}`;
+      case 'remove_compatibility_rule':
+        return `compatibilityRules.${operation.ruleId}`;
+    }
+  }
+
+  /**
+   * Three-way merge of a single value. Objects changed on both sides are
+   * merged key by key; anything else changed differently on both sides is a
+   * conflict and keeps the current value.
+   */
+  private mergeValues(
+    base: unknown,
+    current: unknown,
+    proposed: unknown,
+    path: string
+  ): { value: unknown; conflicts: SchemaMergeConflict[] } {
+    if (this.isEqual(proposed, base)) {
+      return { value: current, conflicts: [] };
+    }
+
+    if (this.isEqual(current, base) || this.isEqual(current, proposed)) {
+      return { value: proposed, conflicts: [] };
+    }
+
+    if (this.isPlainObject(current) && this.isPlainObject(proposed) && (base === undefined || this.isPlainObject(base))) {
+      const baseObject = (base ?? {}) as Record<string, unknown>;
+      const value: Record<string, unknown> = {};
+      const conflicts: SchemaMergeConflict[] = [];
+
+      for (const key of new Set([...Object.keys(current), ...Object.keys(proposed)])) {
+        const merge = this.mergeValues(baseObject[key], current[key], proposed[key], `${path}.${key}`);
+        conflicts.push(...merge.conflicts);
+        if (merge.value !== undefined) {
+          value[key] = merge.value;
+        }
+      }
+
+      return { value, conflicts };
+    }
+
+    let message = `${path} was changed by both edits`;
+    if (base === undefined) {
+      message = `${path} was added with different values by both edits`;
+    } else if (current === undefined) {
+      message = `${path} was removed by another edit but changed in this one`;
+    } else if (proposed === undefined) {
+      message = `${path} was changed by another edit but removed in this one`;
+    }
+
+    return { value: current, conflicts: [{ path, base, current, proposed, message }] };
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private modifyFieldOperation(field: string, oldField: FieldDefinition, newField: FieldDefinition): MigrationOperation {
+    const operation: MigrationOperation = {
+      type: 'modify_field',
+      field,
+      changes: this.calculateFieldChanges(oldField, newField)
+    };
+
+    // Stored values are converted when the unit changes
+    const fromUnit = oldField.constraints?.unit;
+    if (fromUnit && fromUnit !== newField.constraints?.unit) {
+      operation.fromUnit = fromUnit;
+    }
+
+    return operation;
+  }
+
   private calculateFieldChanges(oldField: any, newField: any): Partial<any> {
     const changes: any = {};
 
@@ -392,22 +608,34 @@ export class SchemaVersionManager {
     return changes;
   }
 
-  private transformFieldValue(value: any, changes: Partial<any>): any {
+  private isEmptyValue(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+  }
+
+  private transformFieldValue(value: any, changes: Partial<any>, fromUnit?: string): any {
     // Handle common field transformations
     if (changes.type) {
       // Type conversion
       switch (changes.type) {
         case 'string':
-          return String(value);
+          value = String(value);
+          break;
         case 'number':
-          return Number(value);
+          value = Number(value);
+          break;
         case 'boolean':
-          return Boolean(value);
-        default:
-          return value;
+          value = Boolean(value);
+          break;
       }
     }
 
+    // Unit conversion; rounding drops floating point noise such as 139.70000000000002
+    const from = resolveUnit(fromUnit);
+    const to = resolveUnit(changes.constraints?.unit);
+    if (typeof value === 'number' && Number.isFinite(value) && from && to && from.dimension === to.dimension) {
+      return Number(convertUnit(value, from.symbol, to.symbol).toPrecision(12));
+    }
+
     return value;
   }
 
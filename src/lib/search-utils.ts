@@ -230,3 +230,19 @@ export function formatFilterSummary(filters: SearchFilters): string[] {
   
   return summary;
 }
+
+/**
+ * Split text into the parts matching the words of a typed query and the
+ * rest, for highlighting suggestions
+ */
+export function highlightMatches(text: string, query: string): Array<{ text: string; match: boolean }> {
+  const words = query.trim().split(/\s+/).filter(Boolean)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`(${words.join('|')})`, 'i');
+  // Splitting on a capturing pattern puts the matches at odd indexes
+  return text.split(pattern)
+    .map((part, i) => ({ text: part, match: i % 2 === 1 }))
+    .filter(part => part.text !== '');
+}
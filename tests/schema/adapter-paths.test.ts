@@ -0,0 +1,134 @@
+/**
+ * Tests for the Adapter Path Finder
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AdapterPathFinder } from '@/lib/schema/adapter-paths';
+import { prisma } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    getAllSchemas: vi.fn().mockReturnValue([])
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    deviceStandard: { findMany: vi.fn() },
+    device: { findMany: vi.fn() },
+    compatibilityRule: { findMany: vi.fn() }
+  }
+}));
+
+const standards: Record<string, { name: string; category: string; version: string | null }> = {
+  'usbc-dp': { name: 'USB-C DP Alt Mode', category: 'video', version: null },
+  'hdmi-2.0': { name: 'HDMI 2.0', category: 'video', version: '2.0' },
+  'hdmi-2.1': { name: 'HDMI 2.1', category: 'video', version: '2.1' },
+  'vga': { name: 'VGA', category: 'video', version: null }
+};
+
+const deviceStandard = (deviceId: string, standardId: string, verified = true) => ({
+  deviceId,
+  standardId,
+  portCount: 1,
+  verified,
+  standard: standards[standardId]
+});
+
+const bridge = (id: string, name: string, standardIds: string[], verified = true) => ({
+  id,
+  name,
+  brand: 'Acme',
+  verified,
+  categoryId: 'cables',
+  deviceStandards: standardIds.map(standardId => deviceStandard(id, standardId))
+});
+
+describe('AdapterPathFinder', () => {
+  let finder: AdapterPathFinder;
+
+  beforeEach(() => {
+    finder = new AdapterPathFinder();
+    vi.clearAllMocks();
+
+    // Laptop with USB-C DP Alt Mode, TV with HDMI 2.1
+    vi.mocked(prisma.deviceStandard.findMany).mockResolvedValue([
+      deviceStandard('laptop', 'usbc-dp'),
+      deviceStandard('tv', 'hdmi-2.1')
+    ] as never);
+    vi.mocked(prisma.compatibilityRule.findMany).mockResolvedValue([
+      {
+        id: 'hdmi-compat',
+        standardAId: 'hdmi-2.1',
+        standardBId: 'hdmi-2.0',
+        compatibilityType: 'partial',
+        description: 'HDMI 2.0 signal on an HDMI 2.1 port',
+        limitations: ['Limited to 4K60']
+      }
+    ] as never);
+  });
+
+  it('should find a chain through an adapter and a cable', async () => {
+    vi.mocked(prisma.device.findMany).mockResolvedValue([
+      bridge('adapter', 'USB-C-to-HDMI adapter', ['usbc-dp', 'hdmi-2.0']),
+      bridge('cable', 'HDMI 2.0 cable', ['hdmi-2.0'])
+    ] as never);
+
+    const chains = await finder.findChains('laptop', 'tv');
+
+    expect(chains.length).toBeGreaterThan(0);
+    expect(chains[0].description).toBe('USB-C DP Alt Mode → USB-C-to-HDMI adapter');
+    expect(chains[0].compatible).toBe('partial');
+    expect(chains[0].limitations).toEqual(['Limited to 4K60']);
+    expect(chains[0].devices[0].outputStandard).toBe('HDMI 2.0');
+  });
+
+  it('should rank full chains ahead of shorter partial ones', async () => {
+    vi.mocked(prisma.device.findMany).mockResolvedValue([
+      bridge('adapter', 'USB-C-to-HDMI adapter', ['usbc-dp', 'hdmi-2.0']),
+      bridge('vga-dongle', 'USB-C-to-VGA dongle', ['usbc-dp', 'vga']),
+      bridge('converter', 'VGA-to-HDMI 2.1 converter', ['vga', 'hdmi-2.1'])
+    ] as never);
+
+    const chains = await finder.findChains('laptop', 'tv');
+
+    expect(chains[0].compatible).toBe('full');
+    expect(chains[0].hops).toBe(2);
+    expect(chains[0].description).toBe('USB-C DP Alt Mode → USB-C-to-VGA dongle → VGA-to-HDMI 2.1 converter');
+    expect(chains[1].compatible).toBe('partial');
+    expect(chains[1].hops).toBe(1);
+  });
+
+  it('should prefer verified chains of the same length', async () => {
+    vi.mocked(prisma.device.findMany).mockResolvedValue([
+      bridge('unverified', 'Generic adapter', ['usbc-dp', 'hdmi-2.1'], false),
+      bridge('verified', 'Certified adapter', ['usbc-dp', 'hdmi-2.1'])
+    ] as never);
+
+    const chains = await finder.findChains('laptop', 'tv');
+
+    expect(chains).toHaveLength(2);
+    expect(chains[0].devices[0].deviceId).toBe('verified');
+    expect(chains[0].verified).toBe(true);
+    expect(chains[1].verified).toBe(false);
+  });
+
+  it('should respect the hop limit', async () => {
+    vi.mocked(prisma.device.findMany).mockResolvedValue([
+      bridge('vga-dongle', 'USB-C-to-VGA dongle', ['usbc-dp', 'vga']),
+      bridge('converter', 'VGA-to-HDMI 2.1 converter', ['vga', 'hdmi-2.1'])
+    ] as never);
+
+    expect(await finder.findChains('laptop', 'tv', { maxHops: 1 })).toEqual([]);
+    expect(await finder.findChains('laptop', 'tv', { maxHops: 2 })).toHaveLength(1);
+  });
+
+  it('should return nothing when a device has no standards', async () => {
+    vi.mocked(prisma.deviceStandard.findMany).mockResolvedValue([deviceStandard('laptop', 'usbc-dp')] as never);
+
+    expect(await finder.findChains('laptop', 'tv')).toEqual([]);
+    expect(prisma.device.findMany).not.toHaveBeenCalled();
+  });
+});
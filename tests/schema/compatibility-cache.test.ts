@@ -0,0 +1,198 @@
+/**
+ * Tests for the Compatibility Result Cache
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CompatibilityResultCache } from '@/lib/schema/compatibility-cache';
+import { CategorySchema, DeviceSpecification } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    categoryCompatibilityRule: {
+      aggregate: vi.fn().mockResolvedValue({ _count: { _all: 2 }, _max: { updatedAt: new Date('2025-01-01') } })
+    },
+    deviceStandard: {
+      findMany: vi.fn().mockResolvedValue([])
+    },
+    compatibilityRule: {
+      aggregate: vi.fn().mockResolvedValue({ _count: { _all: 5 }, _max: { createdAt: new Date('2025-01-01') } })
+    },
+    compatibilityResult: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn().mockResolvedValue({}),
+      delete: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 3 })
+    }
+  }
+}));
+
+const createSpec = (deviceId: string, updatedAt: Date): DeviceSpecification => ({
+  deviceId,
+  categoryId: 'category1',
+  schemaVersion: '1.0.0',
+  specifications: {},
+  createdAt: new Date('2025-01-01'),
+  updatedAt
+});
+
+const schema = {
+  id: 'category1',
+  version: '1.0.0',
+  fields: { power: { type: 'number', metadata: { label: 'Power' } } }
+} as unknown as CategorySchema;
+
+const result = {
+  compatible: 'partial' as const,
+  confidence: 0.756,
+  details: 'Partial compatibility',
+  limitations: ['Limited power'],
+  recommendations: [],
+  matchedRules: ['power-rule'],
+  fieldCompatibility: {}
+};
+
+describe('CompatibilityResultCache', () => {
+  let cache: CompatibilityResultCache;
+
+  beforeEach(() => {
+    cache = new CompatibilityResultCache();
+    vi.clearAllMocks();
+  });
+
+  describe('Fingerprints', () => {
+    it('should produce stable fingerprints for unchanged inputs', async () => {
+      const source = createSpec('device1', new Date('2025-02-01'));
+      const target = createSpec('device2', new Date('2025-02-01'));
+
+      const first = await cache.computeFingerprint(source, target, schema, schema);
+      const second = await cache.computeFingerprint(source, target, schema, schema);
+
+      expect(first).toBe(second);
+    });
+
+    it('should change the fingerprint when a specification changes', async () => {
+      const target = createSpec('device2', new Date('2025-02-01'));
+
+      const before = await cache.computeFingerprint(createSpec('device1', new Date('2025-02-01')), target, schema, schema);
+      const after = await cache.computeFingerprint(createSpec('device1', new Date('2025-03-01')), target, schema, schema);
+
+      expect(before).not.toBe(after);
+    });
+
+    it('should change the fingerprint when category rules change', async () => {
+      const source = createSpec('device1', new Date('2025-02-01'));
+      const target = createSpec('device2', new Date('2025-02-01'));
+
+      const before = await cache.computeFingerprint(source, target, schema, schema);
+      vi.mocked(prisma.categoryCompatibilityRule.aggregate).mockResolvedValueOnce(
+        { _count: { _all: 1 }, _max: { updatedAt: new Date('2025-01-01') } } as never
+      );
+      const after = await cache.computeFingerprint(source, target, schema, schema);
+
+      expect(before).not.toBe(after);
+    });
+
+    it('should change the fingerprint when device standards change', async () => {
+      const source = createSpec('device1', new Date('2025-02-01'));
+      const target = createSpec('device2', new Date('2025-02-01'));
+
+      const before = await cache.computeFingerprint(source, target, schema, schema);
+      vi.mocked(prisma.deviceStandard.findMany).mockResolvedValueOnce(
+        [{ deviceId: 'device1', standardId: 'usb-c', portCount: 2, verified: true }] as never
+      );
+      const after = await cache.computeFingerprint(source, target, schema, schema);
+
+      expect(before).not.toBe(after);
+    });
+  });
+
+  describe('Reading and Writing', () => {
+    const storedRecord = (overrides: Record<string, unknown> = {}) => ({
+      id: 'result1',
+      sourceDeviceId: 'device1',
+      targetDeviceId: 'device2',
+      compatibilityType: 'partial',
+      confidence: { valueOf: () => 0.76, toString: () => '0.76' },
+      details: 'Partial compatibility',
+      limitations: ['Limited power'],
+      recommendations: [],
+      matchedRules: ['power-rule'],
+      fieldCompatibility: {},
+      context: { fingerprint: 'abc' },
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+      ...overrides
+    });
+
+    it('should return a cached result with a matching fingerprint', async () => {
+      vi.mocked(prisma.compatibilityResult.findUnique).mockResolvedValueOnce(storedRecord() as never);
+
+      const cached = await cache.get('device1', 'device2', 'abc');
+
+      expect(cached).not.toBeNull();
+      expect(cached!.compatible).toBe('partial');
+      expect(cached!.confidence).toBe(0.76);
+      expect(cached!.matchedRules).toEqual(['power-rule']);
+    });
+
+    it('should drop results whose fingerprint is stale', async () => {
+      vi.mocked(prisma.compatibilityResult.findUnique).mockResolvedValueOnce(storedRecord() as never);
+
+      const cached = await cache.get('device1', 'device2', 'def');
+
+      expect(cached).toBeNull();
+      expect(prisma.compatibilityResult.delete).toHaveBeenCalledWith({ where: { id: 'result1' } });
+    });
+
+    it('should drop expired results', async () => {
+      vi.mocked(prisma.compatibilityResult.findUnique).mockResolvedValueOnce(
+        storedRecord({ expiresAt: new Date(Date.now() - 1000) }) as never
+      );
+
+      const cached = await cache.get('device1', 'device2', 'abc');
+
+      expect(cached).toBeNull();
+      expect(prisma.compatibilityResult.delete).toHaveBeenCalled();
+    });
+
+    it('should keep results of the same pair for different use cases apart', async () => {
+      await cache.set('device1', 'device2', result, 'abc', { useCase: 'gaming' });
+      await cache.set('device1', 'device2', result, 'abc', { useCase: 'movies', connectionType: 'hdmi' });
+      await cache.get('device1', 'device2', 'abc', { useCase: 'movies', connectionType: 'hdmi' });
+
+      const keys = vi.mocked(prisma.compatibilityResult.upsert).mock.calls.map(
+        (call: Array<{ where: { sourceDeviceId_targetDeviceId_contextKey: { contextKey: string } } }>) =>
+          call[0].where.sourceDeviceId_targetDeviceId_contextKey.contextKey
+      );
+      expect(keys).toEqual(['gaming|', 'movies|hdmi']);
+      expect(vi.mocked(prisma.compatibilityResult.upsert).mock.calls[0][0].create.context).toEqual({ useCase: 'gaming', fingerprint: 'abc' });
+      expect(prisma.compatibilityResult.findUnique).toHaveBeenCalledWith({
+        where: { sourceDeviceId_targetDeviceId_contextKey: { sourceDeviceId: 'device1', targetDeviceId: 'device2', contextKey: 'movies|hdmi' } }
+      });
+    });
+
+    it('should upsert results with a TTL', async () => {
+      await cache.set('device1', 'device2', result, 'abc', {}, 60000);
+
+      const call = vi.mocked(prisma.compatibilityResult.upsert).mock.calls[0][0];
+      expect(call.where).toEqual({
+        sourceDeviceId_targetDeviceId_contextKey: { sourceDeviceId: 'device1', targetDeviceId: 'device2', contextKey: '' }
+      });
+      expect(call.create.contextKey).toBe('');
+      expect(call.create.confidence).toBe(0.76);
+      expect(call.create.context).toEqual({ fingerprint: 'abc' });
+      expect((call.create.expiresAt as Date).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should invalidate results involving a device', async () => {
+      const count = await cache.invalidateDevice('device1');
+
+      expect(count).toBe(3);
+      expect(prisma.compatibilityResult.deleteMany).toHaveBeenCalledWith({
+        where: { OR: [{ sourceDeviceId: 'device1' }, { targetDeviceId: 'device1' }] }
+      });
+    });
+  });
+});
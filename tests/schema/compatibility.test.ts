@@ -4,7 +4,10 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { CompatibilityEngine } from '@/lib/schema/compatibility';
+import { UseCaseProfileRegistry } from '@/lib/schema/use-case-profiles';
 import { DeviceSpecification, CategorySchema } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+import { schemaRegistry } from '@/lib/schema/registry';
 
 // Mock the schema registry
 vi.mock('@/lib/schema/registry', () => ({
@@ -13,6 +16,30 @@ vi.mock('@/lib/schema/registry', () => ({
   }
 }));
 
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    deviceSpecification: {
+      findUnique: vi.fn().mockResolvedValue(null)
+    },
+    deviceStandard: {
+      findMany: vi.fn().mockResolvedValue([])
+    },
+    compatibilityRule: {
+      findMany: vi.fn().mockResolvedValue([])
+    },
+    categoryCompatibilityRule: {
+      findMany: vi.fn().mockResolvedValue([])
+    }
+  },
+  NotFoundError: class NotFoundError extends Error {
+    constructor(resource: string, id?: string) {
+      super(`${resource}${id ? ` with id ${id}` : ''} not found`);
+      this.name = 'NotFoundError';
+    }
+  }
+}));
+
 describe('CompatibilityEngine', () => {
   let engine: CompatibilityEngine;
 
@@ -231,6 +258,196 @@ describe('CompatibilityEngine', () => {
       expect(result.limitations.length).toBeGreaterThan(0);
       expect(result.recommendations.length).toBeGreaterThan(0);
     });
+
+    describe('Dimension Fit', () => {
+      const createFitContext = (source: Record<string, number>, target: Record<string, number>) => ({
+        sourceDevice: {
+          deviceId: 'console',
+          categoryId: 'gaming-console',
+          schemaVersion: '1.0.0',
+          specifications: source,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        },
+        targetDevice: {
+          deviceId: 'tv-stand',
+          categoryId: 'furniture',
+          schemaVersion: '1.0.0',
+          specifications: target,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        },
+        sourceSchema: {} as CategorySchema,
+        targetSchema: {} as CategorySchema
+      });
+
+      const createFitRule = (parameters?: Record<string, unknown>) => ({
+        id: 'stand-fit',
+        name: 'dimension_compatibility',
+        description: 'Device fits into the stand',
+        sourceField: 'widthCm',
+        targetField: 'interiorWidthCm',
+        condition: 'source <= target',
+        compatibilityType: 'full' as const,
+        message: 'Device fits',
+        parameters
+      });
+
+      const gamingConsole = { widthCm: 39, heightCm: 10, depthCm: 26 };
+      const shelf = { interiorWidthCm: 50, interiorHeightCm: 15, interiorDepthCm: 35 };
+
+      it('should fit a device with room to spare', async () => {
+        const processor = engine['ruleProcessors'].get('dimension_compatibility')!;
+
+        const result = await processor.process(createFitRule({ clearanceCm: 2 }), createFitContext(gamingConsole, shelf));
+
+        expect(result.compatible).toBe('full');
+        expect(result.limitations).toHaveLength(0);
+      });
+
+      it('should report the tight axis when clearance is not met', async () => {
+        const processor = engine['ruleProcessors'].get('dimension_compatibility')!;
+
+        const result = await processor.process(createFitRule({ clearanceCm: 8 }), createFitContext(gamingConsole, shelf));
+
+        expect(result.compatible).toBe('partial');
+        expect(result.limitations).toHaveLength(1);
+        expect(result.limitations[0]).toContain('Too tight on height');
+      });
+
+      it('should try other orientations the rule allows', async () => {
+        const processor = engine['ruleProcessors'].get('dimension_compatibility')!;
+        const standing = { widthCm: 10, heightCm: 39, depthCm: 26 };
+
+        const rotated = await processor.process(createFitRule(), createFitContext(standing, shelf));
+        const fixed = await processor.process(createFitRule({ orientations: 'fixed' }), createFitContext(standing, shelf));
+
+        expect(rotated.compatible).toBe('full');
+        expect(rotated.recommendations[0]).toContain('rotated');
+        expect(fixed.compatible).toBe('none');
+        expect(fixed.limitations[0]).toContain('Does not fit on height');
+      });
+
+      it('should take allowed orientations from the target schema', async () => {
+        const processor = engine['ruleProcessors'].get('dimension_compatibility')!;
+        const standing = { widthCm: 10, heightCm: 39, depthCm: 26 };
+        const dimension = (label: string, orientations?: string) =>
+          ({ type: 'number', constraints: { unit: 'cm' }, metadata: { label, orientations } });
+        const context = {
+          ...createFitContext(standing, shelf),
+          targetSchema: {
+            fields: {
+              interiorWidthCm: dimension('Interior Width'),
+              interiorHeightCm: dimension('Interior Height', 'fixed'),
+              interiorDepthCm: dimension('Interior Depth', 'upright')
+            }
+          } as unknown as CategorySchema
+        };
+
+        const fromSchema = await processor.process(createFitRule(), context);
+        const fromRule = await processor.process(createFitRule({ orientations: 'any' }), context);
+
+        expect(fromSchema.compatible).toBe('none');
+        expect(fromRule.compatible).toBe('full');
+      });
+
+      it('should convert dimensions declared in other length units', async () => {
+        const processor = engine['ruleProcessors'].get('dimension_compatibility')!;
+        const context = {
+          ...createFitContext(gamingConsole, { interiorWidthCm: 20, interiorHeightCm: 6, interiorDepthCm: 14 }),
+          targetSchema: {
+            fields: {
+              interiorWidthCm: { type: 'number', constraints: { unit: 'inches' }, metadata: { label: 'Width' } },
+              interiorHeightCm: { type: 'number', constraints: { unit: 'inches' }, metadata: { label: 'Height' } },
+              interiorDepthCm: { type: 'number', constraints: { unit: 'inches' }, metadata: { label: 'Depth' } }
+            }
+          } as unknown as CategorySchema
+        };
+
+        const result = await processor.process(createFitRule(), context);
+
+        expect(result.compatible).toBe('full');
+      });
+
+      it('should not guess when source dimensions are missing', async () => {
+        const processor = engine['ruleProcessors'].get('dimension_compatibility')!;
+
+        const result = await processor.process(createFitRule(), createFitContext({ widthCm: 39 }, shelf));
+
+        expect(result.compatible).toBe('partial');
+        expect(result.confidence).toBeLessThan(0.5);
+      });
+    });
+
+    describe('Connector Standards', () => {
+      const connectorRule = {
+        id: 'hub-ports',
+        name: 'connector_compatibility',
+        description: 'Peripheral connects to hub',
+        sourceField: 'ports',
+        targetField: 'ports',
+        condition: 'overlaps(source, target)',
+        compatibilityType: 'full' as const,
+        message: 'Connectors match'
+      };
+
+      const connectorContext = (extra: Record<string, unknown> = {}) => ({
+        sourceDevice: {
+          deviceId: 'peripheral',
+          categoryId: 'peripherals',
+          schemaVersion: '1.0.0',
+          specifications: { ports: ['USB-C'] },
+          createdAt: new Date(),
+          updatedAt: new Date()
+        },
+        targetDevice: {
+          deviceId: 'hub',
+          categoryId: 'hubs',
+          schemaVersion: '1.0.0',
+          specifications: { ports: ['usb-c', 'HDMI'] },
+          createdAt: new Date(),
+          updatedAt: new Date()
+        },
+        sourceSchema: {} as CategorySchema,
+        targetSchema: {} as CategorySchema,
+        ...extra
+      });
+
+      const deviceStandardRows = [
+        { deviceId: 'peripheral', standardId: 'usb-c', portCount: 1, verified: true, standard: { name: 'USB-C', category: 'data', version: null } },
+        { deviceId: 'hub', standardId: 'usb-c', portCount: 2, verified: true, standard: { name: 'USB-C', category: 'data', version: null } }
+      ];
+
+      it('should match device standards and report the matched pairs', async () => {
+        vi.mocked(prisma.deviceStandard.findMany).mockResolvedValueOnce(deviceStandardRows as any);
+        const processor = engine['ruleProcessors'].get('connector_compatibility')!;
+
+        const result = await processor.process(connectorRule, connectorContext());
+
+        expect(result.compatible).toBe('full');
+        expect(result.matchedStandards).toHaveLength(1);
+        expect(result.matchedStandards![0].sourceStandard.name).toBe('USB-C');
+      });
+
+      it('should be partial when the hub ports are already taken', async () => {
+        vi.mocked(prisma.deviceStandard.findMany).mockResolvedValueOnce(deviceStandardRows as any);
+        const processor = engine['ruleProcessors'].get('connector_compatibility')!;
+
+        const result = await processor.process(connectorRule, connectorContext({ portUsage: { 'usb-c': 2 } }));
+
+        expect(result.compatible).toBe('partial');
+        expect(result.limitations[0]).toContain('only 0 free USB-C ports');
+      });
+
+      it('should fall back to specification values without standards', async () => {
+        const processor = engine['ruleProcessors'].get('connector_compatibility')!;
+
+        const result = await processor.process(connectorRule, connectorContext());
+
+        expect(result.compatible).toBe('full');
+        expect(result.matchedStandards).toBeUndefined();
+      });
+    });
   });
 
   describe('Compatibility Details Generation', () => {
@@ -330,6 +547,240 @@ describe('CompatibilityEngine', () => {
     });
   });
 
+  describe('Category Pair Rules', () => {
+    it('should combine schema rules with admin-managed category rules', async () => {
+      vi.mocked(prisma.categoryCompatibilityRule.findMany).mockResolvedValueOnce([
+        {
+          id: 'db-rule',
+          name: 'Console fits monitor',
+          description: null,
+          sourceField: 'resolution',
+          targetField: 'resolution',
+          condition: 'resolution(source) <= resolution(target)',
+          compatibilityType: 'full',
+          message: 'Resolution supported',
+          limitations: []
+        }
+      ] as any);
+
+      const schemaRule = {
+        id: 'schema-rule',
+        name: 'power_compatibility',
+        description: 'Power',
+        sourceField: 'powerWatts',
+        targetField: 'powerWatts',
+        condition: 'source <= target',
+        compatibilityType: 'full' as const,
+        message: 'Power OK'
+      };
+
+      const rules = await engine.getCategoryPairRules(
+        { id: 'consoles', compatibilityRules: [schemaRule] } as unknown as CategorySchema,
+        { id: 'monitors' } as unknown as CategorySchema
+      );
+
+      expect(prisma.categoryCompatibilityRule.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { sourceCategoryId: 'consoles', targetCategoryId: 'monitors' }
+      }));
+      expect(rules.map(rule => rule.id)).toEqual(['schema-rule', 'db-rule']);
+      expect(rules[1].description).toBe('');
+      expect(engine.getRuleProcessorName(rules[0])).toBe('power_compatibility');
+      expect(engine.getRuleProcessorName(rules[1])).toBe('default');
+      expect(rules[1]).not.toHaveProperty('parameters');
+    });
+
+    it('should pass the parameters of admin-managed rules to their processor', async () => {
+      vi.mocked(prisma.categoryCompatibilityRule.findMany).mockResolvedValueOnce([
+        {
+          id: 'stand-fit',
+          name: 'dimension_compatibility',
+          description: 'Console fits the shelf',
+          sourceField: 'widthCm',
+          targetField: 'interiorWidthCm',
+          condition: 'source <= target',
+          compatibilityType: 'full',
+          message: 'Fits',
+          limitations: [],
+          parameters: { orientations: 'fixed', clearanceCm: 2 }
+        }
+      ] as never);
+
+      const [rule] = await engine.getCategoryPairRules(
+        { id: 'consoles' } as unknown as CategorySchema,
+        { id: 'furniture' } as unknown as CategorySchema
+      );
+
+      expect(rule.parameters).toEqual({ orientations: 'fixed', clearanceCm: 2 });
+      expect(engine.getRuleProcessorName(rule)).toBe('dimension_compatibility');
+    });
+  });
+
+  describe('Compatibility Traces', () => {
+    const device = (deviceId: string, specifications: Record<string, unknown>): DeviceSpecification => ({
+      deviceId,
+      categoryId: deviceId,
+      schemaVersion: '1.0.0',
+      specifications,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    const schema = (id: string, compatibilityRules: unknown[] = []) => ({
+      id,
+      fields: {
+        maxResolution: { type: 'string', metadata: { label: 'Resolution', importance: 'high', weight: 1 } },
+        screenSize: { type: 'number', constraints: { unit: 'inches' }, metadata: { label: 'Screen Size', importance: 'low', weight: 0.5 } }
+      },
+      compatibilityRules
+    } as unknown as CategorySchema);
+
+    const sizeRule = {
+      id: 'size-rule',
+      name: 'Screen size',
+      description: 'Screen must be large enough',
+      sourceField: 'screenSize',
+      targetField: 'screenSize',
+      condition: 'target >= source + 5',
+      compatibilityType: 'full' as const,
+      message: 'Screen is large enough',
+      limitations: ['Screen is too small']
+    };
+
+    it('should explain rule evaluation and the weighted score', async () => {
+      const result = await engine['evaluateCompatibility']({
+        sourceDevice: device('console', { maxResolution: '4K', screenSize: 30 }),
+        targetDevice: device('monitor', { maxResolution: '4K', screenSize: 32 }),
+        sourceSchema: schema('console', [sizeRule]),
+        targetSchema: schema('monitor'),
+        trace: true
+      });
+
+      const [ruleStep, ...rest] = result.trace!.steps;
+      expect(ruleStep).toMatchObject({
+        kind: 'rule',
+        id: 'size-rule',
+        processor: 'default',
+        expression: 'target >= source + 5',
+        inputs: { 'source.screenSize': 30, 'target.screenSize': 32 },
+        outcome: 'none',
+        verdict: { before: 'full', after: 'none' }
+      });
+      expect(ruleStep.intermediate).toContainEqual({ expression: 'source + 5', value: 35, unit: 'in' });
+
+      expect(rest.map(step => [step.kind, step.id])).toEqual([
+        ['field', 'maxResolution'], ['field', 'screenSize'], ['score', 'weighted-score']
+      ]);
+      expect(rest[0].score).toEqual({ value: 1, weight: 1, weighted: 1 });
+      expect(result.trace!.weightedScore).toMatchObject({ totalWeight: 1.5, fullThreshold: 0.8, partialThreshold: 0.3 });
+
+      // The score step leaves a rule-level 'none' alone, so the rule settles the verdict
+      expect(result.compatible).toBe('none');
+      expect(result.trace!.verdict).toMatchObject({ compatible: 'none', setBy: 0 });
+    });
+
+    it('should record rule errors and omit traces unless requested', async () => {
+      const context = {
+        sourceDevice: device('console', { screenSize: 30 }),
+        targetDevice: device('monitor', { screenSize: 32 }),
+        sourceSchema: schema('console', [{ ...sizeRule, condition: 'target >= 10W' }]),
+        targetSchema: schema('monitor')
+      };
+
+      const traced = await engine['evaluateCompatibility']({ ...context, trace: true });
+      expect(traced.trace!.steps[0]).toMatchObject({ outcome: 'none', values: { confidence: 0 } });
+      expect(traced.trace!.steps[0].message).toMatch(/Cannot apply '>=' to/);
+
+      const plain = await engine['evaluateCompatibility'](context);
+      expect(plain.trace).toBeUndefined();
+    });
+
+    it('should compare device columns in their column units', async () => {
+      const result = await engine['evaluateCompatibility']({
+        sourceDevice: device('console', { screenSize: 30, widthCm: 30 }),
+        targetDevice: device('monitor', { screenSize: 32 }),
+        sourceSchema: schema('console', [{ ...sizeRule, condition: 'sourceDevice.widthCm < 20in' }]),
+        targetSchema: schema('monitor'),
+        trace: true
+      });
+
+      expect(result.trace!.steps[0]).toMatchObject({ kind: 'rule', outcome: 'full' });
+    });
+  });
+
+  describe('Use-Case Profiles', () => {
+    const consoleSchema = {
+      id: 'consoles',
+      fields: {
+        maxResolution: { type: 'string', metadata: { label: 'Max Resolution', importance: 'high', weight: 0.9 } }
+      }
+    } as unknown as CategorySchema;
+
+    const tvSchema = {
+      id: 'tvs',
+      fields: {
+        maxResolution: { type: 'string', metadata: { label: 'Max Resolution', importance: 'high', weight: 0.9 } },
+        resolution: { type: 'string', metadata: { label: 'Resolution', importance: 'high', weight: 1 } },
+        refreshRate: { type: 'array', metadata: { label: 'Refresh Rates', importance: 'high', weight: 0.9 } }
+      }
+    } as unknown as CategorySchema;
+
+    const device = (deviceId: string, specifications: Record<string, unknown>): DeviceSpecification => ({
+      deviceId,
+      categoryId: deviceId,
+      schemaVersion: '1.0.0',
+      specifications,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    const context = {
+      sourceDevice: device('consoles', { maxResolution: '4K' }),
+      targetDevice: device('tvs', { maxResolution: '4K', resolution: '3840x2160', refreshRate: [50, 60] }),
+      sourceSchema: consoleSchema,
+      targetSchema: tvSchema
+    };
+
+    it('should rate the same pair differently per use case', async () => {
+      const profile = new UseCaseProfileRegistry().getBuiltInProfiles().find(p => p.useCase === '4k120-gaming')!;
+
+      const casual = await engine['evaluateCompatibility'](context);
+      expect(casual.compatible).toBe('full');
+
+      const gaming = await engine['evaluateCompatibility']({ ...context, profile, trace: true });
+      expect(gaming.compatible).toBe('partial');
+      expect(gaming.matchedRules).toEqual(['profile:4k120-gaming:4k-output', 'profile:4k120-gaming:120hz-refresh']);
+      expect(gaming.limitations).toEqual(['4K120 gaming needs a display refresh rate of at least 120 Hz']);
+      expect(gaming.fieldCompatibility.maxResolution.weight).toBe(1);
+
+      // The field score alone would be full; the failed constraint caps it
+      expect(gaming.trace!.profile).toBe('4k120-gaming');
+      expect(gaming.trace!.weightedScore).toMatchObject({ average: 1, fullThreshold: 0.9, partialThreshold: 0.4 });
+      expect(gaming.trace!.verdict.setBy).toBe(1);
+    });
+
+    it('should apply profile thresholds to the weighted score', async () => {
+      const profile = {
+        useCase: 'strict',
+        name: 'Strict',
+        fieldWeights: {},
+        constraints: [],
+        fullThreshold: 1,
+        partialThreshold: 0.6,
+        builtIn: false
+      };
+      // One of two similarly weighted fields matches
+      const mismatched = {
+        sourceDevice: device('tvs', { maxResolution: '4K', resolution: '3840x2160' }),
+        targetDevice: device('tvs', { maxResolution: '4K', resolution: '1280x720' }),
+        sourceSchema: tvSchema,
+        targetSchema: tvSchema
+      };
+
+      expect((await engine['evaluateCompatibility'](mismatched)).compatible).toBe('partial');
+      expect((await engine['evaluateCompatibility']({ ...mismatched, profile })).compatible).toBe('none');
+    });
+  });
+
   describe('Custom Rule Processors', () => {
     it('should allow registration of custom rule processors', () => {
       const customProcessor = {
@@ -349,4 +800,68 @@ describe('CompatibilityEngine', () => {
       expect(registeredProcessor).toBe(customProcessor);
     });
   });
-});
\ No newline at end of file
+
+  describe('Specification Loading', () => {
+    const specRecord = {
+      deviceId: 'device1',
+      categoryId: 'category1',
+      schemaVersion: '1.0.0',
+      specifications: { name: 'Spec Name', resolution: '3840x2160' },
+      computedValues: null,
+      validationErrors: null,
+      confidenceScores: null,
+      sources: null,
+      verificationStatus: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      device: {
+        name: 'Device Name',
+        brand: 'Acme',
+        model: null,
+        widthCm: { toString: () => '120.5', valueOf: () => 120.5 },
+        heightCm: null,
+        depthCm: null,
+        weightKg: { toString: () => '4.2', valueOf: () => 4.2 },
+        powerWatts: 150,
+        powerType: 'AC'
+      }
+    };
+
+    it('should merge core device columns as base fields', async () => {
+      vi.mocked(prisma.deviceSpecification.findUnique).mockResolvedValueOnce(specRecord as any);
+
+      const spec = await engine['loadDeviceSpecification']('device1');
+
+      expect(spec.categoryId).toBe('category1');
+      expect(spec.specifications.name).toBe('Spec Name'); // Stored values win
+      expect(spec.specifications.brand).toBe('Acme');
+      expect(spec.specifications.widthCm).toBe(120.5);
+      expect(spec.specifications.weightKg).toBe(4.2);
+      expect(spec.specifications.powerWatts).toBe(150);
+      expect(spec.specifications.powerType).toBe('AC');
+      expect('heightCm' in spec.specifications).toBe(false);
+      expect(spec.computedValues).toBeUndefined();
+    });
+
+    it('should fall back to schema default values for missing fields', async () => {
+      vi.mocked(prisma.deviceSpecification.findUnique).mockResolvedValueOnce(specRecord as any);
+      vi.mocked(schemaRegistry.getSchema).mockReturnValueOnce({
+        fields: {
+          resolution: { type: 'string', metadata: { label: 'Resolution' }, defaultValue: '1920x1080' },
+          hdrSupport: { type: 'boolean', metadata: { label: 'HDR' }, defaultValue: false }
+        }
+      } as unknown as CategorySchema);
+
+      const spec = await engine['loadDeviceSpecification']('device1');
+
+      expect(spec.specifications.resolution).toBe('3840x2160');
+      expect(spec.specifications.hdrSupport).toBe(false);
+    });
+
+    it('should throw a not found error when a device has no specification', async () => {
+      await expect(engine['loadDeviceSpecification']('missing')).rejects.toThrow(
+        'Device specification with id missing not found'
+      );
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for the computed fields pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ComputedFieldError, ComputedFieldPipeline, ComputeFunctionEntry } from '@/lib/schema/computed-fields';
+import { CategorySchema, FieldDefinition } from '@/lib/schema/types';
+
+const field = (label: string, type: FieldDefinition['type'] = 'number', unit?: string): FieldDefinition =>
+  ({ type, constraints: unit ? { unit } : undefined, metadata: { label } });
+
+const schema = (computedFields: Record<string, string>, fields: Record<string, FieldDefinition> = {}): CategorySchema => ({
+  id: 'monitors',
+  name: 'Monitors',
+  version: '1.0.0',
+  fields: {
+    resolution: field('Resolution', 'string'),
+    screenSize: field('Screen Size', 'number', 'in'),
+    ...fields
+  },
+  requiredFields: [],
+  computedFields,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'test-user'
+});
+
+const functions: Record<string, ComputeFunctionEntry> = {
+  calculatePixelDensity: {
+    fn: (resolution: string, screenSize: number) => {
+      const [width, height] = resolution.split('x').map(Number);
+      return Math.round(Math.hypot(width, height) / screenSize);
+    },
+    inputs: ['resolution', 'screenSize']
+  },
+  double: { fn: (value: number) => value * 2 },
+  fail: { fn: () => { throw new Error('boom'); } }
+};
+const lookup = (name: string) => functions[name];
+
+describe('ComputedFieldPipeline', () => {
+  const pipeline = new ComputedFieldPipeline();
+
+  it('computes fields after the computed fields they read', () => {
+    const monitors = schema({
+      doubledDensity: 'double(pixelDensity)',
+      pixelDensity: 'calculatePixelDensity'
+    });
+
+    expect(pipeline.plan(monitors, lookup).map(step => step.field)).toEqual(['pixelDensity', 'doubledDensity']);
+    expect(pipeline.compute(monitors, { resolution: '3840x2160', screenSize: 27 }, lookup)).toEqual({
+      values: { pixelDensity: 163, doubledDensity: 326 },
+      errors: []
+    });
+  });
+
+  it('evaluates arguments as rule expressions with field units', () => {
+    const monitors = schema({ pixelDensity: 'calculatePixelDensity(resolution, convert(screenSize, "in") * 2)' });
+
+    expect(pipeline.compute(monitors, { resolution: '3840x2160', screenSize: 13.5 }, lookup).values)
+      .toEqual({ pixelDensity: 163 });
+  });
+
+  it('reads computeFunction from computed field definitions', () => {
+    const monitors = schema({}, {
+      pixelDensity: { ...field('Pixel Density'), computed: true, computeFunction: 'calculatePixelDensity' }
+    });
+
+    expect(pipeline.getDefinitions(monitors)).toEqual({ pixelDensity: 'calculatePixelDensity' });
+  });
+
+  it('skips fields with missing inputs and reports failing functions', () => {
+    const monitors = schema({ pixelDensity: 'calculatePixelDensity', broken: 'fail(screenSize)' });
+    const result = pipeline.compute(monitors, { screenSize: 27 }, lookup);
+
+    expect(result.values).toEqual({});
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'broken', code: 'COMPUTE_FAILED', message: 'fail failed: boom' })
+    ]);
+  });
+
+  it('rejects cycles, unknown functions and malformed definitions', () => {
+    expect(() => pipeline.plan(schema({ a: 'double(b)', b: 'double(c)', c: 'double(a)' }), lookup))
+      .toThrow('Computed fields form a cycle: a -> b -> c -> a');
+    expect(() => pipeline.plan(schema({ a: 'double(a)' }), lookup)).toThrow('a -> a');
+    expect(() => pipeline.plan(schema({ a: 'missing(screenSize)' }), lookup))
+      .toThrow('Computed field a uses unknown function missing');
+    expect(() => pipeline.plan(schema({ a: 'double(screenSize +)' }), lookup)).toThrow(ComputedFieldError);
+  });
+});
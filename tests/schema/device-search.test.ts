@@ -0,0 +1,116 @@
+/**
+ * Tests for the database-side device search
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DeviceSearch, SearchFilterError } from '@/lib/schema/device-search';
+import { indexPlanner } from '@/lib/schema/index-planner';
+import { renderSql, joinSql } from '@/lib/schema/sql';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { CategorySchema, ResolvedCategorySchema } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    initialize: vi.fn(),
+    getResolvedSchema: vi.fn()
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    $queryRawUnsafe: vi.fn()
+  }
+}));
+
+const monitorSchema = {
+  id: 'monitors',
+  fields: {
+    screenSize: { type: 'number', constraints: { unit: 'in' }, metadata: { label: 'Screen Size', indexable: true } },
+    inputPorts: { type: 'array', metadata: { label: 'Input Ports', indexable: true } },
+    panelType: { type: 'enum', constraints: { options: ['IPS', 'VA'] }, metadata: { label: 'Panel' } },
+    hdr: { type: 'boolean', metadata: { label: 'HDR' } }
+  }
+} as unknown as CategorySchema;
+
+describe('Device Search', () => {
+  let search: DeviceSearch;
+
+  const conditions = (specifications: Record<string, unknown>, query = '') =>
+    renderSql(joinSql(search.buildConditions(query, { categoryId: 'monitors', specifications }, monitorSchema), ' AND '));
+
+  beforeEach(() => {
+    search = new DeviceSearch();
+    vi.clearAllMocks();
+  });
+
+  it('should filter on the expressions and partial condition of the field indexes', () => {
+    const { text, params } = conditions({ screenSize: { min: 24, max: 32 }, inputPorts: { contains: 'HDMI' } });
+    const [screenSizeIndex, inputPortsIndex] = indexPlanner.planIndexes(monitorSchema);
+
+    expect(text).toContain(`ds.${screenSizeIndex.partial}`);
+    expect(text).toContain(`${screenSizeIndex.expression} >= $2::numeric`);
+    expect(text).toContain(`${screenSizeIndex.expression} <= $3::numeric`);
+    expect(text).toContain(`${inputPortsIndex.expression} @> $4::jsonb`);
+    expect(params).toEqual(['monitors', 24, 32, '["HDMI"]']);
+  });
+
+  it('should compare exact values by field type', () => {
+    const { text, params } = conditions({ screenSize: 27, panelType: 'IPS', hdr: true, refreshRate: 144 });
+
+    expect(text).toContain(`${indexPlanner.fieldExpression('screenSize', 'number')} = $2::numeric`);
+    expect(text).toContain(`(specifications -> 'panelType') @> $3::jsonb`);
+    expect(text).toContain(`(specifications ->> 'hdr') = $4`);
+    expect(text).toContain(`(specifications -> 'refreshRate') = $5::jsonb`);
+    expect(params).toEqual(['monitors', 27, '"IPS"', 'true', '144']);
+  });
+
+  it('should match nested values through JSON paths', () => {
+    const { text, params } = conditions({ '/ports/count': { min: 2 }, '/ports/0/type': 'USB-C' });
+
+    expect(text).toContain('jsonb_path_exists(specifications, $2::jsonpath, $3::jsonb)');
+    expect(params.slice(1)).toEqual([
+      '$."ports"."count" ? (@ >= $min)', '{"min":2}',
+      '$."ports"[0]."type" ? (@ == $value)', '{"value":"USB-C"}'
+    ]);
+  });
+
+  it('should match text queries against search documents and reject malformed bounds', () => {
+    const { text, params } = conditions({}, 'OLED55C3');
+    expect(text).toContain('d.search_vector @@');
+    expect(params).toContain('oled55c3 | oled55c3:*B | (oled & 55 & c & 3)');
+
+    expect(() => conditions({ screenSize: { min: 'big' } })).toThrow(SearchFilterError);
+  });
+
+  it('should count and paginate matches in the database', async () => {
+    vi.mocked(schemaRegistry.getResolvedSchema).mockReturnValue(monitorSchema as ResolvedCategorySchema);
+    vi.mocked(prisma.$queryRawUnsafe)
+      .mockResolvedValueOnce([{ id: 'd2' }, { id: 'd1' }])
+      .mockResolvedValueOnce([{ total: 12 }]);
+
+    const page = await search.search('', { categoryId: 'monitors', specifications: { hdr: true } }, { limit: 2, offset: 4 });
+
+    expect(page).toEqual({ deviceIds: ['d2', 'd1'], total: 12 });
+
+    const [pageQuery, countQuery] = vi.mocked(prisma.$queryRawUnsafe).mock.calls;
+    expect(pageQuery[0]).toContain('JOIN device_specifications ds ON ds.device_id = d.id');
+    expect(pageQuery[0]).toContain('LIMIT $3 OFFSET $4');
+    expect(pageQuery.slice(1)).toEqual(['monitors', 'true', 2, 4]);
+    expect(countQuery[0]).toContain('SELECT COUNT(*)::int AS total');
+    expect(countQuery.slice(1)).toEqual(['monitors', 'true']);
+  });
+
+  it('should sort text searches by relevance', async () => {
+    vi.mocked(schemaRegistry.getResolvedSchema).mockReturnValue(null);
+    vi.mocked(prisma.$queryRawUnsafe).mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: 0 }]);
+
+    await search.search('playstation', {}, { limit: 20, offset: 0, sort: 'relevance' });
+
+    const [[pageQuery], [countQuery]] = vi.mocked(prisma.$queryRawUnsafe).mock.calls;
+    expect(pageQuery).toMatch(/ORDER BY \(ts_rank\(d\.search_vector, .*\) DESC, d\.created_at DESC/);
+    expect(countQuery).not.toContain('ORDER BY');
+  });
+});
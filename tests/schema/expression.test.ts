@@ -0,0 +1,172 @@
+/**
+ * Tests for the Rule Expression Language
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileExpression,
+  evaluateExpression,
+  parseExpression,
+  typeCheckExpression,
+  fieldsToTypeEnvironment,
+  compatibilityRuleEnvironment,
+  ExpressionError
+} from '@/lib/schema/expression';
+import { FieldDefinition } from '@/lib/schema/types';
+
+const fields: Record<string, FieldDefinition> = {
+  screenSize: {
+    type: 'number',
+    constraints: { unit: 'inches' },
+    metadata: { label: 'Screen Size', importance: 'high', weight: 0.8 }
+  },
+  powerWatts: {
+    type: 'number',
+    constraints: { unit: 'watts' },
+    metadata: { label: 'Power', importance: 'medium', weight: 0.5 }
+  },
+  resolution: {
+    type: 'string',
+    metadata: { label: 'Resolution', importance: 'high', weight: 0.8 }
+  },
+  ports: {
+    type: 'array',
+    metadata: { label: 'Ports', importance: 'high', weight: 0.8 }
+  }
+};
+
+describe('Expression Language', () => {
+  describe('Parsing', () => {
+    it('should parse expressions into an AST', () => {
+      const ast = parseExpression('source <= target * 0.8');
+
+      expect(ast.type).toBe('binary');
+      expect(ast).toMatchObject({ operator: '<=', right: { type: 'binary', operator: '*' } });
+    });
+
+    it('should accept JavaScript-style operator aliases', () => {
+      expect(evaluateExpression('a === 1 && !(b !== 2) || false', { a: 1, b: 2 })).toBe(true);
+    });
+
+    it('should collect referenced identifiers', () => {
+      expect(compileExpression('sourceDevice.powerWatts <= max(target, 10)').identifiers)
+        .toEqual(['sourceDevice', 'target']);
+    });
+
+    it('should report syntax errors with a position', () => {
+      expect(() => parseExpression('source <= ')).toThrow(ExpressionError);
+      expect(() => parseExpression('source = target')).toThrow(/Assignment is not allowed/);
+      expect(() => parseExpression('12parsecs > 1')).toThrow(/Unknown unit/);
+    });
+
+    it('should cache compiled expressions', () => {
+      expect(compileExpression('a + 1')).toBe(compileExpression('a + 1'));
+    });
+  });
+
+  describe('Sandboxing', () => {
+    it('should reject this, unknown functions and arbitrary method calls', () => {
+      expect(() => parseExpression('this.constructor')).toThrow(/'this' is not available/);
+      expect(() => parseExpression('eval("1")')).toThrow(/Unknown function 'eval'/);
+      expect(() => parseExpression('source.constructor("return process")()')).toThrow(/Unknown method/);
+    });
+
+    it('should not expose prototype properties', () => {
+      expect(evaluateExpression('source.constructor', { source: {} })).toBeNull();
+      expect(evaluateExpression('source.__proto__', { source: {} })).toBeNull();
+      expect(evaluateExpression('toString', {})).toBeNull();
+    });
+
+    it('should not execute injected values', () => {
+      const scope = { source: '"); process.exit(1); ("', target: 'x' };
+      expect(evaluateExpression('source == target', scope)).toBe(false);
+    });
+  });
+
+  describe('Evaluation', () => {
+    it('should evaluate arithmetic and comparisons', () => {
+      expect(evaluateExpression('(a + b) * 2 - c % 3', { a: 1, b: 2, c: 4 })).toBe(5);
+      expect(evaluateExpression('a > 1 ? "big" : "small"', { a: 2 })).toBe('big');
+    });
+
+    it('should support in and contains', () => {
+      const scope = { source: 'HDMI', target: ['HDMI', 'USB-C'] };
+
+      expect(evaluateExpression('source in target', scope)).toBe(true);
+      expect(evaluateExpression('target contains "DisplayPort"', scope)).toBe(false);
+      expect(evaluateExpression('target.includes(source)', scope)).toBe(true);
+    });
+
+    it('should evaluate whitelisted helpers', () => {
+      expect(evaluateExpression('max(a, 10) + min(a, 10) + abs(-2)', { a: 4 })).toBe(16);
+      expect(evaluateExpression('resolution("4K") > resolution("1920x1080")', {})).toBe(true);
+      expect(evaluateExpression('overlaps(a, b)', { a: ['HDMI'], b: ['USB', 'HDMI'] })).toBe(true);
+      expect(evaluateExpression('lower(a) == "hdmi"', { a: 'HDMI' })).toBe(true);
+    });
+
+    it('should treat missing values as null', () => {
+      expect(evaluateExpression('missing < 5', {})).toBe(false);
+      expect(evaluateExpression('missing == null', {})).toBe(true);
+      expect(evaluateExpression('1 / 0', {})).toBeNull();
+    });
+
+    it('should compare unit-tagged values', () => {
+      expect(evaluateExpression('30cm < 1ft', {})).toBe(true);
+      expect(evaluateExpression('screenSize < 24in', { screenSize: 27 }, { units: { screenSize: 'inches' } })).toBe(false);
+      expect(evaluateExpression('source <= target', { source: 500, target: 1 }, { units: { source: 'W', target: 'kW' } })).toBe(true);
+      expect(evaluateExpression('convert(source, "cm")', { source: 10 }, { units: { source: 'in' } })).toBeCloseTo(25.4);
+    });
+
+    it('should refuse to compare different dimensions', () => {
+      expect(() => evaluateExpression('10W < 5kg', {})).toThrow(/Cannot apply '<' to power/);
+    });
+
+    it('should trace intermediate values', () => {
+      const { value, steps } = compileExpression('(source + 2) * 2 <= target and lower(name) == "tv"')
+        .trace({ source: 10, target: 30, name: 'TV' });
+
+      expect(value).toBe(true);
+      expect(steps.map(step => step.expression)).toEqual([
+        'source', 'source + 2', '(source + 2) * 2', 'target', '(source + 2) * 2 <= target',
+        'name', 'lower(name)', 'lower(name) == "tv"',
+        '(source + 2) * 2 <= target and lower(name) == "tv"'
+      ]);
+      expect(steps[2].value).toBe(24);
+
+      const [quantity] = compileExpression('source < 1ft').trace({ source: 30 }, { units: { source: 'cm' } }).steps;
+      expect(quantity).toEqual({ expression: 'source', value: 30, unit: 'cm' });
+    });
+  });
+
+  describe('Type Checking', () => {
+    it('should accept well-typed expressions', () => {
+      const env = fieldsToTypeEnvironment(fields);
+
+      expect(typeCheckExpression('screenSize < 24in and resolution(resolution) >= resolution("1080p")', env).errors).toEqual([]);
+      expect(typeCheckExpression('"HDMI" in ports', env).errors).toEqual([]);
+    });
+
+    it('should report unknown fields and functions', () => {
+      const env = fieldsToTypeEnvironment(fields);
+
+      expect(typeCheckExpression('screenSzie > 10', env).errors).toEqual(["Unknown field 'screenSzie'"]);
+      expect(typeCheckExpression('eval(1)', env).errors[0]).toMatch(/Unknown function 'eval'/);
+    });
+
+    it('should report type and unit mismatches', () => {
+      const env = fieldsToTypeEnvironment(fields);
+
+      expect(typeCheckExpression('resolution > 10', env).errors[0]).toMatch(/Cannot compare string with number/);
+      expect(typeCheckExpression('powerWatts > 24in', env).errors[0]).toMatch(/power \(W\) and length \(in\)/);
+      expect(typeCheckExpression('abs(resolution)', env).errors[0]).toMatch(/abs\(\) expects numbers/);
+    });
+
+    it('should type compatibility rules against both schemas', () => {
+      const env = compatibilityRuleEnvironment(fields, fields, 'powerWatts', 'powerWatts');
+
+      expect(typeCheckExpression('source <= targetDevice.powerWatts', env).errors).toEqual([]);
+      expect(typeCheckExpression('targetDevice.voltage > 5', env).errors).toEqual(["Unknown field 'voltage'"]);
+      expect(typeCheckExpression('targetDevice.voltage > 5', compatibilityRuleEnvironment(fields, undefined, 'powerWatts', 'x')).errors).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for JSON pointer paths into nested specification values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { childPath, getFieldAtPath, parseJsonPointer, resolvePath } from '@/lib/schema/field-paths';
+import { FieldDefinition } from '@/lib/schema/types';
+
+describe('Field Paths', () => {
+  it('should build and parse escaped pointers', () => {
+    expect(childPath('ports', 0)).toBe('/ports/0');
+    expect(childPath('/ports/0', 'a/b~c')).toBe('/ports/0/a~1b~0c');
+    expect(parseJsonPointer('/ports/0/a~1b~0c')).toEqual(['ports', '0', 'a/b~c']);
+    expect(() => parseJsonPointer('ports')).toThrow('Invalid JSON pointer: ports');
+  });
+
+  it('should resolve values across array items', () => {
+    const specifications = {
+      ports: [{ type: 'USB-C', count: 2 }, { type: 'HDMI', count: 1 }, { count: 4 }]
+    };
+
+    expect(resolvePath(specifications, ['ports', '1', 'type'])).toEqual(['HDMI']);
+    expect(resolvePath(specifications, ['ports', 'type'])).toEqual(['USB-C', 'HDMI']);
+    expect(resolvePath(specifications, ['ports', 'speed'])).toEqual([]);
+  });
+
+  it('should find the definition of nested values', () => {
+    const count: FieldDefinition = { type: 'number', metadata: { label: 'Count' } };
+    const fields: Record<string, FieldDefinition> = {
+      ports: {
+        type: 'array',
+        metadata: { label: 'Ports' },
+        items: { type: 'object', metadata: { label: 'Port' }, properties: { count } }
+      }
+    };
+
+    expect(getFieldAtPath(fields, ['ports', '0', 'count'])).toBe(count);
+    expect(getFieldAtPath(fields, ['ports', 'count'])).toBe(count);
+    expect(getFieldAtPath(fields, ['ports', 'speed'])).toBeUndefined();
+  });
+});
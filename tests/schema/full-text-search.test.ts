@@ -0,0 +1,111 @@
+/**
+ * Tests for full-text device search documents and queries
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_SEARCH_CONFIGURATION,
+  FullTextSearch,
+  parseSearchTerms,
+  weightLabel
+} from '@/lib/schema/full-text-search';
+import { renderSql } from '@/lib/schema/sql';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { CategorySchema, ResolvedCategorySchema } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    initialize: vi.fn(),
+    getResolvedSchema: vi.fn()
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    $executeRawUnsafe: vi.fn()
+  }
+}));
+
+const headphoneSchema = {
+  id: 'headphones',
+  fields: {
+    driverType: { type: 'string', metadata: { label: 'Driver Type', searchable: true } },
+    codecs: { type: 'array', metadata: { label: 'Codecs', searchable: true } },
+    weightGrams: { type: 'number', metadata: { label: 'Weight' } }
+  },
+  computedFields: {}
+} as unknown as CategorySchema;
+
+describe('Full-Text Search', () => {
+  let search: FullTextSearch;
+
+  beforeEach(() => {
+    search = new FullTextSearch();
+    vi.clearAllMocks();
+  });
+
+  it('should split model numbers into their letter and digit runs', () => {
+    expect(parseSearchTerms('LG OLED55C3')).toEqual([
+      { term: 'lg', parts: [] },
+      { term: 'oled55c3', parts: ['oled', '55', 'c', '3'] }
+    ]);
+    expect(parseSearchTerms('Sony WH-1000XM5!')).toEqual([
+      { term: 'sony', parts: [] },
+      { term: 'wh1000xm5', parts: ['wh', '1000', 'xm', '5'] }
+    ]);
+    expect(parseSearchTerms(' & | :* ')).toEqual([]);
+  });
+
+  it('should derive weights and searchable fields from the search configuration', () => {
+    expect(DEFAULT_SEARCH_CONFIGURATION.map(config => weightLabel(config.weight))).toEqual(['A', 'B', 'C', 'D']);
+
+    expect(search.getConfiguration(headphoneSchema).slice(DEFAULT_SEARCH_CONFIGURATION.length)).toEqual([
+      { field: 'driverType', weight: 0.2, searchType: 'fuzzy' },
+      { field: 'codecs', weight: 0.2, searchType: 'fulltext' }
+    ]);
+  });
+
+  it('should match every term, by prefix in prefix-searched fields, or fuzzily', () => {
+    const { text, params } = renderSql(search.matchCondition('playstaton 5', DEFAULT_SEARCH_CONFIGURATION)!);
+
+    expect(text).toBe(
+      "(d.search_vector @@ ((to_tsquery('simple', $1) || plainto_tsquery('english', $2)) && " +
+      "(to_tsquery('simple', $3) || plainto_tsquery('english', $4))) OR $5 <% d.search_text)"
+    );
+    expect(params).toEqual(['playstaton | playstaton:*B', 'playstaton', '5 | 5:*B', '5', 'playstaton 5']);
+    expect(search.matchCondition('   ', DEFAULT_SEARCH_CONFIGURATION)).toBeNull();
+  });
+
+  it('should rebuild search documents with weighted fields', async () => {
+    vi.mocked(schemaRegistry.getResolvedSchema).mockReturnValue(headphoneSchema as ResolvedCategorySchema);
+
+    await search.refreshDevice('device-1', 'headphones');
+
+    const [text, ...params] = vi.mocked(prisma.$executeRawUnsafe).mock.calls[0];
+    expect(text).toContain("setweight(to_tsvector($1::regconfig, expand_model_numbers(coalesce(d.name, ''))), 'A')");
+    expect(text).toContain("expand_model_numbers(coalesce((ds.specifications ->> 'codecs'), ''))), 'D')");
+    expect(text).toContain("search_text = concat_ws(' ', d.name, d.brand, (ds.specifications ->> 'driverType'))");
+    expect(params).toEqual(['simple', 'simple', 'simple', 'english', 'simple', 'english', 'device-1']);
+  });
+
+  it('should rebuild the documents of rewritten devices and whole categories', async () => {
+    vi.mocked(schemaRegistry.getResolvedSchema).mockReturnValue(headphoneSchema as ResolvedCategorySchema);
+    const tx = { $executeRawUnsafe: vi.fn() };
+
+    await search.refreshDevices(['device-1', 'device-2'], 'headphones', tx as unknown as typeof prisma);
+    await search.refreshDevices([], 'headphones');
+    await search.refreshCategory('headphones', { missingOnly: true });
+
+    const [batchText, ...batchParams] = tx.$executeRawUnsafe.mock.calls[0];
+    expect(batchText).toMatch(/WHERE devices\.id = d\.id AND d\.id = ANY\(\$7::text\[\]\)$/);
+    expect(batchParams[6]).toEqual(['device-1', 'device-2']);
+
+    expect(prisma.$executeRawUnsafe).toHaveBeenCalledTimes(1);
+    const [categoryText, ...categoryParams] = vi.mocked(prisma.$executeRawUnsafe).mock.calls[0];
+    expect(categoryText).toMatch(/AND d\.category_id = \$7 AND d\.search_vector IS NULL$/);
+    expect(categoryParams[6]).toBe('headphones');
+  });
+});
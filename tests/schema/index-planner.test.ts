@@ -0,0 +1,128 @@
+/**
+ * Tests for the dynamic index planner
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IndexPlanner } from '@/lib/schema/index-planner';
+import { CategorySchema, FieldDefinition } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    $executeRawUnsafe: vi.fn(),
+    dynamicIndex: { findMany: vi.fn(), findFirst: vi.fn(), upsert: vi.fn(), delete: vi.fn() }
+  }
+}));
+
+const field = (type: FieldDefinition['type'], metadata: Partial<FieldDefinition['metadata']> = {}): FieldDefinition =>
+  ({ type, metadata: { label: type, ...metadata } });
+
+const schema: CategorySchema = {
+  id: 'monitors',
+  name: 'Monitors',
+  version: '1.0.0',
+  fields: {
+    refreshRate: field('number', { indexable: true }),
+    ports: field('array', { searchable: true }),
+    panelType: field('enum', { indexable: true }),
+    model: field('string', { searchable: true }),
+    hdr: field('boolean', { indexable: true }),
+    weight: field('number'),
+    notes: field('string', { indexable: false }),
+    vga: field('boolean', { indexable: true, deprecated: true }),
+    pixelDensity: field('number', { indexable: true })
+  },
+  requiredFields: [],
+  computedFields: { pixelDensity: 'calculatePixelDensity' },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'test-user'
+};
+
+describe('IndexPlanner', () => {
+  let planner: IndexPlanner;
+
+  beforeEach(() => {
+    planner = new IndexPlanner();
+    vi.clearAllMocks();
+  });
+
+  it('should pick the index type and expression from the field type', () => {
+    const plans = Object.fromEntries(planner.planIndexes(schema).map(index => [index.field, index]));
+
+    expect(Object.keys(plans)).toEqual(['refreshRate', 'ports', 'panelType', 'model', 'hdr', 'pixelDensity']);
+    expect(plans.refreshRate).toEqual({
+      field: 'refreshRate',
+      name: expect.stringMatching(/^idx_ds_monitors_refreshrate_[0-9a-z]+$/),
+      type: 'btree',
+      expression: "(CASE WHEN jsonb_typeof(specifications -> 'refreshRate') = 'number' THEN (specifications ->> 'refreshRate')::numeric END)",
+      partial: "category_id = 'monitors'"
+    });
+    expect(plans.ports).toMatchObject({ type: 'gin', expression: "(specifications -> 'ports')" });
+    expect(plans.panelType).toMatchObject({ type: 'gin', expression: "(specifications -> 'panelType')" });
+    expect(plans.model).toMatchObject({ type: 'gin', expression: "(specifications ->> 'model') gin_trgm_ops" });
+    expect(plans.hdr).toMatchObject({ type: 'btree', expression: "(specifications ->> 'hdr')" });
+    expect(plans.pixelDensity.expression).toContain("computed_values ->> 'pixelDensity'");
+
+    expect(planner.createIndexSql(plans.model)).toBe(
+      `CREATE INDEX CONCURRENTLY IF NOT EXISTS "${plans.model.name}" ON device_specifications ` +
+      "USING gin ((specifications ->> 'model') gin_trgm_ops) WHERE category_id = 'monitors'"
+    );
+  });
+
+  it('should index suggested fields unless they opt out', () => {
+    const fields = planner.planIndexes(schema, ['weight', 'notes', 'vga']).map(index => index.field);
+
+    expect(fields).toContain('weight');
+    expect(fields).not.toContain('notes');
+    expect(fields).not.toContain('vga');
+  });
+
+  it('should create missing indexes, keep matching ones and drop deprecated ones', async () => {
+    const [refreshRate] = planner.planIndexes(schema);
+    vi.mocked(prisma.dynamicIndex.findMany).mockResolvedValue([
+      {
+        id: 'i1', fieldName: 'refreshRate', indexType: refreshRate.type, indexName: refreshRate.name,
+        expression: refreshRate.expression, partialCondition: refreshRate.partial
+      },
+      {
+        id: 'i2', fieldName: 'vga', indexType: 'btree', indexName: 'idx_ds_monitors_vga',
+        expression: "(specifications ->> 'vga')", partialCondition: "category_id = 'monitors'"
+      }
+    ] as never);
+
+    const result = await planner.syncIndexes(schema);
+
+    expect(result.dropped).toEqual(['idx_ds_monitors_vga']);
+    expect(result.created).toEqual(planner.planIndexes(schema).slice(1).map(index => index.name));
+    expect(result.failed).toEqual([]);
+    expect(vi.mocked(prisma.$executeRawUnsafe).mock.calls[0][0])
+      .toBe('DROP INDEX CONCURRENTLY IF EXISTS "idx_ds_monitors_vga"');
+    expect(prisma.dynamicIndex.delete).toHaveBeenCalledWith({ where: { id: 'i2' } });
+    expect(prisma.dynamicIndex.upsert).toHaveBeenCalledTimes(5);
+  });
+
+  it('should give fields with similar names their own index', () => {
+    const names = ['hdrMode', 'hdrmode', 'screen-size', 'screen_size', `${'x'.repeat(60)}A`, `${'x'.repeat(60)}B`]
+      .map(fieldName => planner.planFieldIndex('monitors', fieldName, field('number', { indexable: true }))!.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    expect(names.every(name => name.length <= 63)).toBe(true);
+    expect(names[0]).toMatch(/^idx_ds_monitors_hdrmode_[0-9a-z]+$/);
+  });
+
+  it('should report indexes that fail to build and clean up after them', async () => {
+    const model = planner.planIndexes(schema).find(index => index.field === 'model')!;
+    vi.mocked(prisma.dynamicIndex.findMany).mockResolvedValue([] as never);
+    vi.mocked(prisma.$executeRawUnsafe).mockImplementation(((sql: string) =>
+      sql.includes('gin_trgm_ops') ? Promise.reject(new Error('operator class "gin_trgm_ops" does not exist')) : Promise.resolve(0)
+    ) as never);
+
+    const result = await planner.syncIndexes(schema);
+
+    expect(result.failed).toEqual([{ field: 'model', message: 'operator class "gin_trgm_ops" does not exist' }]);
+    expect(result.created).not.toContain(model.name);
+    expect(prisma.$executeRawUnsafe).toHaveBeenCalledWith(`DROP INDEX CONCURRENTLY IF EXISTS "${model.name}"`);
+  });
+});
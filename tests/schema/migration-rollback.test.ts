@@ -0,0 +1,207 @@
+/**
+ * Tests for migration rollback in the Migration Manager
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MigrationManager, MigrationRollbackError } from '@/lib/schema/migration-manager';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { CategorySchema, MigrationOperation } from '@/lib/schema/types';
+import { schemaBackfill } from '@/lib/schema/backfill';
+import { fullTextSearch } from '@/lib/schema/full-text-search';
+import { prisma } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    initialize: vi.fn(),
+    getSchema: vi.fn(),
+    registerSchema: vi.fn()
+  }
+}));
+
+// Mock the backfill job runner
+vi.mock('@/lib/schema/backfill', () => ({
+  schemaBackfill: {
+    createJob: vi.fn(),
+    runJob: vi.fn(),
+    cancelJob: vi.fn()
+  }
+}));
+
+// Mock the search documents
+vi.mock('@/lib/schema/full-text-search', () => ({
+  fullTextSearch: {
+    refreshDevices: vi.fn().mockResolvedValue(undefined)
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => {
+  const prisma = {
+    $transaction: vi.fn(),
+    $executeRaw: vi.fn(),
+    schemaMigration: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+    deviceSpecification: { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    dynamicIndex: { create: vi.fn(), findFirst: vi.fn(), delete: vi.fn() }
+  };
+  prisma.$transaction.mockImplementation((callback: (tx: typeof prisma) => unknown) => callback(prisma));
+
+  return {
+    prisma,
+    NotFoundError: class NotFoundError extends Error {
+      constructor(resource: string, id?: string) {
+        super(`${resource}${id ? ` with id ${id}` : ''} not found`);
+        this.name = 'NotFoundError';
+      }
+    },
+    ValidationError: class ValidationError extends Error {
+      constructor(message: string) {
+        super(message);
+        this.name = 'ValidationError';
+      }
+    }
+  };
+});
+
+const field = (label: string) => ({ type: 'string' as const, metadata: { label, importance: 'medium' as const, weight: 0.5 } });
+
+const schema: CategorySchema = {
+  id: 'monitors',
+  name: 'Monitors',
+  version: '1.0.0',
+  fields: { name: field('Name'), panel: field('Panel'), refresh: field('Refresh') },
+  requiredFields: ['name', 'panel'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'system'
+};
+
+const operations: MigrationOperation[] = [
+  { type: 'add_field', field: 'hdr', definition: field('HDR') },
+  { type: 'remove_field', field: 'refresh' },
+  { type: 'rename_field', oldName: 'panel', newName: 'panelType' },
+  { type: 'modify_field', field: 'name', changes: { defaultValue: 'Unnamed' } }
+];
+
+const specs = (specifications: Record<string, Record<string, unknown>>) =>
+  Object.entries(specifications).map(([deviceId, values]) => ({ deviceId, specifications: values }));
+
+describe('Migration Rollback', () => {
+  let manager: MigrationManager;
+  const appliedAt = new Date('2026-01-01');
+
+  const applyMigration = async () => {
+    vi.mocked(prisma.schemaMigration.findUnique).mockResolvedValueOnce({
+      id: 'mig1', categoryId: 'monitors', fromVersion: '1.0.0', toVersion: '1.1.0',
+      operations, createdAt: new Date(), appliedAt: null
+    } as never);
+    await manager.applyMigration('mig1');
+    return vi.mocked(prisma.schemaMigration.update).mock.calls[0][0].data.rollbackData;
+  };
+
+  const mockApplied = (rollbackData: unknown) =>
+    vi.mocked(prisma.schemaMigration.findUnique).mockResolvedValue({
+      id: 'mig1', categoryId: 'monitors', fromVersion: '1.0.0', toVersion: '1.1.0',
+      operations, createdAt: new Date(), appliedAt, rollbackData
+    } as never);
+
+  beforeEach(() => {
+    manager = new MigrationManager();
+    vi.clearAllMocks();
+
+    vi.mocked(schemaRegistry.getSchema).mockReturnValue(schema);
+    vi.mocked(schemaBackfill.createJob).mockResolvedValue({ id: 'job1', totalCount: 2 } as never);
+    vi.mocked(schemaBackfill.runJob).mockResolvedValue({} as never);
+    vi.mocked(prisma.schemaMigration.findMany).mockResolvedValue([] as never);
+    vi.mocked(prisma.deviceSpecification.findMany).mockResolvedValue(specs({
+      d1: { name: 'A', panel: 'IPS', refresh: [60, 144] },
+      d2: { name: '', panel: 'VA', panelType: 'old', hdr: true }
+    }) as never);
+  });
+
+  it('should record inverse operations and the migrated schema when applying', async () => {
+    const rollbackData = await applyMigration();
+
+    expect(rollbackData.previousSchema.version).toBe('1.0.0');
+    expect(rollbackData.operations.map((op: { type: string }) => op.type))
+      .toEqual(['restore_values', 'rename_field', 'restore_field', 'remove_field']);
+    expect(rollbackData.operations).toEqual(expect.arrayContaining([
+      { type: 'restore_field', field: 'refresh', definition: field('Refresh'), values: { d1: [60, 144] } },
+      { type: 'rename_field', from: 'panelType', to: 'panel', values: { d2: 'old' } },
+      { type: 'remove_field', field: 'hdr', defaultValue: null, keepDeviceIds: ['d2'], dropIndex: false },
+      { type: 'restore_values', field: 'name', filledValue: 'Unnamed', values: { d2: '' }, absentDeviceIds: [] }
+    ]));
+
+    const migrated = vi.mocked(schemaRegistry.registerSchema).mock.calls[0][0];
+    expect(migrated.version).toBe('1.1.0');
+    expect(Object.keys(migrated.fields)).toEqual(['name', 'hdr', 'panelType']);
+    expect(migrated.requiredFields).toEqual(['name', 'panelType']);
+
+    expect(schemaBackfill.createJob).toHaveBeenCalledWith(expect.objectContaining({ id: 'mig1', toVersion: '1.1.0' }), undefined);
+    expect(schemaBackfill.runJob).toHaveBeenCalledWith('job1');
+  });
+
+  it('should restore device values and the previous schema in a transaction', async () => {
+    const rollbackData = await applyMigration();
+    mockApplied(rollbackData);
+    vi.mocked(prisma.deviceSpecification.findMany).mockResolvedValue(specs({
+      d1: { name: 'A', panelType: 'IPS' },
+      d2: { name: 'Unnamed', panelType: 'VA', hdr: true }
+    }) as never);
+
+    const result = await manager.rollbackMigration('mig1');
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(schemaBackfill.cancelJob).toHaveBeenCalledWith('mig1', prisma);
+    expect(vi.mocked(prisma.deviceSpecification.update).mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      { where: { deviceId: 'd1' }, data: { specifications: { name: 'A', panel: 'IPS', refresh: [60, 144] } } },
+      { where: { deviceId: 'd2' }, data: { specifications: { name: '', hdr: true, panel: 'VA', panelType: 'old' } } }
+    ]);
+    expect(prisma.deviceSpecification.updateMany).toHaveBeenCalledWith({
+      where: { categoryId: 'monitors', schemaVersion: '1.1.0' },
+      data: { schemaVersion: '1.0.0' }
+    });
+    expect(prisma.schemaMigration.update).toHaveBeenLastCalledWith({
+      where: { id: 'mig1' },
+      data: { appliedAt: null, rolledBackAt: expect.any(Date) }
+    });
+    expect(schemaRegistry.registerSchema).toHaveBeenLastCalledWith(expect.objectContaining({ version: '1.0.0' }));
+    expect(fullTextSearch.refreshDevices).toHaveBeenCalledWith(['d1', 'd2'], 'monitors');
+    expect(result).toMatchObject({ affectedDevices: 2, restoredVersion: '1.0.0' });
+  });
+
+  it('should refuse when data written after the migration would be lost', async () => {
+    const rollbackData = await applyMigration();
+    mockApplied(rollbackData);
+    vi.mocked(prisma.schemaMigration.findMany).mockResolvedValue([{ id: 'mig2', toVersion: '1.2.0' }] as never);
+    vi.mocked(prisma.deviceSpecification.findMany).mockResolvedValue(specs({
+      d1: { name: 'A', panelType: 'IPS', hdr: 'HDR10', refresh: [60] },
+      d2: { name: 'Renamed', panelType: 'VA', panel: 'new', hdr: true }
+    }) as never);
+
+    const error = await manager.rollbackMigration('mig1').catch(e => e);
+
+    expect(error).toBeInstanceOf(MigrationRollbackError);
+    expect(error.conflicts.map((conflict: { deviceId?: string; field?: string }) => [conflict.deviceId, conflict.field])).toEqual([
+      [undefined, undefined],
+      ['d2', 'name'],
+      ['d2', 'panel'],
+      ['d1', 'refresh'],
+      ['d1', 'hdr']
+    ]);
+    expect(error.conflicts[0].message).toContain('Migration mig2');
+    expect(prisma.deviceSpecification.update).not.toHaveBeenCalled();
+    expect(schemaRegistry.registerSchema).toHaveBeenCalledTimes(1); // Only the apply
+  });
+
+  it('should reject migrations that cannot be rolled back', async () => {
+    vi.mocked(prisma.schemaMigration.findUnique).mockResolvedValueOnce(null as never);
+    await expect(manager.rollbackMigration('missing')).rejects.toThrow('Migration with id missing not found');
+
+    mockApplied(null);
+    await expect(manager.rollbackMigration('mig1')).rejects.toThrow(/applied without rollback data/);
+
+    vi.mocked(prisma.schemaMigration.findUnique).mockResolvedValueOnce({ id: 'mig1', appliedAt: null } as never);
+    await expect(manager.rollbackMigration('mig1')).rejects.toThrow('Migration has not been applied yet');
+  });
+});
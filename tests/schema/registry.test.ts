@@ -3,8 +3,10 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { DeviceSchemaRegistry } from '@/lib/schema/registry';
-import { CategorySchema, FieldDefinition } from '@/lib/schema/types';
+import { DeviceSchemaRegistry, SchemaMergeConflictError } from '@/lib/schema/registry';
+import { SchemaInheritanceError } from '@/lib/schema/inheritance';
+import { fullTextSearch } from '@/lib/schema/full-text-search';
+import { CategorySchema, FieldDefinition, MigrationOperation } from '@/lib/schema/types';
 
 // Mock the database module
 vi.mock('@/lib/database', () => ({
@@ -152,6 +154,59 @@ describe('DeviceSchemaRegistry', () => {
       expect(inheritedSchema.requiredFields).toContain('specificField');
       expect(inheritedSchema.inheritedFields).toEqual(['name', 'brand']);
     });
+
+    it('should cascade added fields and reject parent changes that break overrides', async () => {
+      const field = (label: string, constraints?: FieldDefinition['constraints']): FieldDefinition =>
+        ({ type: 'number', constraints, metadata: { label, importance: 'medium', weight: 0.5 } });
+      const schema = (id: string, parentId: string | undefined, fields: Record<string, FieldDefinition>): CategorySchema =>
+        ({ id, name: id, version: '1.0.0', parentId, fields, requiredFields: [], createdAt: new Date(), updatedAt: new Date(), createdBy: 'test-user' });
+
+      registry['saveSchemaToDatabase'] = async () => {};
+      registry['generateIndexesForSchema'] = async () => {};
+      registry.schemas.set('displays', schema('displays', undefined, { refreshRate: field('Refresh Rate', { max: 360 }) }));
+      registry.schemas.set('monitors', schema('monitors', 'displays', { refreshRate: field('Refresh Rate', { max: 240 }) }));
+      registry.schemas.set('gaming-monitors', schema('gaming-monitors', 'monitors', { brightness: field('Brightness') }));
+
+      expect(registry.getDescendants('displays')).toEqual(['monitors', 'gaming-monitors']);
+
+      const error = await registry.updateSchema('displays', {
+        fields: { refreshRate: field('Refresh Rate', { max: 144 }) }
+      }).catch(e => e);
+      expect(error).toBeInstanceOf(SchemaInheritanceError);
+      expect(error.conflicts).toEqual([expect.objectContaining({ categoryId: 'monitors', field: 'refreshRate' })]);
+      expect(registry.getSchema('displays')!.version).toBe('1.0.0');
+
+      await registry.updateSchema('displays', {
+        fields: { refreshRate: field('Refresh Rate', { max: 360 }), brightness: field('Brightness'), hdr: field('HDR') }
+      });
+
+      expect(registry.getSchema('monitors')!.version).toBe('1.1.0');
+      expect(registry.getSchema('monitors')!.fields).not.toHaveProperty('hdr');
+      expect(registry.migrations.get('monitors')![0].operations.map(op => 'field' in op && op.field)).toEqual(['brightness', 'hdr']);
+      // Gaming monitors already define brightness themselves
+      expect(registry.migrations.get('gaming-monitors')![0].operations.map(op => 'field' in op && op.field)).toEqual(['hdr']);
+      expect(registry.getResolvedSchema('gaming-monitors')!.fieldSources.hdr).toEqual({ definedIn: 'displays', overriddenIn: [] });
+    });
+    it('should re-index categories whose searchable fields change', async () => {
+      const field = (label: string, searchable?: boolean): FieldDefinition =>
+        ({ type: 'string', metadata: { label, importance: 'medium', weight: 0.5, searchable } });
+      const schema = (id: string, parentId: string | undefined, fields: Record<string, FieldDefinition>): CategorySchema =>
+        ({ id, name: id, version: '1.0.0', parentId, fields, requiredFields: [], createdAt: new Date(), updatedAt: new Date(), createdBy: 'test-user' });
+      const refreshCategory = vi.spyOn(fullTextSearch, 'refreshCategory').mockResolvedValue(0);
+
+      registry['saveSchemaToDatabase'] = async () => {};
+      registry['generateIndexesForSchema'] = async () => {};
+      registry.schemas.set('audio', schema('audio', undefined, { codec: field('Codec') }));
+      registry.schemas.set('headphones', schema('headphones', 'audio', {}));
+
+      await registry.updateSchema('audio', { description: 'Audio devices' });
+      expect(refreshCategory).not.toHaveBeenCalled();
+
+      await registry.updateSchema('audio', { fields: { codec: field('Codec', true) } });
+      expect(refreshCategory.mock.calls.map(([categoryId]) => categoryId)).toEqual(['audio', 'headphones']);
+
+      refreshCategory.mockRestore();
+    });
   });
 
   describe('Schema Updates and Versioning', () => {
@@ -202,6 +257,118 @@ describe('DeviceSchemaRegistry', () => {
       expect(updatedSchema.version).toBe('1.1.0');
       expect(updatedSchema.fields).toHaveProperty('newField');
     });
+
+    it('should merge updates made against an older version or reject conflicts', async () => {
+      const field = (label: string): FieldDefinition => ({ type: 'string', metadata: { label, importance: 'medium', weight: 0.5 } });
+      const base: CategorySchema = {
+        id: 'monitors',
+        name: 'Monitors',
+        version: '1.0.0',
+        fields: { name: field('Name'), panel: field('Panel') },
+        requiredFields: ['name'],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy: 'test-user'
+      };
+
+      registry['saveSchemaToDatabase'] = async () => {};
+      registry['generateIndexesForSchema'] = async () => {};
+      registry.schemas.set('monitors', base);
+
+      // Another admin renames the panel label first
+      await registry.updateSchema('monitors', { fields: { ...base.fields, panel: field('Panel Type') } });
+      expect(registry.getSchema('monitors')!.version).toBe('1.1.0');
+
+      const merged = await registry.updateSchema(
+        'monitors',
+        { fields: { ...base.fields, hdr: field('HDR') } },
+        [],
+        { baseVersion: '1.0.0' }
+      );
+      expect(merged.version).toBe('1.2.0');
+      expect(merged.fields.panel.metadata.label).toBe('Panel Type');
+      expect(merged.fields).toHaveProperty('hdr');
+
+      const conflict = await registry.updateSchema(
+        'monitors',
+        { fields: { ...base.fields, panel: field('Panel Kind') } },
+        [],
+        { baseVersion: '1.0.0' }
+      ).catch(error => error);
+      expect(conflict).toBeInstanceOf(SchemaMergeConflictError);
+      expect(conflict.currentVersion).toBe('1.2.0');
+      expect(conflict.conflicts).toEqual([expect.objectContaining({ path: 'fields.panel.metadata.label', proposed: 'Panel Kind' })]);
+
+      // Removing a field is breaking
+      const removed = await registry.updateSchema('monitors', { fields: { name: field('Name') } }, [], { baseVersion: '1.2.0' });
+      expect(removed.version).toBe('2.0.0');
+    });
+  });
+
+  describe('Historical Schema Versions', () => {
+    const field = (label: string): FieldDefinition => ({ type: 'string', metadata: { label, importance: 'medium', weight: 0.5 } });
+    const version = (v: string, fields: string[]): CategorySchema => ({
+      id: 'monitors',
+      name: 'Monitors',
+      version: v,
+      fields: Object.fromEntries(fields.map(name => [name, field(name)])),
+      requiredFields: ['name'],
+      createdAt: new Date('2026-01-01'),
+      updatedAt: new Date('2026-01-01'),
+      createdBy: 'test-user'
+    });
+    const migration = (id: string, fromVersion: string, toVersion: string, operations: MigrationOperation[], appliedAt?: Date) =>
+      ({ id, categoryId: 'monitors', fromVersion, toVersion, operations, createdAt: new Date('2026-02-01'), appliedAt });
+
+    beforeEach(() => {
+      registry.schemas.set('monitors', version('1.2.0', ['name', 'panelType', 'hdr']));
+      registry['addSchemaSnapshot'](version('1.0.0', ['name', 'panel']), 'stored');
+      registry.migrations.set('monitors', [
+        migration('m1', '1.0.0', '1.1.0', [{ type: 'add_field', field: 'hdr', definition: field('hdr') }], new Date()),
+        migration('m2', '1.1.0', '1.2.0', [{ type: 'rename_field', oldName: 'panel', newName: 'panelType' }], new Date())
+      ]);
+    });
+
+    it('should rebuild versions from stored schemas or by replaying migrations', () => {
+      expect(Object.keys(registry.getSchema('monitors', '1.0.0')!.fields)).toEqual(['name', 'panel']);
+
+      const replayed = registry.getSchema('monitors', '1.1.0')!;
+      expect(replayed.version).toBe('1.1.0');
+      expect(Object.keys(replayed.fields)).toEqual(['name', 'panel', 'hdr']);
+      expect(replayed.createdAt).toEqual(new Date('2026-01-01'));
+
+      expect(registry.getSchema('monitors', '0.9.0')).toBeNull();
+      expect(registry.getSchema('monitors', '1.2.0')!.version).toBe('1.2.0');
+    });
+
+    it('should list known versions with their source', () => {
+      expect(registry.listSchemaVersions('monitors').map(({ version, source, migrationId }) => [version, source, migrationId]))
+        .toEqual([
+          ['1.2.0', 'current', 'm2'],
+          ['1.1.0', 'replay', 'm1'],
+          ['1.0.0', 'stored', undefined]
+        ]);
+      expect(registry.listSchemaVersions('unknown')).toEqual([]);
+    });
+
+    it('should keep replaced versions and evict least recently used rebuilds', async () => {
+      registry['saveSchemaToDatabase'] = async () => {};
+      registry['generateIndexesForSchema'] = async () => {};
+      const Cache = registry['versionCache'].constructor as new (maxEntries: number) => DeviceSchemaRegistry['versionCache'];
+      registry['versionCache'] = new Cache(2);
+
+      registry.getSchema('monitors', '1.0.0');
+      registry.getSchema('monitors', '1.1.0');
+      registry.getSchema('monitors', '1.0.0');
+      registry.getSchema('monitors', '0.9.0'); // Evicts 1.1.0
+      expect(registry['versionCache'].size).toBe(2);
+      expect(registry['versionCache'].get('monitors', '1.1.0')).toBeUndefined();
+      expect(registry['versionCache'].get('monitors', '1.0.0')).toBeDefined();
+
+      await registry.registerSchema(version('1.3.0', ['name']));
+      expect(registry['versionCache'].size).toBe(0);
+      expect(Object.keys(registry.getSchema('monitors', '1.2.0')!.fields)).toEqual(['name', 'panelType', 'hdr']);
+    });
   });
 
   describe('Compute Functions', () => {
@@ -222,6 +389,37 @@ describe('DeviceSchemaRegistry', () => {
       const volumeFunction = registry.computeFunctions.get('calculateVolume');
       expect(volumeFunction!(10, 20, 30)).toBe(6000);
     });
+
+    it('should compute values on registered schemas and reject cyclic computed fields', async () => {
+      registry['saveSchemaToDatabase'] = async () => {};
+      registry['generateIndexesForSchema'] = async () => {};
+
+      const monitors: CategorySchema = {
+        id: 'monitors',
+        name: 'Monitors',
+        version: '1.0.0',
+        fields: {
+          resolution: { type: 'string', metadata: { label: 'Resolution' } },
+          screenSize: { type: 'number', constraints: { unit: 'cm' }, metadata: { label: 'Screen Size' } }
+        },
+        requiredFields: [],
+        computedFields: { pixelDensity: 'calculatePixelDensity' },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy: 'test-user'
+      };
+      await registry.registerSchema(monitors);
+
+      expect(registry.computeValues('monitors', { resolution: '2560x1440', screenSize: 68.58 }).values)
+        .toEqual({ pixelDensity: 109 });
+
+      await expect(registry.registerSchema({
+        ...monitors,
+        version: '1.1.0',
+        computedFields: { a: 'calculatePowerDensity(power, b)', b: 'calculatePowerDensity(power, a)' }
+      })).rejects.toThrow('Computed fields form a cycle');
+      expect(registry.getSchema('monitors')!.version).toBe('1.0.0');
+    });
   });
 
   describe('Schema Hierarchy', () => {
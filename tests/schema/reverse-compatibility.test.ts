@@ -0,0 +1,297 @@
+/**
+ * Tests for the Reverse Compatibility Search
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ReverseCompatibilitySearch,
+  ruleToSqlPredicate,
+  renderSql
+} from '@/lib/schema/reverse-compatibility';
+import { compatibilityEngine } from '@/lib/schema/compatibility';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { CategorySchema, CompatibilityRuleDefinition, DeviceSpecification } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    getSchema: vi.fn()
+  }
+}));
+
+// Mock the compatibility engine
+vi.mock('@/lib/schema/compatibility', () => ({
+  compatibilityEngine: {
+    getDeviceSpecification: vi.fn(),
+    getCategoryPairRules: vi.fn(),
+    getRuleProcessorName: vi.fn((rule: { name: string }) =>
+      rule.name.endsWith('_compatibility') ? rule.name : 'default'
+    ),
+    checkCompatibility: vi.fn()
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    $queryRawUnsafe: vi.fn(),
+    device: { findMany: vi.fn() },
+    deviceStandard: { findMany: vi.fn() },
+    compatibilityRule: { findMany: vi.fn() }
+  }
+}));
+
+const consoleSchema = {
+  id: 'consoles',
+  fields: {
+    maxResolution: { type: 'string', metadata: { label: 'Max Resolution' } },
+    outputPorts: { type: 'array', metadata: { label: 'Output Ports' } },
+    screenSize: { type: 'number', constraints: { unit: 'inches' }, metadata: { label: 'Screen Size' } }
+  }
+} as unknown as CategorySchema;
+
+const monitorSchema = {
+  id: 'monitors',
+  fields: {
+    screenSize: { type: 'number', constraints: { unit: 'inches' }, metadata: { label: 'Screen Size' } },
+    widthMm: { type: 'number', constraints: { unit: 'mm' }, metadata: { label: 'Width' } },
+    inputPorts: { type: 'array', metadata: { label: 'Input Ports' } },
+    panelType: { type: 'enum', constraints: { options: ['IPS', 'VA'] }, metadata: { label: 'Panel' } },
+    hdr: { type: 'boolean', defaultValue: false, metadata: { label: 'HDR' } }
+  }
+} as unknown as CategorySchema;
+
+const consoleSpec: DeviceSpecification = {
+  deviceId: 'ps5',
+  categoryId: 'consoles',
+  schemaVersion: '1.0.0',
+  specifications: { maxResolution: '4K', outputPorts: ['HDMI 2.1'], screenSize: 0, widthCm: 39 },
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const rule = (condition: string, extra: Partial<CompatibilityRuleDefinition> = {}): CompatibilityRuleDefinition => ({
+  id: 'rule1',
+  name: 'Custom rule',
+  description: '',
+  sourceField: 'outputPorts',
+  targetField: 'inputPorts',
+  condition,
+  compatibilityType: 'full',
+  message: 'Compatible',
+  ...extra
+});
+
+const translate = (condition: string, extra?: Partial<CompatibilityRuleDefinition>) => {
+  const predicate = ruleToSqlPredicate(rule(condition, extra), consoleSpec, consoleSchema, monitorSchema);
+  return predicate ? { ...renderSql(predicate), exact: predicate.exact } : null;
+};
+
+describe('Reverse Compatibility Search', () => {
+  describe('Rule Translation', () => {
+    it('should fold source values and convert units to the target field', () => {
+      const result = translate('targetDevice.widthMm >= sourceDevice.widthCm * 10');
+
+      expect(result!.text).toContain("jsonb_typeof(ds.specifications -> $1::text) = 'number'");
+      expect(result!.text).toMatch(/>= \$3::numeric, false\)$/);
+      expect(result!.params).toEqual(['widthMm', 'widthMm', 390]);
+
+      expect(translate('targetDevice.screenSize >= 60cm')!.params[2]).toBeCloseTo(23.622, 3);
+    });
+
+    it('should fall back to device columns for base fields', () => {
+      const result = translate('targetDevice.powerWatts <= 200');
+
+      expect(result!.text).toContain('COALESCE(CASE WHEN');
+      expect(result!.text).toContain('d.power_watts::numeric');
+    });
+
+    it('should translate membership tests into JSONB containment', () => {
+      const result = translate('"HDMI 2.1" in target');
+
+      expect(result!.text).toBe('COALESCE((ds.specifications -> $1::text) @> $2::jsonb, false)');
+      expect(result!.params).toEqual(['inputPorts', '["HDMI 2.1"]']);
+
+      expect(translate('targetDevice.panelType in ["IPS", "OLED"]')!.text).toContain('= ANY($2::text[])');
+    });
+
+    it('should use schema defaults for missing values', () => {
+      const result = translate('targetDevice.hdr == false');
+
+      expect(result!.text).toBe('COALESCE(COALESCE(ds.specifications -> $1::text, $2::jsonb) = $3::jsonb, false)');
+      expect(result!.params).toEqual(['hdr', 'false', 'false']);
+    });
+
+    it('should keep boolean structure and only drop untranslatable conjuncts', () => {
+      const both = translate('"HDMI 2.1" in target and not (targetDevice.panelType == "VA")');
+      expect(both!.text).toMatch(/^\(COALESCE.* AND \(NOT COALESCE.*\)\)$/);
+      expect(both!.exact).toBe(true);
+
+      const partial = translate('"HDMI 2.1" in target and overlaps(source, target)');
+      expect(partial!.text).toBe('COALESCE((ds.specifications -> $1::text) @> $2::jsonb, false)');
+      expect(partial!.exact).toBe(false);
+
+      // Negating a widened predicate would exclude compatible devices
+      expect(translate('not ("HDMI 2.1" in target and overlaps(source, target))')).toBeNull();
+      expect(translate('"HDMI 2.1" in target or overlaps(source, target)')).toBeNull();
+    });
+
+    it('should treat missing values like the evaluator', () => {
+      expect(translate('targetDevice.panelType != "VA"')!.text).toMatch(/<> \$\d+::text, true\)$/);
+      expect(translate('targetDevice.screenSize < 30')!.text).toMatch(/< \$\d+::numeric, false\)$/);
+    });
+
+    it('should evaluate source-only conditions up front', () => {
+      expect(translate('lower(sourceDevice.maxResolution) == "8k" or "HDMI 2.1" in target')!.text).toContain('(FALSE OR COALESCE');
+      expect(translate('len(source) > 0')).toBeNull();
+    });
+
+    it('should skip rules that cannot exclude anything', () => {
+      expect(translate('overlaps(source, target)')).toBeNull();
+      expect(translate('"HDMI 2.1" in target', { compatibilityType: 'none' })).toBeNull();
+      expect(translate('targetDevice.screenSize > 10W')).toBeNull();
+    });
+  });
+
+  describe('Search', () => {
+    let search: ReverseCompatibilitySearch;
+
+    const result = (compatible: 'full' | 'partial' | 'none', confidence: number) => ({
+      compatible,
+      confidence,
+      details: '',
+      limitations: [],
+      recommendations: [],
+      matchedRules: [],
+      fieldCompatibility: {}
+    });
+
+    beforeEach(() => {
+      search = new ReverseCompatibilitySearch();
+      vi.clearAllMocks();
+
+      vi.mocked(compatibilityEngine.getDeviceSpecification).mockResolvedValue(consoleSpec);
+      vi.mocked(schemaRegistry.getSchema).mockImplementation((id: string) =>
+        (id === 'consoles' ? consoleSchema : monitorSchema) as never
+      );
+      vi.mocked(compatibilityEngine.getCategoryPairRules).mockResolvedValue([
+        rule('"HDMI 2.1" in target'),
+        rule('true', { id: 'ports', name: 'connector_compatibility' })
+      ]);
+      vi.mocked(prisma.deviceStandard.findMany).mockResolvedValue([
+        { deviceId: 'ps5', standardId: 'hdmi-2.1', portCount: 1, verified: true, standard: { name: 'HDMI 2.1', category: 'video', version: '2.1' } }
+      ] as never);
+      vi.mocked(prisma.compatibilityRule.findMany).mockResolvedValue([
+        { standardAId: 'hdmi-2.1', standardBId: 'hdmi-2.0' }
+      ] as never);
+      vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([
+        { id: 'm1', compatibility_type: null, confidence: null },
+        { id: 'm2', compatibility_type: null, confidence: null },
+        { id: 'm3', compatibility_type: null, confidence: null }
+      ] as never);
+      vi.mocked(prisma.device.findMany).mockImplementation(((args: { where: { id: { in: string[] } } }) =>
+        Promise.resolve(args.where.id.in.map(id => ({ id, name: `Monitor ${id}`, brand: 'Acme', model: null, verified: true })))
+      ) as never);
+    });
+
+    const candidateQuery = () => {
+      const [text, ...params] = vi.mocked(prisma.$queryRawUnsafe).mock.calls[0];
+      return { text: text as string, params };
+    };
+
+    const checkedIds = () => vi.mocked(compatibilityEngine.checkCompatibility).mock.calls.map((call: unknown[]) => call[1]);
+
+    it('should prefilter in SQL and rank the checked candidates', async () => {
+      vi.mocked(compatibilityEngine.checkCompatibility).mockImplementation((async (_source: string, target: string) =>
+        ({ m1: result('partial', 0.9), m2: result('full', 0.7), m3: result('none', 0.8) } as Record<string, ReturnType<typeof result>>)[target]
+      ) as never);
+
+      const found = await search.findCompatibleDevices('ps5', { targetCategoryId: 'monitors' });
+
+      const { text, params } = candidateQuery();
+      expect(text).toContain('WHERE ds.category_id = $2 AND d.id <> $3');
+      expect(text).toContain('@>');
+      expect(text).toContain('s.standard_id = ANY(');
+      expect(text).toMatch(/ORDER BY d\.verified DESC, d\.confidence_score DESC, d\.id$/);
+      expect(text).not.toContain('LIMIT');
+      expect(params).toContainEqual(['hdmi-2.1', 'hdmi-2.0']);
+
+      expect(found.prefilteredRules).toEqual(['rule1', 'ports']);
+      expect(found.devices.map(device => [device.deviceId, device.compatible])).toEqual([['m2', 'full'], ['m1', 'partial']]);
+      expect(found.pagination).toEqual({ total: 2, limit: 20, offset: 0, hasMore: false });
+      expect(found.candidatesChecked).toBe(3);
+      expect(compatibilityEngine.checkCompatibility).toHaveBeenCalledWith('ps5', 'm1', undefined, { fresh: undefined });
+    });
+
+    it('should only check candidates without a stored result and leave out those below the minimum', async () => {
+      vi.mocked(compatibilityEngine.checkCompatibility).mockResolvedValue(result('full', 0.9));
+
+      await search.findCompatibleDevices('ps5', { targetCategoryId: 'monitors', minCompatibility: 'full' });
+
+      const { text, params } = candidateQuery();
+      expect(text).toContain('LEFT JOIN compatibility_results cr ON cr.source_device_id = $1');
+      expect(text).toContain("AND cr.context_key = ''");
+      expect(text).toContain('AND (cr.id IS NULL OR cr.compatibility_type = ANY(');
+      expect(params).toContainEqual(['full']);
+
+      vi.mocked(prisma.$queryRawUnsafe).mockClear();
+      await search.findCompatibleDevices('ps5', { targetCategoryId: 'monitors', fresh: true });
+      expect(candidateQuery().text).not.toContain('compatibility_results');
+    });
+
+    it('should rank stored and checked results together and cut full pages', async () => {
+      vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([
+        { id: 'm1', compatibility_type: 'partial', confidence: 0.9 },
+        { id: 'm2', compatibility_type: null, confidence: null },
+        { id: 'm3', compatibility_type: 'full', confidence: 0.6 },
+        { id: 'm4', compatibility_type: null, confidence: null },
+        { id: 'm5', compatibility_type: null, confidence: null },
+        { id: 'm6', compatibility_type: 'full', confidence: 0.8 }
+      ] as never);
+      const results: Record<string, ReturnType<typeof result>> = {
+        m1: result('partial', 0.9),
+        m2: result('none', 0.9),
+        m3: result('full', 0.6),
+        m4: result('full', 0.95),
+        m5: result('none', 0.5),
+        m6: result('full', 0.8)
+      };
+      vi.mocked(compatibilityEngine.checkCompatibility).mockImplementation((async (_source: string, target: string) =>
+        results[target]) as never);
+
+      const first = await search.findCompatibleDevices('ps5', { targetCategoryId: 'monitors', limit: 2 });
+
+      // The misses of the first candidates do not shorten the page
+      expect(first.devices.map(device => device.deviceId)).toEqual(['m4', 'm6']);
+      expect(first.pagination).toEqual({ total: 4, limit: 2, offset: 0, hasMore: true });
+      expect(first.candidatesChecked).toBe(3);
+      expect(checkedIds()).toEqual(['m2', 'm4', 'm5', 'm6']);
+
+      vi.mocked(compatibilityEngine.checkCompatibility).mockClear();
+      const second = await search.findCompatibleDevices('ps5', { targetCategoryId: 'monitors', limit: 2, offset: 2 });
+
+      expect(second.devices.map(device => device.deviceId)).toEqual(['m3', 'm1']);
+      expect(second.pagination).toEqual({ total: 4, limit: 2, offset: 2, hasMore: false });
+      expect(checkedIds()).toEqual(['m2', 'm4', 'm5', 'm3', 'm1']);
+    });
+
+    it('should skip candidates that fail to check', async () => {
+      vi.mocked(compatibilityEngine.checkCompatibility)
+        .mockRejectedValueOnce(new Error('Device specification not found'))
+        .mockResolvedValue(result('full', 0.9));
+
+      const found = await search.findCompatibleDevices('ps5', { targetCategoryId: 'monitors' });
+      expect(found.devices.map(device => device.deviceId)).toEqual(['m2', 'm3']);
+    });
+
+    it('should fail when the target category has no schema', async () => {
+      vi.mocked(schemaRegistry.getSchema).mockImplementation((id: string) =>
+        (id === 'consoles' ? consoleSchema : undefined) as never
+      );
+
+      await expect(search.findCompatibleDevices('ps5', { targetCategoryId: 'unknown' }))
+        .rejects.toThrow('Schema not found');
+    });
+  });
+});
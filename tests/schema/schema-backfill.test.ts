@@ -0,0 +1,191 @@
+/**
+ * Tests for the schema migration backfill job
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SchemaBackfillManager } from '@/lib/schema/backfill';
+import { SchemaValidator } from '@/lib/schema/validator';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { fullTextSearch } from '@/lib/schema/full-text-search';
+import { CategorySchema, MigrationOperation } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    getSchema: vi.fn(),
+    computeValues: vi.fn(() => ({ values: {}, errors: [] }))
+  }
+}));
+
+// Mock the search documents
+vi.mock('@/lib/schema/full-text-search', () => ({
+  fullTextSearch: {
+    refreshDevices: vi.fn()
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => {
+  const prisma = {
+    $transaction: vi.fn(),
+    schemaBackfillJob: { findUnique: vi.fn(), update: vi.fn(), upsert: vi.fn(), updateMany: vi.fn() },
+    deviceSpecification: { count: vi.fn(), findMany: vi.fn(), update: vi.fn() }
+  };
+  prisma.$transaction.mockImplementation((callback: (tx: typeof prisma) => unknown) => callback(prisma));
+
+  return {
+    prisma,
+    NotFoundError: class NotFoundError extends Error {
+      constructor(resource: string, id?: string) {
+        super(`${resource}${id ? ` with id ${id}` : ''} not found`);
+        this.name = 'NotFoundError';
+      }
+    },
+    ValidationError: class ValidationError extends Error {
+      constructor(message: string) {
+        super(message);
+        this.name = 'ValidationError';
+      }
+    }
+  };
+});
+
+const field = (label: string, type: 'string' | 'number' = 'string') =>
+  ({ type, metadata: { label, importance: 'medium' as const, weight: 0.5 } });
+
+const schema: CategorySchema = {
+  id: 'monitors',
+  name: 'Monitors',
+  version: '1.1.0',
+  fields: { name: field('Name'), panelType: field('Panel'), size: field('Size', 'number') },
+  requiredFields: ['name'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'system'
+};
+
+const operations: MigrationOperation[] = [
+  { type: 'rename_field', oldName: 'panel', newName: 'panelType' }
+];
+
+describe('SchemaBackfillManager', () => {
+  let backfill: SchemaBackfillManager;
+  let job: Record<string, unknown>;
+  let specs: Array<{ id: string; deviceId: string; schemaVersion: string; specifications: Record<string, unknown> }>;
+
+  beforeEach(() => {
+    backfill = new SchemaBackfillManager();
+    vi.clearAllMocks();
+
+    job = {
+      id: 'job1', migrationId: 'mig1', categoryId: 'monitors', fromVersion: '1.0.0', toVersion: '1.1.0',
+      status: 'pending', batchSize: 2, cursor: null, totalCount: 3, processedCount: 0, failedCount: 0,
+      invalidCount: 0, failures: [], lastError: null, startedAt: null, completedAt: null,
+      createdAt: new Date(), updatedAt: new Date(),
+      migration: { id: 'mig1', categoryId: 'monitors', fromVersion: '1.0.0', toVersion: '1.1.0', operations, appliedAt: new Date() }
+    };
+    specs = [
+      { id: 's1', deviceId: 'd1', schemaVersion: '1.0.0', specifications: { name: 'A', panel: 'IPS', size: 27 } },
+      { id: 's2', deviceId: 'd2', schemaVersion: '1.0.0', specifications: { name: 'B', panel: 'VA', size: 'large' } },
+      { id: 's3', deviceId: 'd3', schemaVersion: '1.0.0', specifications: { name: 'C', panel: 'OLED' } }
+    ];
+
+    vi.mocked(schemaRegistry.getSchema).mockReturnValue(schema);
+    vi.mocked(prisma.schemaBackfillJob.findUnique).mockImplementation((() => Promise.resolve({ ...job })) as never);
+    vi.mocked(prisma.schemaBackfillJob.update).mockImplementation((({ data }: { data: Record<string, unknown> }) => {
+      for (const [key, value] of Object.entries(data)) {
+        job[key] = value && typeof value === 'object' && 'increment' in value
+          ? (job[key] as number) + (value as { increment: number }).increment
+          : value;
+      }
+      return Promise.resolve({ ...job });
+    }) as never);
+    vi.mocked(prisma.deviceSpecification.findMany).mockImplementation((({ where, take }: {
+      where: { schemaVersion: string; id?: { gt: string } };
+      take: number;
+    }) => Promise.resolve(specs
+      .filter(spec => spec.schemaVersion === where.schemaVersion && (!where.id || spec.id > where.id.gt))
+      .slice(0, take)
+    )) as never);
+    vi.mocked(prisma.deviceSpecification.update).mockImplementation((({ where, data }: {
+      where: { id: string };
+      data: { schemaVersion: string; specifications: Record<string, unknown> };
+    }) => {
+      const spec = specs.find(candidate => candidate.id === where.id)!;
+      Object.assign(spec, { schemaVersion: data.schemaVersion, specifications: data.specifications });
+      return Promise.resolve(spec);
+    }) as never);
+  });
+
+  it('should create a job covering specifications at the source version', async () => {
+    vi.mocked(prisma.deviceSpecification.count).mockResolvedValue(3 as never);
+    vi.mocked(prisma.schemaBackfillJob.upsert).mockResolvedValue(job as never);
+
+    const created = await backfill.createJob({ id: 'mig1', categoryId: 'monitors', fromVersion: '1.0.0', toVersion: '1.1.0' }, 2);
+
+    expect(prisma.deviceSpecification.count).toHaveBeenCalledWith({
+      where: { categoryId: 'monitors', schemaVersion: '1.0.0' }
+    });
+    expect(vi.mocked(prisma.schemaBackfillJob.upsert).mock.calls[0][0]).toMatchObject({
+      where: { migrationId: 'mig1' },
+      update: { status: 'pending', batchSize: 2, cursor: null, totalCount: 3, processedCount: 0 }
+    });
+    expect(created).toMatchObject({ id: 'job1', status: 'pending', cursor: undefined });
+
+    await expect(backfill.createJob({ id: 'mig1', categoryId: 'monitors', fromVersion: '1.0.0', toVersion: '1.1.0' }, 0))
+      .rejects.toThrow('Backfill batch size must be a positive integer');
+  });
+
+  it('should rewrite, validate and bump every specification in batches', async () => {
+    const result = await backfill.runJob('job1');
+
+    expect(result).toMatchObject({ status: 'completed', processedCount: 3, failedCount: 0, invalidCount: 1, cursor: 's3' });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(3); // Two batches and the empty check
+    expect(specs.map(spec => spec.schemaVersion)).toEqual(['1.1.0', '1.1.0', '1.1.0']);
+    expect(specs[0].specifications).toEqual({ name: 'A', panelType: 'IPS', size: 27 });
+
+    const stored = vi.mocked(prisma.deviceSpecification.update).mock.calls.map((call: Array<{ data: { validationErrors: unknown } }>) => call[0].data.validationErrors);
+    expect(stored[0]).toEqual([]);
+    expect(stored[1]).toEqual([expect.objectContaining({ field: 'size', severity: 'error' })]);
+
+    // Each batch rebuilds the search documents of its rewrites in the same transaction
+    expect(vi.mocked(fullTextSearch.refreshDevices).mock.calls.map(call => call.slice(0, 2)))
+      .toEqual([[['d1', 'd2'], 'monitors'], [['d3'], 'monitors']]);
+    expect(vi.mocked(fullTextSearch.refreshDevices).mock.calls[0][2]).toBe(prisma);
+  });
+
+  it('should resume from the last committed batch', async () => {
+    const first = await backfill.runJob('job1', { maxBatches: 1 });
+    expect(first).toMatchObject({ status: 'running', processedCount: 2, cursor: 's2' });
+
+    const resumed = await backfill.runJob('job1');
+    expect(resumed).toMatchObject({ status: 'completed', processedCount: 3 });
+    expect(vi.mocked(prisma.deviceSpecification.findMany).mock.calls[1][0].where).toMatchObject({ id: { gt: 's2' } });
+  });
+
+  it('should record failures and stop when cancelled', async () => {
+    const validate = vi.spyOn(SchemaValidator.prototype, 'validateSpecification').mockImplementationOnce(() => {
+      throw new Error('Validator crashed');
+    });
+
+    const first = await backfill.runJob('job1', { maxBatches: 1 });
+    expect(first).toMatchObject({ failedCount: 1, failures: [{ deviceId: 'd1', message: 'Validator crashed' }] });
+    expect(specs[0].schemaVersion).toBe('1.0.0');
+
+    job.status = 'cancelled';
+    const cancelled = await backfill.runJob('job1');
+    expect(cancelled.status).toBe('cancelled');
+    expect(prisma.deviceSpecification.update).toHaveBeenCalledTimes(1);
+    validate.mockRestore();
+  });
+
+  it('should fail the job when the target schema is not registered', async () => {
+    vi.mocked(schemaRegistry.getSchema).mockReturnValue(null);
+
+    const result = await backfill.runJob('job1');
+
+    expect(result).toMatchObject({ status: 'failed', lastError: 'Schema monitors version 1.1.0 is not registered' });
+    expect(prisma.deviceSpecification.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for multi-level schema inheritance
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SchemaInheritanceResolver } from '@/lib/schema/inheritance';
+import { CategorySchema, FieldDefinition } from '@/lib/schema/types';
+
+const field = (label: string, type: FieldDefinition['type'] = 'number', constraints?: FieldDefinition['constraints']): FieldDefinition =>
+  ({ type, constraints, metadata: { label, importance: 'medium', weight: 0.5 } });
+
+const schema = (id: string, parentId: string | undefined, fields: Record<string, FieldDefinition>, requiredFields: string[] = []): CategorySchema => ({
+  id,
+  name: id,
+  version: '1.0.0',
+  parentId,
+  fields,
+  requiredFields,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'test-user'
+});
+
+describe('SchemaInheritanceResolver', () => {
+  let resolver: SchemaInheritanceResolver;
+  let schemas: Map<string, CategorySchema>;
+  const lookup = (id: string) => schemas.get(id) || null;
+
+  beforeEach(() => {
+    resolver = new SchemaInheritanceResolver();
+    schemas = new Map([
+      ['displays', schema('displays', undefined, {
+        name: field('Name', 'string'),
+        refreshRate: field('Refresh Rate', 'number', { min: 24, max: 360, unit: 'Hz' })
+      }, ['name'])],
+      ['monitors', schema('monitors', 'displays', {
+        refreshRate: field('Refresh Rate', 'number', { min: 60 }),
+        panel: field('Panel', 'enum', { enum: ['IPS', 'VA', 'OLED'] })
+      })],
+      ['gaming-monitors', schema('gaming-monitors', 'monitors', {
+        refreshRate: field('Refresh Rate', 'number', { min: 120, max: 360 }),
+        panel: field('Panel', 'enum', { enum: ['IPS', 'OLED'] })
+      }, ['refreshRate'])]
+    ]);
+  });
+
+  it('should resolve fields across every ancestor and track their sources', () => {
+    const resolved = resolver.resolve(schemas.get('gaming-monitors')!, lookup);
+
+    expect(resolved.ancestors).toEqual(['displays', 'monitors']);
+    expect(Object.keys(resolved.fields)).toEqual(['name', 'refreshRate', 'panel']);
+    expect(resolved.fields.refreshRate.constraints).toEqual({ min: 120, max: 360, unit: 'Hz' });
+    expect(resolved.fieldSources).toEqual({
+      name: { definedIn: 'displays', overriddenIn: [] },
+      refreshRate: { definedIn: 'displays', overriddenIn: ['monitors', 'gaming-monitors'] },
+      panel: { definedIn: 'monitors', overriddenIn: ['gaming-monitors'] }
+    });
+    expect(resolved.requiredFields).toEqual(['name', 'refreshRate']);
+    expect(resolved.inheritedFields).toEqual(['name', 'refreshRate', 'panel']);
+    expect(Object.keys(resolved.localFields)).toEqual(['refreshRate', 'panel']);
+    expect(resolved.inheritanceConflicts).toEqual([]);
+  });
+
+  it('should report overrides that widen an inherited field', () => {
+    schemas.set('gaming-monitors', schema('gaming-monitors', 'monitors', {
+      refreshRate: field('Refresh Rate', 'number', { min: 30, max: 500, unit: 'kHz' }),
+      panel: field('Panel', 'string')
+    }));
+
+    const conflicts = resolver.resolve(schemas.get('gaming-monitors')!, lookup).inheritanceConflicts;
+
+    expect(conflicts.map(conflict => conflict.message)).toEqual([
+      'gaming-monitors override of refreshRate lowers min from 60 to 30',
+      'gaming-monitors override of refreshRate raises max from 360 to 500',
+      'gaming-monitors override of refreshRate changes unit from Hz to kHz',
+      'gaming-monitors override of panel changes type from enum to string'
+    ]);
+  });
+
+  it('should reject missing parents and cycles', () => {
+    schemas.set('displays', schema('displays', 'gaming-monitors', {}));
+    expect(() => resolver.resolve(schemas.get('monitors')!, lookup)).toThrow('Circular inheritance detected');
+
+    expect(() => resolver.resolve(schema('tvs', 'screens', {}), lookup)).toThrow('Parent schema not found: screens');
+  });
+});
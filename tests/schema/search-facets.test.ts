@@ -0,0 +1,121 @@
+/**
+ * Tests for disjunctive search facets
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SearchFacets } from '@/lib/schema/search-facets';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { CategorySchema, ResolvedCategorySchema } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    initialize: vi.fn(),
+    getResolvedSchema: vi.fn()
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    $queryRawUnsafe: vi.fn()
+  }
+}));
+
+const monitorSchema = {
+  id: 'monitors',
+  fields: {
+    screenSize: { type: 'number', constraints: { unit: 'in' }, metadata: { label: 'Screen Size' } },
+    panelType: { type: 'enum', constraints: { enum: ['IPS', 'VA', 'OLED'] }, metadata: { label: 'Panel' } },
+    hdr: { type: 'boolean', metadata: { label: 'HDR' } },
+    model: { type: 'string', metadata: { label: 'Model' } },
+    vesa: { type: 'boolean', metadata: { label: 'VESA', deprecated: true } }
+  }
+} as unknown as CategorySchema;
+
+describe('Search Facets', () => {
+  let facets: SearchFacets;
+
+  // SQL and parameters of the facet query whose text contains a marker
+  const facetQuery = (marker: string) => {
+    const call = vi.mocked(prisma.$queryRawUnsafe).mock.calls.find((call: unknown[]) => (call[0] as string).includes(marker));
+    return { text: call![0] as string, params: call!.slice(1) };
+  };
+
+  beforeEach(() => {
+    facets = new SearchFacets();
+    vi.clearAllMocks();
+    vi.mocked(schemaRegistry.getResolvedSchema).mockReturnValue(monitorSchema as ResolvedCategorySchema);
+    vi.mocked(prisma.$queryRawUnsafe).mockImplementation((text: string) => {
+      if (text.includes('d.brand AS name')) return Promise.resolve([{ name: 'LG', count: 7 }, { name: 'Dell', count: 3 }]);
+      if (text.includes('d.verified AS value')) return Promise.resolve([{ value: true, count: 4 }, { value: false, count: 6 }]);
+      if (text.includes("'panelType'")) return Promise.resolve([{ value: 'OLED', count: 5 }, { value: 'IPS', count: 2 }]);
+      if (text.includes("'hdr'")) return Promise.resolve([{ value: 'true', count: 8 }]);
+      if (text.includes("'screenSize'")) {
+        return Promise.resolve([
+          { bucket: 1, count: 2, lo: 24, hi: 34 },
+          { bucket: 4, count: 5, lo: 24, hi: 34 },
+          { bucket: 10, count: 1, lo: 24, hi: 34 }
+        ]);
+      }
+      return Promise.resolve([{ id: 'monitors', name: 'Monitors', count: 10 }]);
+    });
+  });
+
+  it('should count each facet without its own filter', async () => {
+    await facets.build('oled', {
+      categoryId: 'monitors',
+      brand: 'LG',
+      verified: true,
+      specifications: { panelType: 'OLED', screenSize: { min: 27 } }
+    });
+
+    const brands = facetQuery('d.brand AS name');
+    expect(brands.text).not.toContain('d.brand =');
+    expect(brands.text).toContain('d.verified =');
+    expect(brands.params).toEqual(expect.arrayContaining(['monitors', true, '"OLED"', 27]));
+
+    const verified = facetQuery('d.verified AS value');
+    expect(verified.text).toContain('d.brand =');
+    expect(verified.text).not.toContain('d.verified =');
+
+    const categories = facetQuery('JOIN device_categories dc');
+    expect(categories.text).not.toContain('d.category_id =');
+    expect(categories.text).not.toContain('device_specifications');
+    expect(categories.params).toEqual(expect.arrayContaining(['LG', true]));
+
+    const panelType = facetQuery("(specifications ->> 'panelType') AS value");
+    expect(panelType.text).not.toContain("(specifications -> 'panelType') @>");
+    expect(panelType.params).toContain(27);
+    expect(panelType.params).not.toContain('"OLED"');
+  });
+
+  it('should count enum options, boolean values and histogram buckets', async () => {
+    const result = await facets.build('', { categoryId: 'monitors' });
+
+    expect(result.brands).toEqual([{ name: 'LG', count: 7 }, { name: 'Dell', count: 3 }]);
+    expect(result.verified).toEqual({ true: 4, false: 6 });
+    expect(Object.keys(result.specifications)).toEqual(['screenSize', 'panelType', 'hdr']);
+    expect(result.specifications.panelType).toMatchObject({ type: 'enum', counts: { IPS: 2, VA: 0, OLED: 5 } });
+    expect(result.specifications.hdr).toEqual({ type: 'boolean', label: 'HDR', counts: { true: 8, false: 0 } });
+
+    const screenSize = result.specifications.screenSize;
+    expect(screenSize).toMatchObject({ type: 'range', unit: 'in', min: 24, max: 34 });
+    expect(screenSize.type === 'range' && screenSize.buckets.map(bucket => bucket.count))
+      .toEqual([2, 0, 0, 5, 0, 0, 0, 0, 0, 1]);
+    expect(screenSize.type === 'range' && screenSize.buckets[3]).toEqual({ min: 27, max: 28, count: 5 });
+
+    // Specification facets join the category's specifications without filtering on them
+    expect(facetQuery("'hdr'").text).toContain("ds.category_id = 'monitors'");
+  });
+
+  it('should skip specification facets without a category', async () => {
+    vi.mocked(schemaRegistry.getResolvedSchema).mockReturnValue(null);
+
+    const result = await facets.build('tv', {});
+
+    expect(result.specifications).toEqual({});
+    expect(prisma.$queryRawUnsafe).toHaveBeenCalledTimes(3);
+  });
+});
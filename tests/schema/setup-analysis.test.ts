@@ -0,0 +1,226 @@
+/**
+ * Tests for the Setup Analyzer
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SetupAnalyzer } from '@/lib/schema/setup-analysis';
+import { compatibilityEngine } from '@/lib/schema/compatibility';
+import { prisma } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    getSchema: vi.fn().mockReturnValue(null)
+  }
+}));
+
+// Mock the compatibility engine
+vi.mock('@/lib/schema/compatibility', () => ({
+  compatibilityEngine: {
+    checkCompatibility: vi.fn()
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    userDevice: { findMany: vi.fn() },
+    deviceStandard: { findMany: vi.fn() },
+    compatibilityRule: { findMany: vi.fn() }
+  },
+  NotFoundError: class NotFoundError extends Error {
+    constructor(resource: string, id?: string) {
+      super(`${resource} with id ${id} not found`);
+    }
+  }
+}));
+
+const standards: Record<string, { name: string; category: string; version: string | null; specifications?: unknown }> = {
+  hdmi: { name: 'HDMI 2.1', category: 'video', version: '2.1' },
+  usb: { name: 'USB 3.0', category: 'data', version: '3.0', specifications: { bandwidthGbps: 5 } },
+  ac: { name: 'AC Outlet', category: 'power', version: null }
+};
+
+interface TestDevice {
+  id: string;
+  name: string;
+  category?: string;
+  powerWatts?: number | null;
+  specifications?: Record<string, unknown>;
+  standards: Array<[string, number]>;
+}
+
+const compatible = (level: 'full' | 'partial' | 'none' = 'full') => ({
+  compatible: level,
+  confidence: 0.9,
+  details: '',
+  limitations: [],
+  recommendations: [],
+  matchedRules: [],
+  fieldCompatibility: {}
+});
+
+function mockLibrary(devices: TestDevice[]) {
+  vi.mocked(prisma.userDevice.findMany).mockResolvedValue(devices.map(device => ({
+    id: `ud-${device.id}`,
+    deviceId: device.id,
+    nickname: null,
+    device: {
+      id: device.id,
+      name: device.name,
+      categoryId: device.category || 'electronics',
+      category: { name: device.category || 'Electronics' },
+      powerWatts: device.powerWatts ?? null,
+      deviceSpecification: { specifications: device.specifications || {} }
+    }
+  })) as never);
+
+  vi.mocked(prisma.deviceStandard.findMany).mockResolvedValue(devices.flatMap(device =>
+    device.standards.map(([standardId, portCount]) => ({
+      deviceId: device.id,
+      standardId,
+      portCount,
+      verified: true,
+      standard: standards[standardId]
+    }))
+  ) as never);
+}
+
+describe('SetupAnalyzer', () => {
+  let analyzer: SetupAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new SetupAnalyzer();
+    vi.clearAllMocks();
+
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user1' } as never);
+    vi.mocked(prisma.compatibilityRule.findMany).mockResolvedValue([] as never);
+    vi.mocked(compatibilityEngine.checkCompatibility).mockResolvedValue(compatible() as never);
+  });
+
+  it('should connect peripherals to hubs and check each edge', async () => {
+    mockLibrary([
+      { id: 'console', name: 'Console', powerWatts: 200, standards: [['hdmi', 1], ['ac', 1]] },
+      { id: 'tv', name: 'TV', powerWatts: 150, standards: [['hdmi', 3], ['ac', 1]] },
+      { id: 'soundbar', name: 'Soundbar', powerWatts: 30, standards: [['hdmi', 2], ['ac', 1]] }
+    ]);
+
+    const analysis = await analyzer.analyzeSetup('user1');
+
+    const connected = analysis.edges.filter(edge => edge.connected);
+    expect(connected.map(edge => `${edge.sourceDeviceId}>${edge.targetDeviceId}`))
+      .toEqual(['console>tv', 'soundbar>tv']);
+
+    // The console's only HDMI port is taken by the TV
+    const alternative = analysis.edges.find(edge => !edge.connected)!;
+    expect(alternative).toMatchObject({ sourceDeviceId: 'console', targetDeviceId: 'soundbar' });
+
+    // The second device on the TV is checked with the port already in use
+    expect(compatibilityEngine.checkCompatibility).toHaveBeenCalledWith(
+      'soundbar', 'tv', { portUsage: { hdmi: 1 } }, { fresh: undefined }
+    );
+
+    expect(analysis.ports.find(p => p.deviceId === 'tv')).toMatchObject({ ports: 3, used: 2, requested: 2 });
+    expect(analysis.warnings).toEqual([]);
+    expect(analysis.compatible).toBe('full');
+  });
+
+  it('should warn when a hub runs out of ports', async () => {
+    mockLibrary([
+      { id: 'tv', name: 'TV', powerWatts: 100, standards: [['hdmi', 2]] },
+      { id: 'console', name: 'Console', powerWatts: 100, standards: [['hdmi', 1]] },
+      { id: 'streamer', name: 'Streamer', powerWatts: 5, standards: [['hdmi', 1]] },
+      { id: 'player', name: 'Blu-ray Player', powerWatts: 20, standards: [['hdmi', 1]] }
+    ]);
+
+    const analysis = await analyzer.analyzeSetup('user1');
+
+    expect(analysis.ports.find(p => p.deviceId === 'tv')).toMatchObject({ ports: 2, used: 2, requested: 3 });
+    expect(analysis.warnings.map(w => w.message)).toEqual(expect.arrayContaining([
+      'Blu-ray Player cannot be connected: no free compatible ports left on TV',
+      'TV needs 3 HDMI 2.1 port(s) but has 2'
+    ]));
+    expect(analysis.compatible).toBe('none');
+  });
+
+  it('should compare total power draw with the power strip', async () => {
+    mockLibrary([
+      { id: 'strip', name: 'Strip', category: 'Power Strips', specifications: { maxLoadWatts: 400, outlets: 2 }, standards: [['ac', 2]] },
+      { id: 'console', name: 'Console', powerWatts: 200, standards: [['ac', 1]] },
+      { id: 'tv', name: 'TV', powerWatts: 150, standards: [['ac', 1]] },
+      { id: 'lamp', name: 'Lamp', standards: [] }
+    ]);
+
+    const analysis = await analyzer.analyzeSetup('user1');
+
+    expect(analysis.power).toMatchObject({
+      totalWatts: 350,
+      capacityWatts: 400,
+      outlets: 2,
+      poweredDevices: 2,
+      powerStrips: ['strip'],
+      unknownDevices: ['lamp']
+    });
+    expect(analysis.warnings.filter(w => w.type === 'power').map(w => w.severity)).toEqual(['warning', 'info']);
+    // Power inputs do not link devices to each other
+    expect(analysis.edges).toEqual([]);
+    expect(analysis.compatible).toBe('partial');
+  });
+
+  it('should report an overloaded power strip as an error', async () => {
+    mockLibrary([
+      { id: 'strip', name: 'Strip', specifications: { maxLoadWatts: 300 }, standards: [] },
+      { id: 'console', name: 'Console', powerWatts: 200, standards: [] },
+      { id: 'tv', name: 'TV', powerWatts: 150, standards: [] }
+    ]);
+
+    const analysis = await analyzer.analyzeSetup('user1');
+
+    expect(analysis.warnings.find(w => w.type === 'power')).toMatchObject({
+      severity: 'error',
+      message: 'Total draw of 350 W exceeds the 300 W power strip capacity'
+    });
+  });
+
+  it('should check shared bandwidth on hubs', async () => {
+    mockLibrary([
+      { id: 'hub', name: 'USB Hub', specifications: { sharedBandwidthGbps: 5 }, standards: [['usb', 4]] },
+      { id: 'drive1', name: 'Drive 1', standards: [['usb', 1]] },
+      { id: 'drive2', name: 'Drive 2', specifications: { bandwidthGbps: 2 }, standards: [['usb', 1]] }
+    ]);
+
+    const analysis = await analyzer.analyzeSetup('user1');
+
+    expect(analysis.bandwidth).toEqual([
+      { deviceId: 'hub', capacityGbps: 5, demandGbps: 7, deviceIds: ['drive1', 'drive2'] }
+    ]);
+    expect(analysis.warnings.find(w => w.type === 'bandwidth')?.message)
+      .toBe('Devices on USB Hub can use up to 7 Gbps but its ports share 5 Gbps');
+  });
+
+  it('should surface incompatible and unchecked edges', async () => {
+    mockLibrary([
+      { id: 'console', name: 'Console', standards: [['hdmi', 1]] },
+      { id: 'tv', name: 'TV', standards: [['hdmi', 2]] }
+    ]);
+    vi.mocked(compatibilityEngine.checkCompatibility).mockResolvedValue(compatible('none') as never);
+
+    const analysis = await analyzer.analyzeSetup('user1');
+
+    expect(analysis.warnings.find(w => w.type === 'compatibility')?.message).toBe('Console and TV are not compatible');
+    expect(analysis.compatible).toBe('none');
+
+    vi.mocked(compatibilityEngine.checkCompatibility).mockRejectedValue(new Error('Device specification not found'));
+    const unchecked = await analyzer.analyzeSetup('user1');
+
+    expect(unchecked.edges[0]).toMatchObject({ connected: true, result: null, error: 'Device specification not found' });
+    expect(unchecked.warnings[0].severity).toBe('warning');
+  });
+
+  it('should throw for unknown users', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(null as never);
+
+    await expect(analyzer.analyzeSetup('missing')).rejects.toThrow('User with id missing not found');
+  });
+});
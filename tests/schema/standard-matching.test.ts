@@ -0,0 +1,82 @@
+/**
+ * Tests for standards-based device matching
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { matchStandards, DeviceStandardInfo, StandardRuleInfo } from '@/lib/schema/standard-matching';
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {}
+}));
+
+const standard = (standardId: string, portCount = 1, verified = true): DeviceStandardInfo => ({
+  standardId,
+  name: standardId.toUpperCase(),
+  category: 'data',
+  version: null,
+  portCount,
+  verified
+});
+
+const rule = (standardAId: string, standardBId: string, compatibilityType: string): StandardRuleInfo => ({
+  id: `${standardAId}-${standardBId}`,
+  standardAId,
+  standardBId,
+  compatibilityType,
+  description: null,
+  limitations: compatibilityType === 'partial' ? ['Reduced bandwidth'] : []
+});
+
+describe('Standard Matching', () => {
+  it('should match devices sharing a standard', () => {
+    const result = matchStandards([standard('hdmi-2.1')], [standard('hdmi-2.1', 4)], []);
+
+    expect(result.compatible).toBe('full');
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].via).toBe('same_standard');
+    expect(result.matches[0].connections).toBe(1);
+  });
+
+  it('should apply rules in both directions', () => {
+    const forward = matchStandards([standard('hdmi-2.1')], [standard('hdmi-2.0')], [rule('hdmi-2.1', 'hdmi-2.0', 'partial')]);
+    const reverse = matchStandards([standard('hdmi-2.0')], [standard('hdmi-2.1')], [rule('hdmi-2.1', 'hdmi-2.0', 'partial')]);
+
+    expect(forward.compatible).toBe('partial');
+    expect(reverse.compatible).toBe('partial');
+    expect(reverse.matches[0].ruleId).toBe('hdmi-2.1-hdmi-2.0');
+    expect(reverse.matches[0].limitations).toEqual(['Reduced bandwidth']);
+  });
+
+  it('should prefer fully compatible pairs when allocating connections', () => {
+    const result = matchStandards(
+      [standard('usb-c'), standard('hdmi-2.1')],
+      [standard('hdmi-2.1'), standard('displayport')],
+      [rule('usb-c', 'displayport', 'partial')]
+    );
+
+    expect(result.compatible).toBe('full');
+    expect(result.matches.find(m => m.targetStandard.id === 'hdmi-2.1')!.connections).toBe(1);
+    expect(result.matches.find(m => m.targetStandard.id === 'displayport')!.connections).toBe(0);
+  });
+
+  it('should be partial when the target runs out of ports', () => {
+    const hub = [standard('usb-c', 2)];
+
+    const threeLinks = matchStandards([standard('usb-c', 3)], hub, [], { connections: 3 });
+    const thirdPeripheral = matchStandards([standard('usb-c')], hub, [], { portUsage: { 'usb-c': 2 } });
+
+    expect(threeLinks.compatible).toBe('partial');
+    expect(threeLinks.portShortfall).toEqual({ required: 3, available: 2, standards: ['USB-C'] });
+    expect(thirdPeripheral.compatible).toBe('partial');
+    expect(thirdPeripheral.portShortfall!.available).toBe(0);
+  });
+
+  it('should be none when no standards pair up', () => {
+    const result = matchStandards([standard('usb-a')], [standard('hdmi-2.1')], [rule('usb-a', 'hdmi-2.1', 'none')]);
+
+    expect(result.compatible).toBe('none');
+    expect(result.hasStandards).toBe(true);
+    expect(result.matches[0].compatibility).toBe('none');
+  });
+});
@@ -188,9 +188,9 @@ describe('CategoryTemplateManager', () => {
 
       // Check screenSize field
       expect(fields.screenSize.type).toBe('number');
-      expect(fields.screenSize.constraints?.min).toBe(1);
-      expect(fields.screenSize.constraints?.max).toBe(200);
-      expect(fields.screenSize.constraints?.unit).toBe('inches');
+      expect(fields.screenSize.constraints?.min).toBe(2.5);
+      expect(fields.screenSize.constraints?.max).toBe(508);
+      expect(fields.screenSize.constraints?.unit).toBe('cm');
 
       // Check panelType field
       expect(fields.panelType.type).toBe('enum');
@@ -0,0 +1,93 @@
+/**
+ * Tests for unit-tagged values and display conversion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  displayUnit,
+  formatQuantity,
+  normalizeQuantity,
+  normalizeSpecificationUnits,
+  parseQuantity,
+  validateFieldUnits
+} from '@/lib/schema/units';
+import { FieldDefinition } from '@/lib/schema/types';
+
+describe('Units', () => {
+  it('should parse numbers with and without units', () => {
+    expect(parseQuantity('27 in')).toMatchObject({ value: 27, unit: { symbol: 'in' } });
+    expect(parseQuantity('2.5 kg')).toMatchObject({ value: 2.5, unit: { symbol: 'kg' } });
+    expect(parseQuantity('65W')).toMatchObject({ value: 65, unit: { symbol: 'W' } });
+    expect(parseQuantity('120Hz')).toMatchObject({ value: 120, unit: { symbol: 'Hz' } });
+    expect(parseQuantity('27"')).toMatchObject({ value: 27, unit: { symbol: 'in' } });
+    expect(parseQuantity('27-inch')).toMatchObject({ value: 27, unit: { symbol: 'in' } });
+    expect(parseQuantity('1,200 mAh')).toMatchObject({ value: 1200, unit: { symbol: 'mAh' } });
+    expect(parseQuantity('42')).toEqual({ value: 42 });
+    expect(parseQuantity(42)).toEqual({ value: 42 });
+
+    expect(parseQuantity('27 furlongs')).toBeNull();
+    expect(parseQuantity('in')).toBeNull();
+    expect(parseQuantity(true)).toBeNull();
+  });
+
+  it('should convert input to the canonical unit', () => {
+    expect(normalizeQuantity('27 in', 'cm')).toBe(68.58);
+    expect(normalizeQuantity('5 lb', 'kg')).toBe(2.26796185);
+    expect(normalizeQuantity('0.065 kW', 'W')).toBe(65);
+    expect(normalizeQuantity('12', 'cm', 'in')).toBe(30.48);
+    expect(normalizeQuantity('12', 'cm')).toBe(12);
+
+    expect(() => normalizeQuantity('65W', 'cm')).toThrow('Cannot convert W (power) to cm (length)');
+    expect(() => normalizeQuantity('65W')).toThrow('Cannot store a value in W in a field without a unit');
+    expect(() => normalizeQuantity('big', 'cm')).toThrow('Invalid quantity: "big"');
+  });
+
+  it('should convert stored values for display in a measurement system', () => {
+    expect(displayUnit('cm', 'imperial')).toBe('in');
+    expect(displayUnit('kg', 'imperial')).toBe('lb');
+    expect(displayUnit('inches', 'metric')).toBe('cm');
+    expect(displayUnit('ft', 'metric')).toBe('m');
+    expect(displayUnit('W', 'imperial')).toBe('W');
+
+    expect(formatQuantity(68.58, 'cm', 'imperial')).toBe('27 in');
+    expect(formatQuantity(27, 'in', 'metric')).toBe('68.58 cm');
+    expect(formatQuantity(27, 'in', 'imperial')).toBe('27 in');
+  });
+
+  it('should normalize the unit-tagged values of a specification', () => {
+    const fields: Record<string, FieldDefinition> = {
+      screenSize: { type: 'number', constraints: { unit: 'cm' }, metadata: { label: 'Screen Size' } },
+      power: { type: 'number', constraints: { unit: 'W' }, metadata: { label: 'Power' } },
+      model: { type: 'string', metadata: { label: 'Model' } }
+    };
+
+    const result = normalizeSpecificationUnits(fields, { screenSize: '27 in', power: '5 kg', model: '27 in' });
+
+    expect(result.values).toEqual({ screenSize: 68.58, power: '5 kg', model: '27 in' });
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'power', code: 'INVALID_UNIT', severity: 'error' })
+    ]);
+  });
+
+  it('should only accept metric storage units on number fields', () => {
+    const field = (unit: string): FieldDefinition => ({ type: 'number', constraints: { unit }, metadata: { label: unit } });
+
+    expect(() => validateFieldUnits({ screenSize: field('cm'), power: field('W'), price: field('USD') })).not.toThrow();
+    expect(() => validateFieldUnits({ screenSize: field('inches') }))
+      .toThrow("Field 'screenSize' must be stored in a metric unit, not in; use cm");
+    expect(() => validateFieldUnits({
+      stand: { type: 'object', properties: { weight: field('lb') }, metadata: { label: 'Stand' } }
+    })).toThrow("Field '/stand/weight' must be stored in a metric unit, not lb; use kg");
+  });
+
+  it('should only check fields that are new or changed', () => {
+    const field = (unit: string, label = unit): FieldDefinition => ({ type: 'number', constraints: { unit }, metadata: { label } });
+    const previousFields = { screenSize: field('in') };
+
+    expect(() => validateFieldUnits({ screenSize: field('in'), power: field('W') }, previousFields)).not.toThrow();
+    expect(() => validateFieldUnits({ screenSize: field('in', 'Screen Size') }, previousFields))
+      .toThrow("Field 'screenSize' must be stored in a metric unit, not in; use cm");
+    expect(() => validateFieldUnits({ screenSize: field('in'), weight: field('lb') }, previousFields))
+      .toThrow("Field 'weight' must be stored in a metric unit, not lb; use kg");
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for Use-Case Profiles
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UseCaseProfileRegistry } from '@/lib/schema/use-case-profiles';
+import { CategorySchema } from '@/lib/schema/types';
+import { prisma } from '@/lib/database';
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {
+    compatibilityProfile: {
+      findUnique: vi.fn(),
+      findMany: vi.fn()
+    }
+  },
+  ValidationError: class ValidationError extends Error {
+    constructor(message: string, public field?: string) {
+      super(message);
+      this.name = 'ValidationError';
+    }
+  }
+}));
+
+const managedRecord = {
+  useCase: '4k120-gaming',
+  name: '4K120 Gaming (TVs)',
+  description: null,
+  sourceCategoryId: 'consoles',
+  targetCategoryId: 'tvs',
+  fieldWeights: { refreshRate: 1 },
+  constraints: [],
+  fullThreshold: 0.95,
+  partialThreshold: 0.5
+};
+
+describe('UseCaseProfileRegistry', () => {
+  let registry: UseCaseProfileRegistry;
+
+  beforeEach(() => {
+    registry = new UseCaseProfileRegistry();
+    vi.clearAllMocks();
+  });
+
+  it('should prefer profiles managed for the category pair', async () => {
+    vi.mocked(prisma.compatibilityProfile.findUnique).mockResolvedValueOnce(managedRecord as never);
+
+    const profile = await registry.resolveProfile('4k120-gaming', 'consoles', 'tvs');
+
+    expect(prisma.compatibilityProfile.findUnique).toHaveBeenCalledWith({
+      where: {
+        useCase_sourceCategoryId_targetCategoryId: { useCase: '4k120-gaming', sourceCategoryId: 'consoles', targetCategoryId: 'tvs' }
+      }
+    });
+    expect(profile).toMatchObject({ name: '4K120 Gaming (TVs)', fullThreshold: 0.95, builtIn: false });
+    expect(profile.description).toBeUndefined();
+  });
+
+  it('should fall back to built-in profiles and reject unknown use cases', async () => {
+    vi.mocked(prisma.compatibilityProfile.findUnique).mockResolvedValue(null as never);
+
+    const profile = await registry.resolveProfile('hdr-movies', 'consoles', 'tvs');
+    expect(profile).toMatchObject({ name: 'HDR Movie Playback', builtIn: true });
+
+    await expect(registry.resolveProfile('karaoke', 'consoles', 'tvs')).rejects.toThrow('Unknown use case: karaoke');
+  });
+
+  it('should list built-ins that the pair does not override', async () => {
+    vi.mocked(prisma.compatibilityProfile.findMany).mockResolvedValue([managedRecord] as never);
+
+    const forPair = await registry.listProfiles('consoles', 'tvs');
+    expect(forPair.filter(profile => profile.useCase === '4k120-gaming')).toHaveLength(1);
+    expect(forPair[0].builtIn).toBe(false);
+
+    const all = await registry.listProfiles();
+    expect(all.filter(profile => profile.useCase === '4k120-gaming')).toHaveLength(2);
+  });
+
+  it('should only turn constraints with known fields into rules', () => {
+    const profile = registry.getBuiltInProfiles().find(p => p.useCase === '4k120-gaming')!;
+    const schema = (fields: string[]) => ({
+      fields: Object.fromEntries(fields.map(field => [field, { type: 'string', metadata: { label: field } }]))
+    } as unknown as CategorySchema);
+
+    const rules = registry.getConstraintRules(profile, schema(['maxResolution']), schema(['resolution']));
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0]).toMatchObject({
+      severity: 'partial',
+      rule: { id: 'profile:4k120-gaming:4k-output', compatibilityType: 'full', sourceField: 'maxResolution' }
+    });
+  });
+
+  it('should validate profile definitions', () => {
+    expect(registry.getBuiltInProfiles().flatMap(profile => registry.validateProfile(profile))).toEqual([]);
+
+    const errors = registry.validateProfile({
+      useCase: 'Movie Night',
+      name: 'Movie night',
+      fieldWeights: { hdrFormats: -1 },
+      fullThreshold: 0.3,
+      partialThreshold: 0.5,
+      constraints: [
+        { id: 'hdr', sourceField: 'hdrSupport', targetField: 'hdrFormats', condition: 'overlaps(source,', severity: 'partial', message: 'HDR' }
+      ]
+    });
+
+    expect(errors).toEqual([
+      'useCase must be a lowercase key such as "4k120-gaming"',
+      'partialThreshold cannot be higher than fullThreshold',
+      'Weight for hdrFormats must be a non-negative number',
+      expect.stringMatching(/^Constraint hdr: /)
+    ]);
+  });
+});
@@ -405,4 +405,229 @@ describe('SchemaValidator', () => {
       )).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('Rule Conditions', () => {
+    const schema: CategorySchema = {
+      id: 'test-schema',
+      name: 'Test Schema',
+      version: '1.0.0',
+      fields: {
+        name: {
+          type: 'string',
+          constraints: { required: true },
+          metadata: { label: 'Name', importance: 'critical', weight: 1.0 }
+        },
+        screenSize: {
+          type: 'number',
+          constraints: { unit: 'inches' },
+          metadata: { label: 'Screen Size', importance: 'high', weight: 0.8 }
+        }
+      },
+      requiredFields: ['name'],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: 'test-user'
+    };
+
+    const withValidationRule = (condition: string): CategorySchema => ({
+      ...schema,
+      validationRules: [{
+        id: 'size-rule',
+        name: 'Size Rule',
+        description: 'Screen size must be within limits',
+        condition,
+        errorMessage: 'Screen too large',
+        severity: 'error'
+      }]
+    });
+
+    it('should reject validation rules with invalid conditions', () => {
+      expect(validator.validateSchema(withValidationRule('screenSize < 100in')).isValid).toBe(true);
+
+      const unknownField = validator.validateSchema(withValidationRule('screenSzie < 100in'));
+      expect(unknownField.errors.some(e => e.includes("Unknown field 'screenSzie'"))).toBe(true);
+
+      const badUnit = validator.validateSchema(withValidationRule('screenSize < 10kg'));
+      expect(badUnit.isValid).toBe(false);
+    });
+
+    it('should evaluate validation rules with field units', () => {
+      const specification: DeviceSpecification = {
+        deviceId: 'device-1',
+        categoryId: 'test-schema',
+        schemaVersion: '1.0.0',
+        specifications: { name: 'Big Screen', screenSize: 120 },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const result = validator.validateSpecification(specification, withValidationRule('screenSize < 2m'));
+      expect(result.fieldErrors.some(e => e.code === 'CUSTOM_VALIDATION_FAILED')).toBe(true);
+    });
+
+    it('should type-check compatibility rule conditions against both schemas', () => {
+      const rule = { name: 'Size', sourceField: 'screenSize', targetField: 'screenSize', condition: 'source <= target' };
+
+      expect(validator.validateCompatibilityRuleCondition(rule, schema, schema)).toEqual([]);
+      expect(validator.validateCompatibilityRuleCondition(
+        { ...rule, condition: 'source <= targetDevice.name' }, schema, schema
+      )[0]).toMatch(/Cannot compare number with string/);
+    });
+
+    it('should let compatibility rule conditions read computed fields', () => {
+      const withComputed: CategorySchema = { ...schema, computedFields: { pixelDensity: 'ppi(screenSize)' } };
+      const rule = { name: 'Density', sourceField: 'screenSize', targetField: 'screenSize', condition: 'sourceDevice.pixelDensity >= 100' };
+
+      expect(validator.validateCompatibilityRuleCondition(rule, withComputed, schema)).toEqual([]);
+      expect(validator.validateCompatibilityRuleCondition(
+        { ...rule, condition: 'targetDevice.pixelDensity >= 100' }, withComputed, schema
+      )[0]).toMatch(/Unknown field 'pixelDensity'/);
+    });
+  });
+
+  describe('Conditional Fields', () => {
+    const field = (type: FieldDefinition['type'], extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+      ({ type, metadata: { label: type }, ...extra });
+
+    const schema: CategorySchema = {
+      id: 'monitors',
+      name: 'Monitors',
+      version: '1.0.0',
+      fields: {
+        hdrSupport: field('boolean'),
+        hdrFormat: field('enum', { constraints: { enum: ['HDR10', 'Dolby Vision'] }, visibleWhen: 'hdrSupport == true' }),
+        powerType: field('enum', { constraints: { enum: ['Mains', 'Battery'] } }),
+        batteryCapacity: field('number', { requiredWhen: 'powerType == "Battery"' })
+      },
+      requiredFields: ['hdrFormat'],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: 'test-user'
+    };
+
+    const validate = (specifications: Record<string, unknown>) => validator.validateSpecification({
+      deviceId: 'device-1',
+      categoryId: 'monitors',
+      schemaVersion: '1.0.0',
+      specifications,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }, schema).fieldErrors;
+
+    it('should only require fields while their conditions hold', () => {
+      expect(validate({ hdrSupport: false, powerType: 'Mains' })).toEqual([]);
+
+      expect(validate({ hdrSupport: true, powerType: 'Battery' })).toEqual([
+        expect.objectContaining({ field: 'hdrFormat', code: 'REQUIRED_FIELD_MISSING' }),
+        expect.objectContaining({
+          field: 'batteryCapacity',
+          code: 'REQUIRED_FIELD_MISSING',
+          message: `Field 'batteryCapacity' is required when powerType == "Battery"`
+        })
+      ]);
+
+      expect(validate({ hdrSupport: true, hdrFormat: 'HDR10', powerType: 'Battery', batteryCapacity: null }))
+        .toEqual([expect.objectContaining({ field: 'batteryCapacity', code: 'REQUIRED_FIELD_EMPTY' })]);
+    });
+
+    it('should warn about values of fields that do not apply', () => {
+      expect(validate({ hdrSupport: false, hdrFormat: 'HDR12' })).toEqual([
+        expect.objectContaining({ field: 'hdrFormat', code: 'FIELD_NOT_APPLICABLE', severity: 'warning' })
+      ]);
+    });
+
+    it('should type-check field conditions', () => {
+      expect(validator.validateSchema(schema).errors).toEqual([]);
+
+      const invalid = validator.validateSchema({
+        ...schema,
+        fields: {
+          ...schema.fields,
+          hdrFormat: { ...schema.fields.hdrFormat, visibleWhen: 'hdrSuport == true' },
+          batteryCapacity: { ...schema.fields.batteryCapacity, requiredWhen: 'batteryCapacity > 0' }
+        }
+      });
+      expect(invalid.errors).toEqual([
+        "Field 'hdrFormat' has an invalid visibleWhen condition: Unknown field 'hdrSuport'",
+        "Field 'batteryCapacity' requiredWhen condition cannot refer to the field itself"
+      ]);
+    });
+  });
+
+  describe('Nested Fields', () => {
+    const field = (type: FieldDefinition['type'], extra: Partial<FieldDefinition> = {}): FieldDefinition =>
+      ({ type, metadata: { label: type }, ...extra });
+
+    const schema: CategorySchema = {
+      id: 'docks',
+      name: 'Docks',
+      version: '1.0.0',
+      fields: {
+        ports: field('array', {
+          constraints: { maxLength: 3 },
+          items: {
+            type: 'object',
+            metadata: { label: 'Port' },
+            properties: {
+              type: field('enum', { constraints: { required: true, enum: ['USB-C', 'HDMI'] } }),
+              version: field('string'),
+              count: field('number', { constraints: { min: 1 } })
+            }
+          }
+        })
+      },
+      requiredFields: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: 'test-user'
+    };
+
+    const validate = (specifications: Record<string, unknown>) => validator.validateSpecification({
+      deviceId: 'device-1',
+      categoryId: 'docks',
+      schemaVersion: '1.0.0',
+      specifications,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }, schema).fieldErrors;
+
+    it('should validate nested values with JSON pointer paths', () => {
+      expect(validate({ ports: [{ type: 'USB-C', version: '3.2', count: 2 }] })).toEqual([]);
+
+      expect(validate({ ports: [{ type: 'HDMI', count: 0 }, { version: 2, speed: 10 }] })).toEqual([
+        expect.objectContaining({ field: '/ports/0/count', code: 'MIN_VALUE_VIOLATION' }),
+        expect.objectContaining({ field: '/ports/1/type', code: 'REQUIRED_FIELD_EMPTY' }),
+        expect.objectContaining({ field: '/ports/1/version', code: 'INVALID_TYPE' }),
+        expect.objectContaining({ field: '/ports/1/speed', code: 'UNDEFINED_FIELD', severity: 'warning' })
+      ]);
+
+      expect(validate({ ports: [{ type: 'HDMI' }, { type: 'HDMI' }, { type: 'HDMI' }, 'VGA'] })).toEqual([
+        expect.objectContaining({ field: 'ports', code: 'MAX_LENGTH_VIOLATION' }),
+        expect.objectContaining({ field: '/ports/3', code: 'INVALID_TYPE' })
+      ]);
+    });
+
+    it('should validate nested field definitions', () => {
+      expect(validator.validateSchema(schema).errors).toEqual([]);
+
+      const invalid = validator.validateSchema({
+        ...schema,
+        fields: {
+          ports: {
+            ...schema.fields.ports,
+            items: {
+              ...schema.fields.ports.items!,
+              properties: { type: { type: 'enum', metadata: { label: '' }, constraints: {} } }
+            }
+          },
+          name: field('string', { items: field('string') })
+        }
+      });
+      expect(invalid.errors).toEqual([
+        "Field '/ports/type' enum type must have enum constraint with values",
+        "Field '/ports/type' must have metadata with label",
+        "Field 'name' defines items but is not an array"
+      ]);
+    });
+  });
+});
@@ -330,6 +330,90 @@ describe('SchemaVersionManager', () => {
       expect(migratedSpec.confidenceScores).toHaveProperty('newField');
       expect(migratedSpec.sources).toHaveProperty('newField');
     });
+
+    it('should keep existing values and fill empty ones with new defaults', () => {
+      const specification: DeviceSpecification = {
+        deviceId: 'device-1',
+        categoryId: 'test-schema',
+        schemaVersion: '1.0.0',
+        specifications: { name: '', addedField: 'kept', count: '4' },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const migration: SchemaMigration = {
+        id: 'migration-1',
+        categoryId: 'test-schema',
+        fromVersion: '1.0.0',
+        toVersion: '1.1.0',
+        operations: [
+          {
+            type: 'add_field',
+            field: 'addedField',
+            definition: {
+              type: 'string',
+              metadata: { label: 'Added Field', importance: 'low', weight: 0.3 },
+              defaultValue: 'default'
+            }
+          },
+          { type: 'modify_field', field: 'name', changes: { defaultValue: 'Unnamed' } },
+          { type: 'modify_field', field: 'model', changes: { defaultValue: 'Unknown' } },
+          { type: 'modify_field', field: 'count', changes: { type: 'number' } }
+        ],
+        createdAt: new Date()
+      };
+
+      const migratedSpec = versionManager.migrateSpecification(specification, migration);
+
+      expect(migratedSpec.specifications).toEqual({ name: 'Unnamed', addedField: 'kept', count: 4, model: 'Unknown' });
+    });
+
+    it('should convert stored values when a field unit changes', () => {
+      const fromSchema: CategorySchema = {
+        id: 'test-schema',
+        name: 'Test Schema',
+        version: '1.0.0',
+        fields: {
+          screenSize: {
+            type: 'number',
+            constraints: { unit: 'in', min: 10 },
+            metadata: { label: 'Screen Size' }
+          }
+        },
+        requiredFields: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy: 'test-user'
+      };
+      const toSchema: CategorySchema = {
+        ...fromSchema,
+        version: '2.0.0',
+        fields: {
+          screenSize: {
+            type: 'number',
+            constraints: { unit: 'cm', min: 25.4 },
+            metadata: { label: 'Screen Size' }
+          }
+        }
+      };
+
+      const operations = versionManager.generateMigrationOperations(fromSchema, toSchema);
+      expect(operations).toEqual([expect.objectContaining({ type: 'modify_field', field: 'screenSize', fromUnit: 'in' })]);
+
+      const migratedSpec = versionManager.migrateSpecification(
+        {
+          deviceId: 'device-1',
+          categoryId: 'test-schema',
+          schemaVersion: '1.0.0',
+          specifications: { screenSize: 55 },
+          createdAt: new Date(),
+          updatedAt: new Date()
+        },
+        { id: 'migration-1', categoryId: 'test-schema', fromVersion: '1.0.0', toVersion: '2.0.0', operations, createdAt: new Date() }
+      );
+
+      expect(migratedSpec.specifications.screenSize).toBe(139.7);
+    });
   });
 
   describe('Migration Safety', () => {
@@ -375,6 +459,102 @@ describe('SchemaVersionManager', () => {
     });
   });
 
+  describe('Version Bump', () => {
+    const schema = (fields: CategorySchema['fields'], requiredFields: string[] = []): CategorySchema => ({
+      id: 'monitors',
+      name: 'Monitors',
+      version: '1.2.0',
+      fields,
+      requiredFields,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: 'test-user'
+    });
+    const name = { type: 'string' as const, metadata: { label: 'Name', importance: 'high' as const, weight: 1 } };
+    const size = { type: 'number' as const, metadata: { label: 'Size', importance: 'low' as const, weight: 0.2 } };
+
+    it('should choose major, minor or patch from the changes', () => {
+      const from = schema({ name });
+
+      expect(versionManager.getVersionBump(from, schema({ name, size }))).toBe('minor');
+      expect(versionManager.getVersionBump(from, schema({}))).toBe('major');
+      expect(versionManager.getVersionBump(from, schema({ name }, ['name']))).toBe('major');
+      expect(versionManager.getVersionBump(from, { ...from, description: 'Computer monitors' })).toBe('patch');
+    });
+
+    it('should complete short version numbers', () => {
+      expect(versionManager.incrementVersion('1.0', 'patch')).toBe('1.0.1');
+    });
+  });
+
+  describe('Schema Merge', () => {
+    const field = (label: string, weight = 0.5) =>
+      ({ type: 'string' as const, metadata: { label, importance: 'medium' as const, weight } });
+    const base: CategorySchema = {
+      id: 'monitors',
+      name: 'Monitors',
+      version: '1.0.0',
+      fields: { name: field('Name'), panel: field('Panel'), refresh: field('Refresh') },
+      requiredFields: ['name'],
+      createdAt: new Date('2026-01-01'),
+      updatedAt: new Date('2026-01-01'),
+      createdBy: 'test-user'
+    };
+
+    it('should merge edits that touch different fields and properties', () => {
+      const current = {
+        ...base,
+        version: '1.1.0',
+        fields: { ...base.fields, panel: field('Panel Type'), hdr: field('HDR') },
+        requiredFields: ['name', 'panel']
+      };
+      const proposed = {
+        ...base,
+        description: 'Computer monitors',
+        fields: { name: field('Name'), panel: field('Panel', 0.8), size: field('Size') }
+      };
+
+      const result = versionManager.mergeSchemas(base, current, proposed);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged.version).toBe('1.1.0');
+      expect(result.merged.description).toBe('Computer monitors');
+      expect(Object.keys(result.merged.fields)).toEqual(['name', 'panel', 'hdr', 'size']);
+      expect(result.merged.fields.panel.metadata).toMatchObject({ label: 'Panel Type', weight: 0.8 });
+      expect(result.merged.requiredFields).toEqual(['name', 'panel']);
+      expect(result.merged.createdAt).toEqual(base.createdAt);
+      expect(result.applied.map(operation => operation.type)).toEqual(['modify_field', 'add_field', 'remove_field']);
+    });
+
+    it('should report properties both edits changed differently', () => {
+      const current = {
+        ...base,
+        version: '1.1.0',
+        name: 'Displays',
+        fields: { ...base.fields, panel: field('Panel Type') }
+      };
+      const proposed = {
+        ...base,
+        name: 'Screens',
+        fields: { name: field('Name'), panel: field('Panel Kind'), refresh: field('Refresh') }
+      };
+      delete (current.fields as Record<string, unknown>).refresh;
+      proposed.fields.refresh = field('Refresh Rate');
+
+      const result = versionManager.mergeSchemas(base, current, proposed);
+
+      expect(result.conflicts.map(conflict => conflict.path)).toEqual([
+        'fields.panel.metadata.label',
+        'fields.refresh',
+        'name'
+      ]);
+      expect(result.conflicts[0]).toMatchObject({ base: 'Panel', current: 'Panel Type', proposed: 'Panel Kind' });
+      expect(result.conflicts[1].message).toBe('fields.refresh was removed by another edit but changed in this one');
+      expect(result.merged.name).toBe('Displays');
+      expect(result.merged.fields.panel.metadata.label).toBe('Panel Type');
+    });
+  });
+
   describe('Migration Path Finding', () => {
     it('should find direct migration path', () => {
       const migrations: SchemaMigration[] = [
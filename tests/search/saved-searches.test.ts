@@ -0,0 +1,157 @@
+/**
+ * Tests for saved searches and their new match alerts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SavedSearchManager, serializeSearch } from '@/lib/saved-searches';
+import { schemaRegistry } from '@/lib/schema/registry';
+import { prisma, ValidationError } from '@/lib/database';
+
+// Mock the schema registry
+vi.mock('@/lib/schema/registry', () => ({
+  schemaRegistry: {
+    initialize: vi.fn(),
+    getResolvedSchema: vi.fn()
+  }
+}));
+
+// Mock the database module
+vi.mock('@/lib/database', () => {
+  const prisma = {
+    $transaction: vi.fn(),
+    $executeRawUnsafe: vi.fn(),
+    savedSearch: { create: vi.fn(), findFirst: vi.fn(), findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+    savedSearchMatch: { deleteMany: vi.fn() }
+  };
+  prisma.$transaction.mockImplementation((operations: unknown[]) => Promise.all(operations));
+
+  return {
+    prisma,
+    NotFoundError: class NotFoundError extends Error {
+      constructor(resource: string, id?: string) {
+        super(`${resource}${id ? ` with id ${id}` : ''} not found`);
+        this.name = 'NotFoundError';
+      }
+    },
+    ValidationError: class ValidationError extends Error {
+      constructor(message: string) {
+        super(message);
+        this.name = 'ValidationError';
+      }
+    }
+  };
+});
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  id: 'search-1',
+  userId: 'user-1',
+  name: 'OLED 120Hz',
+  searchParams: 'q=oled&categoryId=monitors',
+  categoryId: 'monitors',
+  alertsEnabled: true,
+  lastRunAt: null,
+  createdAt: new Date('2026-10-01'),
+  updatedAt: new Date('2026-10-01'),
+  category: { id: 'monitors', name: 'Monitors' },
+  _count: { matches: 0 },
+  ...overrides
+});
+
+describe('Saved Searches', () => {
+  let manager: SavedSearchManager;
+
+  beforeEach(() => {
+    manager = new SavedSearchManager();
+    vi.clearAllMocks();
+    vi.mocked(schemaRegistry.getResolvedSchema).mockReturnValue(null);
+  });
+
+  it('should store the search page parameters without pagination', async () => {
+    vi.mocked(prisma.savedSearch.create).mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+      Promise.resolve(record(data)));
+
+    const saved = await manager.create('user-1', {
+      name: ' OLED 120Hz ',
+      query: 'oled',
+      filters: { categoryId: 'monitors', power: { max: '60W' } }
+    });
+
+    expect(serializeSearch('oled', { categoryId: 'monitors' })).toBe('q=oled&categoryId=monitors');
+    expect(vi.mocked(prisma.savedSearch.create).mock.calls[0][0].data).toMatchObject({
+      userId: 'user-1',
+      name: 'OLED 120Hz',
+      searchParams: 'q=oled&categoryId=monitors&powerMax=60W',
+      categoryId: 'monitors',
+      alertsEnabled: false
+    });
+    expect(saved.query).toBe('oled');
+    expect(saved.filters).toEqual({ categoryId: 'monitors', power: { min: undefined, max: '60W' } });
+  });
+
+  it('should reject searches the search page would reject', async () => {
+    await expect(manager.create('user-1', { name: '' })).rejects.toThrow(ValidationError);
+    await expect(manager.create('user-1', { name: 'Wide', filters: { dimensions: { widthMin: 'wide' } } }))
+      .rejects.toThrow(/widthMin/);
+    await expect(manager.create('user-1', { name: 'Big', filters: { specifications: { screenSize: { min: true } } } }))
+      .rejects.toThrow(/screenSize\.min/);
+    expect(prisma.savedSearch.create).not.toHaveBeenCalled();
+  });
+
+  it('should record the current matches as seen on the first alert run', async () => {
+    vi.mocked(prisma.savedSearch.findUnique).mockResolvedValue(record());
+    vi.mocked(prisma.$executeRawUnsafe).mockResolvedValue(12);
+
+    expect(await manager.runAlert('search-1')).toBe(0);
+
+    const [text, ...params] = vi.mocked(prisma.$executeRawUnsafe).mock.calls[0];
+    expect(text).toContain('INSERT INTO saved_search_matches');
+    expect(text).toContain('FROM (SELECT d.id FROM devices d WHERE');
+    expect(text).toContain('ON CONFLICT (saved_search_id, device_id) DO NOTHING');
+    const runAt = vi.mocked(prisma.savedSearch.update).mock.calls[0][0].data.lastRunAt;
+    expect(params.slice(0, 3)).toEqual(['search-1', runAt, runAt]);
+  });
+
+  it('should report devices matching for the first time on later runs', async () => {
+    vi.mocked(prisma.savedSearch.findUnique).mockResolvedValue(record({ lastRunAt: new Date('2026-10-18') }));
+    vi.mocked(prisma.$executeRawUnsafe).mockResolvedValue(3);
+
+    expect(await manager.runAlert('search-1')).toBe(3);
+
+    const params = vi.mocked(prisma.$executeRawUnsafe).mock.calls[0].slice(1);
+    expect(params[2]).toBeNull();
+  });
+
+  it('should start a new baseline when the search changes', async () => {
+    vi.mocked(prisma.savedSearch.findFirst).mockResolvedValue(record({ _count: { matches: 3 } }));
+    vi.mocked(prisma.savedSearch.update).mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+      Promise.resolve(record(data)));
+
+    await manager.update('user-1', 'search-1', { name: 'OLED monitors' });
+    expect(prisma.savedSearchMatch.deleteMany).not.toHaveBeenCalled();
+
+    await manager.update('user-1', 'search-1', { query: 'oled 120hz' });
+    expect(prisma.savedSearchMatch.deleteMany).toHaveBeenCalledWith({ where: { savedSearchId: 'search-1' } });
+    expect(vi.mocked(prisma.savedSearch.update).mock.calls[1][0].data).toEqual({
+      searchParams: 'q=oled+120hz&categoryId=monitors',
+      categoryId: 'monitors',
+      lastRunAt: null
+    });
+  });
+
+  it('should run due alerts and report failing searches', async () => {
+    vi.mocked(prisma.savedSearch.findMany).mockResolvedValue([{ id: 'search-1' }, { id: 'search-2' }]);
+    vi.mocked(prisma.savedSearch.findUnique)
+      .mockResolvedValueOnce(record({ lastRunAt: new Date('2026-10-18') }))
+      .mockResolvedValueOnce(null);
+    vi.mocked(prisma.$executeRawUnsafe).mockResolvedValue(2);
+
+    const summary = await manager.runDueAlerts();
+
+    expect(summary).toEqual({
+      searched: 1,
+      newMatches: 2,
+      failed: [{ savedSearchId: 'search-2', error: 'Saved search with id search-2 not found' }]
+    });
+    expect(vi.mocked(prisma.savedSearch.findMany).mock.calls[0][0].where.alertsEnabled).toBe(true);
+  });
+});
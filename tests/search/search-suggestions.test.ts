@@ -0,0 +1,49 @@
+/**
+ * Tests for search autocomplete suggestions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { rankSuggestions } from '@/lib/db-utils';
+import { highlightMatches } from '@/lib/search-utils';
+import { fullTextSearch } from '@/lib/schema/full-text-search';
+
+// Mock the database module
+vi.mock('@/lib/database', () => ({
+  prisma: {},
+  handlePrismaError: vi.fn()
+}));
+
+describe('Search Suggestions', () => {
+  it('should complete the last word of a query by prefix', () => {
+    expect(fullTextSearch.prefixQuery('sony play')).toBe('sony & play:*');
+    expect(fullTextSearch.prefixQuery('OLED55C3 lg')).toBe('(oled55c3 | (oled & 55 & c & 3)) & lg:*');
+    expect(fullTextSearch.prefixQuery('  ')).toBeNull();
+  });
+
+  it('should rank prefix matches and popular entries first', () => {
+    const ranked = rankSuggestions('sam', [
+      { type: 'device', text: 'Samsung Odyssey G9', id: 'd1' },
+      { type: 'brand', text: 'Samsung', count: 240 },
+      { type: 'device', text: 'Galaxy Tab by Samsung', id: 'd2' },
+      { type: 'query', text: 'samsung', count: 3 },
+      { type: 'category', text: 'Sample Category', id: 'c1', count: 0 }
+    ], 4);
+
+    expect(ranked.map(suggestion => `${suggestion.type}:${suggestion.text}`)).toEqual([
+      'brand:Samsung',
+      'category:Sample Category',
+      'device:Samsung Odyssey G9',
+      'device:Galaxy Tab by Samsung'
+    ]);
+  });
+
+  it('should highlight the matched parts of a suggestion', () => {
+    expect(highlightMatches('Sony PlayStation 5', 'play 5')).toEqual([
+      { text: 'Sony ', match: false },
+      { text: 'Play', match: true },
+      { text: 'Station ', match: false },
+      { text: '5', match: true }
+    ]);
+    expect(highlightMatches('Dell', '')).toEqual([{ text: 'Dell', match: false }]);
+  });
+});